@@ -1,42 +1,36 @@
 
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { Client, Invoice, InvoiceItem, InventoryItem, Expense, AppSettings, Service, ServiceItem } from './types';
+import { Client, Invoice, InvoiceItem, InventoryItem, Expense, AppSettings, Service, ServiceItem, TaxSettings, TaxType, NcfType, NcfSequence, EcfType, EcfSequence, DgiiExpenseType, ExpensePaymentMethod, EcfSignature, Payment, PaymentMethod, DunningStage, ReminderLog, ReminderChannel, Quote, QuoteStatus, CreditNote, VoidReasonCode, BillingFrequency, ServiceContract, Equipment, CapacityUnit, MaintenanceVisit, MaintenanceVisitStatus, Technician, WorkOrder, WorkOrderStatus, WorkOrderJobType, WorkOrderMaterial, WorkOrderLabor, StockMovement, StockMovementReason, Supplier, PurchaseOrder, PurchaseOrderStatus, PurchaseOrderLine, PurchaseReceipt, CostingMethod, DocumentSeries, DocumentNumberFormat, DocumentCounter, AuditEntityType, AuditAction, AuditEntry } from './types';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell } from 'recharts';
 import { ICONS } from './constants';
+import { generateId, roundCurrency, formatDate, todayIso, daysBetween, addDays } from './utils';
+import { NO_TAX_RATES, InvoiceTotals, getItemTax, calculateInvoiceTotals } from './tax';
+import { getInvoicePayments, getAmountPaid, getInvoiceCreditNotes, getAmountCredited, getAmountRefunded, getBalanceDue, deriveInvoiceStatus } from './payments';
+import { NCF_TYPE_LABELS, NCF_DOCUMENT_TITLES, formatNcf, cleanTaxId, isValidTaxId, getClientNcfType, getNcfRemaining, isNcfSequenceUsable, takeNextNcf, getNcfAlerts } from './ncf';
+import { CONSUMER_ID_THRESHOLD, DgiiRowError, DGII_607_COLUMNS, DGII_608_COLUMNS, DGII_606_COLUMNS, DGII_EXPENSE_TYPE_LABELS, DEFAULT_DGII_EXPENSE_TYPES, DEFAULT_SUPPLY_TYPES, DGII_606_PAYMENT_CODES, ISR_WITHHOLDING_TYPES, toDgiiPeriod, build607, build608, build606, get607Cells, get608Cells, get606Cells, to607Txt, to608Txt, to606Txt } from './dgii';
+import { DOCUMENT_SERIES_LABELS, formatDocumentNumber, takeDocumentNumbers, auditDocumentNumbers } from './numbering';
+import { ECF_TYPE_LABELS, ECF_ENVIRONMENT_LABELS, formatEcfNumber, getInvoiceEcfNumber, validateEcfInvoice, buildEcfXml, validateEcfXml, loadP12Credentials, createEcfSignature } from './ecf';
+import { DEFAULT_SETTINGS } from './settings';
+import { usePersistentState, getAllData, restoreData } from './storage';
+import { BackupFile, RestoreMode, createBackup, parseBackup, buildRestoreData, previewRestore } from './backup';
+import { auditCollection, auditSingleRecord, getAuditLog, getRecordAuditTrail } from './audit';
+import { ImportTarget, ImportSheet, ImportMapping, ImportRow, IMPORT_FIELDS, IMPORT_TARGET_LABELS, readSpreadsheet, guessMapping, validateImport, toClientFields, toInventoryFields, toExpenseFields } from './importer';
 
 // Declare global variables from CDN scripts
 declare var jspdf: any;
 declare var html2canvas: any;
+declare var forge: any;
+declare var qrcode: any;
 
 // UTILITY FUNCTIONS
-const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('es-ES', { year: 'numeric', month: 'long', day: 'numeric' });
 const formatCurrency = (amount: number) => new Intl.NumberFormat('es-DO', { style: 'currency', currency: 'DOP' }).format(amount);
-const generateId = () => Math.random().toString(36).substr(2, 9);
-
-
-// CUSTOM HOOK for LocalStorage
-function useLocalStorage<T,>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
-    const [storedValue, setStoredValue] = useState<T>(() => {
-        try {
-            const item = window.localStorage.getItem(key);
-            return item ? JSON.parse(item) : initialValue;
-        } catch (error) {
-            console.error(error);
-            return initialValue;
-        }
-    });
-
-    const setValue = (value: T | ((val: T) => T)) => {
-        try {
-            const valueToStore = value instanceof Function ? value(storedValue) : value;
-            setStoredValue(valueToStore);
-            window.localStorage.setItem(key, JSON.stringify(valueToStore));
-        } catch (error) {
-            console.error(error);
-        }
-    };
 
-    return [storedValue, setValue];
-}
+// TAX (ITBIS) HELPERS
+const TAX_TYPE_LABELS: Record<TaxType, string> = {
+    'Gravado': 'Gravado',
+    'Reducido': 'Tasa reducida',
+    'Exento': 'Exento',
+};
 
 // PDF Generation Helper
 const generatePdf = async (elementId: string, fileName: string) => {
@@ -90,14 +84,37 @@ const generatePdf = async (elementId: string, fileName: string) => {
     }
 };
 
+// File Download Helpers
+const downloadFile = (content: string, fileName: string, mimeType: string) => {
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+};
+
+const toCsv = (rows: (string | number)[][]) => rows
+    .map(row => row.map(cell => {
+        const text = String(cell);
+        return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }).join(','))
+    .join('\r\n');
+
+// The BOM makes Excel open the file as UTF-8 so accented names survive.
+const downloadCsv = (rows: (string | number)[][], fileName: string) => downloadFile(`\uFEFF${toCsv(rows)}`, `${fileName}.csv`, 'text/csv;charset=utf-8');
+
 
 // UI Components
 const Card: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className }) => (
     <div className={`bg-white rounded-xl shadow-md p-6 ${className}`}>{children}</div>
 );
 
-const Button: React.FC<{ onClick?: () => void; children: React.ReactNode; className?: string; type?: 'button' | 'submit' }> = ({ onClick, children, className, type = 'button' }) => (
-    <button type={type} onClick={onClick} className={`flex items-center justify-center px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-75 transition-colors duration-200 ${className}`}>
+const Button: React.FC<{ onClick?: () => void; children: React.ReactNode; className?: string; type?: 'button' | 'submit'; disabled?: boolean }> = ({ onClick, children, className, type = 'button', disabled }) => (
+    <button type={type} onClick={onClick} disabled={disabled} className={`flex items-center justify-center px-4 py-2 bg-blue-600 text-white font-semibold rounded-lg shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-75 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${className}`}>
         {children}
     </button>
 );
@@ -116,6 +133,15 @@ const Select: React.FC<React.SelectHTMLAttributes<HTMLSelectElement>> = (props)
     </select>
 );
 
+const TabButton = ({ isActive, onClick, children }: { isActive: boolean, onClick: () => void, children: React.ReactNode }) => (
+    <button
+        onClick={onClick}
+        className={`px-4 py-2 text-sm font-medium rounded-t-lg focus:outline-none ${isActive ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+    >
+        {children}
+    </button>
+);
+
 const Modal: React.FC<{ isOpen: boolean; onClose: () => void; title: string; children: React.ReactNode, size?: 'max-w-2xl' | 'max-w-4xl' }> = ({ isOpen, onClose, title, children, size = 'max-w-2xl' }) => {
     if (!isOpen) return null;
     return (
@@ -133,963 +159,7035 @@ const Modal: React.FC<{ isOpen: boolean; onClose: () => void; title: string; chi
     );
 };
 
-// Main App Component
-export default function App() {
-    // State Management
-    const [currentPage, setCurrentPage] = useState('dashboard');
-    
-    const [clients, setClients] = useLocalStorage<Client[]>('clients', []);
-    const [invoices, setInvoices] = useLocalStorage<Invoice[]>('invoices', []);
-    const [inventory, setInventory] = useLocalStorage<InventoryItem[]>('inventory', []);
-    const [expenses, setExpenses] = useLocalStorage<Expense[]>('expenses', []);
-    const [services, setServices] = useLocalStorage<Service[]>('services', []);
-    const [settings, setSettings] = useLocalStorage<AppSettings>('settings', {
-        businessInfo: { name: 'Tu Negocio HVAC', address: 'Tu Dirección', phone: 'Tu Teléfono', email: 'tu@email.com', taxId: 'Tu RNC', logo: null, signature: null },
-        invoiceSettings: { template: 'default', accentColor: '#3B82F6' }
-    });
-
-    // Reusable Forms
-    const ExpenseForm = ({ expense, onSave, onCancel }: { expense: Expense | null; onSave: (expense: Expense) => void; onCancel: () => void; }) => {
-        const [formData, setFormData] = useState(expense || { id: '', description: '', amount: 0, date: new Date().toISOString().split('T')[0], category: 'Materiales' });
-        
-        const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-             const { name, value, type } = e.target;
-             setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) || 0 : value });
-        };
-
-        const handleSubmit = (e: React.FormEvent) => {
-            e.preventDefault();
-            onSave({ ...formData, id: expense?.id || '' } as Expense);
-        };
-
-        return (
-            <form onSubmit={handleSubmit} className="space-y-4">
-                <Input name="description" placeholder="Descripción del gasto" value={formData.description} onChange={handleChange} required />
-                <Input name="amount" type="number" step="0.01" placeholder="Monto" value={formData.amount} onChange={handleChange} required />
-                <Input name="date" type="date" value={formData.date} onChange={handleChange} required />
-                <Select name="category" value={formData.category} onChange={handleChange}>
-                    <option>Materiales</option>
-                    <option>Combustible</option>
-                    <option>Herramientas</option>
-                    <option>Marketing</option>
-                    <option>Otro</option>
-                </Select>
-                <div className="flex justify-end space-x-4 pt-4">
-                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
-                    <Button type="submit">{expense ? 'Guardar Cambios' : 'Añadir Gasto'}</Button>
-                </div>
-            </form>
-        );
-    };
-
-    // Page Components
-    const PageComponent = () => {
-        switch (currentPage) {
-            case 'dashboard':
-                return <DashboardPage />;
-            case 'clients':
-                return <ClientsPage />;
-            case 'invoices':
-                return <InvoicesPage />;
-            case 'inventory':
-                 return <InventoryPage />;
-            case 'expenses':
-                 return <ExpensesPage />;
-            case 'reports':
-                return <ReportsPage />;
-            case 'settings':
-                return <SettingsPage />;
-            default:
-                return <DashboardPage />;
-        }
-    };
+// PAYMENT HELPERS
+const PAYMENT_METHODS: PaymentMethod[] = ['Efectivo', 'Transferencia', 'Tarjeta', 'Cheque'];
 
-    // Sub-components (Pages & Forms)
+// DUNNING HELPERS
+const REMINDER_CHANNELS: ReminderChannel[] = ['Correo', 'WhatsApp', 'Llamada', 'Otro'];
 
-    const DashboardPage = () => {
-        const upcomingMaintenance = useMemo(() => {
-            const now = new Date();
-            const fifteenDaysFromNow = new Date(now.getTime() + 15 * 24 * 60 * 60 * 1000);
-            return invoices
-                .filter(inv => inv.nextMaintenanceDate && new Date(inv.nextMaintenanceDate) <= fifteenDaysFromNow && new Date(inv.nextMaintenanceDate) >= now)
-                .map(inv => clients.find(c => c.id === inv.clientId))
-                .filter((c): c is Client => !!c)
-                .reduce((unique, item) => unique.find(u => u.id === item.id) ? unique : [...unique, item], [] as Client[]);
-        }, [invoices, clients]);
+interface DunningQueueItem {
+    invoice: Invoice;
+    client: Client;
+    stage: DunningStage;
+    daysOverdue: number;
+    balance: number;
+}
 
-        const monthlyData = useMemo(() => {
-            const now = new Date();
-            const currentMonth = now.getMonth();
-            const currentYear = now.getFullYear();
+// The stage that applies is the latest one whose day threshold has been reached.
+const getDunningStage = (stages: DunningStage[], daysOverdue: number) =>
+    [...stages].sort((a, b) => a.daysOverdue - b.daysOverdue).filter(stage => daysOverdue >= stage.daysOverdue).pop();
 
-            const income = invoices
-                .filter(inv => inv.status === 'Pagada')
-                .filter(inv => {
-                    const issueDate = new Date(inv.issueDate);
-                    return issueDate.getMonth() === currentMonth && issueDate.getFullYear() === currentYear;
-                })
-                .reduce((sum, inv) => sum + inv.items.reduce((itemSum, item) => itemSum + item.quantity * item.unitPrice, 0), 0);
+const buildDunningQueue = (invoices: Invoice[], clients: Client[], payments: Payment[], creditNotes: CreditNote[], reminders: ReminderLog[], stages: DunningStage[], today = todayIso()) =>
+    invoices
+        .filter(inv => inv.status === 'Vencida')
+        .map(invoice => {
+            const client = clients.find(c => c.id === invoice.clientId);
+            const daysOverdue = daysBetween(invoice.dueDate, today);
+            const stage = getDunningStage(stages, daysOverdue);
+            const balance = getBalanceDue(invoice, payments, creditNotes);
+            return client && stage && balance > 0 ? { invoice, client, stage, daysOverdue, balance } : null;
+        })
+        .filter((item): item is DunningQueueItem => !!item && !reminders.some(r => r.invoiceId === item.invoice.id && r.stageId === item.stage.id))
+        .sort((a, b) => b.daysOverdue - a.daysOverdue);
 
-            const totalExpenses = expenses
-                 .filter(exp => {
-                    const expDate = new Date(exp.date);
-                    return expDate.getMonth() === currentMonth && expDate.getFullYear() === currentYear;
-                })
-                .reduce((sum, exp) => sum + exp.amount, 0);
+const fillReminderTemplate = (template: string, item: DunningQueueItem, businessName: string) => template
+    .replace(/\{cliente\}/g, item.client.name)
+    .replace(/\{factura\}/g, item.invoice.ncf || item.invoice.invoiceNumber)
+    .replace(/\{monto\}/g, formatCurrency(item.balance))
+    .replace(/\{vencimiento\}/g, formatDate(item.invoice.dueDate))
+    .replace(/\{dias\}/g, item.daysOverdue.toString())
+    .replace(/\{negocio\}/g, businessName);
 
-            return { income, totalExpenses };
-        }, [invoices, expenses]);
-        
-        const monthlyProfit = monthlyData.income - monthlyData.totalExpenses;
+// Dominican numbers are stored with 10 digits; WhatsApp needs the country code.
+const toWhatsAppNumber = (phone: string) => {
+    const digits = phone.replace(/\D/g, '');
+    return digits.length === 10 ? `1${digits}` : digits;
+};
 
-        return (
-            <div className="space-y-8">
-                <div>
-                    <h2 className="text-2xl font-bold text-gray-800 mb-4">Resumen Financiero del Mes</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                        <Card>
-                            <h3 className="text-lg font-semibold text-gray-500">Ingresos</h3>
-                            <p className="text-4xl font-bold text-green-600">{formatCurrency(monthlyData.income)}</p>
-                        </Card>
-                        <Card>
-                            <h3 className="text-lg font-semibold text-gray-500">Gastos</h3>
-                            <p className="text-4xl font-bold text-red-600">{formatCurrency(monthlyData.totalExpenses)}</p>
-                        </Card>
-                        <Card>
-                            <h3 className="text-lg font-semibold text-gray-500">Ganancia Neta</h3>
-                            <p className={`text-4xl font-bold ${monthlyProfit >= 0 ? 'text-blue-600' : 'text-orange-500'}`}>{formatCurrency(monthlyProfit)}</p>
-                        </Card>
-                    </div>
-                </div>
+const INVOICE_STATUS_COLORS: Record<Invoice['status'], string> = {
+    'Borrador': 'bg-gray-200 text-gray-800',
+    'Enviada': 'bg-yellow-200 text-yellow-800',
+    'Parcial': 'bg-blue-200 text-blue-800',
+    'Pagada': 'bg-green-200 text-green-800',
+    'Vencida': 'bg-red-200 text-red-800',
+    'Anulada': 'bg-gray-300 text-gray-600 line-through',
+};
 
-                <div>
-                    <h2 className="text-2xl font-bold text-gray-800 mb-4">Resumen Operativo</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <Card>
-                            <h3 className="text-lg font-semibold text-gray-500">Total Clientes</h3>
-                            <p className="text-4xl font-bold text-gray-800">{clients.length}</p>
-                        </Card>
-                        <Card>
-                            <h3 className="text-lg font-semibold text-gray-500">Mantenimiento Próximo</h3>
-                            <p className="text-4xl font-bold text-blue-600">{upcomingMaintenance.length}</p>
-                            <p className="text-sm text-gray-400">En los próximos 15 días</p>
-                        </Card>
-                    </div>
-                </div>
-            </div>
-        );
-    };
+// Issued invoices are fiscal documents: once out of draft they are corrected with a credit note or voided, never edited.
+const isInvoiceLocked = (invoice: Invoice) => invoice.status !== 'Borrador';
 
-    const ClientsPage = () => {
-        const [isModalOpen, setIsModalOpen] = useState(false);
-        const [editingClient, setEditingClient] = useState<Client | null>(null);
+// AUDIT HELPERS
+const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+    client: 'Cliente',
+    invoice: 'Factura',
+    inventoryItem: 'Artículo',
+    expense: 'Gasto',
+    service: 'Servicio',
+    ncfSequence: 'Secuencia NCF',
+    ecfSequence: 'Secuencia e-NCF',
+    payment: 'Pago',
+    quote: 'Cotización',
+    creditNote: 'Nota de crédito',
+    contract: 'Contrato',
+    equipment: 'Equipo',
+    maintenanceVisit: 'Visita de mantenimiento',
+    technician: 'Técnico',
+    workOrder: 'Orden de trabajo',
+    supplier: 'Proveedor',
+    purchaseOrder: 'Orden de compra',
+    reminder: 'Recordatorio de cobro',
+    documentCounter: 'Contador de numeración',
+    settings: 'Configuración',
+    backup: 'Respaldo',
+};
 
-        const handleAddClient = () => {
-            setEditingClient(null);
-            setIsModalOpen(true);
-        };
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+    create: 'Creación',
+    update: 'Modificación',
+    status: 'Cambio de estado',
+    delete: 'Eliminación',
+    restore: 'Restauración',
+    merge: 'Combinación',
+};
 
-        const handleEditClient = (client: Client) => {
-            setEditingClient(client);
-            setIsModalOpen(true);
-        };
-        
-        const handleDeleteClient = (clientId: string) => {
-            if(window.confirm('¿Está seguro que desea eliminar este cliente? Esta acción no se puede deshacer.')){
-                setClients(prev => prev.filter(c => c.id !== clientId));
-                // Optionally delete related invoices
-            }
-        };
+const AUDIT_ACTION_COLORS: Record<AuditAction, string> = {
+    create: 'bg-green-200 text-green-800',
+    update: 'bg-blue-200 text-blue-800',
+    status: 'bg-yellow-200 text-yellow-800',
+    delete: 'bg-red-200 text-red-800',
+    restore: 'bg-purple-200 text-purple-800',
+    merge: 'bg-purple-200 text-purple-800',
+};
 
-        const handleSaveClient = (client: Client) => {
-            if (editingClient) {
-                setClients(prev => prev.map(c => c.id === client.id ? client : c));
-            } else {
-                setClients(prev => [...prev, { ...client, id: generateId(), createdAt: new Date().toISOString() }]);
-            }
-            setIsModalOpen(false);
-        };
+// Field names shown in the audit trail; fields not listed are shown by their internal name.
+const AUDIT_FIELD_LABELS: Record<string, string> = {
+    status: 'Estado',
+    name: 'Nombre',
+    description: 'Descripción',
+    clientId: 'Cliente',
+    issueDate: 'Fecha de emisión',
+    dueDate: 'Fecha de vencimiento',
+    items: 'Líneas',
+    notes: 'Notas',
+    ncf: 'NCF',
+    ncfType: 'Tipo de comprobante',
+    taxId: 'RNC / Cédula',
+    phone: 'Teléfono',
+    email: 'Correo',
+    address: 'Dirección',
+    type: 'Tipo',
+    quantity: 'Cantidad',
+    unitPrice: 'Precio',
+    unitCost: 'Costo',
+    amount: 'Monto',
+    date: 'Fecha',
+    category: 'Categoría',
+    method: 'Método',
+    reference: 'Referencia',
+    voidReason: 'Motivo de anulación',
+    voidedAt: 'Fecha de anulación',
+    series: 'Serie',
+    year: 'Año',
+    lastNumber: 'Último número',
+    stageName: 'Etapa',
+    channel: 'Canal',
+    message: 'Mensaje',
+    sentAt: 'Fecha de envío',
+    'businessInfo.name': 'Nombre del negocio',
+    'businessInfo.address': 'Dirección del negocio',
+    'businessInfo.phone': 'Teléfono del negocio',
+    'businessInfo.email': 'Correo del negocio',
+    'businessInfo.taxId': 'RNC del negocio',
+    'businessInfo.logo': 'Logo',
+    'businessInfo.signature': 'Firma',
+    'taxSettings.itbisRate': 'Tasa de ITBIS',
+    'taxSettings.reducedItbisRate': 'Tasa reducida de ITBIS',
+    'ecfSettings.environment': 'Ambiente e-CF',
+    'dunningSettings.stages': 'Etapas de cobro',
+    'inventorySettings.costingMethod': 'Método de costeo',
+};
 
-        const ClientForm = ({ client, onSave, onCancel }: { client: Client | null; onSave: (client: Client) => void; onCancel: () => void; }) => {
-            const [formData, setFormData] = useState<Omit<Client, 'id' | 'createdAt' > & {id?: string, createdAt?: string}>(client || { name: '', address: '', phone: '', email: '', type: 'Residencial' });
-            
-            const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-                setFormData({ ...formData, [e.target.name]: e.target.value });
-            };
+// Backup entries list collections rather than fields.
+const getAuditFieldLabel = (field: string) => AUDIT_FIELD_LABELS[field] || BACKUP_COLLECTION_LABELS[field] || field;
 
-            const handleSubmit = (e: React.FormEvent) => {
-                e.preventDefault();
-                onSave(formData as Client);
-            };
+const formatAuditValue = (value: unknown) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+    if (Array.isArray(value)) return `${value.length} elemento(s)`;
+    if (typeof value === 'object') return JSON.stringify(value).slice(0, 80);
+    return String(value);
+};
 
-            return (
-                <form onSubmit={handleSubmit} className="space-y-4">
-                    <Input name="name" placeholder="Nombre completo" value={formData.name} onChange={handleChange} required />
-                    <Input name="address" placeholder="Dirección" value={formData.address} onChange={handleChange} />
-                    <Input name="phone" type="tel" placeholder="Teléfono" value={formData.phone} onChange={handleChange} />
-                    <Input name="email" type="email" placeholder="Correo electrónico" value={formData.email} onChange={handleChange} />
-                     <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de Cliente</label>
-                        <Select name="type" value={formData.type} onChange={handleChange}>
-                            <option value="Residencial">Residencial</option>
-                            <option value="Comercial">Comercial</option>
-                        </Select>
-                    </div>
-                    <div className="flex justify-end space-x-4 pt-4">
-                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
-                        <Button type="submit">{client ? 'Guardar Cambios' : 'Crear Cliente'}</Button>
+const AuditTrail: React.FC<{ entries: AuditEntry[] }> = ({ entries }) => {
+    if (entries.length === 0) return <p className="text-gray-500 text-center py-6">No hay cambios registrados para este registro.</p>;
+    return (
+        <div className="space-y-4">
+            {[...entries].reverse().map(entry => (
+                <div key={entry.id} className="border rounded-lg p-4">
+                    <div className="flex justify-between items-center mb-2">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${AUDIT_ACTION_COLORS[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span>
+                        <span className="text-sm text-gray-500">{new Date(entry.timestamp).toLocaleString('es-ES')}</span>
                     </div>
-                </form>
-            );
-        };
-
-        return (
-            <Card>
-                <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-2xl font-bold text-gray-800">Clientes</h2>
-                    <Button onClick={handleAddClient}>{ICONS.plus} Nuevo Cliente</Button>
-                </div>
-                <div className="overflow-x-auto">
-                    <table className="w-full text-left">
+                    <table className="w-full text-left text-sm">
                         <thead>
-                            <tr className="bg-gray-50 border-b">
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Nombre</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tipo</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Teléfono</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            <tr className="border-b">
+                                <th className="p-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Campo</th>
+                                <th className="p-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Antes</th>
+                                <th className="p-2 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Después</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {clients.map(client => (
-                                <tr key={client.id} className="border-b hover:bg-gray-50">
-                                    <td className="p-3 font-medium">{client.name}</td>
-                                    <td className="p-3">{client.type}</td>
-                                    <td className="p-3">{client.phone}</td>
-                                    <td className="p-3 flex space-x-2">
-                                        <button onClick={() => handleEditClient(client)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
-                                        <button onClick={() => handleDeleteClient(client.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
-                                    </td>
+                            {entry.changes.map(change => (
+                                <tr key={change.field} className="border-b last:border-0 align-top">
+                                    <td className="p-2 font-medium">{getAuditFieldLabel(change.field)}</td>
+                                    <td className="p-2 text-gray-600 break-all" title={JSON.stringify(change.before)}>{formatAuditValue(change.before)}</td>
+                                    <td className="p-2 break-all" title={JSON.stringify(change.after)}>{formatAuditValue(change.after)}</td>
                                 </tr>
                             ))}
                         </tbody>
                     </table>
                 </div>
-                <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingClient ? 'Editar Cliente' : 'Nuevo Cliente'}>
-                    <ClientForm client={editingClient} onSave={handleSaveClient} onCancel={() => setIsModalOpen(false)} />
-                </Modal>
-            </Card>
-        );
-    };
-    
-    const InventoryPage = () => {
-        const [activeTab, setActiveTab] = useState<'items' | 'services'>('items');
+            ))}
+        </div>
+    );
+};
 
-        const TabButton = ({ isActive, onClick, children }: { isActive: boolean, onClick: () => void, children: React.ReactNode }) => (
-            <button
-                onClick={onClick}
-                className={`px-4 py-2 text-sm font-medium rounded-t-lg focus:outline-none ${isActive ? 'border-b-2 border-blue-600 text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
-            >
-                {children}
-            </button>
-        );
+// Opens the audit trail of one record: an icon for table rows, or a labelled button on detail pages.
+const AuditHistoryButton: React.FC<{ entityType: AuditEntityType; entityId: string; title: string; label?: string }> = ({ entityType, entityId, title, label }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    return (
+        <>
+            {label
+                ? <Button onClick={() => setIsOpen(true)} className="bg-gray-500 hover:bg-gray-600">{label}</Button>
+                : <button onClick={() => setIsOpen(true)} className="text-gray-600 hover:text-gray-800" title="Historial de cambios">{ICONS.audit}</button>}
+            <Modal isOpen={isOpen} onClose={() => setIsOpen(false)} title={`Historial · ${title}`} size="max-w-4xl">
+                <AuditTrail entries={getRecordAuditTrail(entityType, entityId)} />
+            </Modal>
+        </>
+    );
+};
 
-        return (
-            <Card>
-                <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-2xl font-bold text-gray-800">Inventario y Servicios</h2>
-                </div>
-                <div className="border-b mb-6">
-                    <TabButton isActive={activeTab === 'items'} onClick={() => setActiveTab('items')}>Artículos</TabButton>
-                    <TabButton isActive={activeTab === 'services'} onClick={() => setActiveTab('services')}>Servicios / Kits</TabButton>
-                </div>
-                <div>
-                    {activeTab === 'items' && <InventoryItemsManager />}
-                    {activeTab === 'services' && <ServicesManager />}
-                </div>
-            </Card>
-        );
-    };
+const VOID_REASONS: Record<VoidReasonCode, string> = {
+    '01': 'Deterioro de factura preimpresa',
+    '02': 'Errores de impresión (factura preimpresa)',
+    '03': 'Impresión defectuosa',
+    '04': 'Corrección de la información',
+    '05': 'Cambio de productos',
+    '06': 'Devolución de productos',
+    '07': 'Omisión de productos',
+    '08': 'Errores en secuencia de NCF',
+    '09': 'Por cese de operaciones',
+    '10': 'Pérdida o hurto de talonarios',
+};
 
-    const InventoryItemsManager = () => {
-        const [isModalOpen, setIsModalOpen] = useState(false);
-        const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+// QUOTE HELPERS
+const QUOTE_STATUS_COLORS: Record<QuoteStatus, string> = {
+    'Borrador': 'bg-gray-200 text-gray-800',
+    'Enviada': 'bg-yellow-200 text-yellow-800',
+    'Aceptada': 'bg-green-200 text-green-800',
+    'Rechazada': 'bg-red-200 text-red-800',
+    'Vencida': 'bg-orange-200 text-orange-800',
+};
 
-        const handleAddItem = () => { setEditingItem(null); setIsModalOpen(true); };
-        const handleEditItem = (item: InventoryItem) => { setEditingItem(item); setIsModalOpen(true); };
+// A sent quote expires once its validity date passes; extending the date brings it back.
+const deriveQuoteStatus = (quote: Quote, today = todayIso()): QuoteStatus => {
+    if (quote.status === 'Enviada' && quote.validUntil < today) return 'Vencida';
+    if (quote.status === 'Vencida' && quote.validUntil >= today) return 'Enviada';
+    return quote.status;
+};
 
-        const handleDeleteItem = (itemId: string) => {
-            if (window.confirm('¿Está seguro de que desea eliminar este artículo del inventario?')) {
-                setInventory(prev => prev.filter(item => item.id !== itemId));
-            }
-        };
+// SERVICE CONTRACT HELPERS
+const BILLING_FREQUENCY_MONTHS: Record<BillingFrequency, number> = {
+    'Mensual': 1,
+    'Trimestral': 3,
+    'Semestral': 6,
+    'Anual': 12,
+};
 
-        const handleSaveItem = (item: InventoryItem) => {
-            if (editingItem) {
-                setInventory(prev => prev.map(i => i.id === item.id ? item : i));
-            } else {
-                setInventory(prev => [...prev, { ...item, id: generateId() }]);
-            }
+const CONTRACT_STATUS_COLORS: Record<ServiceContract['status'], string> = {
+    'Activo': 'bg-green-200 text-green-800',
+    'Pausado': 'bg-yellow-200 text-yellow-800',
+    'Finalizado': 'bg-gray-200 text-gray-800',
+};
+
+// Clamps to the last day of the month, so a contract starting on the 31st bills on the 30th or 28th of shorter months.
+const addMonths = (date: string, months: number) => {
+    const [year, month, day] = date.split('-').map(Number);
+    const target = new Date(Date.UTC(year, month - 1 + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().split('T')[0];
+};
+
+// Periods are counted from the start date so the billing day never drifts after a short month.
+const getContractPeriodStart = (contract: ServiceContract, period: number) =>
+    addMonths(contract.startDate, period * BILLING_FREQUENCY_MONTHS[contract.frequency]);
+
+const getContractPeriodEnd = (contract: ServiceContract, period: number) => {
+    const end = addDays(getContractPeriodStart(contract, period + 1), -1);
+    return contract.endDate && contract.endDate < end ? contract.endDate : end;
+};
+
+const isContractPeriodInTerm = (contract: ServiceContract, period: number) =>
+    !contract.endDate || getContractPeriodStart(contract, period) <= contract.endDate;
+
+const getUpcomingContractPeriods = (contract: ServiceContract, limit: number) => {
+    const periods: number[] = [];
+    for (let period = contract.billedPeriods; periods.length < limit && isContractPeriodInTerm(contract, period); period++) {
+        periods.push(period);
+    }
+    return periods;
+};
+
+const buildContractInvoice = (contract: ServiceContract, period: number, services: Service[], taxRates: TaxSettings): Invoice => {
+    const issueDate = getContractPeriodStart(contract, period);
+    const serviceNames = services.filter(s => contract.serviceIds.includes(s.id)).map(s => s.name).join(', ');
+    return {
+        id: generateId(),
+        clientId: contract.clientId,
+        invoiceNumber: '',
+        issueDate,
+        dueDate: addDays(issueDate, 30),
+        items: [{
+            id: generateId(),
+            description: `Contrato ${contract.contractNumber} (${contract.frequency}): ${serviceNames || 'Servicio de mantenimiento'}, del ${formatDate(issueDate)} al ${formatDate(getContractPeriodEnd(contract, period))}`,
+            quantity: 1,
+            unitPrice: contract.price,
+            taxType: 'Gravado',
+        }],
+        notes: contract.notes,
+        status: 'Borrador',
+        taxRates,
+        contractId: contract.id,
+    };
+};
+
+// Every period whose billing date has arrived gets one draft invoice; billedPeriods records how far billing has gone.
+// Invoices come back without a number so the caller can number them after the ones already stored.
+const generateDueContractInvoices = (contracts: ServiceContract[], services: Service[], taxRates: TaxSettings, today: string) => {
+    const generated: Invoice[] = [];
+    const updated = contracts.map(contract => {
+        if (contract.status !== 'Activo') return contract;
+        let period = contract.billedPeriods;
+        while (isContractPeriodInTerm(contract, period) && getContractPeriodStart(contract, period) <= today) {
+            generated.push(buildContractInvoice(contract, period, services, taxRates));
+            period++;
+        }
+        const status = isContractPeriodInTerm(contract, period) ? contract.status : 'Finalizado';
+        return period === contract.billedPeriods && status === contract.status ? contract : { ...contract, billedPeriods: period, status };
+    });
+    return { invoices: generated, contracts: updated };
+};
+
+// EQUIPMENT HELPERS
+const REFRIGERANT_TYPES = ['R-410A', 'R-32', 'R-22', 'R-134a', 'R-407C', 'R-404A', 'R-290'];
+
+// Matches the one-year warranty printed on invoices with new equipment.
+const EQUIPMENT_WARRANTY_MONTHS = 12;
+
+const formatEquipmentName = (unit: Equipment) => [unit.brand, unit.model].filter(Boolean).join(' ') + (unit.location ? ` (${unit.location})` : '');
+
+const formatCapacity = (unit: Equipment) => unit.capacity ? `${unit.capacity.toLocaleString('es-DO')} ${unit.capacityUnit}` : '—';
+
+const getWarrantyStatus = (unit: Equipment, today = todayIso()) => {
+    if (!unit.warrantyEnd) return null;
+    return unit.warrantyEnd >= today ? 'Vigente' : 'Vencida';
+};
+
+// A new-equipment line on an issued invoice starts the unit's warranty on the invoice date; voiding that invoice removes it.
+const applyEquipmentWarranties = (equipment: Equipment[], invoices: Invoice[]) =>
+    equipment.map(unit => {
+        if (invoices.some(inv => inv.status === 'Anulada' && inv.id === unit.warrantyInvoiceId)) {
+            return { ...unit, warrantyStart: undefined, warrantyEnd: undefined, warrantyInvoiceId: undefined };
+        }
+        const invoice = invoices.find(inv => inv.status !== 'Borrador' && inv.status !== 'Anulada' && inv.items.some(item => item.isNewEquipment && item.equipmentId === unit.id));
+        if (!invoice || unit.warrantyInvoiceId === invoice.id && unit.warrantyStart === invoice.issueDate) return unit;
+        return {
+            ...unit,
+            installDate: unit.installDate || invoice.issueDate,
+            warrantyStart: invoice.issueDate,
+            warrantyEnd: addMonths(invoice.issueDate, EQUIPMENT_WARRANTY_MONTHS),
+            warrantyInvoiceId: invoice.id,
+        };
+    });
+
+// Every invoice line linked to the unit, newest first.
+const getEquipmentServiceHistory = (equipmentId: string, invoices: Invoice[]) =>
+    invoices
+        .flatMap(invoice => invoice.items.filter(item => item.equipmentId === equipmentId).map(item => ({ invoice, item })))
+        .sort((a, b) => b.invoice.issueDate.localeCompare(a.invoice.issueDate));
+
+// MAINTENANCE SCHEDULE HELPERS
+const MAINTENANCE_STATUS_COLORS: Record<MaintenanceVisitStatus, string> = {
+    'Pendiente': 'bg-yellow-200 text-yellow-800',
+    'Programada': 'bg-blue-200 text-blue-800',
+    'Realizada': 'bg-green-200 text-green-800',
+    'Rechazada': 'bg-gray-200 text-gray-800',
+};
+
+const isOpenVisit = (visit: MaintenanceVisit) => visit.status === 'Pendiente' || visit.status === 'Programada';
+
+// Where a visit sits on the calendar: the appointment if one was made, the completion date once done, otherwise the due date.
+const getVisitDate = (visit: MaintenanceVisit) => {
+    if (visit.status === 'Realizada') return visit.completedDate || visit.dueDate;
+    return visit.scheduledDate || visit.dueDate;
+};
+
+const isVisitOverdue = (visit: MaintenanceVisit, today = todayIso()) => isOpenVisit(visit) && getVisitDate(visit) < today;
+
+interface MaintenanceTarget {
+    clientId: string;
+    equipmentId?: string;
+    serviceId?: string;
+}
+
+// A client has one schedule per registered unit, plus one for work not tied to a unit.
+const isSameMaintenanceTarget = (a: MaintenanceTarget, b: MaintenanceTarget) =>
+    a.clientId === b.clientId && (a.equipmentId || '') === (b.equipmentId || '');
+
+// The most specific interval wins: the unit's own, then the service kit's, then the one for the client type.
+const getMaintenanceIntervalMonths = (target: MaintenanceTarget, clients: Client[], equipment: Equipment[], services: Service[], maintenanceSettings: AppSettings['maintenanceSettings']) => {
+    const unit = equipment.find(u => u.id === target.equipmentId);
+    const service = services.find(s => s.id === target.serviceId);
+    const client = clients.find(c => c.id === target.clientId);
+    return unit?.maintenanceIntervalMonths
+        || service?.maintenanceIntervalMonths
+        || (client?.type === 'Comercial' ? maintenanceSettings.commercialIntervalMonths : maintenanceSettings.residentialIntervalMonths);
+};
+
+const createMaintenanceVisit = (target: MaintenanceTarget, dueDate: string, sourceInvoiceId?: string): MaintenanceVisit => ({
+    id: generateId(),
+    clientId: target.clientId,
+    equipmentId: target.equipmentId,
+    serviceId: target.serviceId,
+    dueDate,
+    status: 'Pendiente',
+    sourceInvoiceId,
+    createdAt: new Date().toISOString(),
+});
+
+// An issued invoice with maintenance lines, or installing a registered unit, closes the open visit for that unit and
+// schedules the next one. Voiding the invoice undoes both.
+const applyInvoiceToMaintenance = (visits: MaintenanceVisit[], invoice: Invoice, getInterval: (target: MaintenanceTarget) => number): MaintenanceVisit[] => {
+    if (invoice.status === 'Anulada') {
+        return visits
+            .filter(v => !(v.sourceInvoiceId === invoice.id && isOpenVisit(v)))
+            .map((v): MaintenanceVisit => v.invoiceId === invoice.id ? { ...v, status: 'Pendiente', completedDate: undefined, invoiceId: undefined } : v);
+    }
+    if (invoice.status === 'Borrador') return visits;
+    const targets = invoice.items
+        .filter(item => item.isMaintenance || (item.isNewEquipment && item.equipmentId))
+        .map(item => ({ clientId: invoice.clientId, equipmentId: item.equipmentId, serviceId: item.serviceId }))
+        .filter((target, i, all) => all.findIndex(t => isSameMaintenanceTarget(t, target)) === i)
+        .filter(target => !visits.some(v => v.sourceInvoiceId === invoice.id && isSameMaintenanceTarget(v, target)));
+    return targets.reduce((current, target) => [
+        ...current.map((v): MaintenanceVisit => isOpenVisit(v) && isSameMaintenanceTarget(v, target) ? { ...v, status: 'Realizada', completedDate: invoice.issueDate, invoiceId: invoice.id } : v),
+        createMaintenanceVisit(target, addMonths(invoice.issueDate, getInterval(target)), invoice.id),
+    ], visits);
+};
+
+// Closing a visit by hand moves the schedule forward from that date without needing an invoice.
+const closeMaintenanceVisit = (visits: MaintenanceVisit[], visit: MaintenanceVisit, status: 'Realizada' | 'Rechazada', date: string, notes: string, intervalMonths: number): MaintenanceVisit[] => [
+    ...visits.map(v => v.id === visit.id ? { ...v, status, completedDate: status === 'Realizada' ? date : undefined, notes: notes || v.notes } : v),
+    createMaintenanceVisit(visit, addMonths(date, intervalMonths)),
+];
+
+// Calendar weeks start on Monday.
+const getWeekStart = (date: string) => addDays(date, -((new Date(date).getUTCDay() + 6) % 7));
+
+const getCalendarDays = (anchor: string, mode: 'month' | 'week') => {
+    if (mode === 'week') return Array.from({ length: 7 }, (_, i) => addDays(getWeekStart(anchor), i));
+    const firstOfMonth = `${anchor.slice(0, 7)}-01`;
+    const start = getWeekStart(firstOfMonth);
+    const lastOfMonth = addDays(addMonths(firstOfMonth, 1), -1);
+    const weeks = Math.ceil((daysBetween(start, lastOfMonth) + 1) / 7);
+    return Array.from({ length: weeks * 7 }, (_, i) => addDays(start, i));
+};
+
+const WEEKDAY_LABELS = ['Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb', 'Dom'];
+
+// WORK ORDER HELPERS
+const WORK_ORDER_STATUS_COLORS: Record<WorkOrderStatus, string> = {
+    'Pendiente': 'bg-yellow-200 text-yellow-800',
+    'En progreso': 'bg-blue-200 text-blue-800',
+    'Completada': 'bg-green-200 text-green-800',
+    'Facturada': 'bg-gray-200 text-gray-800',
+};
+
+const WORK_ORDER_JOB_TYPES: WorkOrderJobType[] = ['Mantenimiento', 'Reparación', 'Instalación', 'Diagnóstico'];
+
+const getWorkOrderTotals = (order: Pick<WorkOrder, 'materials' | 'labor'>) => {
+    const materials = roundCurrency(order.materials.reduce((sum, m) => sum + m.quantity * m.unitPrice, 0));
+    const labor = roundCurrency(order.labor.reduce((sum, l) => sum + l.hours * l.rate, 0));
+    return { materials, labor, total: roundCurrency(materials + labor) };
+};
+
+// Scheduled times are stored as 'YYYY-MM-DDTHH:mm' in local time.
+const formatTime = (dateTime: string) => dateTime.slice(11, 16);
+
+const formatDateTime = (dateTime: string) => `${formatDate(dateTime.slice(0, 10))} ${formatTime(dateTime)}`.trim();
+
+// Lines carry the unit and service kit, so warranties and the maintenance schedule follow the invoice once it is issued.
+const buildWorkOrderInvoiceItems = (order: WorkOrder): InvoiceItem[] => [
+    ...order.materials.map(material => ({
+        id: generateId(),
+        description: material.description,
+        quantity: material.quantity,
+        unitPrice: material.unitPrice,
+        taxType: 'Gravado' as TaxType,
+        equipmentId: order.equipmentId,
+        inventoryItemId: material.inventoryItemId,
+    })),
+    ...order.labor.map(labor => ({
+        id: generateId(),
+        description: `Mano de obra: ${labor.description}`,
+        quantity: labor.hours,
+        unitPrice: labor.rate,
+        taxType: 'Gravado' as TaxType,
+        isMaintenance: order.jobType === 'Mantenimiento',
+        equipmentId: order.equipmentId,
+        serviceId: order.serviceId,
+    })),
+];
+
+// STOCK HELPERS
+type StockMovementEntry = Omit<StockMovement, 'id' | 'balanceAfter' | 'createdAt'>;
+
+// Materials an invoice consumes: each line linked to an inventory item, plus the materials of each service kit.
+// Work orders already list the materials actually used, so kit lines on their invoices are not expanded again.
+const getInvoiceStockUsage = (invoice: Invoice, services: Service[]) => {
+    const usage = new Map<string, number>();
+    const add = (inventoryItemId: string, quantity: number) => usage.set(inventoryItemId, (usage.get(inventoryItemId) || 0) + quantity);
+    invoice.items.forEach(item => {
+        if (item.inventoryItemId) {
+            add(item.inventoryItemId, item.quantity);
+            return;
+        }
+        const service = !invoice.workOrderId && services.find(s => s.id === item.serviceId);
+        if (service) service.items.forEach(serviceItem => add(serviceItem.inventoryItemId, serviceItem.quantity * item.quantity));
+    });
+    return usage;
+};
+
+// Movements that bring the ledger for an invoice in line with what it should have consumed: its full usage while
+// issued, nothing while a draft or once voided. Running it again after an edit only posts the difference.
+const reconcileInvoiceStock = (invoice: Invoice, services: Service[], movements: StockMovement[]): StockMovementEntry[] => {
+    const consumed = invoice.status !== 'Borrador' && invoice.status !== 'Anulada';
+    const target = consumed ? getInvoiceStockUsage(invoice, services) : new Map<string, number>();
+    const invoiceMovements = movements.filter(m => m.sourceType === 'invoice' && m.sourceId === invoice.id);
+    const posted = new Map<string, number>();
+    invoiceMovements.forEach(m => posted.set(m.inventoryItemId, (posted.get(m.inventoryItemId) || 0) - m.quantity));
+    const reason: StockMovementReason = !consumed ? 'Factura anulada' : posted.size > 0 ? 'Factura modificada' : 'Factura emitida';
+    return Array.from(new Set([...target.keys(), ...posted.keys()]))
+        .map(inventoryItemId => ({ inventoryItemId, quantity: (posted.get(inventoryItemId) || 0) - (target.get(inventoryItemId) || 0) }))
+        .filter(entry => Math.abs(entry.quantity) > 1e-9)
+        .map(entry => ({
+            ...entry,
+            // Returned goods go back at the cost they left with.
+            unitCost: entry.quantity > 0 ? getMovementsUnitCost(invoiceMovements.filter(m => m.inventoryItemId === entry.inventoryItemId && m.quantity < 0)) : undefined,
+            date: consumed ? invoice.issueDate : invoice.voidedAt || todayIso(),
+            reason,
+            sourceType: 'invoice' as const,
+            sourceId: invoice.id,
+            sourceNumber: invoice.invoiceNumber,
+        }));
+};
+
+// COSTING HELPERS
+const COSTING_METHOD_LABELS: Record<CostingMethod, string> = {
+    average: 'Costo promedio ponderado',
+    fifo: 'Primeras entradas, primeras salidas (FIFO)',
+};
+
+// Names shown in the restore preview for each stored collection.
+const BACKUP_COLLECTION_LABELS: Record<string, string> = {
+    clients: 'Clientes',
+    invoices: 'Facturas',
+    inventory: 'Artículos de inventario',
+    expenses: 'Gastos',
+    services: 'Servicios',
+    ncfSequences: 'Secuencias NCF',
+    ecfSequences: 'Secuencias e-NCF',
+    payments: 'Pagos',
+    reminders: 'Recordatorios',
+    quotes: 'Cotizaciones',
+    creditNotes: 'Notas de crédito',
+    contracts: 'Contratos',
+    equipment: 'Equipos',
+    maintenanceVisits: 'Visitas de mantenimiento',
+    technicians: 'Técnicos',
+    workOrders: 'Órdenes de trabajo',
+    stockMovements: 'Movimientos de inventario',
+    suppliers: 'Proveedores',
+    purchaseOrders: 'Órdenes de compra',
+    documentCounters: 'Contadores de numeración',
+    auditLog: 'Registro de auditoría',
+};
+
+// Average cost of a set of movements, or undefined when none of them carries a cost.
+const getMovementsUnitCost = (movements: StockMovement[]) => {
+    const costed = movements.filter(m => m.unitCost !== undefined);
+    const quantity = costed.reduce((sum, m) => sum + Math.abs(m.quantity), 0);
+    return quantity > 0 ? costed.reduce((sum, m) => sum + Math.abs(m.quantity) * m.unitCost!, 0) / quantity : undefined;
+};
+
+interface CostLayer {
+    quantity: number;
+    unitCost: number;
+}
+
+// Takes `quantity` from the oldest layers. Whatever the layers cannot cover is returned as `shortfall`.
+const consumeCostLayers = (layers: CostLayer[], quantity: number) => {
+    let remaining = quantity;
+    let cost = 0;
+    while (remaining > 1e-9 && layers.length > 0) {
+        const taken = Math.min(layers[0].quantity, remaining);
+        cost += taken * layers[0].unitCost;
+        remaining -= taken;
+        layers[0] = { ...layers[0], quantity: layers[0].quantity - taken };
+        if (layers[0].quantity <= 1e-9) layers.shift();
+    }
+    return { cost, shortfall: Math.max(0, remaining) };
+};
+
+// FIFO layers still in stock, rebuilt by replaying the item's ledger.
+const getFifoLayers = (inventoryItemId: string, movements: StockMovement[], fallbackCost: number) => {
+    const layers: CostLayer[] = [];
+    movements.filter(m => m.inventoryItemId === inventoryItemId).forEach(m => {
+        if (m.quantity > 0) layers.push({ quantity: m.quantity, unitCost: m.unitCost ?? fallbackCost });
+        else consumeCostLayers(layers, -m.quantity);
+    });
+    return layers;
+};
+
+// Prices each movement and updates stock and item costs. Inflows enter at their own cost (or the item's current cost);
+// outflows leave at the weighted average or from the oldest FIFO layers, which is what invoices record as cost of goods.
+const costStockMovements = (entries: StockMovementEntry[], inventory: InventoryItem[], movements: StockMovement[], method: CostingMethod) => {
+    const items = new Map(inventory.map(item => [item.id, { ...item }]));
+    const layers = new Map<string, CostLayer[]>();
+    const getLayers = (item: InventoryItem) => {
+        if (!layers.has(item.id)) {
+            // Stock that predates the ledger has no layer of its own; it is the oldest, at the item's current cost.
+            const itemLayers = getFifoLayers(item.id, movements, item.unitCost || 0);
+            const untracked = item.quantity - itemLayers.reduce((sum, layer) => sum + layer.quantity, 0);
+            if (untracked > 1e-9) itemLayers.unshift({ quantity: untracked, unitCost: item.unitCost || 0 });
+            layers.set(item.id, itemLayers);
+        }
+        return layers.get(item.id)!;
+    };
+    const createdAt = new Date().toISOString();
+    const posted: StockMovement[] = entries.filter(entry => items.has(entry.inventoryItemId)).map(entry => {
+        const item = items.get(entry.inventoryItemId)!;
+        const currentCost = item.unitCost || 0;
+        let unitCost: number;
+        if (entry.quantity > 0) {
+            unitCost = entry.unitCost ?? currentCost;
+            if (method === 'fifo') getLayers(item).push({ quantity: entry.quantity, unitCost });
+            else item.unitCost = item.quantity > 0 ? (item.quantity * currentCost + entry.quantity * unitCost) / (item.quantity + entry.quantity) : unitCost;
+        } else if (method === 'fifo') {
+            const { cost, shortfall } = consumeCostLayers(getLayers(item), -entry.quantity);
+            unitCost = (cost + shortfall * currentCost) / -entry.quantity;
+        } else {
+            unitCost = currentCost;
+        }
+        item.quantity += entry.quantity;
+        if (method === 'fifo') {
+            const remaining = getLayers(item);
+            const remainingQuantity = remaining.reduce((sum, layer) => sum + layer.quantity, 0);
+            if (remainingQuantity > 0) item.unitCost = remaining.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0) / remainingQuantity;
+        }
+        return { ...entry, id: generateId(), unitCost: roundCurrency(unitCost), balanceAfter: item.quantity, createdAt };
+    });
+    return { posted, inventory: inventory.map(item => items.get(item.id)!) };
+};
+
+// Per-unit cost of each line at issue: the linked item's cost, or the materials of its service kit.
+// Costs already captured are kept, so later cost changes don't rewrite the margin of an issued invoice.
+const captureInvoiceCosts = (invoice: Invoice, services: Service[], getItemCost: (inventoryItemId: string) => number): Invoice => ({
+    ...invoice,
+    items: invoice.items.map(item => {
+        if (item.unitCost !== undefined) return item;
+        if (item.inventoryItemId) return { ...item, unitCost: roundCurrency(getItemCost(item.inventoryItemId)) };
+        const service = !invoice.workOrderId && services.find(s => s.id === item.serviceId);
+        if (service) return { ...item, unitCost: roundCurrency(service.items.reduce((sum, serviceItem) => sum + serviceItem.quantity * getItemCost(serviceItem.inventoryItemId), 0)) };
+        return item;
+    }),
+});
+
+const getInvoiceMargin = (invoice: Pick<Invoice, 'items'>) => {
+    const revenue = roundCurrency(invoice.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0));
+    const cost = roundCurrency(invoice.items.reduce((sum, item) => sum + item.quantity * (item.unitCost || 0), 0));
+    const margin = roundCurrency(revenue - cost);
+    return { revenue, cost, margin, marginPercent: revenue !== 0 ? (margin / revenue) * 100 : 0 };
+};
+
+const getServiceKitCost = (service: Pick<Service, 'items'>, inventory: InventoryItem[]) => roundCurrency(service.items.reduce((sum, serviceItem) => {
+    const item = inventory.find(i => i.id === serviceItem.inventoryItemId);
+    return sum + serviceItem.quantity * (item?.unitCost || 0);
+}, 0));
+
+// Realised margin of issued invoices in a period, overall, per invoice and per service kit sold.
+const buildMarginReport = (invoices: Invoice[], from: string, to: string) => {
+    const issued = invoices
+        .filter(inv => inv.status !== 'Borrador' && inv.status !== 'Anulada' && inv.issueDate >= from && inv.issueDate <= to)
+        .sort((a, b) => a.issueDate.localeCompare(b.issueDate));
+    const byService = new Map<string, { quantity: number; revenue: number; cost: number }>();
+    issued.forEach(invoice => invoice.items.filter(item => item.serviceId && !invoice.workOrderId).forEach(item => {
+        const entry = byService.get(item.serviceId!) || { quantity: 0, revenue: 0, cost: 0 };
+        byService.set(item.serviceId!, {
+            quantity: entry.quantity + item.quantity,
+            revenue: roundCurrency(entry.revenue + item.quantity * item.unitPrice),
+            cost: roundCurrency(entry.cost + item.quantity * (item.unitCost || 0)),
+        });
+    }));
+    const perInvoice = issued.map(invoice => ({ invoice, ...getInvoiceMargin(invoice) }));
+    return {
+        perInvoice,
+        byService,
+        totals: getInvoiceMargin({ items: issued.flatMap(inv => inv.items) }),
+    };
+};
+
+// PURCHASE ORDER HELPERS
+const PURCHASE_ORDER_STATUS_COLORS: Record<PurchaseOrderStatus, string> = {
+    'Borrador': 'bg-gray-200 text-gray-800',
+    'Enviada': 'bg-blue-200 text-blue-800',
+    'Parcial': 'bg-yellow-200 text-yellow-800',
+    'Recibida': 'bg-green-200 text-green-800',
+    'Cancelada': 'bg-red-200 text-red-800',
+};
+
+const getPurchaseOrderTotal = (lines: PurchaseOrderLine[]) => roundCurrency(lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0));
+
+const getPendingQuantity = (line: PurchaseOrderLine) => Math.max(0, line.quantity - line.receivedQuantity);
+
+// Applies a receipt to the order lines and moves the order to Parcial or Recibida.
+const applyPurchaseReceipt = (order: PurchaseOrder, receipt: PurchaseReceipt): PurchaseOrder => {
+    const lines = order.lines.map(line => {
+        const received = receipt.lines.find(r => r.lineId === line.id)?.quantity || 0;
+        return received > 0 ? { ...line, receivedQuantity: line.receivedQuantity + received } : line;
+    });
+    return {
+        ...order,
+        lines,
+        receipts: [...order.receipts, receipt],
+        status: lines.every(line => getPendingQuantity(line) === 0) ? 'Recibida' : 'Parcial',
+    };
+};
+
+// REORDER HELPERS
+const REORDER_USAGE_DAYS = 90;
+// Days of usage a suggested order should cover when the item has no reorder quantity.
+const REORDER_COVERAGE_DAYS = 30;
+
+const isLowStock = (item: InventoryItem) => item.reorderPoint !== undefined && item.quantity <= item.reorderPoint;
+
+// Average daily consumption from invoices over the usage window; voided invoices cancel their own movements.
+const getDailyUsage = (inventoryItemId: string, movements: StockMovement[], today: string) => {
+    const since = addDays(today, -REORDER_USAGE_DAYS);
+    const used = movements
+        .filter(m => m.inventoryItemId === inventoryItemId && m.sourceType === 'invoice' && m.date > since && m.date <= today)
+        .reduce((sum, m) => sum - m.quantity, 0);
+    return Math.max(0, used) / REORDER_USAGE_DAYS;
+};
+
+const getOnOrderQuantity = (inventoryItemId: string, purchaseOrders: PurchaseOrder[]) => purchaseOrders
+    .filter(po => po.status === 'Enviada' || po.status === 'Parcial')
+    .flatMap(po => po.lines)
+    .filter(line => line.inventoryItemId === inventoryItemId)
+    .reduce((sum, line) => sum + getPendingQuantity(line), 0);
+
+interface ReorderSuggestion {
+    item: InventoryItem;
+    dailyUsage: number;
+    daysLeft: number | null;
+    onOrder: number;
+    suggestedQuantity: number;
+}
+
+// Items at or below their reorder point, or expected to run out within the coverage window, soonest first.
+const getReorderSuggestions = (inventory: InventoryItem[], movements: StockMovement[], purchaseOrders: PurchaseOrder[], today: string): ReorderSuggestion[] => inventory
+    .map(item => {
+        const dailyUsage = getDailyUsage(item.id, movements, today);
+        const onOrder = getOnOrderQuantity(item.id, purchaseOrders);
+        const needed = item.reorderQuantity ?? dailyUsage * REORDER_COVERAGE_DAYS + (item.reorderPoint || 0) - item.quantity;
+        return {
+            item,
+            dailyUsage,
+            daysLeft: dailyUsage > 0 ? Math.max(0, item.quantity) / dailyUsage : null,
+            onOrder,
+            suggestedQuantity: Math.max(0, Math.ceil(needed - onOrder)),
+        };
+    })
+    .filter(s => isLowStock(s.item) || (s.daysLeft !== null && s.daysLeft <= REORDER_COVERAGE_DAYS))
+    .sort((a, b) => (a.daysLeft ?? Infinity) - (b.daysLeft ?? Infinity));
+
+// ELECTRONIC INVOICE (e-CF) HELPERS
+const QrCodeImage = ({ value, size = 120 }: { value: string; size?: number }) => {
+    const dataUrl = useMemo(() => {
+        const qr = qrcode(0, 'M');
+        qr.addData(value);
+        qr.make();
+        return qr.createDataURL(4, 0);
+    }, [value]);
+    return <img src={dataUrl} alt="Código QR" style={{ width: size, height: size }} />;
+};
+
+// ACCOUNTS RECEIVABLE AGING
+type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+
+const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+    { key: 'current', label: 'Corriente' },
+    { key: 'days1to30', label: '1-30 días' },
+    { key: 'days31to60', label: '31-60 días' },
+    { key: 'days61to90', label: '61-90 días' },
+    { key: 'over90', label: 'Más de 90 días' },
+];
+
+const getAgingBucket = (daysOverdue: number): AgingBucket => {
+    if (daysOverdue <= 0) return 'current';
+    if (daysOverdue <= 30) return 'days1to30';
+    if (daysOverdue <= 60) return 'days31to60';
+    if (daysOverdue <= 90) return 'days61to90';
+    return 'over90';
+};
+
+interface AgingEntry {
+    invoice: Invoice;
+    balance: number;
+    daysOverdue: number;
+}
+
+interface AgingRow {
+    client: Client;
+    totals: Record<AgingBucket, number>;
+    entries: Record<AgingBucket, AgingEntry[]>;
+    total: number;
+}
+
+const emptyAgingTotals = (): Record<AgingBucket, number> => ({ current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0 });
+
+// Balances are computed as of the report date, so payments received later are ignored.
+const buildAgingReport = (invoices: Invoice[], clients: Client[], payments: Payment[], creditNotes: CreditNote[], asOf: string): AgingRow[] => {
+    const paymentsToDate = payments.filter(p => p.date <= asOf);
+    const creditNotesToDate = creditNotes.filter(cn => cn.issueDate <= asOf);
+    const rows = new Map<string, AgingRow>();
+
+    invoices
+        .filter(inv => inv.status !== 'Borrador' && inv.issueDate <= asOf)
+        .forEach(invoice => {
+            const client = clients.find(c => c.id === invoice.clientId);
+            const balance = getBalanceDue(invoice, paymentsToDate, creditNotesToDate);
+            if (!client || balance <= 0) return;
+            const daysOverdue = daysBetween(invoice.dueDate, asOf);
+            const bucket = getAgingBucket(daysOverdue);
+            const row = rows.get(client.id) || {
+                client,
+                totals: emptyAgingTotals(),
+                entries: { current: [], days1to30: [], days31to60: [], days61to90: [], over90: [] },
+                total: 0,
+            };
+            row.totals[bucket] = roundCurrency(row.totals[bucket] + balance);
+            row.entries[bucket].push({ invoice, balance, daysOverdue });
+            row.total = roundCurrency(row.total + balance);
+            rows.set(client.id, row);
+        });
+
+    return Array.from(rows.values()).sort((a, b) => b.total - a.total);
+};
+
+// PROFIT & LOSS
+const EXPENSE_CATEGORIES: Expense['category'][] = ['Materiales', 'Combustible', 'Herramientas', 'Marketing', 'Otro'];
+const CLIENT_TYPES: Client['type'][] = ['Residencial', 'Comercial'];
+
+// Income is recognised when money is received or refunded. ITBIS belongs to the DGII,
+// so each amount is split in the same proportion as the document it settles.
+const splitItbis = (amount: number, document: { items: InvoiceItem[]; taxRates?: TaxSettings }) => {
+    const totals = calculateInvoiceTotals(document);
+    const taxShare = totals.total > 0 ? totals.totalItbis / totals.total : 0;
+    const itbis = roundCurrency(amount * taxShare);
+    return { income: amount - itbis, itbis };
+};
+
+const shiftYears = (date: string, years: number) => {
+    const shifted = `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+    return shifted.endsWith('-02-29') ? shifted.replace('-02-29', '-02-28') : shifted;
+};
+
+type ComparisonMode = 'previous' | 'lastYear';
+
+const getComparisonRange = (from: string, to: string, mode: ComparisonMode) => {
+    if (mode === 'lastYear') return { from: shiftYears(from, -1), to: shiftYears(to, -1) };
+    const length = daysBetween(from, to);
+    const previousTo = addDays(from, -1);
+    return { from: addDays(previousTo, -length), to: previousTo };
+};
+
+interface ProfitAndLoss {
+    incomeByClientType: Record<Client['type'], number>;
+    refunds: number;
+    income: number;
+    itbisCollected: number;
+    expensesByCategory: Record<Expense['category'], number>;
+    totalExpenses: number;
+    netProfit: number;
+}
+
+const buildProfitAndLoss = (invoices: Invoice[], clients: Client[], payments: Payment[], creditNotes: CreditNote[], expenses: Expense[], from: string, to: string): ProfitAndLoss => {
+    const incomeByClientType: Record<Client['type'], number> = { Residencial: 0, Comercial: 0 };
+    let itbisCollected = 0;
+    payments.filter(p => p.date >= from && p.date <= to).forEach(payment => {
+        const invoice = invoices.find(inv => inv.id === payment.invoiceId);
+        if (!invoice) return;
+        const client = clients.find(c => c.id === invoice.clientId);
+        const { income, itbis } = splitItbis(payment.amount, invoice);
+        const type = client?.type || 'Residencial';
+        incomeByClientType[type] = roundCurrency(incomeByClientType[type] + income);
+        itbisCollected = roundCurrency(itbisCollected + itbis);
+    });
+
+    let refunds = 0;
+    creditNotes.filter(cn => cn.refundAmount && cn.issueDate >= from && cn.issueDate <= to).forEach(creditNote => {
+        const { income, itbis } = splitItbis(creditNote.refundAmount!, creditNote);
+        refunds = roundCurrency(refunds + income);
+        itbisCollected = roundCurrency(itbisCollected - itbis);
+    });
+
+    const expensesByCategory = Object.fromEntries(EXPENSE_CATEGORIES.map(c => [c, 0])) as Record<Expense['category'], number>;
+    expenses.filter(e => e.date >= from && e.date <= to).forEach(expense => {
+        expensesByCategory[expense.category] = roundCurrency(expensesByCategory[expense.category] + expense.amount);
+    });
+
+    const income = roundCurrency(CLIENT_TYPES.reduce((sum, t) => sum + incomeByClientType[t], 0) - refunds);
+    const totalExpenses = roundCurrency(EXPENSE_CATEGORIES.reduce((sum, c) => sum + expensesByCategory[c], 0));
+    return { incomeByClientType, refunds, income, itbisCollected, expensesByCategory, totalExpenses, netProfit: roundCurrency(income - totalExpenses) };
+};
+
+const MONTH_LABELS = ['Ene', 'Feb', 'Mar', 'Abr', 'May', 'Jun', 'Jul', 'Ago', 'Sep', 'Oct', 'Nov', 'Dic'];
+
+const buildMonthlyTrend = (invoices: Invoice[], clients: Client[], payments: Payment[], creditNotes: CreditNote[], expenses: Expense[], from: string, to: string) => {
+    const months: { label: string; income: number; expenses: number; profit: number }[] = [];
+    let year = Number(from.slice(0, 4));
+    let month = Number(from.slice(5, 7));
+    while (`${year}-${String(month).padStart(2, '0')}` <= to.slice(0, 7)) {
+        const key = `${year}-${String(month).padStart(2, '0')}`;
+        // Partial months at either end of the range are clipped to the range.
+        const monthFrom = key === from.slice(0, 7) ? from : `${key}-01`;
+        const monthTo = key === to.slice(0, 7) ? to : `${key}-31`;
+        const pl = buildProfitAndLoss(invoices, clients, payments, creditNotes, expenses, monthFrom, monthTo);
+        months.push({ label: `${MONTH_LABELS[month - 1]} ${year}`, income: pl.income, expenses: pl.totalExpenses, profit: pl.netProfit });
+        month += 1;
+        if (month > 12) { month = 1; year += 1; }
+    }
+    return months;
+};
+
+const CHART_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#0891b2'];
+
+// CLIENT STATEMENT
+interface StatementEntry {
+    id: string;
+    date: string;
+    type: 'Factura' | 'Pago' | 'Nota de crédito' | 'Reembolso';
+    reference: string;
+    description: string;
+    charge: number;
+    credit: number;
+    balance: number;
+}
+
+// Same-day movements are listed with the charge first.
+const STATEMENT_ENTRY_ORDER: StatementEntry['type'][] = ['Factura', 'Nota de crédito', 'Reembolso', 'Pago'];
+
+interface ClientStatement {
+    openingBalance: number;
+    entries: StatementEntry[];
+    totalCharges: number;
+    totalCredits: number;
+    closingBalance: number;
+}
+
+// Drafts are not owed yet and voided invoices never were, so only the remaining
+// invoices, their payments and credit notes move the balance.
+const buildClientStatement = (clientId: string, invoices: Invoice[], payments: Payment[], creditNotes: CreditNote[], from: string, to: string): ClientStatement => {
+    const clientInvoices = invoices.filter(inv => inv.clientId === clientId && inv.status !== 'Borrador' && inv.status !== 'Anulada');
+    const clientCreditNotes = creditNotes.filter(cn => clientInvoices.some(inv => inv.id === cn.invoiceId));
+    const movements: Omit<StatementEntry, 'balance'>[] = [
+        ...clientInvoices.map(invoice => ({
+            id: invoice.id,
+            date: invoice.issueDate,
+            type: 'Factura' as const,
+            reference: invoice.ncf || invoice.invoiceNumber,
+            description: `Factura ${invoice.invoiceNumber} · vence ${formatDate(invoice.dueDate)}`,
+            charge: calculateInvoiceTotals(invoice).total,
+            credit: 0,
+        })),
+        ...payments
+            .filter(p => clientInvoices.some(inv => inv.id === p.invoiceId))
+            .map(payment => {
+                const invoice = clientInvoices.find(inv => inv.id === payment.invoiceId)!;
+                return {
+                    id: payment.id,
+                    date: payment.date,
+                    type: 'Pago' as const,
+                    reference: payment.reference || payment.method,
+                    description: `Pago ${payment.method.toLowerCase()} a ${invoice.ncf || invoice.invoiceNumber}`,
+                    charge: 0,
+                    credit: payment.amount,
+                };
+            }),
+        ...clientCreditNotes.map(creditNote => {
+            const invoice = clientInvoices.find(inv => inv.id === creditNote.invoiceId)!;
+            return {
+                id: creditNote.id,
+                date: creditNote.issueDate,
+                type: 'Nota de crédito' as const,
+                reference: creditNote.ncf,
+                description: `Nota de crédito a ${invoice.ncf || invoice.invoiceNumber} · ${creditNote.reason}`,
+                charge: 0,
+                credit: calculateInvoiceTotals(creditNote).total,
+            };
+        }),
+        ...clientCreditNotes.filter(cn => cn.refundAmount).map(creditNote => ({
+            id: `${creditNote.id}-refund`,
+            date: creditNote.issueDate,
+            type: 'Reembolso' as const,
+            reference: creditNote.ncf,
+            description: `Reembolso ${(creditNote.refundMethod || 'Efectivo').toLowerCase()} de nota de crédito`,
+            charge: creditNote.refundAmount!,
+            credit: 0,
+        })),
+    ];
+
+    const openingBalance = roundCurrency(movements
+        .filter(m => m.date < from)
+        .reduce((sum, m) => sum + m.charge - m.credit, 0));
+
+    let balance = openingBalance;
+    const entries = movements
+        .filter(m => m.date >= from && m.date <= to)
+        .sort((a, b) => a.date.localeCompare(b.date) || STATEMENT_ENTRY_ORDER.indexOf(a.type) - STATEMENT_ENTRY_ORDER.indexOf(b.type))
+        .map(m => {
+            balance = roundCurrency(balance + m.charge - m.credit);
+            return { ...m, balance };
+        });
+
+    return {
+        openingBalance,
+        entries,
+        totalCharges: roundCurrency(entries.reduce((sum, e) => sum + e.charge, 0)),
+        totalCredits: roundCurrency(entries.reduce((sum, e) => sum + e.credit, 0)),
+        closingBalance: balance,
+    };
+};
+
+// DOCUMENT LINE EDITOR
+// Shared by invoices and quotes.
+const LineItemsEditor = ({ items, taxRates, services, onChange, showItemFlags = true, equipment, inventory }: { items: InvoiceItem[], taxRates: TaxSettings, services: Service[], onChange: (items: InvoiceItem[]) => void, showItemFlags?: boolean, equipment?: Equipment[], inventory?: InventoryItem[] }) => {
+    const [isServiceModalOpen, setIsServiceModalOpen] = useState(false);
+    const [isInventoryModalOpen, setIsInventoryModalOpen] = useState(false);
+
+    const handleItemChange = <K extends keyof InvoiceItem>(index: number, field: K, value: InvoiceItem[K]) => {
+        onChange(items.map((item, i) => i === index ? { ...item, [field]: value } : item));
+    };
+
+    const handleAddItem = () => {
+        onChange([...items, { id: generateId(), description: '', quantity: 1, unitPrice: 0, taxType: 'Gravado', isMaintenance: false, isNewEquipment: false }]);
+    };
+
+    const handleAddService = (service: Service) => {
+        const newItem: InvoiceItem = {
+            id: generateId(),
+            description: service.name,
+            quantity: 1,
+            unitPrice: service.totalPrice,
+            taxType: 'Gravado',
+            isMaintenance: service.name.toLowerCase().includes('mantenimiento'),
+            isNewEquipment: false,
+            serviceId: service.id,
+        };
+        onChange([...items, newItem]);
+        setIsServiceModalOpen(false);
+    };
+
+    const handleAddInventoryItem = (inventoryItem: InventoryItem) => {
+        const newItem: InvoiceItem = {
+            id: generateId(),
+            description: inventoryItem.name,
+            quantity: 1,
+            unitPrice: inventoryItem.unitPrice,
+            taxType: 'Gravado',
+            isMaintenance: false,
+            isNewEquipment: false,
+            inventoryItemId: inventoryItem.id,
+        };
+        onChange([...items, newItem]);
+        setIsInventoryModalOpen(false);
+    };
+
+    const handleRemoveItem = (index: number) => {
+        onChange(items.filter((_, i) => i !== index));
+    };
+
+    return (
+        <>
+            <div className="space-y-2 mb-4">
+                {items.map((item, index) => (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-center p-2 border rounded-md bg-gray-50">
+                        <div className="col-span-12 md:col-span-5">
+                            <Input placeholder="Descripción" value={item.description} onChange={e => handleItemChange(index, 'description', e.target.value)} required />
+                        </div>
+                        <div className="col-span-6 md:col-span-1">
+                            <Input type="number" placeholder="Cant." value={item.quantity} onChange={e => handleItemChange(index, 'quantity', parseFloat(e.target.value) || 0)} required />
+                        </div>
+                        <div className="col-span-6 md:col-span-2">
+                            <Input type="number" step="0.01" placeholder="Precio" value={item.unitPrice} onChange={e => handleItemChange(index, 'unitPrice', parseFloat(e.target.value) || 0)} required />
+                        </div>
+                        <div className="col-span-12 md:col-span-2 text-right font-medium">
+                            {formatCurrency(item.quantity * item.unitPrice)}
+                        </div>
+                        <div className="col-span-12 md:col-span-2 flex justify-end">
+                            <button type="button" onClick={() => handleRemoveItem(index)} className="text-red-500 hover:text-red-700 p-2">{ICONS.trash}</button>
+                        </div>
+                        <div className="col-span-12 flex items-center gap-4 mt-2">
+                            {showItemFlags && (
+                                <>
+                                    <label htmlFor={`maint-${item.id}`} className="flex items-center text-sm cursor-pointer">
+                                        <input type="checkbox" id={`maint-${item.id}`} checked={!!item.isMaintenance} onChange={e => handleItemChange(index, 'isMaintenance', e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"/>
+                                        Mantenimiento
+                                    </label>
+                                    <label htmlFor={`neweq-${item.id}`} className="flex items-center text-sm cursor-pointer">
+                                        <input type="checkbox" id={`neweq-${item.id}`} checked={!!item.isNewEquipment} onChange={e => handleItemChange(index, 'isNewEquipment', e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"/>
+                                        Nuevo Equipo (Garantía)
+                                    </label>
+                                </>
+                            )}
+                            {item.inventoryItemId && inventory && (
+                                <span className="text-xs text-gray-500">
+                                    Inventario: {inventory.find(i => i.id === item.inventoryItemId)?.quantity ?? 'artículo eliminado'} en existencia
+                                </span>
+                            )}
+                            {equipment && (
+                                <div className="flex items-center text-sm">
+                                    <label htmlFor={`equip-${item.id}`} className="mr-2 text-gray-600">Equipo</label>
+                                    <Select id={`equip-${item.id}`} value={item.equipmentId || ''} onChange={e => handleItemChange(index, 'equipmentId', e.target.value || undefined)} className="py-1 w-auto">
+                                        <option value="">Sin equipo</option>
+                                        {equipment.map(unit => <option key={unit.id} value={unit.id}>{formatEquipmentName(unit)}{unit.serialNumber ? ` · S/N ${unit.serialNumber}` : ''}</option>)}
+                                    </Select>
+                                </div>
+                            )}
+                            <div className="flex items-center text-sm ml-auto">
+                                <label htmlFor={`tax-${item.id}`} className="mr-2 text-gray-600">ITBIS</label>
+                                <Select id={`tax-${item.id}`} value={item.taxType || 'Gravado'} onChange={e => handleItemChange(index, 'taxType', e.target.value as TaxType)} className="py-1 w-auto">
+                                    <option value="Gravado">{TAX_TYPE_LABELS['Gravado']} ({taxRates.itbisRate}%)</option>
+                                    <option value="Reducido">{TAX_TYPE_LABELS['Reducido']} ({taxRates.reducedItbisRate}%)</option>
+                                    <option value="Exento">{TAX_TYPE_LABELS['Exento']}</option>
+                                </Select>
+                            </div>
+                        </div>
+                    </div>
+                ))}
+            </div>
+            <div className="flex space-x-2">
+                <Button type="button" onClick={handleAddItem}>{ICONS.plus} Añadir Artículo</Button>
+                <Button type="button" onClick={() => setIsServiceModalOpen(true)} className="bg-green-600 hover:bg-green-700">{ICONS.plus} Añadir Servicio</Button>
+                {inventory && <Button type="button" onClick={() => setIsInventoryModalOpen(true)} className="bg-gray-700 hover:bg-gray-800">{ICONS.plus} Añadir del Inventario</Button>}
+            </div>
+            <Modal isOpen={isInventoryModalOpen} onClose={() => setIsInventoryModalOpen(false)} title="Seleccionar Artículo">
+                <div className="space-y-2">
+                    {(inventory || []).map(inventoryItem => (
+                        <div key={inventoryItem.id} onClick={() => handleAddInventoryItem(inventoryItem)} className="p-3 border rounded-lg hover:bg-gray-100 cursor-pointer flex justify-between">
+                            <div>
+                                <p className="font-semibold">{inventoryItem.name}</p>
+                                <p className="text-sm text-gray-500">{inventoryItem.quantity} en existencia</p>
+                            </div>
+                            <p className="font-semibold">{formatCurrency(inventoryItem.unitPrice)}</p>
+                        </div>
+                    ))}
+                </div>
+            </Modal>
+            <Modal isOpen={isServiceModalOpen} onClose={() => setIsServiceModalOpen(false)} title="Seleccionar Servicio">
+                <div className="space-y-2">
+                    {services.map(service => (
+                        <div key={service.id} onClick={() => handleAddService(service)} className="p-3 border rounded-lg hover:bg-gray-100 cursor-pointer flex justify-between">
+                            <div>
+                                <p className="font-semibold">{service.name}</p>
+                                <p className="text-sm text-gray-500">{service.description}</p>
+                            </div>
+                            <p className="font-semibold">{formatCurrency(service.totalPrice)}</p>
+                        </div>
+                    ))}
+                </div>
+            </Modal>
+        </>
+    );
+};
+
+const DocumentTotals = ({ totals, taxRates, accentColor }: { totals: InvoiceTotals, taxRates: TaxSettings, accentColor: string }) => (
+    <>
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-700">Subtotal:</span>
+            <span>{formatCurrency(totals.subtotal)}</span>
+        </div>
+        {totals.exemptAmount > 0 && (
+            <div className="flex justify-between text-sm text-gray-600">
+                <span>Exento:</span>
+                <span>{formatCurrency(totals.exemptAmount)}</span>
+            </div>
+        )}
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-700">ITBIS ({taxRates.itbisRate}%):</span>
+            <span>{formatCurrency(totals.itbis)}</span>
+        </div>
+        {totals.reducedTaxedAmount > 0 && (
+            <div className="flex justify-between">
+                <span className="font-semibold text-gray-700">ITBIS ({taxRates.reducedItbisRate}%):</span>
+                <span>{formatCurrency(totals.reducedItbis)}</span>
+            </div>
+        )}
+        <div className="flex justify-between text-xl font-bold">
+            <span style={{color: accentColor}}>Total:</span>
+            <span style={{color: accentColor}}>{formatCurrency(totals.total)}</span>
+        </div>
+    </>
+);
+
+interface DocumentView {
+    view: 'list' | 'form' | 'preview' | 'creditNote';
+    documentId: string | null;
+}
+
+// Main App Component
+export default function App() {
+    // State Management
+    const [currentPage, setCurrentPage] = useState('dashboard');
+    // Kept at this level so the document being viewed survives re-renders caused by data updates.
+    const [invoicesView, setInvoicesView] = useState<DocumentView>({ view: 'list', documentId: null });
+    const [quotesView, setQuotesView] = useState<DocumentView>({ view: 'list', documentId: null });
+    const [contractsView, setContractsView] = useState<DocumentView>({ view: 'list', documentId: null });
+    const [equipmentView, setEquipmentView] = useState<DocumentView>({ view: 'list', documentId: null });
+    const [equipmentClientId, setEquipmentClientId] = useState('');
+    const [maintenanceCalendar, setMaintenanceCalendar] = useState<{ mode: 'month' | 'week'; anchor: string }>({ mode: 'month', anchor: todayIso() });
+    const [workOrdersView, setWorkOrdersView] = useState<DocumentView>({ view: 'list', documentId: null });
+    const [workOrdersTab, setWorkOrdersTab] = useState<'list' | 'board' | 'technicians'>('list');
+    const [dispatchDate, setDispatchDate] = useState(todayIso());
+    const [purchasesView, setPurchasesView] = useState<DocumentView>({ view: 'list', documentId: null });
+    const [purchasesTab, setPurchasesTab] = useState<'orders' | 'suppliers'>('orders');
+    const [inventoryTab, setInventoryTab] = useState<'items' | 'services' | 'reorder'>('items');
+    const [lowStockOnly, setLowStockOnly] = useState(false);
+    
+    // Business records log every create, change and delete to the audit trail (see audit.ts).
+    const [clients, setClients] = usePersistentState<Client[]>('clients', [], auditCollection('client'));
+    const [invoices, setInvoices] = usePersistentState<Invoice[]>('invoices', [], auditCollection('invoice'));
+    const [inventory, setInventory] = usePersistentState<InventoryItem[]>('inventory', [], auditCollection('inventoryItem'));
+    const [expenses, setExpenses] = usePersistentState<Expense[]>('expenses', [], auditCollection('expense'));
+    const [services, setServices] = usePersistentState<Service[]>('services', [], auditCollection('service'));
+    const [ncfSequences, setNcfSequences] = usePersistentState<NcfSequence[]>('ncfSequences', [], auditCollection('ncfSequence'));
+    const [ecfSequences, setEcfSequences] = usePersistentState<EcfSequence[]>('ecfSequences', [], auditCollection('ecfSequence'));
+    const [payments, setPayments] = usePersistentState<Payment[]>('payments', [], auditCollection('payment'));
+    const [reminders, setReminders] = usePersistentState<ReminderLog[]>('reminders', [], auditCollection('reminder'));
+    const [quotes, setQuotes] = usePersistentState<Quote[]>('quotes', [], auditCollection('quote'));
+    const [creditNotes, setCreditNotes] = usePersistentState<CreditNote[]>('creditNotes', [], auditCollection('creditNote'));
+    const [contracts, setContracts] = usePersistentState<ServiceContract[]>('contracts', [], auditCollection('contract'));
+    const [equipment, setEquipment] = usePersistentState<Equipment[]>('equipment', [], auditCollection('equipment'));
+    const [maintenanceVisits, setMaintenanceVisits] = usePersistentState<MaintenanceVisit[]>('maintenanceVisits', [], auditCollection('maintenanceVisit'));
+    const [technicians, setTechnicians] = usePersistentState<Technician[]>('technicians', [], auditCollection('technician'));
+    const [workOrders, setWorkOrders] = usePersistentState<WorkOrder[]>('workOrders', [], auditCollection('workOrder'));
+    const [stockMovements, setStockMovements] = usePersistentState<StockMovement[]>('stockMovements', []);
+    const [suppliers, setSuppliers] = usePersistentState<Supplier[]>('suppliers', [], auditCollection('supplier'));
+    const [purchaseOrders, setPurchaseOrders] = usePersistentState<PurchaseOrder[]>('purchaseOrders', [], auditCollection('purchaseOrder'));
+    const [documentCounters, setDocumentCounters] = usePersistentState<DocumentCounter[]>('documentCounters', [], auditCollection('documentCounter'));
+    const [settings, setSettings] = usePersistentState<AppSettings>('settings', DEFAULT_SETTINGS, auditSingleRecord('settings', 'settings', 'Configuración general'));
+    const [lastBackupAt, setLastBackupAt] = usePersistentState<string>('lastBackupAt', '');
+
+    // Runs twice under StrictMode: every update is functional and only adds what isn't stored yet, so the second run
+    // changes nothing.
+    useEffect(() => {
+        // Contract periods that came due since the last visit are billed as drafts for review.
+        const today = todayIso();
+        let dueInvoices: Invoice[] = [];
+        setContracts(prev => {
+            const due = generateDueContractInvoices(prev, services, settings.taxSettings, today);
+            dueInvoices = due.invoices;
+            return due.contracts.some((contract, i) => contract !== prev[i]) ? due.contracts : prev;
+        });
+
+        // Drafts for a period already stored are skipped. Invoices past their due date with a balance left become overdue.
+        setInvoices(prev => {
+            const drafts = dueInvoices.filter(draft => !prev.some(inv => inv.contractId === draft.contractId && inv.issueDate === draft.issueDate));
+            const { numbers } = assignDocumentNumbers('invoice', prev.map(inv => inv.invoiceNumber), drafts.map(inv => inv.issueDate));
+            const allInvoices = [...prev, ...drafts.map((inv, i) => ({ ...inv, invoiceNumber: numbers[i] }))];
+            if (drafts.length === 0 && allInvoices.every(inv => deriveInvoiceStatus(inv, payments, creditNotes, today) === inv.status)) return prev;
+            return allInvoices.map(inv => ({ ...inv, status: deriveInvoiceStatus(inv, payments, creditNotes, today) }));
+        });
+
+        // Next-maintenance dates stored on invoices before the schedule existed become one pending visit per client.
+        setMaintenanceVisits(prev => {
+            if (prev.length > 0) return prev;
+            const legacyVisits = clients.flatMap(client => {
+                const latest = invoices
+                    .filter(inv => inv.clientId === client.id && inv.status !== 'Anulada' && inv.nextMaintenanceDate)
+                    .sort((a, b) => b.issueDate.localeCompare(a.issueDate))[0];
+                return latest ? [createMaintenanceVisit({ clientId: client.id }, latest.nextMaintenanceDate!, latest.id)] : [];
+            });
+            return legacyVisits.length > 0 ? legacyVisits : prev;
+        });
+
+        setQuotes(prev => (prev.some(q => deriveQuoteStatus(q, today) !== q.status) ? prev.map(q => ({ ...q, status: deriveQuoteStatus(q, today) })) : prev));
+    }, []);
+
+    // Works on the sequences it is given so several invoices can be numbered in one pass.
+    const applyNcf = (invoice: Invoice, sequences: NcfSequence[], usedNcfs: Set<string>): { invoice: Invoice; sequences: NcfSequence[] } | { error: string } => {
+        const client = clients.find(c => c.id === invoice.clientId);
+        if (!client) return { error: 'Cliente no encontrado.' };
+        const ncfType = getClientNcfType(client);
+        if (ncfType === 'B01' && !isValidTaxId(client.taxId)) {
+            return { error: `El cliente ${client.name} necesita un RNC o cédula válido para emitir una factura de Crédito Fiscal.` };
+        }
+        const result = takeNextNcf(sequences, ncfType, invoice.issueDate, usedNcfs);
+        if ('error' in result) return result;
+        return { invoice: { ...invoice, ncf: result.ncf, ncfType, ncfExpirationDate: result.expirationDate }, sequences: result.sequences };
+    };
+
+    // Fiscal numbering: an NCF is assigned once, when the invoice leaves 'Borrador', and never changes afterwards.
+    const assignNcf = (invoice: Invoice): Invoice | null => {
+        if (invoice.status === 'Borrador' || invoice.ncf) return invoice;
+        const result = applyNcf(invoice, ncfSequences, getUsedNcfs());
+        if ('error' in result) {
+            alert(result.error);
+            return null;
+        }
+        setNcfSequences(result.sequences);
+        return result.invoice;
+    };
+
+    // Drafts are issued one after another against a local copy of the sequences and saved in a single update.
+    const issueDraftInvoices = (invoiceIds: string[]) => {
+        let sequences = ncfSequences;
+        const usedNcfs = getUsedNcfs();
+        const issued = new Map<string, Invoice>();
+        const errors: string[] = [];
+        invoices.filter(inv => invoiceIds.includes(inv.id) && inv.status === 'Borrador').forEach(draft => {
+            const result = applyNcf({ ...draft, status: 'Enviada' }, sequences, usedNcfs);
+            if ('error' in result) {
+                errors.push(`${draft.invoiceNumber}: ${result.error}`);
+                return;
+            }
+            sequences = result.sequences;
+            usedNcfs.add(result.invoice.ncf!);
+            issued.set(draft.id, { ...result.invoice, status: deriveInvoiceStatus(result.invoice, payments, creditNotes) });
+        });
+        if (issued.size > 0) {
+            setNcfSequences(sequences);
+            const costed = new Map(syncInvoiceRecords(Array.from(issued.values())).map(inv => [inv.id, inv]));
+            setInvoices(prev => prev.map(inv => costed.get(inv.id) || inv));
+        }
+        return { issued: issued.size, errors };
+    };
+
+    const getVisitInterval = (target: MaintenanceTarget) => getMaintenanceIntervalMonths(target, clients, equipment, services, settings.maintenanceSettings);
+
+    // Applies movements to stock and the ledger in one update. `baseInventory` lets the caller include its own pending edits.
+    const postStockMovements = (entries: StockMovementEntry[], baseInventory = inventory) => {
+        const result = costStockMovements(entries, baseInventory, stockMovements, settings.inventorySettings.costingMethod);
+        if (result.posted.length > 0) setStockMovements([...stockMovements, ...result.posted]);
+        if (result.posted.length > 0 || baseInventory !== inventory) setInventory(result.inventory);
+        return result;
+    };
+
+    // Keeps stock, equipment warranties and the maintenance schedule in step with invoices that were issued, edited or voided.
+    // Returns the invoices with their cost of goods captured; callers store those instead of the ones passed in.
+    const syncInvoiceRecords = (savedInvoices: Invoice[]) => {
+        const stock = postStockMovements(savedInvoices.flatMap(invoice => reconcileInvoiceStock(invoice, services, stockMovements)));
+        const ledger = [...stockMovements, ...stock.posted];
+        const costedInvoices = savedInvoices.map(invoice => {
+            if (invoice.status === 'Borrador' || invoice.status === 'Anulada') return invoice;
+            const getItemCost = (inventoryItemId: string) => getMovementsUnitCost(ledger.filter(m => m.sourceType === 'invoice' && m.sourceId === invoice.id && m.inventoryItemId === inventoryItemId && m.quantity < 0))
+                ?? stock.inventory.find(item => item.id === inventoryItemId)?.unitCost ?? 0;
+            return captureInvoiceCosts(invoice, services, getItemCost);
+        });
+        const updatedEquipment = applyEquipmentWarranties(equipment, savedInvoices);
+        if (updatedEquipment.some((unit, i) => unit !== equipment[i])) setEquipment(updatedEquipment);
+        const updatedVisits = savedInvoices.reduce((visits, invoice) => applyInvoiceToMaintenance(visits, invoice, getVisitInterval), maintenanceVisits);
+        if (updatedVisits !== maintenanceVisits) setMaintenanceVisits(updatedVisits);
+        return costedInvoices;
+    };
+
+    const getUsedNcfs = () => new Set([...invoices.map(inv => inv.ncf), ...creditNotes.map(cn => cn.ncf)].filter((ncf): ncf is string => !!ncf));
+
+    // Numbers new documents of a series, one per date, and stores the advanced counter. When one save numbers documents
+    // of two series, pass the counters returned by the first call to the second so neither update is lost.
+    const assignDocumentNumbers = (series: DocumentSeries, existingNumbers: string[], dates: string[], counters = documentCounters) => {
+        const result = takeDocumentNumbers(series, settings.numberingSettings[series], counters, existingNumbers, dates);
+        if (dates.length > 0) setDocumentCounters(result.counters);
+        return result;
+    };
+
+    const assignInvoiceNumber = (issueDate: string) => assignDocumentNumbers('invoice', invoices.map(inv => inv.invoiceNumber), [issueDate]).numbers[0];
+
+    // Bills contract periods that are already due, e.g. right after a contract with a past start date is saved.
+    const billDueContracts = (nextContracts: ServiceContract[], counters = documentCounters) => {
+        const due = generateDueContractInvoices(nextContracts, services, settings.taxSettings, todayIso());
+        setContracts(due.contracts);
+        if (due.invoices.length > 0) {
+            const { numbers } = assignDocumentNumbers('invoice', invoices.map(inv => inv.invoiceNumber), due.invoices.map(inv => inv.issueDate), counters);
+            setInvoices([...invoices, ...due.invoices.map((inv, i) => ({ ...inv, invoiceNumber: numbers[i] }))]);
+        }
+        return due.invoices.length;
+    };
+
+    const openInvoice = (invoiceId: string, view: DocumentView['view']) => {
+        setInvoicesView({ view, documentId: invoiceId });
+        setCurrentPage('invoices');
+    };
+
+    const updatePayments = (nextPayments: Payment[], invoiceId: string) => {
+        setPayments(nextPayments);
+        setInvoices(prev => prev.map(inv => inv.id === invoiceId ? { ...inv, status: deriveInvoiceStatus(inv, nextPayments, creditNotes) } : inv));
+    };
+
+    const recordPayment = (payment: Payment) => updatePayments([...payments, payment], payment.invoiceId);
+
+    const deletePayment = (payment: Payment) => updatePayments(payments.filter(p => p.id !== payment.id), payment.invoiceId);
+
+    // Credit notes get their B04 number as soon as they are created; there is no draft stage.
+    const issueCreditNote = (creditNote: Omit<CreditNote, 'id' | 'creditNoteNumber' | 'ncf' | 'ncfType' | 'ncfExpirationDate' | 'createdAt'>): CreditNote | null => {
+        const result = takeNextNcf(ncfSequences, 'B04', creditNote.issueDate, getUsedNcfs());
+        if ('error' in result) {
+            alert(result.error);
+            return null;
+        }
+        const issued: CreditNote = {
+            ...creditNote,
+            id: generateId(),
+            creditNoteNumber: assignDocumentNumbers('creditNote', creditNotes.map(cn => cn.creditNoteNumber), [creditNote.issueDate]).numbers[0],
+            ncf: result.ncf,
+            ncfType: 'B04',
+            ncfExpirationDate: result.expirationDate,
+            createdAt: new Date().toISOString(),
+        };
+        const nextCreditNotes = [...creditNotes, issued];
+        setNcfSequences(result.sequences);
+        setCreditNotes(nextCreditNotes);
+        setInvoices(prev => prev.map(inv => inv.id === issued.invoiceId ? { ...inv, status: deriveInvoiceStatus(inv, payments, nextCreditNotes) } : inv));
+        return issued;
+    };
+
+    // Reusable Forms
+    const ExpenseForm = ({ expense, onSave, onCancel }: { expense: Expense | null; onSave: (expense: Expense) => void; onCancel: () => void; }) => {
+        const [formData, setFormData] = useState<Expense>(expense || { id: '', description: '', amount: 0, date: new Date().toISOString().split('T')[0], category: 'Materiales', paymentMethod: 'Efectivo' });
+        
+        const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+             const { name, value, type } = e.target;
+             setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) || 0 : value });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (formData.supplierTaxId && !isValidTaxId(formData.supplierTaxId)) {
+                alert('El RNC del proveedor debe tener 9 dígitos y la cédula 11.');
+                return;
+            }
+            if ((formData.itbisPaid || 0) >= formData.amount && formData.amount > 0) {
+                alert('El ITBIS pagado debe ser menor que el monto total del gasto.');
+                return;
+            }
+            onSave({
+                ...formData,
+                id: expense?.id || '',
+                supplierNcf: formData.supplierNcf?.trim().toUpperCase() || undefined,
+                paymentDate: formData.paymentDate || undefined,
+                isrWithholdingType: formData.isrWithholdingType || undefined,
+            });
+        };
+
+        return (
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <Input name="description" placeholder="Descripción del gasto" value={formData.description} onChange={handleChange} required />
+                <Input name="amount" type="number" step="0.01" placeholder="Monto" value={formData.amount} onChange={handleChange} required />
+                <Input name="date" type="date" value={formData.date} onChange={handleChange} required />
+                <Select name="category" value={formData.category} onChange={handleChange}>
+                    <option>Materiales</option>
+                    <option>Combustible</option>
+                    <option>Herramientas</option>
+                    <option>Marketing</option>
+                    <option>Otro</option>
+                </Select>
+
+                <h3 className="font-semibold text-gray-700 pt-2 border-t">Datos fiscales (606)</h3>
+                <div className="grid grid-cols-2 gap-4">
+                    <Input name="supplierName" placeholder="Proveedor" value={formData.supplierName || ''} onChange={handleChange} />
+                    <Input name="supplierTaxId" placeholder="RNC / Cédula del proveedor" value={formData.supplierTaxId || ''} onChange={handleChange} />
+                    <Input name="supplierNcf" placeholder="NCF del proveedor" value={formData.supplierNcf || ''} onChange={handleChange} />
+                    <Select name="supplyType" value={formData.supplyType || DEFAULT_SUPPLY_TYPES[formData.category]} onChange={handleChange}>
+                        <option value="Bienes">Bienes</option>
+                        <option value="Servicios">Servicios</option>
+                    </Select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de gasto (DGII)</label>
+                    <Select name="dgiiExpenseType" value={formData.dgiiExpenseType || DEFAULT_DGII_EXPENSE_TYPES[formData.category]} onChange={handleChange}>
+                        {(Object.keys(DGII_EXPENSE_TYPE_LABELS) as DgiiExpenseType[]).map(code => <option key={code} value={code}>{code} - {DGII_EXPENSE_TYPE_LABELS[code]}</option>)}
+                    </Select>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">ITBIS pagado</label>
+                        <Input name="itbisPaid" type="number" step="0.01" min="0" value={formData.itbisPaid || 0} onChange={handleChange} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">ITBIS retenido</label>
+                        <Input name="itbisWithheld" type="number" step="0.01" min="0" value={formData.itbisWithheld || 0} onChange={handleChange} />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">ISR retenido</label>
+                        <Input name="isrWithheld" type="number" step="0.01" min="0" value={formData.isrWithheld || 0} onChange={handleChange} />
+                    </div>
+                </div>
+                {(formData.isrWithheld || 0) > 0 && (
+                    <Select name="isrWithholdingType" value={formData.isrWithholdingType || ''} onChange={handleChange} required>
+                        <option value="" disabled>Tipo de retención ISR</option>
+                        {Object.entries(ISR_WITHHOLDING_TYPES).map(([code, label]) => <option key={code} value={code}>{code} - {label}</option>)}
+                    </Select>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Forma de pago</label>
+                        <Select name="paymentMethod" value={formData.paymentMethod || ''} onChange={handleChange}>
+                            <option value="" disabled>Seleccione</option>
+                            {(Object.keys(DGII_606_PAYMENT_CODES) as ExpensePaymentMethod[]).map(method => <option key={method} value={method}>{method}</option>)}
+                        </Select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de pago</label>
+                        <Input name="paymentDate" type="date" value={formData.paymentDate || ''} onChange={handleChange} />
+                    </div>
+                </div>
+                <div className="flex justify-end space-x-4 pt-4">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    <Button type="submit">{expense ? 'Guardar Cambios' : 'Añadir Gasto'}</Button>
+                </div>
+            </form>
+        );
+    };
+
+    const PaymentForm = ({ invoice, onSave, onCancel }: { invoice: Invoice; onSave: (payment: Payment) => void; onCancel: () => void; }) => {
+        const balance = getBalanceDue(invoice, payments, creditNotes);
+        const [formData, setFormData] = useState({ date: new Date().toISOString().split('T')[0], amount: balance, method: 'Transferencia' as PaymentMethod, reference: '' });
+
+        const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+            const { name, value, type } = e.target;
+            setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) || 0 : value });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (formData.amount <= 0) {
+                alert('El monto del pago debe ser mayor que cero.');
+                return;
+            }
+            if (roundCurrency(formData.amount) > balance) {
+                alert(`El pago no puede superar el balance pendiente de ${formatCurrency(balance)}.`);
+                return;
+            }
+            onSave({
+                ...formData,
+                amount: roundCurrency(formData.amount),
+                reference: formData.reference.trim() || undefined,
+                id: generateId(),
+                invoiceId: invoice.id,
+                createdAt: new Date().toISOString(),
+            });
+        };
+
+        return (
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <p className="text-sm text-gray-600">Balance pendiente: <strong>{formatCurrency(balance)}</strong></p>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                        <Input name="date" type="date" value={formData.date} onChange={handleChange} required />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Monto</label>
+                        <Input name="amount" type="number" step="0.01" min="0.01" value={formData.amount} onChange={handleChange} required />
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Método</label>
+                        <Select name="method" value={formData.method} onChange={handleChange}>
+                            {PAYMENT_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                        </Select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Referencia</label>
+                        <Input name="reference" placeholder="N° de transferencia, cheque..." value={formData.reference} onChange={handleChange} />
+                    </div>
+                </div>
+                <div className="flex justify-end space-x-4 pt-4">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    <Button type="submit">Registrar Pago</Button>
+                </div>
+            </form>
+        );
+    };
+
+    // Page Components
+    const PageComponent = () => {
+        switch (currentPage) {
+            case 'dashboard':
+                return <DashboardPage />;
+            case 'clients':
+                return <ClientsPage />;
+            case 'equipment':
+                return <EquipmentPage />;
+            case 'quotes':
+                return <QuotesPage />;
+            case 'invoices':
+                return <InvoicesPage />;
+            case 'contracts':
+                return <ContractsPage />;
+            case 'maintenance':
+                return <MaintenancePage />;
+            case 'workOrders':
+                return <WorkOrdersPage />;
+            case 'inventory':
+                 return <InventoryPage />;
+            case 'purchases':
+                return <PurchasesPage />;
+            case 'expenses':
+                 return <ExpensesPage />;
+            case 'collections':
+                return <CollectionsPage />;
+            case 'reports':
+                return <ReportsPage />;
+            case 'settings':
+                return <SettingsPage />;
+            default:
+                return <DashboardPage />;
+        }
+    };
+
+    // Sub-components (Pages & Forms)
+
+    const DashboardPage = () => {
+        const upcomingMaintenance = useMemo(() => {
+            const today = todayIso();
+            const limit = addDays(today, settings.maintenanceSettings.upcomingDays);
+            const openVisits = maintenanceVisits.filter(isOpenVisit);
+            return {
+                upcoming: openVisits.filter(v => getVisitDate(v) >= today && getVisitDate(v) <= limit).length,
+                overdue: openVisits.filter(v => isVisitOverdue(v, today)).length,
+            };
+        }, [maintenanceVisits, settings]);
+
+        const monthlyData = useMemo(() => {
+            const now = new Date();
+            const currentMonth = now.getMonth();
+            const currentYear = now.getFullYear();
+
+            const monthKey = `${currentYear}-${(currentMonth + 1).toString().padStart(2, '0')}`;
+
+            const collected = payments
+                .filter(p => p.date.startsWith(monthKey))
+                .reduce((acc, payment) => {
+                    const invoice = invoices.find(inv => inv.id === payment.invoiceId);
+                    if (!invoice) return acc;
+                    const split = splitItbis(payment.amount, invoice);
+                    return { income: acc.income + split.income, itbisCollected: acc.itbisCollected + split.itbis };
+                }, { income: 0, itbisCollected: 0 });
+
+            // Money returned through credit notes comes off the month's income.
+            const monthCreditNotes = creditNotes.filter(cn => cn.issueDate.startsWith(monthKey));
+            const { income, itbisCollected } = monthCreditNotes
+                .filter(cn => cn.refundAmount)
+                .reduce((acc, creditNote) => {
+                    const split = splitItbis(creditNote.refundAmount!, creditNote);
+                    return { income: acc.income - split.income, itbisCollected: acc.itbisCollected - split.itbis };
+                }, collected);
+            const totalCredited = monthCreditNotes.reduce((sum, cn) => sum + calculateInvoiceTotals(cn).total, 0);
+
+            const totalExpenses = expenses
+                 .filter(exp => {
+                    const expDate = new Date(exp.date);
+                    return expDate.getMonth() === currentMonth && expDate.getFullYear() === currentYear;
+                })
+                .reduce((sum, exp) => sum + exp.amount, 0);
+
+            return { income, itbisCollected, totalCredited, totalExpenses };
+        }, [invoices, payments, creditNotes, expenses]);
+        
+        const monthlyProfit = monthlyData.income - monthlyData.totalExpenses;
+        const ncfAlerts = useMemo(() => getNcfAlerts(ncfSequences, settings.ncfSettings), [ncfSequences, settings.ncfSettings]);
+        const lowStockItems = inventory.filter(isLowStock);
+        const { reminderDays } = settings.backupSettings;
+        const daysSinceBackup = lastBackupAt ? daysBetween(lastBackupAt.slice(0, 10), todayIso()) : null;
+        const backupDue = reminderDays > 0 && (daysSinceBackup === null || daysSinceBackup >= reminderDays);
+        const reorderCount = useMemo(() => getReorderSuggestions(inventory, stockMovements, purchaseOrders, todayIso()).length, [inventory, stockMovements, purchaseOrders]);
+
+        const showInventory = (tab: 'items' | 'reorder') => {
+            setInventoryTab(tab);
+            setLowStockOnly(tab === 'items');
+            setCurrentPage('inventory');
+        };
+
+        return (
+            <div className="space-y-8">
+                {backupDue && (
+                    <div className="p-4 bg-yellow-50 border border-yellow-300 rounded-xl text-yellow-800 flex flex-wrap justify-between items-center gap-2">
+                        <p className="text-sm">
+                            <span className="font-semibold">Respaldo pendiente: </span>
+                            {daysSinceBackup === null ? 'aún no ha descargado ningún respaldo de sus datos.' : `han pasado ${daysSinceBackup} días desde el último respaldo.`}
+                        </p>
+                        <button onClick={() => setCurrentPage('settings')} className="text-sm font-semibold text-yellow-900 hover:underline">Ir a respaldos</button>
+                    </div>
+                )}
+                {ncfAlerts.length > 0 && (
+                    <div className="p-4 bg-yellow-50 border border-yellow-300 rounded-xl text-yellow-800">
+                        <h3 className="font-semibold mb-2">Comprobantes Fiscales (NCF)</h3>
+                        <ul className="list-disc list-inside text-sm space-y-1">
+                            {ncfAlerts.map(message => <li key={message}>{message}</li>)}
+                        </ul>
+                    </div>
+                )}
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-800 mb-4">Resumen Financiero del Mes</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                        <Card>
+                            <h3 className="text-lg font-semibold text-gray-500">Ingresos</h3>
+                            <p className="text-4xl font-bold text-green-600">{formatCurrency(monthlyData.income)}</p>
+                            <p className="text-sm text-gray-400">Cobrado: {formatCurrency(monthlyData.income + monthlyData.itbisCollected)} · ITBIS: {formatCurrency(monthlyData.itbisCollected)}</p>
+                            {monthlyData.totalCredited > 0 && <p className="text-sm text-gray-400">Notas de crédito emitidas: {formatCurrency(monthlyData.totalCredited)}</p>}
+                        </Card>
+                        <Card>
+                            <h3 className="text-lg font-semibold text-gray-500">Gastos</h3>
+                            <p className="text-4xl font-bold text-red-600">{formatCurrency(monthlyData.totalExpenses)}</p>
+                        </Card>
+                        <Card>
+                            <h3 className="text-lg font-semibold text-gray-500">Ganancia Neta</h3>
+                            <p className={`text-4xl font-bold ${monthlyProfit >= 0 ? 'text-blue-600' : 'text-orange-500'}`}>{formatCurrency(monthlyProfit)}</p>
+                        </Card>
+                    </div>
+                </div>
+
+                <div>
+                    <h2 className="text-2xl font-bold text-gray-800 mb-4">Resumen Operativo</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <Card>
+                            <h3 className="text-lg font-semibold text-gray-500">Total Clientes</h3>
+                            <p className="text-4xl font-bold text-gray-800">{clients.length}</p>
+                        </Card>
+                        <Card>
+                            <h3 className="text-lg font-semibold text-gray-500">Mantenimiento Próximo</h3>
+                            <p className="text-4xl font-bold text-blue-600">{upcomingMaintenance.upcoming}</p>
+                            <p className="text-sm text-gray-400">En los próximos {settings.maintenanceSettings.upcomingDays} días</p>
+                            {upcomingMaintenance.overdue > 0 && <p className="text-sm font-semibold text-red-600">{upcomingMaintenance.overdue} visita(s) vencida(s)</p>}
+                            <button onClick={() => setCurrentPage('maintenance')} className="mt-2 text-sm text-blue-600 hover:underline">Ver calendario</button>
+                        </Card>
+                        <Card>
+                            <h3 className="text-lg font-semibold text-gray-500">Inventario Bajo</h3>
+                            <p className={`text-4xl font-bold ${lowStockItems.length > 0 ? 'text-red-600' : 'text-gray-800'}`}>{lowStockItems.length}</p>
+                            <p className="text-sm text-gray-400">Artículos en o bajo su punto de reorden</p>
+                            {lowStockItems.length > 0 && (
+                                <ul className="mt-2 text-sm text-gray-600 space-y-1">
+                                    {lowStockItems.slice(0, 5).map(item => <li key={item.id}>{item.name}: <span className="font-semibold">{item.quantity}</span> (mín. {item.reorderPoint})</li>)}
+                                </ul>
+                            )}
+                            <div className="flex gap-4">
+                                {lowStockItems.length > 0 && <button onClick={() => showInventory('items')} className="mt-2 text-sm text-blue-600 hover:underline">Ver artículos</button>}
+                                {reorderCount > 0 && <button onClick={() => showInventory('reorder')} className="mt-2 text-sm text-blue-600 hover:underline">Sugerencias de pedido ({reorderCount})</button>}
+                            </div>
+                        </Card>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    // Spreadsheet import in three steps: choose the file, map its columns, then review the dry run before saving.
+    const ImportWizard = ({ target, onDone }: { target: ImportTarget; onDone: () => void }) => {
+        const [sheet, setSheet] = useState<ImportSheet | null>(null);
+        const [mapping, setMapping] = useState<ImportMapping>({});
+        const [rows, setRows] = useState<ImportRow[] | null>(null);
+        const fields = IMPORT_FIELDS[target];
+        const existing = target === 'clients' ? clients : target === 'inventory' ? inventory : expenses;
+
+        const handleFileSelected = async (file: File | null) => {
+            if (!file) return;
+            try {
+                const data = await readSpreadsheet(file);
+                if (data.rows.length === 0) {
+                    alert('El archivo no tiene filas de datos.');
+                    return;
+                }
+                setSheet(data);
+                setMapping(guessMapping(target, data.headers));
+            } catch (error) {
+                alert(error instanceof Error ? error.message : 'No se pudo leer el archivo.');
+            }
+        };
+
+        const handleValidate = () => {
+            const missing = fields.filter(field => field.required && mapping[field.key] === null);
+            if (missing.length > 0) {
+                alert(`Asigne una columna a: ${missing.map(field => field.label).join(', ')}.`);
+                return;
+            }
+            setRows(validateImport(target, sheet!, mapping, existing));
+        };
+
+        const importable = (rows || []).filter(row => row.errors.length === 0 && !row.duplicate);
+
+        const handleImport = () => {
+            if (importable.length === 0) return;
+            if (target === 'clients') {
+                const createdAt = new Date().toISOString();
+                setClients([...clients, ...importable.map(row => ({ address: '', phone: '', email: '', ...toClientFields(row.values), id: generateId(), createdAt }))]);
+            } else if (target === 'inventory') {
+                // Items start at zero and their quantity goes in as opening stock, so the ledger matches what was imported.
+                const newItems = importable.map(row => ({ description: '', ...toInventoryFields(row.values), id: generateId() }));
+                postStockMovements(
+                    newItems.filter(item => item.quantity !== 0).map(item => ({ inventoryItemId: item.id, date: todayIso(), quantity: item.quantity, reason: 'Inventario inicial' as const, unitCost: item.unitCost })),
+                    [...inventory, ...newItems.map(item => ({ ...item, quantity: 0 }))],
+                );
+            } else {
+                setExpenses([...expenses, ...importable.map(row => ({ ...toExpenseFields(row.values), id: generateId() }))]);
+            }
+            alert(`Se importaron ${importable.length} ${IMPORT_TARGET_LABELS[target]}.`);
+            onDone();
+        };
+
+        if (!sheet) {
+            return (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600">
+                        Seleccione un archivo CSV o Excel (.xlsx). La primera fila debe tener los nombres de las columnas; se lee solo la primera hoja.
+                        Columnas reconocidas: {fields.map(field => field.label).join(', ')}.
+                    </p>
+                    <Input type="file" accept=".csv,.xlsx,.xls,text/csv" onChange={e => handleFileSelected(e.target.files?.[0] || null)} />
+                </div>
+            );
+        }
+
+        if (!rows) {
+            return (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600">{sheet.rows.length} fila(s) encontradas. Indique de qué columna se toma cada dato.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {fields.map(field => (
+                            <div key={field.key}>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">
+                                    {field.label}{field.required && <span className="text-red-600"> *</span>}
+                                    {field.options && <span className="text-gray-500 font-normal"> ({field.options.join(', ')})</span>}
+                                </label>
+                                <Select value={mapping[field.key] ?? ''} onChange={e => setMapping({ ...mapping, [field.key]: e.target.value === '' ? null : Number(e.target.value) })}>
+                                    <option value="">{field.defaultValue !== undefined ? `No importar (usar ${field.defaultValue})` : 'No importar'}</option>
+                                    {sheet.headers.map((header, index) => <option key={index} value={index}>{header || `Columna ${index + 1}`}</option>)}
+                                </Select>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex justify-end space-x-4 pt-2">
+                        <button type="button" onClick={() => setSheet(null)} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Otro archivo</button>
+                        <Button onClick={handleValidate}>Revisar</Button>
+                    </div>
+                </div>
+            );
+        }
+
+        const invalidCount = rows.filter(row => row.errors.length > 0).length;
+        const duplicateCount = rows.filter(row => row.errors.length === 0 && row.duplicate).length;
+
+        return (
+            <div className="space-y-4">
+                <div className="grid grid-cols-3 gap-4 text-center">
+                    <div className="p-3 bg-green-50 rounded-lg"><p className="text-2xl font-bold text-green-700">{importable.length}</p><p className="text-sm text-gray-600">Se importarán</p></div>
+                    <div className="p-3 bg-yellow-50 rounded-lg"><p className="text-2xl font-bold text-yellow-700">{duplicateCount}</p><p className="text-sm text-gray-600">Duplicados (se omiten)</p></div>
+                    <div className="p-3 bg-red-50 rounded-lg"><p className="text-2xl font-bold text-red-700">{invalidCount}</p><p className="text-sm text-gray-600">Con errores (se omiten)</p></div>
+                </div>
+                <p className="text-sm text-gray-500">Esta es una revisión: no se ha guardado nada todavía. Corrija el archivo y vuelva a cargarlo si necesita incluir las filas omitidas.</p>
+                <div className="overflow-x-auto max-h-96">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fila</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">{target === 'expenses' ? 'Descripción' : 'Nombre'}</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Resultado</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.rowNumber} className="border-b">
+                                    <td className="p-3">{row.rowNumber}</td>
+                                    <td className="p-3 font-medium">{String(target === 'expenses' ? row.values.description ?? '' : row.values.name ?? '') || '—'}</td>
+                                    <td className="p-3">
+                                        {row.errors.length > 0 ? <span className="text-red-600">{row.errors.join(' ')}</span>
+                                            : row.duplicate ? <span className="text-yellow-700">{row.duplicate}</span>
+                                            : <span className="text-green-600">Nuevo</span>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex justify-end space-x-4 pt-2">
+                    <button type="button" onClick={() => setRows(null)} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Volver a columnas</button>
+                    <Button onClick={handleImport} disabled={importable.length === 0}>Importar {importable.length} {IMPORT_TARGET_LABELS[target]}</Button>
+                </div>
+            </div>
+        );
+    };
+
+    const ClientsPage = () => {
+        const [isModalOpen, setIsModalOpen] = useState(false);
+        const [isImportOpen, setIsImportOpen] = useState(false);
+        const [editingClient, setEditingClient] = useState<Client | null>(null);
+
+        const handleAddClient = () => {
+            setEditingClient(null);
+            setIsModalOpen(true);
+        };
+
+        const handleEditClient = (client: Client) => {
+            setEditingClient(client);
+            setIsModalOpen(true);
+        };
+        
+        const handleDeleteClient = (clientId: string) => {
+            if(window.confirm('¿Está seguro que desea eliminar este cliente? Esta acción no se puede deshacer.')){
+                setClients(prev => prev.filter(c => c.id !== clientId));
+                // Optionally delete related invoices
+            }
+        };
+
+        const showClientEquipment = (clientId: string) => {
+            setEquipmentClientId(clientId);
+            setEquipmentView({ view: 'list', documentId: null });
+            setCurrentPage('equipment');
+        };
+
+        const handleSaveClient = (client: Client) => {
+            if (editingClient) {
+                setClients(prev => prev.map(c => c.id === client.id ? client : c));
+            } else {
+                setClients(prev => [...prev, { ...client, id: generateId(), createdAt: new Date().toISOString() }]);
+            }
+            setIsModalOpen(false);
+        };
+
+        const ClientForm = ({ client, onSave, onCancel }: { client: Client | null; onSave: (client: Client) => void; onCancel: () => void; }) => {
+            const [formData, setFormData] = useState<Omit<Client, 'id' | 'createdAt' > & {id?: string, createdAt?: string}>(client || { name: '', address: '', phone: '', email: '', type: 'Residencial', taxId: '' });
+            
+            const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+                setFormData({ ...formData, [e.target.name]: e.target.value });
+            };
+
+            const handleSubmit = (e: React.FormEvent) => {
+                e.preventDefault();
+                if (formData.taxId && !isValidTaxId(formData.taxId)) {
+                    alert('El RNC debe tener 9 dígitos y la cédula 11.');
+                    return;
+                }
+                if (formData.ncfType === 'B01' && !formData.taxId) {
+                    alert('Para emitir comprobantes de Crédito Fiscal el cliente debe tener RNC o cédula.');
+                    return;
+                }
+                onSave({ ...formData, ncfType: formData.ncfType || undefined } as Client);
+            };
+
+            return (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <Input name="name" placeholder="Nombre completo" value={formData.name} onChange={handleChange} required />
+                    <Input name="address" placeholder="Dirección" value={formData.address} onChange={handleChange} />
+                    <Input name="phone" type="tel" placeholder="Teléfono" value={formData.phone} onChange={handleChange} />
+                    <Input name="email" type="email" placeholder="Correo electrónico" value={formData.email} onChange={handleChange} />
+                    <Input name="taxId" placeholder="RNC / Cédula" value={formData.taxId || ''} onChange={handleChange} />
+                     <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de Cliente</label>
+                        <Select name="type" value={formData.type} onChange={handleChange}>
+                            <option value="Residencial">Residencial</option>
+                            <option value="Comercial">Comercial</option>
+                        </Select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de Comprobante</label>
+                        <Select name="ncfType" value={formData.ncfType || ''} onChange={handleChange}>
+                            <option value="">Automático (Crédito Fiscal si es comercial con RNC)</option>
+                            {(['B01', 'B02', 'B14', 'B15'] as NcfType[]).map(type => <option key={type} value={type}>{type} - {NCF_TYPE_LABELS[type]}</option>)}
+                        </Select>
+                    </div>
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">{client ? 'Guardar Cambios' : 'Crear Cliente'}</Button>
+                    </div>
+                </form>
+            );
+        };
+
+        return (
+            <Card>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Clientes</h2>
+                    <div className="flex space-x-2">
+                        <button onClick={() => setIsImportOpen(true)} className="flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">{ICONS.upload} Importar</button>
+                        <Button onClick={handleAddClient}>{ICONS.plus} Nuevo Cliente</Button>
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Nombre</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tipo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">RNC / Cédula</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Teléfono</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Equipos</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {clients.map(client => (
+                                <tr key={client.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-medium">{client.name}</td>
+                                    <td className="p-3">{client.type}</td>
+                                    <td className="p-3">{client.taxId || '—'}</td>
+                                    <td className="p-3">{client.phone}</td>
+                                    <td className="p-3">
+                                        <button onClick={() => showClientEquipment(client.id)} className="text-blue-600 hover:underline">{equipment.filter(unit => unit.clientId === client.id).length} equipo(s)</button>
+                                    </td>
+                                    <td className="p-3 flex space-x-2">
+                                        <AuditHistoryButton entityType="client" entityId={client.id} title={client.name} />
+                                        <button onClick={() => handleEditClient(client)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                        <button onClick={() => handleDeleteClient(client.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingClient ? 'Editar Cliente' : 'Nuevo Cliente'}>
+                    <ClientForm client={editingClient} onSave={handleSaveClient} onCancel={() => setIsModalOpen(false)} />
+                </Modal>
+                <Modal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} title="Importar Clientes" size="max-w-4xl">
+                    <ImportWizard target="clients" onDone={() => setIsImportOpen(false)} />
+                </Modal>
+            </Card>
+        );
+    };
+    
+    const EquipmentPage = () => {
+        const { view, documentId } = equipmentView;
+        const selectedUnit = equipment.find(unit => unit.id === documentId) || null;
+        const showList = () => setEquipmentView({ view: 'list', documentId: null });
+        const visibleEquipment = equipment.filter(unit => !equipmentClientId || unit.clientId === equipmentClientId);
+
+        const handleSaveEquipment = (unit: Equipment) => {
+            if (selectedUnit) {
+                setEquipment(prev => prev.map(u => u.id === unit.id ? unit : u));
+            } else {
+                setEquipment(prev => [...prev, { ...unit, id: generateId(), createdAt: new Date().toISOString() }]);
+            }
+            showList();
+        };
+
+        const handleDeleteEquipment = (unit: Equipment) => {
+            if (invoices.some(inv => inv.items.some(item => item.equipmentId === unit.id))) {
+                alert('Este equipo tiene facturas en su historial de servicio y no puede eliminarse.');
+                return;
+            }
+            if (window.confirm('¿Está seguro que desea eliminar este equipo?')) {
+                setEquipment(prev => prev.filter(u => u.id !== unit.id));
+            }
+        };
+
+        if (view === 'form') {
+            return <EquipmentForm unit={selectedUnit} onSave={handleSaveEquipment} onCancel={showList} />;
+        }
+
+        if (view === 'preview' && selectedUnit) {
+            return <EquipmentDetail unit={selectedUnit} onBack={showList} />;
+        }
+
+        return (
+            <Card>
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Equipos</h2>
+                    <div className="flex items-center gap-2">
+                        <Select value={equipmentClientId} onChange={e => setEquipmentClientId(e.target.value)} className="w-auto">
+                            <option value="">Todos los clientes</option>
+                            {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                        </Select>
+                        <Button onClick={() => setEquipmentView({ view: 'form', documentId: null })}>{ICONS.plus} Nuevo Equipo</Button>
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Equipo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° de serie</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Capacidad</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Refrigerante</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Garantía</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleEquipment.map(unit => {
+                                const client = clients.find(c => c.id === unit.clientId);
+                                const warrantyStatus = getWarrantyStatus(unit);
+                                return (
+                                    <tr key={unit.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setEquipmentView({ view: 'preview', documentId: unit.id })}>{formatEquipmentName(unit) || 'Sin nombre'}</td>
+                                        <td className="p-3">{client?.name || 'N/A'}</td>
+                                        <td className="p-3 font-mono text-sm">{unit.serialNumber || '—'}</td>
+                                        <td className="p-3">{formatCapacity(unit)}</td>
+                                        <td className="p-3">{unit.refrigerant || '—'}</td>
+                                        <td className="p-3">
+                                            {warrantyStatus ? (
+                                                <span className={`px-2 py-1 text-xs font-semibold rounded-full ${warrantyStatus === 'Vigente' ? 'bg-green-200 text-green-800' : 'bg-gray-200 text-gray-800'}`}>{warrantyStatus} · {formatDate(unit.warrantyEnd!)}</span>
+                                            ) : '—'}
+                                        </td>
+                                        <td className="p-3 flex space-x-2">
+                                            <button onClick={() => setEquipmentView({ view: 'form', documentId: unit.id })} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                            <button onClick={() => handleDeleteEquipment(unit)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {visibleEquipment.length === 0 && (
+                                <tr><td colSpan={7} className="p-6 text-center text-gray-500">No hay equipos registrados.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        );
+    };
+
+    const EquipmentForm = ({ unit, onSave, onCancel }: { unit: Equipment | null, onSave: (unit: Equipment) => void, onCancel: () => void }) => {
+        const [formData, setFormData] = useState<Omit<Equipment, 'id' | 'createdAt'>>(
+            unit || {
+                clientId: equipmentClientId,
+                brand: '',
+                model: '',
+                serialNumber: '',
+                capacity: 0,
+                capacityUnit: 'BTU',
+                refrigerant: 'R-410A',
+                location: '',
+                installDate: '',
+                warrantyStart: '',
+                warrantyEnd: '',
+                notes: '',
+            }
+        );
+
+        const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+            const { name, value, type } = e.target;
+            setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) || 0 : value });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!clients.some(c => c.id === formData.clientId)) {
+                alert('Por favor, seleccione un cliente.');
+                return;
+            }
+            if (formData.warrantyStart && formData.warrantyEnd && formData.warrantyEnd < formData.warrantyStart) {
+                alert('El fin de la garantía no puede ser anterior a su inicio.');
+                return;
+            }
+            onSave({
+                ...formData,
+                installDate: formData.installDate || undefined,
+                warrantyStart: formData.warrantyStart || undefined,
+                warrantyEnd: formData.warrantyEnd || undefined,
+                id: unit?.id || '',
+                createdAt: unit?.createdAt || '',
+            });
+        };
+
+        return (
+            <Card>
+                <form onSubmit={handleSubmit}>
+                    <h2 className="text-2xl font-bold text-gray-800 mb-6">{unit ? 'Editar Equipo' : 'Nuevo Equipo'}</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                            <Select name="clientId" value={formData.clientId} onChange={handleInputChange} required>
+                                <option value="" disabled>Seleccione un cliente</option>
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Marca</label>
+                            <Input name="brand" value={formData.brand} onChange={handleInputChange} required />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Modelo</label>
+                            <Input name="model" value={formData.model} onChange={handleInputChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">N° de serie</label>
+                            <Input name="serialNumber" value={formData.serialNumber} onChange={handleInputChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Capacidad</label>
+                            <div className="flex gap-2">
+                                <Input type="number" name="capacity" value={formData.capacity} onChange={handleInputChange} min="0" step="any" />
+                                <Select name="capacityUnit" value={formData.capacityUnit} onChange={handleInputChange} className="w-auto">
+                                    {(['BTU', 'Toneladas'] as CapacityUnit[]).map(u => <option key={u} value={u}>{u}</option>)}
+                                </Select>
+                            </div>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Refrigerante</label>
+                            <Input name="refrigerant" value={formData.refrigerant} onChange={handleInputChange} list="refrigerant-types" />
+                            <datalist id="refrigerant-types">
+                                {REFRIGERANT_TYPES.map(r => <option key={r} value={r} />)}
+                            </datalist>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Ubicación</label>
+                            <Input name="location" value={formData.location} onChange={handleInputChange} placeholder="Ej. Habitación principal, azotea" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de instalación</label>
+                            <Input type="date" name="installDate" value={formData.installDate || ''} onChange={handleInputChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Intervalo de mantenimiento (meses, opcional)</label>
+                            <Input type="number" min="1" value={formData.maintenanceIntervalMonths || ''} onChange={e => setFormData({ ...formData, maintenanceIntervalMonths: parseInt(e.target.value, 10) || undefined })} placeholder="Según servicio o tipo de cliente" />
+                        </div>
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Garantía</h3>
+                    <p className="text-sm text-gray-500 mb-4">Se completa automáticamente al emitir una factura con una línea de equipo nuevo vinculada a este equipo.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Inicio</label>
+                            <Input type="date" name="warrantyStart" value={formData.warrantyStart || ''} onChange={handleInputChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fin</label>
+                            <Input type="date" name="warrantyEnd" value={formData.warrantyEnd || ''} onChange={handleInputChange} />
+                        </div>
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                        <Textarea name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={3} />
+                    </div>
+
+                    <div className="flex justify-end space-x-4 pt-8">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">Guardar Equipo</Button>
+                    </div>
+                </form>
+            </Card>
+        );
+    };
+
+    const EquipmentDetail = ({ unit, onBack }: { unit: Equipment, onBack: () => void }) => {
+        const client = clients.find(c => c.id === unit.clientId);
+        const history = getEquipmentServiceHistory(unit.id, invoices);
+        const warrantyStatus = getWarrantyStatus(unit);
+        const warrantyInvoice = invoices.find(inv => inv.id === unit.warrantyInvoiceId);
+        const nextVisit = maintenanceVisits.find(v => v.equipmentId === unit.id && isOpenVisit(v));
+
+        return (
+            <div className="space-y-6">
+                <Card>
+                    <div className="flex justify-between items-center mb-6">
+                        <button onClick={onBack} className="text-blue-600 hover:underline">
+                            &larr; Volver a la lista
+                        </button>
+                        <div className="flex gap-2">
+                            <AuditHistoryButton entityType="equipment" entityId={unit.id} title={formatEquipmentName(unit) || 'Equipo'} label="Historial" />
+                            <Button onClick={() => setEquipmentView({ view: 'form', documentId: unit.id })}>{ICONS.edit} Editar</Button>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800">{formatEquipmentName(unit) || 'Equipo'}</h2>
+                            <p className="text-gray-600">{client?.name || 'N/A'}</p>
+                        </div>
+                        {warrantyStatus && (
+                            <span className={`px-3 py-1 text-sm font-semibold rounded-full ${warrantyStatus === 'Vigente' ? 'bg-green-200 text-green-800' : 'bg-gray-200 text-gray-800'}`}>Garantía {warrantyStatus.toLowerCase()}</span>
+                        )}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div><p className="text-gray-500">N° de serie</p><p className="font-semibold font-mono">{unit.serialNumber || '—'}</p></div>
+                        <div><p className="text-gray-500">Capacidad</p><p className="font-semibold">{formatCapacity(unit)}</p></div>
+                        <div><p className="text-gray-500">Refrigerante</p><p className="font-semibold">{unit.refrigerant || '—'}</p></div>
+                        <div><p className="text-gray-500">Instalación</p><p className="font-semibold">{unit.installDate ? formatDate(unit.installDate) : '—'}</p></div>
+                        <div><p className="text-gray-500">Inicio de garantía</p><p className="font-semibold">{unit.warrantyStart ? formatDate(unit.warrantyStart) : '—'}</p></div>
+                        <div><p className="text-gray-500">Fin de garantía</p><p className="font-semibold">{unit.warrantyEnd ? formatDate(unit.warrantyEnd) : '—'}</p></div>
+                        <div><p className="text-gray-500">Intervalo de mantenimiento</p><p className="font-semibold">{getVisitInterval({ clientId: unit.clientId, equipmentId: unit.id })} meses</p></div>
+                        <div>
+                            <p className="text-gray-500">Próximo mantenimiento</p>
+                            <p className={`font-semibold ${nextVisit && isVisitOverdue(nextVisit) ? 'text-red-600' : ''}`}>{nextVisit ? formatDate(getVisitDate(nextVisit)) : '—'}</p>
+                        </div>
+                        {warrantyInvoice && (
+                            <div>
+                                <p className="text-gray-500">Factura de venta</p>
+                                <button onClick={() => openInvoice(warrantyInvoice.id, 'preview')} className="font-semibold text-blue-600 hover:underline">{warrantyInvoice.invoiceNumber}</button>
+                            </div>
+                        )}
+                    </div>
+                    {unit.notes && <p className="mt-4 text-sm text-gray-600 whitespace-pre-wrap">{unit.notes}</p>}
+                </Card>
+
+                <Card>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-4">Historial de servicio</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Factura</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Descripción</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cantidad</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Importe</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {history.map(({ invoice, item }) => (
+                                    <tr key={item.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3">{formatDate(invoice.issueDate)}</td>
+                                        <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => openInvoice(invoice.id, invoice.status === 'Borrador' ? 'form' : 'preview')}>{invoice.invoiceNumber}</td>
+                                        <td className="p-3">
+                                            {item.description}
+                                            {item.isNewEquipment && <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">Equipo nuevo</span>}
+                                            {item.isMaintenance && <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">Mantenimiento</span>}
+                                        </td>
+                                        <td className="p-3">{item.quantity}</td>
+                                        <td className="p-3">{formatCurrency(item.quantity * item.unitPrice)}</td>
+                                        <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${INVOICE_STATUS_COLORS[invoice.status]}`}>{invoice.status}</span></td>
+                                    </tr>
+                                ))}
+                                {history.length === 0 && (
+                                    <tr><td colSpan={6} className="p-6 text-center text-gray-500">Este equipo aún no aparece en ninguna factura.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            </div>
+        );
+    };
+
+    const InventoryPage = () => {
+        return (
+            <Card>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Inventario y Servicios</h2>
+                </div>
+                <div className="border-b mb-6">
+                    <TabButton isActive={inventoryTab === 'items'} onClick={() => setInventoryTab('items')}>Artículos</TabButton>
+                    <TabButton isActive={inventoryTab === 'services'} onClick={() => setInventoryTab('services')}>Servicios / Kits</TabButton>
+                    <TabButton isActive={inventoryTab === 'reorder'} onClick={() => setInventoryTab('reorder')}>Reabastecimiento</TabButton>
+                </div>
+                <div>
+                    {inventoryTab === 'items' && <InventoryItemsManager />}
+                    {inventoryTab === 'services' && <ServicesManager />}
+                    {inventoryTab === 'reorder' && <ReorderSuggestions />}
+                </div>
+            </Card>
+        );
+    };
+
+    const InventoryItemsManager = () => {
+        const [isModalOpen, setIsModalOpen] = useState(false);
+        const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
+        const [ledgerItem, setLedgerItem] = useState<InventoryItem | null>(null);
+        const [isImportOpen, setIsImportOpen] = useState(false);
+
+        const handleAddItem = () => { setEditingItem(null); setIsModalOpen(true); };
+        const handleEditItem = (item: InventoryItem) => { setEditingItem(item); setIsModalOpen(true); };
+
+        // Stock on hand must leave through a movement first, so the ledger never loses units without a record.
+        const handleDeleteItem = (item: InventoryItem) => {
+            if (item.quantity !== 0) {
+                alert(`No se puede eliminar un artículo con existencias (${item.quantity} en inventario). Ajuste la cantidad a cero primero.`);
+                return;
+            }
+            if (window.confirm('¿Está seguro de que desea eliminar este artículo del inventario?')) {
+                setInventory(prev => prev.filter(i => i.id !== item.id));
+            }
+        };
+
+        // Quantity typed in the form is recorded as a movement, so the ledger balance always matches the stock on hand.
+        const handleSaveItem = (item: InventoryItem) => {
+            if (editingItem) {
+                const difference = item.quantity - editingItem.quantity;
+                const updatedInventory = inventory.map(i => i.id === item.id ? { ...item, quantity: editingItem.quantity } : i);
+                postStockMovements(difference !== 0 ? [{ inventoryItemId: item.id, date: todayIso(), quantity: difference, reason: 'Ajuste manual' }] : [], updatedInventory);
+            } else {
+                const newItem = { ...item, id: generateId(), quantity: 0 };
+                postStockMovements(item.quantity !== 0 ? [{ inventoryItemId: newItem.id, date: todayIso(), quantity: item.quantity, reason: 'Inventario inicial' }] : [], [...inventory, newItem]);
+            }
+            setIsModalOpen(false);
+        };
+
+        const StockLedger = ({ item }: { item: InventoryItem }) => {
+            const movements = stockMovements
+                .filter(m => m.inventoryItemId === item.id)
+                .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+
+            return (
+                <div>
+                    <p className="text-sm text-gray-600 mb-4">Existencia actual: <span className={`font-semibold ${item.quantity < 0 ? 'text-red-600' : 'text-gray-800'}`}>{item.quantity}</span></p>
+                    {movements.length === 0 ? (
+                        <p className="text-gray-500 text-center py-6">Este artículo no tiene movimientos registrados.</p>
+                    ) : (
+                        <div className="overflow-x-auto max-h-96">
+                            <table className="w-full text-left">
+                                <thead>
+                                    <tr className="bg-gray-50 border-b">
+                                        <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                        <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Motivo</th>
+                                        <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Documento</th>
+                                        <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Cantidad</th>
+                                        <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Saldo</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {movements.map(movement => (
+                                        <tr key={movement.id} className="border-b">
+                                            <td className="p-3">{formatDate(movement.date)}</td>
+                                            <td className="p-3">{movement.reason}</td>
+                                            <td className="p-3">
+                                                {movement.sourceType === 'invoice' && movement.sourceId ? (
+                                                    <button onClick={() => openInvoice(movement.sourceId!, 'preview')} className="text-blue-600 hover:underline">Factura {movement.sourceNumber}</button>
+                                                ) : movement.sourceType === 'purchaseOrder' && movement.sourceId ? (
+                                                    <button onClick={() => { setPurchasesView({ view: 'preview', documentId: movement.sourceId! }); setCurrentPage('purchases'); }} className="text-blue-600 hover:underline">Compra {movement.sourceNumber}</button>
+                                                ) : '—'}
+                                            </td>
+                                            <td className={`p-3 text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>{movement.quantity > 0 ? '+' : ''}{movement.quantity}</td>
+                                            <td className={`p-3 text-right ${movement.balanceAfter < 0 ? 'text-red-600' : ''}`}>{movement.balanceAfter}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            );
+        };
+
+        const ItemForm = ({ item, onSave, onCancel }: { item: InventoryItem | null; onSave: (item: InventoryItem) => void; onCancel: () => void; }) => {
+            const [formData, setFormData] = useState(item || { name: '', description: '', quantity: 0, unitPrice: 0 });
+            const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+                const { name, value, type } = e.target;
+                setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) : value });
+            };
+            const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onSave({ ...formData, id: item?.id || '' }); };
+
+            return (
+                 <form onSubmit={handleSubmit} className="space-y-4">
+                    <Input name="name" placeholder="Nombre del artículo" value={formData.name} onChange={handleChange} required />
+                    <Textarea name="description" placeholder="Descripción" value={formData.description} onChange={handleChange} />
+                    <div className="grid grid-cols-2 gap-4">
+                        <Input name="quantity" type="number" placeholder="Cantidad" value={formData.quantity} onChange={handleChange} required />
+                        <Input name="unitPrice" type="number" step="0.01" placeholder="Precio unitario" value={formData.unitPrice} onChange={handleChange} required />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Costo unitario (se actualiza al recibir compras)</label>
+                        <Input name="unitCost" type="number" step="0.01" min="0" value={formData.unitCost || 0} onChange={handleChange} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Punto de reorden</label>
+                            <Input type="number" min="0" step="any" placeholder="Sin alerta" value={formData.reorderPoint ?? ''} onChange={e => setFormData({ ...formData, reorderPoint: e.target.value === '' ? undefined : parseFloat(e.target.value) })} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cantidad a pedir</label>
+                            <Input type="number" min="0" step="any" placeholder="Según consumo" value={formData.reorderQuantity ?? ''} onChange={e => setFormData({ ...formData, reorderQuantity: e.target.value === '' ? undefined : parseFloat(e.target.value) })} />
+                        </div>
+                    </div>
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">{item ? 'Guardar Cambios' : 'Añadir Artículo'}</Button>
+                    </div>
+                </form>
+            );
+        };
+
+        const lowStockCount = inventory.filter(isLowStock).length;
+        const visibleItems = lowStockOnly ? inventory.filter(isLowStock) : inventory;
+
+        return (
+            <div>
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                    <label className="flex items-center text-sm cursor-pointer">
+                        <input type="checkbox" checked={lowStockOnly} onChange={e => setLowStockOnly(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2" />
+                        Solo artículos en o bajo el punto de reorden ({lowStockCount})
+                    </label>
+                    <div className="flex space-x-2">
+                        <button onClick={() => setIsImportOpen(true)} className="flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">{ICONS.upload} Importar</button>
+                        <Button onClick={handleAddItem}>{ICONS.plus} Nuevo Artículo</Button>
+                    </div>
+                </div>
+                 <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Artículo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Descripción</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cantidad</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Costo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Precio</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {visibleItems.map(item => (
+                                <tr key={item.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-medium">{item.name}</td>
+                                    <td className="p-3 text-sm text-gray-600">{item.description}</td>
+                                    <td className={`p-3 ${item.quantity < 0 ? 'text-red-600 font-semibold' : ''}`}>
+                                        {item.quantity}
+                                        {isLowStock(item) && <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-red-200 text-red-800" title={`Punto de reorden: ${item.reorderPoint}`}>Bajo</span>}
+                                    </td>
+                                    <td className="p-3">{item.unitCost ? formatCurrency(item.unitCost) : '—'}</td>
+                                    <td className="p-3">{formatCurrency(item.unitPrice)}</td>
+                                    <td className="p-3 flex space-x-2">
+                                        <button onClick={() => setLedgerItem(item)} className="text-gray-600 hover:text-gray-800" title="Movimientos">{ICONS.history}</button>
+                                        <AuditHistoryButton entityType="inventoryItem" entityId={item.id} title={item.name} />
+                                        <button onClick={() => handleEditItem(item)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                        <button onClick={() => handleDeleteItem(item)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                            {visibleItems.length === 0 && (
+                                <tr><td colSpan={6} className="p-6 text-center text-gray-500">{lowStockOnly ? 'No hay artículos en o bajo su punto de reorden.' : 'No hay artículos en el inventario.'}</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                 <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingItem ? 'Editar Artículo' : 'Nuevo Artículo de Inventario'}>
+                    <ItemForm item={editingItem} onSave={handleSaveItem} onCancel={() => setIsModalOpen(false)} />
+                </Modal>
+                <Modal isOpen={!!ledgerItem} onClose={() => setLedgerItem(null)} title={`Movimientos: ${ledgerItem?.name || ''}`} size="max-w-4xl">
+                    {ledgerItem && <StockLedger item={ledgerItem} />}
+                </Modal>
+                <Modal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} title="Importar Artículos" size="max-w-4xl">
+                    <ImportWizard target="inventory" onDone={() => setIsImportOpen(false)} />
+                </Modal>
+            </div>
+        );
+    };
+
+    const ReorderSuggestions = () => {
+        const [supplierId, setSupplierId] = useState('');
+        const suggestions = getReorderSuggestions(inventory, stockMovements, purchaseOrders, todayIso());
+        const toOrder = suggestions.filter(s => s.suggestedQuantity > 0);
+
+        // Starts a draft purchase order with the suggested quantities so it can be reviewed before sending.
+        const handleCreatePurchaseOrder = () => {
+            if (!supplierId) {
+                alert('Seleccione el proveedor para la orden de compra.');
+                return;
+            }
+            const order: PurchaseOrder = {
+                id: generateId(),
+                purchaseOrderNumber: assignDocumentNumbers('purchaseOrder', purchaseOrders.map(po => po.purchaseOrderNumber), [todayIso()]).numbers[0],
+                supplierId,
+                orderDate: todayIso(),
+                expectedDate: addDays(todayIso(), 7),
+                status: 'Borrador',
+                lines: toOrder.map(s => ({ id: generateId(), inventoryItemId: s.item.id, quantity: s.suggestedQuantity, unitCost: s.item.unitCost || 0, receivedQuantity: 0 })),
+                receipts: [],
+                createdAt: new Date().toISOString(),
+            };
+            setPurchaseOrders([...purchaseOrders, order]);
+            setPurchasesView({ view: 'form', documentId: order.id });
+            setCurrentPage('purchases');
+        };
+
+        return (
+            <div>
+                <p className="text-sm text-gray-600 mb-4">
+                    Artículos en o bajo su punto de reorden, o que se agotarían en los próximos {REORDER_COVERAGE_DAYS} días según el consumo facturado de los últimos {REORDER_USAGE_DAYS} días.
+                </p>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Artículo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Existencia</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Punto de reorden</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Consumo diario</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Días restantes</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">En pedido</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cantidad sugerida</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {suggestions.map(({ item, dailyUsage, daysLeft, onOrder, suggestedQuantity }) => (
+                                <tr key={item.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-medium">{item.name}</td>
+                                    <td className={`p-3 ${isLowStock(item) ? 'text-red-600 font-semibold' : ''}`}>{item.quantity}</td>
+                                    <td className="p-3">{item.reorderPoint ?? '—'}</td>
+                                    <td className="p-3">{dailyUsage > 0 ? dailyUsage.toFixed(2) : '—'}</td>
+                                    <td className={`p-3 ${daysLeft !== null && daysLeft <= 7 ? 'text-red-600 font-semibold' : ''}`}>{daysLeft === null ? 'Sin consumo' : Math.floor(daysLeft)}</td>
+                                    <td className="p-3">{onOrder || '—'}</td>
+                                    <td className="p-3 font-semibold">{suggestedQuantity}</td>
+                                </tr>
+                            ))}
+                            {suggestions.length === 0 && (
+                                <tr><td colSpan={7} className="p-6 text-center text-gray-500">No hay artículos que necesiten reabastecerse.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {toOrder.length > 0 && (
+                    <div className="flex flex-wrap justify-end items-center gap-2 mt-4">
+                        <Select value={supplierId} onChange={e => setSupplierId(e.target.value)} className="w-auto">
+                            <option value="">Seleccione un proveedor</option>
+                            {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </Select>
+                        <Button onClick={handleCreatePurchaseOrder}>{ICONS.plus} Crear orden de compra</Button>
+                    </div>
+                )}
+            </div>
+        );
+    };
+
+    const ServicesManager = () => {
+        const [isModalOpen, setIsModalOpen] = useState(false);
+        const [editingService, setEditingService] = useState<Service | null>(null);
+
+        const handleAddService = () => { setEditingService(null); setIsModalOpen(true); };
+        const handleEditService = (service: Service) => { setEditingService(service); setIsModalOpen(true); };
+
+        const handleDeleteService = (serviceId: string) => {
+            if (window.confirm('¿Está seguro de que desea eliminar este servicio?')) {
+                setServices(prev => prev.filter(s => s.id !== serviceId));
+            }
+        };
+
+        const handleSaveService = (service: Service) => {
+            if (editingService) {
+                setServices(prev => prev.map(s => s.id === service.id ? service : s));
+            } else {
+                setServices(prev => [...prev, { ...service, id: generateId() }]);
+            }
+            setIsModalOpen(false);
+        };
+
+        const ServiceForm = ({ service, onSave, onCancel }: { service: Service | null, onSave: (service: Service) => void, onCancel: () => void }) => {
+            const [formData, setFormData] = useState(service || { name: '', description: '', items: [], laborCost: 0, totalPrice: 0 });
+
+            const handleItemQuantityChange = (itemId: string, quantity: number) => {
+                const existingItem = formData.items.find(i => i.inventoryItemId === itemId);
+                let newItems;
+                if (existingItem) {
+                    if (quantity > 0) {
+                        newItems = formData.items.map(i => i.inventoryItemId === itemId ? { ...i, quantity } : i);
+                    } else {
+                        newItems = formData.items.filter(i => i.inventoryItemId !== itemId);
+                    }
+                } else if (quantity > 0) {
+                    newItems = [...formData.items, { inventoryItemId: itemId, quantity }];
+                } else {
+                    newItems = formData.items;
+                }
+                setFormData({ ...formData, items: newItems });
+            };
+            
+            const handleSubmit = (e: React.FormEvent) => {
+                e.preventDefault();
+                const materialsCost = formData.items.reduce<number>((total, serviceItem) => {
+                    const inventoryItem = inventory.find(i => i.id === serviceItem.inventoryItemId);
+                    return total + (inventoryItem ? inventoryItem.unitPrice * serviceItem.quantity : 0);
+                }, 0);
+                const totalPrice = materialsCost + formData.laborCost;
+                onSave({ ...formData, id: service?.id || '', totalPrice });
+            };
+            
+            const materialsCost = useMemo(() => formData.items.reduce<number>((total, serviceItem) => {
+                const inventoryItem = inventory.find(i => i.id === serviceItem.inventoryItemId);
+                return total + (inventoryItem ? inventoryItem.unitPrice * serviceItem.quantity : 0);
+            }, 0), [formData.items, inventory]);
+            const kitCost = getServiceKitCost(formData, inventory);
+
+
+            return (
+                <form onSubmit={handleSubmit} className="space-y-6">
+                    <Input name="name" placeholder="Nombre del Servicio (ej. Mantenimiento Preventivo)" value={formData.name} onChange={e => setFormData({...formData, name: e.target.value})} required />
+                    <Textarea name="description" placeholder="Descripción del servicio" value={formData.description} onChange={e => setFormData({...formData, description: e.target.value})} />
+                    
+                    <div>
+                        <h3 className="font-semibold text-gray-700 mb-2">Materiales a utilizar</h3>
+                        <div className="max-h-60 overflow-y-auto border rounded-lg p-2 space-y-2">
+                            {inventory.map(item => (
+                                <div key={item.id} className="grid grid-cols-3 gap-4 items-center">
+                                    <label htmlFor={`item-${item.id}`} className="col-span-2">{item.name} ({formatCurrency(item.unitPrice)})</label>
+                                    <Input 
+                                        type="number" 
+                                        id={`item-${item.id}`} 
+                                        min="0"
+                                        placeholder="Cant."
+                                        value={formData.items.find(i => i.inventoryItemId === item.id)?.quantity || ''}
+                                        onChange={e => handleItemQuantityChange(item.id, parseInt(e.target.value, 10) || 0)}
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    
+                    <div className="grid grid-cols-2 gap-4">
+                       <div className="space-y-4">
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Costo de Mano de Obra</label>
+                                <Input type="number" step="0.01" name="laborCost" placeholder="Mano de Obra" value={formData.laborCost} onChange={e => setFormData({...formData, laborCost: parseFloat(e.target.value) || 0})} required />
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-gray-700 mb-1">Intervalo de mantenimiento (meses, opcional)</label>
+                                <Input type="number" min="1" value={formData.maintenanceIntervalMonths || ''} onChange={e => setFormData({...formData, maintenanceIntervalMonths: parseInt(e.target.value, 10) || undefined})} placeholder="Según tipo de cliente" />
+                            </div>
+                       </div>
+                       <div className="text-right pt-6">
+                            <p className="text-sm text-gray-600">Materiales (precio de venta): {formatCurrency(materialsCost)}</p>
+                            <p className="text-lg font-bold">Precio Total Servicio: {formatCurrency(materialsCost + formData.laborCost)}</p>
+                            <p className="text-sm text-gray-600">Costo de inventario: {formatCurrency(kitCost)}</p>
+                            <p className="text-sm text-gray-600">Margen bruto: {formatCurrency(materialsCost + formData.laborCost - kitCost)}</p>
+                       </div>
+                    </div>
+
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">{service ? 'Guardar Cambios' : 'Crear Servicio'}</Button>
+                    </div>
+                </form>
+            );
+        };
+
+        return (
+            <div>
+                <div className="flex justify-end mb-4">
+                    <Button onClick={handleAddService}>{ICONS.plus} Nuevo Servicio</Button>
+                </div>
+                 <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Servicio</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Precio Total</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Costo Materiales</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Margen Bruto</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {services.map(s => {
+                                const cost = getServiceKitCost(s, inventory);
+                                const margin = s.totalPrice - cost;
+                                return (
+                                <tr key={s.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-medium">{s.name}</td>
+                                    <td className="p-3">{formatCurrency(s.totalPrice)}</td>
+                                    <td className="p-3">{formatCurrency(cost)}</td>
+                                    <td className={`p-3 ${margin < 0 ? 'text-red-600 font-semibold' : ''}`}>{formatCurrency(margin)} <span className="text-xs text-gray-500">({s.totalPrice ? ((margin / s.totalPrice) * 100).toFixed(1) : '0.0'}%)</span></td>
+                                    <td className="p-3 flex space-x-2">
+                                        <AuditHistoryButton entityType="service" entityId={s.id} title={s.name} />
+                                        <button onClick={() => handleEditService(s)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                        <button onClick={() => handleDeleteService(s.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                    </td>
+                                </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingService ? 'Editar Servicio' : 'Nuevo Servicio / Kit'} size="max-w-4xl">
+                    <ServiceForm service={editingService} onSave={handleSaveService} onCancel={() => setIsModalOpen(false)} />
+                </Modal>
+            </div>
+        );
+    };
+
+    const PurchasesPage = () => {
+        const { view, documentId } = purchasesView;
+        const selectedOrder = purchaseOrders.find(po => po.id === documentId) || null;
+        const showList = () => setPurchasesView({ view: 'list', documentId: null });
+
+        const handleSavePurchaseOrder = (order: PurchaseOrder) => {
+            if (selectedOrder) {
+                setPurchaseOrders(prev => prev.map(po => po.id === order.id ? order : po));
+            } else {
+                const [purchaseOrderNumber] = assignDocumentNumbers('purchaseOrder', purchaseOrders.map(po => po.purchaseOrderNumber), [order.orderDate]).numbers;
+                setPurchaseOrders([...purchaseOrders, { ...order, id: generateId(), purchaseOrderNumber, createdAt: new Date().toISOString() }]);
+            }
+            showList();
+        };
+
+        // Received goods are already in stock, so only orders without receipts can be deleted.
+        const handleDeletePurchaseOrder = (order: PurchaseOrder) => {
+            if (order.receipts.length > 0) {
+                alert('Esta orden ya tiene mercancía recibida y no puede eliminarse.');
+                return;
+            }
+            if (window.confirm('¿Está seguro que desea eliminar esta orden de compra?')) {
+                setPurchaseOrders(prev => prev.filter(po => po.id !== order.id));
+            }
+        };
+
+        if (view === 'form') {
+            return <PurchaseOrderForm order={selectedOrder} onSave={handleSavePurchaseOrder} onCancel={showList} />;
+        }
+
+        if (view === 'preview' && selectedOrder) {
+            return <PurchaseOrderDetail order={selectedOrder} onBack={showList} />;
+        }
+
+        const sortedOrders = [...purchaseOrders].sort((a, b) => b.orderDate.localeCompare(a.orderDate) || b.purchaseOrderNumber.localeCompare(a.purchaseOrderNumber));
+        const today = todayIso();
+
+        return (
+            <Card>
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Compras</h2>
+                    <Button onClick={() => setPurchasesView({ view: 'form', documentId: null })}>{ICONS.plus} Nueva Orden de Compra</Button>
+                </div>
+                <div className="border-b mb-6">
+                    <TabButton isActive={purchasesTab === 'orders'} onClick={() => setPurchasesTab('orders')}>Órdenes de Compra</TabButton>
+                    <TabButton isActive={purchasesTab === 'suppliers'} onClick={() => setPurchasesTab('suppliers')}>Proveedores</TabButton>
+                </div>
+                {purchasesTab === 'suppliers' && <SuppliersManager />}
+                {purchasesTab === 'orders' && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Orden</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Proveedor</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Entrega esperada</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortedOrders.map(order => {
+                                    const supplier = suppliers.find(s => s.id === order.supplierId);
+                                    const isLate = !!order.expectedDate && order.expectedDate < today && (order.status === 'Enviada' || order.status === 'Parcial');
+                                    return (
+                                        <tr key={order.id} className="border-b hover:bg-gray-50">
+                                            <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setPurchasesView({ view: 'preview', documentId: order.id })}>{order.purchaseOrderNumber}</td>
+                                            <td className="p-3">{supplier?.name || 'N/A'}</td>
+                                            <td className="p-3">{formatDate(order.orderDate)}</td>
+                                            <td className={`p-3 ${isLate ? 'text-red-600 font-semibold' : ''}`}>{order.expectedDate ? formatDate(order.expectedDate) : '—'}</td>
+                                            <td className="p-3">{formatCurrency(getPurchaseOrderTotal(order.lines))}</td>
+                                            <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${PURCHASE_ORDER_STATUS_COLORS[order.status]}`}>{order.status}</span></td>
+                                            <td className="p-3 flex space-x-2">
+                                                {order.receipts.length === 0 && order.status !== 'Cancelada' && <button onClick={() => setPurchasesView({ view: 'form', documentId: order.id })} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>}
+                                                <button onClick={() => handleDeletePurchaseOrder(order)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {purchaseOrders.length === 0 && (
+                                    <tr><td colSpan={7} className="p-6 text-center text-gray-500">No hay órdenes de compra registradas.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </Card>
+        );
+    };
+
+    // Receiving adds the goods to stock at their purchase cost and, when requested, records the purchase as an expense.
+    const receivePurchaseOrder = (order: PurchaseOrder, receipt: PurchaseReceipt, expense: Expense | null) => {
+        const received = receipt.lines.flatMap(receiptLine => {
+            const line = order.lines.find(l => l.id === receiptLine.lineId);
+            return line && receiptLine.quantity > 0 ? [{ line, quantity: receiptLine.quantity }] : [];
+        });
+        postStockMovements(received.map(({ line, quantity }) => ({
+            inventoryItemId: line.inventoryItemId,
+            date: receipt.date,
+            quantity,
+            reason: 'Compra recibida',
+            sourceType: 'purchaseOrder',
+            sourceId: order.id,
+            sourceNumber: order.purchaseOrderNumber,
+            unitCost: line.unitCost,
+        })));
+        const savedExpense = expense && { ...expense, id: generateId() };
+        if (savedExpense) setExpenses([...expenses, savedExpense]);
+        setPurchaseOrders(purchaseOrders.map(po => po.id === order.id ? applyPurchaseReceipt(order, { ...receipt, expenseId: savedExpense?.id }) : po));
+    };
+
+    const PurchaseOrderForm = ({ order, onSave, onCancel }: { order: PurchaseOrder | null, onSave: (order: PurchaseOrder) => void, onCancel: () => void }) => {
+        const [formData, setFormData] = useState<Omit<PurchaseOrder, 'id' | 'purchaseOrderNumber' | 'createdAt'>>(
+            order || {
+                supplierId: '',
+                orderDate: todayIso(),
+                expectedDate: addDays(todayIso(), 7),
+                status: 'Borrador',
+                lines: [],
+                receipts: [],
+                notes: '',
+            }
+        );
+
+        const updateLine = (index: number, changes: Partial<PurchaseOrderLine>) => {
+            setFormData({ ...formData, lines: formData.lines.map((line, i) => i === index ? { ...line, ...changes } : line) });
+        };
+
+        // The last purchase cost is suggested for the item; it can be changed to what the supplier quoted.
+        const handleLineItemChange = (index: number, inventoryItemId: string) => {
+            const item = inventory.find(i => i.id === inventoryItemId);
+            updateLine(index, { inventoryItemId, unitCost: item?.unitCost || 0 });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!suppliers.some(s => s.id === formData.supplierId)) {
+                alert('Por favor, seleccione un proveedor.');
+                return;
+            }
+            if (formData.lines.length === 0 || formData.lines.some(line => !line.inventoryItemId || line.quantity <= 0)) {
+                alert('Añada al menos un artículo y verifique que cada línea tenga un artículo y una cantidad mayor que cero.');
+                return;
+            }
+            onSave({
+                ...formData,
+                expectedDate: formData.expectedDate || undefined,
+                id: order?.id || '',
+                purchaseOrderNumber: order?.purchaseOrderNumber || '',
+                createdAt: order?.createdAt || '',
+            });
+        };
+
+        return (
+            <Card>
+                <form onSubmit={handleSubmit}>
+                    <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-gray-800">{order ? 'Editar Orden de Compra' : 'Nueva Orden de Compra'} {order?.purchaseOrderNumber}</h2>
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${PURCHASE_ORDER_STATUS_COLORS[formData.status]}`}>{formData.status}</span>
+                    </div>
+                    {suppliers.length === 0 && (
+                        <p className="mb-4 text-sm text-yellow-800 bg-yellow-50 p-3 rounded-lg">No hay proveedores registrados. Añádalos en la pestaña "Proveedores" antes de crear una orden.</p>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Proveedor</label>
+                            <Select value={formData.supplierId} onChange={e => setFormData({ ...formData, supplierId: e.target.value })} required>
+                                <option value="" disabled>Seleccione un proveedor</option>
+                                {suppliers.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de la orden</label>
+                            <Input type="date" value={formData.orderDate} onChange={e => setFormData({ ...formData, orderDate: e.target.value })} required />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Entrega esperada</label>
+                            <Input type="date" value={formData.expectedDate || ''} onChange={e => setFormData({ ...formData, expectedDate: e.target.value })} />
+                        </div>
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Artículos</h3>
+                    <div className="space-y-2 mb-2">
+                        {formData.lines.map((line, index) => {
+                            const item = inventory.find(i => i.id === line.inventoryItemId);
+                            return (
+                                <div key={line.id} className="grid grid-cols-12 gap-2 items-center p-2 border rounded-md bg-gray-50">
+                                    <div className="col-span-12 md:col-span-5">
+                                        <Select value={line.inventoryItemId} onChange={e => handleLineItemChange(index, e.target.value)} required>
+                                            <option value="" disabled>Seleccione un artículo</option>
+                                            {inventory.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                                        </Select>
+                                    </div>
+                                    <div className="col-span-4 md:col-span-2">
+                                        <Input type="number" placeholder="Cant." min="0" step="any" value={line.quantity} onChange={e => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })} required />
+                                    </div>
+                                    <div className="col-span-4 md:col-span-2">
+                                        <Input type="number" placeholder="Costo" min="0" step="0.01" value={line.unitCost} onChange={e => updateLine(index, { unitCost: parseFloat(e.target.value) || 0 })} required />
+                                    </div>
+                                    <div className="col-span-3 md:col-span-2 text-right">
+                                        <p className="font-medium">{formatCurrency(line.quantity * line.unitCost)}</p>
+                                        {item && <p className="text-xs text-gray-500">Venta: {formatCurrency(item.unitPrice)}</p>}
+                                    </div>
+                                    <div className="col-span-1 flex justify-end">
+                                        <button type="button" onClick={() => setFormData({ ...formData, lines: formData.lines.filter((_, i) => i !== index) })} className="text-red-500 hover:text-red-700 p-2">{ICONS.trash}</button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <button type="button" onClick={() => setFormData({ ...formData, lines: [...formData.lines, { id: generateId(), inventoryItemId: '', quantity: 1, unitCost: 0, receivedQuantity: 0 }] })} className="mb-6 text-blue-600 hover:underline text-sm font-semibold">+ Añadir artículo</button>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                            <Textarea value={formData.notes || ''} onChange={e => setFormData({ ...formData, notes: e.target.value })} rows={3} />
+                        </div>
+                        <div className="flex flex-col justify-end items-end">
+                            <div className="w-full max-w-xs flex justify-between text-lg font-bold border-t pt-2"><span>Total (antes de ITBIS):</span><span>{formatCurrency(getPurchaseOrderTotal(formData.lines))}</span></div>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end space-x-4 pt-8">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">Guardar Orden</Button>
+                    </div>
+                </form>
+            </Card>
+        );
+    };
+
+    const PurchaseOrderDetail = ({ order, onBack }: { order: PurchaseOrder, onBack: () => void }) => {
+        const [isReceiveModalOpen, setIsReceiveModalOpen] = useState(false);
+        const supplier = suppliers.find(s => s.id === order.supplierId);
+        const canReceive = order.status === 'Borrador' || order.status === 'Enviada' || order.status === 'Parcial';
+        const canEdit = order.receipts.length === 0 && order.status !== 'Cancelada';
+
+        const updateStatus = (status: PurchaseOrderStatus) => {
+            setPurchaseOrders(prev => prev.map(po => po.id === order.id ? { ...po, status } : po));
+        };
+
+        const handleCancelOrder = () => {
+            if (window.confirm('¿Está seguro que desea cancelar esta orden de compra?')) updateStatus('Cancelada');
+        };
+
+        return (
+            <Card>
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+                    <button onClick={onBack} className="text-blue-600 hover:underline">
+                        &larr; Volver a la lista
+                    </button>
+                    <div className="flex flex-wrap gap-2">
+                        <AuditHistoryButton entityType="purchaseOrder" entityId={order.id} title={order.purchaseOrderNumber} label="Historial" />
+                        {canEdit && <Button onClick={() => setPurchasesView({ view: 'form', documentId: order.id })} className="bg-gray-700 hover:bg-gray-800">{ICONS.edit} Editar</Button>}
+                        {order.status === 'Borrador' && <Button onClick={() => updateStatus('Enviada')}>Marcar como enviada</Button>}
+                        {canReceive && <Button onClick={() => setIsReceiveModalOpen(true)} className="bg-green-600 hover:bg-green-700">Recibir mercancía</Button>}
+                        {canEdit && <Button onClick={handleCancelOrder} className="bg-red-600 hover:bg-red-700">Cancelar orden</Button>}
+                    </div>
+                </div>
+                <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">Orden de Compra {order.purchaseOrderNumber}</h2>
+                        <p className="text-gray-600">{supplier?.name || 'N/A'}{supplier?.taxId ? ` · RNC ${supplier.taxId}` : ''}</p>
+                    </div>
+                    <span className={`px-3 py-1 text-sm font-semibold rounded-full ${PURCHASE_ORDER_STATUS_COLORS[order.status]}`}>{order.status}</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-6">
+                    <div><p className="text-gray-500">Fecha</p><p className="font-semibold">{formatDate(order.orderDate)}</p></div>
+                    <div><p className="text-gray-500">Entrega esperada</p><p className="font-semibold">{order.expectedDate ? formatDate(order.expectedDate) : '—'}</p></div>
+                    <div><p className="text-gray-500">Contacto</p><p className="font-semibold">{supplier?.contactName || '—'}</p></div>
+                    <div><p className="text-gray-500">Teléfono</p><p className="font-semibold">{supplier?.phone || '—'}</p></div>
+                </div>
+
+                <table className="w-full text-left mb-6">
+                    <thead>
+                        <tr className="bg-gray-50 border-b">
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Artículo</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Pedido</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Recibido</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Pendiente</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Costo</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Precio venta</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Importe</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {order.lines.map(line => {
+                            const item = inventory.find(i => i.id === line.inventoryItemId);
+                            return (
+                                <tr key={line.id} className="border-b">
+                                    <td className="p-3">{item?.name || 'Artículo eliminado'}</td>
+                                    <td className="p-3">{line.quantity}</td>
+                                    <td className="p-3">{line.receivedQuantity}</td>
+                                    <td className="p-3">{getPendingQuantity(line)}</td>
+                                    <td className="p-3">{formatCurrency(line.unitCost)}</td>
+                                    <td className="p-3">{item ? formatCurrency(item.unitPrice) : '—'}</td>
+                                    <td className="p-3">{formatCurrency(line.quantity * line.unitCost)}</td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                <div className="flex justify-end mb-6">
+                    <div className="w-full max-w-xs flex justify-between text-lg font-bold border-t pt-2"><span>Total (antes de ITBIS):</span><span>{formatCurrency(getPurchaseOrderTotal(order.lines))}</span></div>
+                </div>
+
+                <h3 className="text-lg font-semibold text-gray-700 mb-2">Recepciones</h3>
+                {order.receipts.length === 0 ? (
+                    <p className="text-gray-500 text-sm mb-6">Aún no se ha recibido mercancía de esta orden.</p>
+                ) : (
+                    <table className="w-full text-left mb-6">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Artículos</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF proveedor</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Gasto</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {order.receipts.map(receipt => {
+                                const expense = expenses.find(e => e.id === receipt.expenseId);
+                                return (
+                                    <tr key={receipt.id} className="border-b">
+                                        <td className="p-3">{formatDate(receipt.date)}</td>
+                                        <td className="p-3 text-sm">
+                                            {receipt.lines.map(receiptLine => {
+                                                const line = order.lines.find(l => l.id === receiptLine.lineId);
+                                                const item = inventory.find(i => i.id === line?.inventoryItemId);
+                                                return <div key={receiptLine.lineId}>{receiptLine.quantity} × {item?.name || 'Artículo eliminado'}</div>;
+                                            })}
+                                        </td>
+                                        <td className="p-3 font-mono text-sm">{receipt.supplierNcf || '—'}</td>
+                                        <td className="p-3">{expense ? formatCurrency(expense.amount) : '—'}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                )}
+                {order.notes && <p className="text-sm text-gray-600 whitespace-pre-wrap">{order.notes}</p>}
+
+                <Modal isOpen={isReceiveModalOpen} onClose={() => setIsReceiveModalOpen(false)} title={`Recibir mercancía: ${order.purchaseOrderNumber}`} size="max-w-4xl">
+                    <PurchaseReceiveForm order={order} supplier={supplier} onCancel={() => setIsReceiveModalOpen(false)} />
+                </Modal>
+            </Card>
+        );
+    };
+
+    const PurchaseReceiveForm = ({ order, supplier, onCancel }: { order: PurchaseOrder, supplier?: Supplier, onCancel: () => void }) => {
+        const openLines = order.lines.filter(line => getPendingQuantity(line) > 0);
+        const [date, setDate] = useState(todayIso());
+        const [quantities, setQuantities] = useState<Record<string, number>>(() => Object.fromEntries(openLines.map(line => [line.id, getPendingQuantity(line)])));
+        const [supplierNcf, setSupplierNcf] = useState('');
+        const [createExpense, setCreateExpense] = useState(true);
+        const getSubtotal = (received: Record<string, number>) => roundCurrency(openLines.reduce((sum, line) => sum + (received[line.id] || 0) * line.unitCost, 0));
+        const subtotal = getSubtotal(quantities);
+        const [itbisPaid, setItbisPaid] = useState(() => roundCurrency(subtotal * settings.taxSettings.itbisRate / 100));
+        const [paymentMethod, setPaymentMethod] = useState<ExpensePaymentMethod>('Crédito');
+
+        // ITBIS is re-estimated at the standard rate whenever the received quantities change; it can be adjusted to the supplier's invoice.
+        const handleQuantityChange = (lineId: string, quantity: number) => {
+            const received = { ...quantities, [lineId]: quantity };
+            setQuantities(received);
+            setItbisPaid(roundCurrency(getSubtotal(received) * settings.taxSettings.itbisRate / 100));
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            const receiptLines = openLines.map(line => ({ lineId: line.id, quantity: quantities[line.id] || 0 })).filter(r => r.quantity > 0);
+            if (receiptLines.length === 0) {
+                alert('Indique la cantidad recibida de al menos un artículo.');
+                return;
+            }
+            if (openLines.some(line => (quantities[line.id] || 0) > getPendingQuantity(line))) {
+                alert('No puede recibir más de la cantidad pendiente de cada artículo.');
+                return;
+            }
+            const ncf = supplierNcf.trim().toUpperCase() || undefined;
+            const expense: Expense | null = createExpense ? {
+                id: '',
+                description: `Compra ${order.purchaseOrderNumber}${supplier ? ` - ${supplier.name}` : ''}`,
+                amount: roundCurrency(subtotal + itbisPaid),
+                date,
+                category: 'Materiales',
+                supplierName: supplier?.name,
+                supplierTaxId: supplier?.taxId,
+                supplierNcf: ncf,
+                supplyType: 'Bienes',
+                itbisPaid,
+                paymentMethod,
+                paymentDate: paymentMethod === 'Crédito' ? undefined : date,
+                purchaseOrderId: order.id,
+            } : null;
+            receivePurchaseOrder(order, { id: generateId(), date, lines: receiptLines, supplierNcf: ncf }, expense);
+            onCancel();
+        };
+
+        return (
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de recepción</label>
+                    <Input type="date" value={date} onChange={e => setDate(e.target.value)} required />
+                </div>
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="bg-gray-50 border-b">
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Artículo</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Pendiente</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Costo</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Recibido ahora</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {openLines.map(line => (
+                            <tr key={line.id} className="border-b">
+                                <td className="p-3">{inventory.find(i => i.id === line.inventoryItemId)?.name || 'Artículo eliminado'}</td>
+                                <td className="p-3">{getPendingQuantity(line)}</td>
+                                <td className="p-3">{formatCurrency(line.unitCost)}</td>
+                                <td className="p-3 w-32">
+                                    <Input type="number" min="0" step="any" max={getPendingQuantity(line)} value={quantities[line.id] ?? 0} onChange={e => handleQuantityChange(line.id, parseFloat(e.target.value) || 0)} />
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <p className="text-right font-semibold">Costo recibido: {formatCurrency(subtotal)}</p>
+
+                <label className="flex items-center text-sm cursor-pointer">
+                    <input type="checkbox" checked={createExpense} onChange={e => setCreateExpense(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2" />
+                    Registrar esta compra como gasto
+                </label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">NCF del proveedor</label>
+                        <Input value={supplierNcf} onChange={e => setSupplierNcf(e.target.value)} placeholder="B0100000001" />
+                    </div>
+                    {createExpense && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">ITBIS pagado</label>
+                            <Input type="number" min="0" step="0.01" value={itbisPaid} onChange={e => setItbisPaid(parseFloat(e.target.value) || 0)} />
+                        </div>
+                    )}
+                    {createExpense && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Forma de pago</label>
+                            <Select value={paymentMethod} onChange={e => setPaymentMethod(e.target.value as ExpensePaymentMethod)}>
+                                {(Object.keys(DGII_606_PAYMENT_CODES) as ExpensePaymentMethod[]).map(method => <option key={method} value={method}>{method}</option>)}
+                            </Select>
+                        </div>
+                    )}
+                </div>
+                {createExpense && <p className="text-sm text-gray-600">Monto del gasto: <span className="font-semibold">{formatCurrency(subtotal + itbisPaid)}</span></p>}
+                <div className="flex justify-end space-x-4 pt-4">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    <Button type="submit" className="bg-green-600 hover:bg-green-700">Registrar recepción</Button>
+                </div>
+            </form>
+        );
+    };
+
+    const SuppliersManager = () => {
+        const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+        const [isModalOpen, setIsModalOpen] = useState(false);
+
+        const openForm = (supplier: Supplier | null) => {
+            setEditingSupplier(supplier);
+            setIsModalOpen(true);
+        };
+
+        const handleSave = (supplier: Supplier) => {
+            if (editingSupplier) {
+                setSuppliers(prev => prev.map(s => s.id === supplier.id ? supplier : s));
+            } else {
+                setSuppliers(prev => [...prev, { ...supplier, id: generateId() }]);
+            }
+            setIsModalOpen(false);
+        };
+
+        const handleDelete = (supplier: Supplier) => {
+            if (purchaseOrders.some(po => po.supplierId === supplier.id)) {
+                alert('Este proveedor tiene órdenes de compra y no puede eliminarse.');
+                return;
+            }
+            if (window.confirm('¿Está seguro que desea eliminar este proveedor?')) {
+                setSuppliers(prev => prev.filter(s => s.id !== supplier.id));
+            }
+        };
+
+        const SupplierForm = ({ supplier, onCancel }: { supplier: Supplier | null, onCancel: () => void }) => {
+            const [formData, setFormData] = useState<Supplier>(supplier || { id: '', name: '', taxId: '', contactName: '', phone: '', email: '', address: '' });
+            const handleSubmit = (e: React.FormEvent) => {
+                e.preventDefault();
+                if (formData.taxId && !isValidTaxId(formData.taxId)) {
+                    alert('El RNC debe tener 9 dígitos y la cédula 11.');
+                    return;
+                }
+                handleSave({ ...formData, taxId: formData.taxId || undefined });
+            };
+            return (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <Input placeholder="Nombre o razón social" value={formData.name} onChange={e => setFormData({ ...formData, name: e.target.value })} required />
+                    <div className="grid grid-cols-2 gap-4">
+                        <Input placeholder="RNC / Cédula" value={formData.taxId || ''} onChange={e => setFormData({ ...formData, taxId: e.target.value })} />
+                        <Input placeholder="Persona de contacto" value={formData.contactName || ''} onChange={e => setFormData({ ...formData, contactName: e.target.value })} />
+                        <Input type="tel" placeholder="Teléfono" value={formData.phone} onChange={e => setFormData({ ...formData, phone: e.target.value })} />
+                        <Input type="email" placeholder="Correo electrónico" value={formData.email} onChange={e => setFormData({ ...formData, email: e.target.value })} />
+                    </div>
+                    <Input placeholder="Dirección" value={formData.address || ''} onChange={e => setFormData({ ...formData, address: e.target.value })} />
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">{supplier ? 'Guardar Cambios' : 'Crear Proveedor'}</Button>
+                    </div>
+                </form>
+            );
+        };
+
+        return (
+            <div>
+                <div className="flex justify-end mb-4">
+                    <Button onClick={() => openForm(null)}>{ICONS.plus} Nuevo Proveedor</Button>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Nombre</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">RNC</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Contacto</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Teléfono</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Órdenes abiertas</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {suppliers.map(supplier => (
+                                <tr key={supplier.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-medium">{supplier.name}</td>
+                                    <td className="p-3 font-mono text-sm">{supplier.taxId || '—'}</td>
+                                    <td className="p-3">{supplier.contactName || '—'}</td>
+                                    <td className="p-3">{supplier.phone || '—'}</td>
+                                    <td className="p-3">{purchaseOrders.filter(po => po.supplierId === supplier.id && (po.status === 'Enviada' || po.status === 'Parcial')).length}</td>
+                                    <td className="p-3 flex space-x-2">
+                                        <AuditHistoryButton entityType="supplier" entityId={supplier.id} title={supplier.name} />
+                                        <button onClick={() => openForm(supplier)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                        <button onClick={() => handleDelete(supplier)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                            {suppliers.length === 0 && (
+                                <tr><td colSpan={6} className="p-6 text-center text-gray-500">No hay proveedores registrados.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingSupplier ? 'Editar Proveedor' : 'Nuevo Proveedor'}>
+                    <SupplierForm supplier={editingSupplier} onCancel={() => setIsModalOpen(false)} />
+                </Modal>
+            </div>
+        );
+    };
+
+    const ExpensesPage = () => {
+        const [isModalOpen, setIsModalOpen] = useState(false);
+        const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+        const [isImportOpen, setIsImportOpen] = useState(false);
+
+        const handleAddExpense = () => {
+            setEditingExpense(null);
+            setIsModalOpen(true);
+        };
+
+        const handleEditExpense = (expense: Expense) => {
+            setEditingExpense(expense);
+            setIsModalOpen(true);
+        };
+        
+        const handleDeleteExpense = (expenseId: string) => {
+            if(window.confirm('¿Está seguro que desea eliminar este gasto?')){
+                setExpenses(prev => prev.filter(e => e.id !== expenseId));
+            }
+        };
+
+        const handleSaveExpense = (expense: Expense) => {
+            if (editingExpense) {
+                setExpenses(prev => prev.map(e => e.id === expense.id ? expense : e));
+            } else {
+                setExpenses(prev => [...prev, { ...expense, id: generateId() }]);
+            }
+            setIsModalOpen(false);
+        };
+        
+        return (
+            <Card>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Registro de Gastos</h2>
+                    <div className="flex space-x-2">
+                        <button onClick={() => setIsImportOpen(true)} className="flex items-center px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">{ICONS.upload} Importar</button>
+                        <Button onClick={handleAddExpense}>{ICONS.plus} Nuevo Gasto</Button>
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Descripción</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Proveedor</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Categoría</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">ITBIS</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Monto</th>
+                                <th className="p-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {expenses.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(expense => (
+                                <tr key={expense.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3">{formatDate(expense.date)}</td>
+                                    <td className="p-3 font-medium">{expense.description}</td>
+                                    <td className="p-3">{expense.supplierName || '—'}</td>
+                                    <td className="p-3 font-mono text-sm">{expense.supplierNcf || '—'}</td>
+                                    <td className="p-3">{expense.category}</td>
+                                    <td className="p-3 text-right">{formatCurrency(expense.itbisPaid || 0)}</td>
+                                    <td className="p-3 text-right">{formatCurrency(expense.amount)}</td>
+                                    <td className="p-3 flex justify-center space-x-2">
+                                        <AuditHistoryButton entityType="expense" entityId={expense.id} title={expense.description} />
+                                        <button onClick={() => handleEditExpense(expense)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                        <button onClick={() => handleDeleteExpense(expense.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                 <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingExpense ? 'Editar Gasto' : 'Nuevo Gasto'}>
+                    <ExpenseForm expense={editingExpense} onSave={handleSaveExpense} onCancel={() => setIsModalOpen(false)} />
+                </Modal>
+                <Modal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} title="Importar Gastos" size="max-w-4xl">
+                    <ImportWizard target="expenses" onDone={() => setIsImportOpen(false)} />
+                </Modal>
+            </Card>
+        );
+    };
+
+    const InvoicesPage = () => {
+        const { view, documentId } = invoicesView;
+        const selectedInvoice = invoices.find(inv => inv.id === documentId) || null;
+        const showList = () => setInvoicesView({ view: 'list', documentId: null });
+
+        const handleNewInvoice = () => {
+            setInvoicesView({ view: 'form', documentId: null });
+        };
+
+        const handleEditInvoice = (invoice: Invoice) => {
+            setInvoicesView({ view: 'form', documentId: invoice.id });
+        };
+        
+        const [listTab, setListTab] = useState<'invoices' | 'creditNotes'>('invoices');
+        const [voidingInvoice, setVoidingInvoice] = useState<Invoice | null>(null);
+
+        // Only drafts can be deleted: they have no NCF yet. Issued invoices are voided instead.
+        const handleDeleteInvoice = (invoiceId: string) => {
+            if(window.confirm('¿Está seguro que desea eliminar este borrador?')) {
+                setInvoices(prev => prev.filter(inv => inv.id !== invoiceId));
+                setPayments(prev => prev.filter(p => p.invoiceId !== invoiceId));
+                setQuotes(prev => prev.map(q => q.invoiceId === invoiceId ? { ...q, invoiceId: undefined } : q));
+                setWorkOrders(prev => prev.map(wo => wo.invoiceId === invoiceId ? { ...wo, status: 'Completada', invoiceId: undefined } : wo));
+            }
+        };
+
+        const handleStartVoid = (invoice: Invoice) => {
+            if (getInvoicePayments(invoice.id, payments).length > 0 || getInvoiceCreditNotes(invoice.id, creditNotes).length > 0) {
+                alert('Esta factura tiene pagos o notas de crédito. Elimine los pagos o emita una nota de crédito por el monto restante en lugar de anularla.');
+                return;
+            }
+            setVoidingInvoice(invoice);
+        };
+
+        const handleVoidInvoice = (invoice: Invoice, voidReasonCode: VoidReasonCode, voidReason: string) => {
+            const [voided] = syncInvoiceRecords([{ ...invoice, status: 'Anulada', voidReasonCode, voidReason, voidedAt: todayIso() }]);
+            setInvoices(prev => prev.map(inv => inv.id === invoice.id ? voided : inv));
+            setVoidingInvoice(null);
+        };
+
+        const handleSaveInvoice = (formInvoice: Invoice) => {
+            if (selectedInvoice && isInvoiceLocked(selectedInvoice)) {
+                alert('Esta factura ya fue emitida y no se puede modificar. Emita una nota de crédito o anúlela.');
+                return;
+            }
+            const issued = assignNcf(formInvoice);
+            if (!issued) return;
+            const invoice = { ...issued, status: deriveInvoiceStatus(issued, payments, creditNotes) };
+            if (selectedInvoice) {
+                const [saved] = syncInvoiceRecords([invoice]);
+                setInvoices(prev => prev.map(i => i.id === invoice.id ? saved : i));
+            } else {
+                const [created] = syncInvoiceRecords([{ ...invoice, id: generateId(), invoiceNumber: assignInvoiceNumber(invoice.issueDate) }]);
+                setInvoices(prev => [...prev, created]);
+            }
+            showList();
+        };
+        
+        const handlePreviewInvoice = (invoice: Invoice) => {
+            setInvoicesView({ view: 'preview', documentId: invoice.id });
+        };
+
+        if (view === 'form' && !(selectedInvoice && isInvoiceLocked(selectedInvoice))) {
+            return <InvoiceForm invoice={selectedInvoice} onSave={handleSaveInvoice} onCancel={showList} clients={clients} services={services}/>
+        }
+        
+        if ((view === 'preview' || view === 'form') && selectedInvoice) {
+            const client = clients.find(c => c.id === selectedInvoice.clientId);
+            if (!client) return <div>Cliente no encontrado</div>;
+            return <InvoicePreview invoice={selectedInvoice} client={client} settings={settings} onBack={showList} />
+        }
+
+        if (view === 'creditNote') {
+            const creditNote = creditNotes.find(cn => cn.id === documentId);
+            const invoice = invoices.find(inv => inv.id === creditNote?.invoiceId);
+            const client = clients.find(c => c.id === creditNote?.clientId);
+            if (!creditNote || !invoice || !client) return <div>Nota de crédito no encontrada</div>;
+            return <CreditNotePreview creditNote={creditNote} invoice={invoice} client={client} onBack={() => setInvoicesView({ view: 'preview', documentId: invoice.id })} />;
+        }
+
+        const VoidInvoiceForm = ({ invoice, onCancel }: { invoice: Invoice; onCancel: () => void; }) => {
+            const [reasonCode, setReasonCode] = useState<VoidReasonCode>('04');
+            const [reason, setReason] = useState('');
+
+            const handleSubmit = (e: React.FormEvent) => {
+                e.preventDefault();
+                if (window.confirm(`¿Anular la factura ${invoice.invoiceNumber}${invoice.ncf ? ` (NCF ${invoice.ncf})` : ''}? Esta acción no se puede deshacer.`)) {
+                    handleVoidInvoice(invoice, reasonCode, reason.trim());
+                }
+            };
+
+            return (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <p className="text-sm text-gray-600">La factura se conserva con estado "Anulada" y su NCF se reporta en el formato 608.</p>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de anulación</label>
+                        <Select value={reasonCode} onChange={e => setReasonCode(e.target.value as VoidReasonCode)}>
+                            {(Object.keys(VOID_REASONS) as VoidReasonCode[]).map(code => <option key={code} value={code}>{code} - {VOID_REASONS[code]}</option>)}
+                        </Select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                        <Textarea value={reason} onChange={e => setReason(e.target.value)} rows={3} required placeholder="Describa por qué se anula la factura" />
+                    </div>
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit" className="bg-red-600 hover:bg-red-700">Anular Factura</Button>
+                    </div>
+                </form>
+            );
+        };
+
+        return (
+            <Card>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Facturas</h2>
+                    <Button onClick={handleNewInvoice}>{ICONS.plus} Nueva Factura</Button>
+                </div>
+                <div className="border-b mb-6">
+                    <TabButton isActive={listTab === 'invoices'} onClick={() => setListTab('invoices')}>Facturas</TabButton>
+                    <TabButton isActive={listTab === 'creditNotes'} onClick={() => setListTab('creditNotes')}>Notas de Crédito</TabButton>
+                </div>
+                {listTab === 'invoices' ? (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                         <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Factura</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Balance</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Margen</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {invoices.map(invoice => {
+                                const client = clients.find(c => c.id === invoice.clientId);
+                                const { total } = calculateInvoiceTotals(invoice);
+                                const balance = invoice.status === 'Borrador' ? 0 : getBalanceDue(invoice, payments, creditNotes);
+                                const margin = invoice.status !== 'Borrador' && invoice.status !== 'Anulada' ? getInvoiceMargin(invoice) : null;
+                                const statusColor = INVOICE_STATUS_COLORS[invoice.status];
+                                return (
+                                <tr key={invoice.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => handlePreviewInvoice(invoice)}>{invoice.invoiceNumber}</td>
+                                    <td className="p-3 font-mono text-sm">{invoice.ncf || '—'}</td>
+                                    <td className="p-3">{client?.name || 'N/A'}</td>
+                                    <td className="p-3">{formatDate(invoice.issueDate)}</td>
+                                    <td className="p-3">{formatCurrency(total)}</td>
+                                    <td className={`p-3 ${balance > 0 ? 'font-semibold text-red-600' : 'text-gray-500'}`}>{formatCurrency(balance)}</td>
+                                    <td className={`p-3 ${margin && margin.margin < 0 ? 'text-red-600' : ''}`}>
+                                        {margin ? <>{formatCurrency(margin.margin)} <span className="text-xs text-gray-500">({margin.marginPercent.toFixed(1)}%)</span></> : '—'}
+                                    </td>
+                                    <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColor}`}>{invoice.status}</span></td>
+                                    <td className="p-3 flex space-x-2">
+                                        {!isInvoiceLocked(invoice) && <button onClick={() => handleEditInvoice(invoice)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>}
+                                        {invoice.status === 'Borrador' ? (
+                                            <button onClick={() => handleDeleteInvoice(invoice.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                        ) : invoice.status !== 'Anulada' && (
+                                            <button onClick={() => handleStartVoid(invoice)} title="Anular" className="text-red-600 hover:text-red-800">{ICONS.ban}</button>
+                                        )}
+                                    </td>
+                                </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+                ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Nota</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF Modificado</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Motivo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {creditNotes.map(creditNote => {
+                                const invoice = invoices.find(inv => inv.id === creditNote.invoiceId);
+                                const client = clients.find(c => c.id === creditNote.clientId);
+                                return (
+                                    <tr key={creditNote.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setInvoicesView({ view: 'creditNote', documentId: creditNote.id })}>{creditNote.creditNoteNumber}</td>
+                                        <td className="p-3 font-mono text-sm">{creditNote.ncf}</td>
+                                        <td className="p-3 font-mono text-sm">{invoice?.ncf || invoice?.invoiceNumber || '—'}</td>
+                                        <td className="p-3">{client?.name || 'N/A'}</td>
+                                        <td className="p-3">{formatDate(creditNote.issueDate)}</td>
+                                        <td className="p-3">{creditNote.reason}</td>
+                                        <td className="p-3">{formatCurrency(calculateInvoiceTotals(creditNote).total)}</td>
+                                    </tr>
+                                );
+                            })}
+                            {creditNotes.length === 0 && (
+                                <tr><td colSpan={7} className="p-6 text-center text-gray-500">No hay notas de crédito. Se emiten desde la vista de una factura.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                )}
+                <Modal isOpen={!!voidingInvoice} onClose={() => setVoidingInvoice(null)} title={`Anular Factura · ${voidingInvoice?.invoiceNumber || ''}`}>
+                    {voidingInvoice && <VoidInvoiceForm invoice={voidingInvoice} onCancel={() => setVoidingInvoice(null)} />}
+                </Modal>
+            </Card>
+        );
+    };
+    
+    const InvoiceForm = ({ invoice, onSave, onCancel, clients, services }: { invoice: Invoice | null, onSave: (invoice: Invoice) => void, onCancel: () => void, clients: Client[], services: Service[] }) => {
+        const [formData, setFormData] = useState<Omit<Invoice, 'id' | 'invoiceNumber'>>(
+            invoice || {
+                clientId: '',
+                issueDate: new Date().toISOString().split('T')[0],
+                dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+                items: [{ id: generateId(), description: '', quantity: 1, unitPrice: 0, taxType: 'Gravado', isMaintenance: false, isNewEquipment: false }],
+                status: 'Borrador',
+                notes: '',
+                taxRates: settings.taxSettings,
+            }
+        );
+
+        // Equipment belongs to a client, so links are dropped when the client changes.
+        const handleClientChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+            setFormData({...formData, clientId: e.target.value, items: formData.items.map(item => ({ ...item, equipmentId: undefined }))});
+        };
+
+        const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+            const { name, value } = e.target;
+            setFormData({ ...formData, [name]: value });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            const client = clients.find(c => c.id === formData.clientId);
+            if(!client) {
+                alert('Por favor, seleccione un cliente.');
+                return;
+            }
+            
+            let finalData = { ...formData };
+            let notes = finalData.notes || '';
+
+            const hasNewEquipment = finalData.items.some(item => item.isNewEquipment);
+            const unlinkedEquipment = finalData.items.some(item => item.isNewEquipment && !item.equipmentId);
+            if (finalData.status !== 'Borrador' && unlinkedEquipment && !window.confirm('Hay líneas de equipo nuevo sin un equipo registrado, por lo que su garantía no quedará registrada. ¿Desea continuar?')) {
+                return;
+            }
+            const warrantyText = "Garantía de un año. La garantía solo cubre daños por naturaleza del equipo, no provocados por cortocircuitos.";
+            if (hasNewEquipment && !notes.includes(warrantyText)) {
+                notes = notes ? `${notes}\n\n${warrantyText}` : warrantyText;
+            }
+
+            if (hasNewEquipment) {
+                const maintenanceMonths = client.type === 'Comercial' ? settings.maintenanceSettings.commercialIntervalMonths : settings.maintenanceSettings.residentialIntervalMonths;
+                const maintenanceText = `Recomendación: Realizar el primer mantenimiento preventivo en ${maintenanceMonths} meses para asegurar el óptimo funcionamiento y la validez de la garantía.`;
+                if (!notes.includes(maintenanceText)) {
+                    notes = notes ? `${notes}\n\n${maintenanceText}` : maintenanceText;
+                }
+            }
+
+            finalData.notes = notes;
+            onSave({ ...finalData, id: invoice?.id || '', invoiceNumber: invoice?.invoiceNumber || ''});
+        };
+        
+        const selectedClient = clients.find(c => c.id === formData.clientId);
+        const totals = useMemo(() => calculateInvoiceTotals(formData), [formData.items, formData.taxRates]);
+        const taxRates = formData.taxRates || NO_TAX_RATES;
+
+        return (
+            <Card>
+                <form onSubmit={handleSubmit}>
+                    <h2 className="text-2xl font-bold text-gray-800 mb-6">{invoice ? 'Editar Factura' : 'Nueva Factura'} {invoice?.invoiceNumber}</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                            <Select name="clientId" value={formData.clientId} onChange={handleClientChange} required>
+                                <option value="" disabled>Seleccione un cliente</option>
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </Select>
+                            {formData.ncf ? (
+                                <p className="text-xs text-gray-500 mt-1">NCF: <span className="font-mono">{formData.ncf}</span></p>
+                            ) : selectedClient && (
+                                <p className="text-xs text-gray-500 mt-1">Comprobante: {getClientNcfType(selectedClient)} - {NCF_TYPE_LABELS[getClientNcfType(selectedClient)]} (se asigna al emitir)</p>
+                            )}
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Estado</label>
+                            {formData.status === 'Borrador' || formData.status === 'Enviada' ? (
+                                <Select name="status" value={formData.status} onChange={handleInputChange}>
+                                    <option value="Borrador">Borrador</option>
+                                    <option value="Enviada">Enviada</option>
+                                </Select>
+                            ) : (
+                                <p className="py-2"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${INVOICE_STATUS_COLORS[formData.status]}`}>{formData.status}</span></p>
+                            )}
+                            <p className="text-xs text-gray-500 mt-1">El estado de pago se actualiza al registrar pagos.</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de Emisión</label>
+                            <Input type="date" name="issueDate" value={formData.issueDate} onChange={handleInputChange} required />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de Vencimiento</label>
+                            <Input type="date" name="dueDate" value={formData.dueDate} onChange={handleInputChange} required />
+                        </div>
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Artículos de la factura</h3>
+                    <LineItemsEditor items={formData.items} taxRates={taxRates} services={services} onChange={items => setFormData({ ...formData, items })} equipment={equipment.filter(unit => unit.clientId === formData.clientId)} inventory={inventory} />
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Notas Adicionales</label>
+                            <Textarea name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={4} />
+                        </div>
+                        <div className="flex flex-col justify-end items-end">
+                             <div className="w-full max-w-xs space-y-2">
+                                {!formData.taxRates && (
+                                    <div className="p-2 text-xs bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+                                        Esta factura se registró sin ITBIS.
+                                        <button type="button" onClick={() => setFormData({ ...formData, taxRates: settings.taxSettings })} className="ml-1 font-semibold underline">Aplicar tasas actuales</button>
+                                    </div>
+                                )}
+                                <DocumentTotals totals={totals} taxRates={taxRates} accentColor={settings.invoiceSettings.accentColor} />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end space-x-4 pt-8">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">Guardar Factura</Button>
+                    </div>
+                </form>
+            </Card>
+        );
+    };
+
+    const QuotesPage = () => {
+        const { view, documentId } = quotesView;
+        const selectedQuote = quotes.find(q => q.id === documentId) || null;
+        const showList = () => setQuotesView({ view: 'list', documentId: null });
+
+        const handleDeleteQuote = (quote: Quote) => {
+            if (quote.invoiceId) {
+                alert('Esta cotización ya fue convertida en factura y no puede eliminarse.');
+                return;
+            }
+            if (window.confirm('¿Está seguro que desea eliminar esta cotización?')) {
+                setQuotes(prev => prev.filter(q => q.id !== quote.id));
+            }
+        };
+
+        const handleSaveQuote = (formQuote: Quote) => {
+            const quote = { ...formQuote, status: deriveQuoteStatus(formQuote) };
+            if (selectedQuote) {
+                setQuotes(prev => prev.map(q => q.id === quote.id ? quote : q));
+            } else {
+                const [quoteNumber] = assignDocumentNumbers('quote', quotes.map(q => q.quoteNumber), [quote.issueDate]).numbers;
+                setQuotes([...quotes, { ...quote, id: generateId(), quoteNumber }]);
+            }
+            showList();
+        };
+
+        if (view === 'form') {
+            return <QuoteForm quote={selectedQuote} onSave={handleSaveQuote} onCancel={showList} />;
+        }
+
+        if (view === 'preview' && selectedQuote) {
+            const client = clients.find(c => c.id === selectedQuote.clientId);
+            if (!client) return <div>Cliente no encontrado</div>;
+            return <QuotePreview quote={selectedQuote} client={client} onBack={showList} />;
+        }
+
+        return (
+            <Card>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Cotizaciones</h2>
+                    <Button onClick={() => setQuotesView({ view: 'form', documentId: null })}>{ICONS.plus} Nueva Cotización</Button>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Cotización</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Válida hasta</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Factura</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {quotes.map(quote => {
+                                const client = clients.find(c => c.id === quote.clientId);
+                                const invoice = invoices.find(inv => inv.id === quote.invoiceId);
+                                return (
+                                    <tr key={quote.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setQuotesView({ view: 'preview', documentId: quote.id })}>{quote.quoteNumber}</td>
+                                        <td className="p-3">{client?.name || 'N/A'}</td>
+                                        <td className="p-3">{formatDate(quote.issueDate)}</td>
+                                        <td className="p-3">{formatDate(quote.validUntil)}</td>
+                                        <td className="p-3">{formatCurrency(calculateInvoiceTotals(quote).total)}</td>
+                                        <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${QUOTE_STATUS_COLORS[quote.status]}`}>{quote.status}</span></td>
+                                        <td className="p-3">{invoice?.invoiceNumber || '—'}</td>
+                                        <td className="p-3 flex space-x-2">
+                                            {!quote.invoiceId && <button onClick={() => setQuotesView({ view: 'form', documentId: quote.id })} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>}
+                                            <button onClick={() => handleDeleteQuote(quote)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {quotes.length === 0 && (
+                                <tr><td colSpan={8} className="p-6 text-center text-gray-500">No hay cotizaciones registradas.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            </Card>
+        );
+    };
+
+    const QuoteForm = ({ quote, onSave, onCancel }: { quote: Quote | null, onSave: (quote: Quote) => void, onCancel: () => void }) => {
+        const [formData, setFormData] = useState<Omit<Quote, 'id' | 'quoteNumber'>>(
+            quote || {
+                clientId: '',
+                issueDate: todayIso(),
+                validUntil: addDays(todayIso(), 15),
+                items: [{ id: generateId(), description: '', quantity: 1, unitPrice: 0, taxType: 'Gravado', isMaintenance: false, isNewEquipment: false }],
+                status: 'Borrador',
+                notes: '',
+                taxRates: settings.taxSettings,
+            }
+        );
+        const totals = useMemo(() => calculateInvoiceTotals(formData), [formData.items, formData.taxRates]);
+        const taxRates = formData.taxRates || NO_TAX_RATES;
+
+        const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+            const { name, value } = e.target;
+            setFormData({ ...formData, [name]: value });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!clients.some(c => c.id === formData.clientId)) {
+                alert('Por favor, seleccione un cliente.');
+                return;
+            }
+            if (formData.validUntil < formData.issueDate) {
+                alert('La fecha de validez no puede ser anterior a la fecha de la cotización.');
+                return;
+            }
+            onSave({ ...formData, id: quote?.id || '', quoteNumber: quote?.quoteNumber || '' });
+        };
+
+        return (
+            <Card>
+                <form onSubmit={handleSubmit}>
+                    <h2 className="text-2xl font-bold text-gray-800 mb-6">{quote ? 'Editar Cotización' : 'Nueva Cotización'} {quote?.quoteNumber}</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                            <Select name="clientId" value={formData.clientId} onChange={handleInputChange} required>
+                                <option value="" disabled>Seleccione un cliente</option>
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Estado</label>
+                            {formData.status === 'Borrador' || formData.status === 'Enviada' ? (
+                                <Select name="status" value={formData.status} onChange={handleInputChange}>
+                                    <option value="Borrador">Borrador</option>
+                                    <option value="Enviada">Enviada</option>
+                                </Select>
+                            ) : (
+                                <p className="py-2"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${QUOTE_STATUS_COLORS[formData.status]}`}>{formData.status}</span></p>
+                            )}
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                            <Input type="date" name="issueDate" value={formData.issueDate} onChange={handleInputChange} required />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Válida hasta</label>
+                            <Input type="date" name="validUntil" value={formData.validUntil} onChange={handleInputChange} required />
+                        </div>
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Artículos de la cotización</h3>
+                    <LineItemsEditor items={formData.items} taxRates={taxRates} services={services} onChange={items => setFormData({ ...formData, items })} inventory={inventory} />
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Notas / Condiciones</label>
+                            <Textarea name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={4} />
+                        </div>
+                        <div className="flex flex-col justify-end items-end">
+                            <div className="w-full max-w-xs space-y-2">
+                                <DocumentTotals totals={totals} taxRates={taxRates} accentColor={settings.invoiceSettings.accentColor} />
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end space-x-4 pt-8">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">Guardar Cotización</Button>
+                    </div>
+                </form>
+            </Card>
+        );
+    };
+
+    const QuotePreview = ({ quote, client, onBack }: { quote: Quote, client: Client, onBack: () => void }) => {
+        const totals = calculateInvoiceTotals(quote);
+        const taxRates = quote.taxRates || NO_TAX_RATES;
+        const accentColor = settings.invoiceSettings.accentColor;
+        const invoice = invoices.find(inv => inv.id === quote.invoiceId);
+
+        const setStatus = (status: QuoteStatus) => {
+            setQuotes(prev => prev.map(q => q.id === quote.id ? { ...q, status } : q));
+        };
+
+        const handleAccept = () => {
+            if (quote.status === 'Vencida' && !window.confirm('Esta cotización está vencida. ¿Desea marcarla como aceptada de todos modos?')) return;
+            setStatus('Aceptada');
+        };
+
+        // The invoice starts as a draft so it can be reviewed before an NCF is assigned.
+        const handleConvert = () => {
+            const newInvoice: Invoice = {
+                id: generateId(),
+                invoiceNumber: assignInvoiceNumber(todayIso()),
+                clientId: quote.clientId,
+                issueDate: todayIso(),
+                dueDate: addDays(todayIso(), 30),
+                items: quote.items.map(item => ({ ...item, id: generateId() })),
+                notes: quote.notes,
+                status: 'Borrador',
+                taxRates: quote.taxRates,
+                quoteId: quote.id,
+            };
+            setInvoices(prev => [...prev, newInvoice]);
+            setQuotes(prev => prev.map(q => q.id === quote.id ? { ...q, status: 'Aceptada', invoiceId: newInvoice.id } : q));
+            openInvoice(newInvoice.id, 'form');
+        };
+
+        return (
+            <Card>
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-6 print:hidden">
+                    <button onClick={onBack} className="text-blue-600 hover:underline">
+                        &larr; Volver a la lista
+                    </button>
+                    <div className="flex flex-wrap gap-2">
+                        <AuditHistoryButton entityType="quote" entityId={quote.id} title={quote.quoteNumber} label="Historial" />
+                        {quote.status === 'Borrador' && <Button onClick={() => setStatus('Enviada')} className="bg-gray-700 hover:bg-gray-800">Marcar como enviada</Button>}
+                        {(quote.status === 'Enviada' || quote.status === 'Vencida') && (
+                            <>
+                                <Button onClick={handleAccept} className="bg-green-600 hover:bg-green-700">Marcar aceptada</Button>
+                                <Button onClick={() => setStatus('Rechazada')} className="bg-red-600 hover:bg-red-700">Marcar rechazada</Button>
+                            </>
+                        )}
+                        {quote.status === 'Aceptada' && !invoice && <Button onClick={handleConvert} className="bg-green-600 hover:bg-green-700">Convertir en factura</Button>}
+                        {invoice && <Button onClick={() => openInvoice(invoice.id, 'preview')} className="bg-gray-700 hover:bg-gray-800">Ver factura {invoice.invoiceNumber}</Button>}
+                        <Button onClick={() => generatePdf('quote-preview', `Cotizacion-${quote.quoteNumber}`)}>
+                            {ICONS.print} Imprimir / Guardar PDF
+                        </Button>
+                    </div>
+                </div>
+                <div id="quote-preview" className="bg-white p-8 md:p-12 text-gray-800 text-[10pt] leading-normal font-sans">
+                    <header className="flex justify-between items-start pb-8 border-b-2" style={{ borderColor: accentColor }}>
+                        <div className="w-2/3">
+                            {settings.businessInfo.logo && <img src={settings.businessInfo.logo} alt="Logo" className="max-w-[150px] max-h-[80px] mb-4 object-contain" />}
+                            <h1 className="text-xl font-bold text-gray-900">{settings.businessInfo.name}</h1>
+                            <p>{settings.businessInfo.address}</p>
+                            <p>{settings.businessInfo.phone}</p>
+                            <p>{settings.businessInfo.email}</p>
+                            <p>RNC: {settings.businessInfo.taxId}</p>
+                        </div>
+                        <div className="w-1/3 text-right">
+                            <h2 className="text-3xl font-bold" style={{ color: accentColor }}>COTIZACIÓN</h2>
+                            <p className="font-semibold">{quote.quoteNumber}</p>
+                            <p><strong>Fecha:</strong> {formatDate(quote.issueDate)}</p>
+                            <p><strong>Válida hasta:</strong> {formatDate(quote.validUntil)}</p>
+                        </div>
+                    </header>
+                    <section className="py-8">
+                        <h3 className="font-semibold mb-2">Preparada para:</h3>
+                        <p className="font-bold text-gray-900">{client.name}</p>
+                        {client.taxId && <p>RNC/Cédula: {client.taxId}</p>}
+                        <p>{client.address}</p>
+                        <p>{client.phone}</p>
+                        <p>{client.email}</p>
+                    </section>
+                    <section>
+                        <table className="w-full text-left mb-8">
+                            <thead>
+                                <tr className="text-white" style={{ backgroundColor: accentColor }}>
+                                    <th className="p-2 font-semibold rounded-tl-lg">Descripción</th>
+                                    <th className="p-2 font-semibold text-center">Cantidad</th>
+                                    <th className="p-2 font-semibold text-right">Precio Unitario</th>
+                                    <th className="p-2 font-semibold text-right">ITBIS</th>
+                                    <th className="p-2 font-semibold text-right rounded-tr-lg">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {quote.items.map(item => (
+                                    <tr key={item.id} className="border-b">
+                                        <td className="p-2">{item.description}</td>
+                                        <td className="p-2 text-center">{item.quantity}</td>
+                                        <td className="p-2 text-right">{formatCurrency(item.unitPrice)}</td>
+                                        <td className="p-2 text-right">{item.taxType === 'Exento' ? 'E' : formatCurrency(getItemTax(item, taxRates))}</td>
+                                        <td className="p-2 text-right">{formatCurrency(item.quantity * item.unitPrice)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+                    <section className="flex justify-end mb-8">
+                        <div className="w-full max-w-xs space-y-2">
+                            <DocumentTotals totals={totals} taxRates={taxRates} accentColor={accentColor} />
+                        </div>
+                    </section>
+                    <footer className="pt-8 border-t">
+                        {quote.notes && (
+                            <div className="mb-8">
+                                <h4 className="font-semibold mb-2">Notas y condiciones:</h4>
+                                <p className="whitespace-pre-wrap text-xs">{quote.notes}</p>
+                            </div>
+                        )}
+                        <p className="text-xs mb-12">Precios sujetos a cambio después del {formatDate(quote.validUntil)}. Para aprobar esta cotización, firme y devuelva una copia.</p>
+                        <div className="flex justify-between items-end">
+                            <div className="text-center w-56">
+                                <p className="border-t pt-1 text-xs">Aceptado por (nombre, firma y fecha)</p>
+                            </div>
+                            {settings.businessInfo.signature && (
+                                <div className="text-center">
+                                    <img src={settings.businessInfo.signature} alt="Firma" className="max-w-[150px] h-auto mx-auto" />
+                                    <p className="border-t pt-1 mt-1 text-xs">Firma Autorizada</p>
+                                </div>
+                            )}
+                        </div>
+                    </footer>
+                </div>
+            </Card>
+        );
+    };
+
+    const WorkOrdersPage = () => {
+        const { view, documentId } = workOrdersView;
+        const selectedOrder = workOrders.find(wo => wo.id === documentId) || null;
+        const showList = () => setWorkOrdersView({ view: 'list', documentId: null });
+
+        const handleSaveWorkOrder = (order: WorkOrder) => {
+            if (selectedOrder) {
+                setWorkOrders(prev => prev.map(wo => wo.id === order.id ? order : wo));
+            } else {
+                const [workOrderNumber] = assignDocumentNumbers('workOrder', workOrders.map(wo => wo.workOrderNumber), [todayIso()]).numbers;
+                setWorkOrders([...workOrders, { ...order, id: generateId(), workOrderNumber, createdAt: new Date().toISOString() }]);
+            }
+            showList();
+        };
+
+        const handleDeleteWorkOrder = (order: WorkOrder) => {
+            if (order.invoiceId) {
+                alert('Esta orden ya fue facturada y no puede eliminarse.');
+                return;
+            }
+            if (window.confirm('¿Está seguro que desea eliminar esta orden de trabajo?')) {
+                setWorkOrders(prev => prev.filter(wo => wo.id !== order.id));
+            }
+        };
+
+        if (view === 'form') {
+            return <WorkOrderForm order={selectedOrder} onSave={handleSaveWorkOrder} onCancel={showList} />;
+        }
+
+        if (view === 'preview' && selectedOrder) {
+            return <WorkOrderDetail order={selectedOrder} onBack={showList} />;
+        }
+
+        const sortedOrders = [...workOrders].sort((a, b) => b.scheduledStart.localeCompare(a.scheduledStart));
+
+        return (
+            <Card>
+                <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Órdenes de Trabajo</h2>
+                    <Button onClick={() => setWorkOrdersView({ view: 'form', documentId: null })}>{ICONS.plus} Nueva Orden</Button>
+                </div>
+                <div className="border-b mb-6">
+                    <TabButton isActive={workOrdersTab === 'list'} onClick={() => setWorkOrdersTab('list')}>Órdenes</TabButton>
+                    <TabButton isActive={workOrdersTab === 'board'} onClick={() => setWorkOrdersTab('board')}>Despacho del día</TabButton>
+                    <TabButton isActive={workOrdersTab === 'technicians'} onClick={() => setWorkOrdersTab('technicians')}>Técnicos</TabButton>
+                </div>
+                {workOrdersTab === 'board' && <DispatchBoard />}
+                {workOrdersTab === 'technicians' && <TechniciansManager />}
+                {workOrdersTab === 'list' && (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Orden</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tipo</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Programada</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Técnico</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {sortedOrders.map(order => {
+                                    const client = clients.find(c => c.id === order.clientId);
+                                    const technician = technicians.find(t => t.id === order.technicianId);
+                                    return (
+                                        <tr key={order.id} className="border-b hover:bg-gray-50">
+                                            <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setWorkOrdersView({ view: 'preview', documentId: order.id })}>{order.workOrderNumber}</td>
+                                            <td className="p-3">{client?.name || 'N/A'}</td>
+                                            <td className="p-3">{order.jobType}</td>
+                                            <td className="p-3">{formatDateTime(order.scheduledStart)}</td>
+                                            <td className="p-3">{technician?.name || 'Sin asignar'}</td>
+                                            <td className="p-3">{formatCurrency(getWorkOrderTotals(order).total)}</td>
+                                            <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${WORK_ORDER_STATUS_COLORS[order.status]}`}>{order.status}</span></td>
+                                            <td className="p-3 flex space-x-2">
+                                                {order.status !== 'Facturada' && <button onClick={() => setWorkOrdersView({ view: 'form', documentId: order.id })} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>}
+                                                <button onClick={() => handleDeleteWorkOrder(order)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {workOrders.length === 0 && (
+                                    <tr><td colSpan={8} className="p-6 text-center text-gray-500">No hay órdenes de trabajo registradas.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </Card>
+        );
+    };
+
+    const updateWorkOrderStatus = (order: WorkOrder, status: WorkOrderStatus) => {
+        if (status === 'Completada' && order.materials.length === 0 && order.labor.length === 0 && !window.confirm('La orden no tiene materiales ni mano de obra registrados. ¿Desea completarla de todos modos?')) return;
+        const now = new Date().toISOString();
+        setWorkOrders(prev => prev.map(wo => wo.id !== order.id ? wo : {
+            ...wo,
+            status,
+            startedAt: status === 'En progreso' ? wo.startedAt || now : wo.startedAt,
+            completedAt: status === 'Completada' ? now : wo.completedAt,
+        }));
+    };
+
+    // The invoice starts as a draft so prices can be reviewed before an NCF is assigned.
+    const convertWorkOrderToInvoice = (order: WorkOrder) => {
+        const newInvoice: Invoice = {
+            id: generateId(),
+            invoiceNumber: assignInvoiceNumber(todayIso()),
+            clientId: order.clientId,
+            issueDate: todayIso(),
+            dueDate: addDays(todayIso(), 30),
+            items: buildWorkOrderInvoiceItems(order),
+            notes: order.notes,
+            status: 'Borrador',
+            taxRates: settings.taxSettings,
+            workOrderId: order.id,
+        };
+        setInvoices(prev => [...prev, newInvoice]);
+        setWorkOrders(prev => prev.map(wo => wo.id === order.id ? { ...wo, status: 'Facturada', invoiceId: newInvoice.id } : wo));
+        openInvoice(newInvoice.id, 'form');
+    };
+
+    const WorkOrderForm = ({ order, onSave, onCancel }: { order: WorkOrder | null, onSave: (order: WorkOrder) => void, onCancel: () => void }) => {
+        const [formData, setFormData] = useState<Omit<WorkOrder, 'id' | 'workOrderNumber' | 'createdAt'>>(
+            order || {
+                clientId: '',
+                site: '',
+                jobType: 'Mantenimiento',
+                scheduledStart: `${dispatchDate}T08:00`,
+                estimatedHours: 2,
+                description: '',
+                status: 'Pendiente',
+                materials: [],
+                labor: [],
+                notes: '',
+            }
+        );
+        const clientEquipment = equipment.filter(u => u.clientId === formData.clientId);
+        const totals = getWorkOrderTotals(formData);
+        const activeTechnicians = technicians.filter(t => t.active || t.id === formData.technicianId);
+        const defaultRate = technicians.find(t => t.id === formData.technicianId)?.hourlyRate || 0;
+
+        const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+            const { name, value, type } = e.target;
+            setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) || 0 : value });
+        };
+
+        // The site defaults to the client's address and equipment links are dropped when the client changes.
+        const handleClientChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+            const client = clients.find(c => c.id === e.target.value);
+            setFormData({ ...formData, clientId: e.target.value, site: client?.address || '', equipmentId: undefined });
+        };
+
+        // Picking a service kit fills in its materials and labor; both can still be adjusted.
+        const handleServiceChange = (serviceId: string) => {
+            const service = services.find(s => s.id === serviceId);
+            if (!service) {
+                setFormData({ ...formData, serviceId: undefined });
+                return;
+            }
+            if ((formData.materials.length > 0 || formData.labor.length > 0) && !window.confirm('Se reemplazarán los materiales y la mano de obra actuales por los del servicio. ¿Desea continuar?')) return;
+            const materials = service.items.flatMap(serviceItem => {
+                const item = inventory.find(i => i.id === serviceItem.inventoryItemId);
+                return item ? [{ id: generateId(), inventoryItemId: item.id, description: item.name, quantity: serviceItem.quantity, unitPrice: item.unitPrice }] : [];
+            });
+            setFormData({
+                ...formData,
+                serviceId,
+                description: formData.description || service.description,
+                materials,
+                labor: [{ id: generateId(), description: service.name, hours: 1, rate: service.laborCost }],
+            });
+        };
+
+        const updateMaterial = (index: number, changes: Partial<WorkOrderMaterial>) => {
+            setFormData({ ...formData, materials: formData.materials.map((m, i) => i === index ? { ...m, ...changes } : m) });
+        };
+
+        const handleMaterialItemChange = (index: number, inventoryItemId: string) => {
+            const item = inventory.find(i => i.id === inventoryItemId);
+            updateMaterial(index, item ? { inventoryItemId, description: item.name, unitPrice: item.unitPrice } : { inventoryItemId: undefined });
+        };
+
+        const updateLabor = (index: number, changes: Partial<WorkOrderLabor>) => {
+            setFormData({ ...formData, labor: formData.labor.map((l, i) => i === index ? { ...l, ...changes } : l) });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!clients.some(c => c.id === formData.clientId)) {
+                alert('Por favor, seleccione un cliente.');
+                return;
+            }
+            onSave({ ...formData, id: order?.id || '', workOrderNumber: order?.workOrderNumber || '', createdAt: order?.createdAt || '' });
+        };
+
+        return (
+            <Card>
+                <form onSubmit={handleSubmit}>
+                    <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-gray-800">{order ? 'Editar Orden de Trabajo' : 'Nueva Orden de Trabajo'} {order?.workOrderNumber}</h2>
+                        <span className={`px-2 py-1 text-xs font-semibold rounded-full ${WORK_ORDER_STATUS_COLORS[formData.status]}`}>{formData.status}</span>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                            <Select name="clientId" value={formData.clientId} onChange={handleClientChange} required>
+                                <option value="" disabled>Seleccione un cliente</option>
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </Select>
+                        </div>
+                        <div className="md:col-span-2">
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Lugar del trabajo</label>
+                            <Input name="site" value={formData.site} onChange={handleInputChange} placeholder="Dirección donde se realizará el trabajo" />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Equipo</label>
+                            <Select value={formData.equipmentId || ''} onChange={e => setFormData({ ...formData, equipmentId: e.target.value || undefined })}>
+                                <option value="">Sin equipo específico</option>
+                                {clientEquipment.map(unit => <option key={unit.id} value={unit.id}>{formatEquipmentName(unit)}{unit.serialNumber ? ` · S/N ${unit.serialNumber}` : ''}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de trabajo</label>
+                            <Select name="jobType" value={formData.jobType} onChange={handleInputChange}>
+                                {WORK_ORDER_JOB_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Servicio</label>
+                            <Select value={formData.serviceId || ''} onChange={e => handleServiceChange(e.target.value)}>
+                                <option value="">Ninguno</option>
+                                {services.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Técnico asignado</label>
+                            <Select value={formData.technicianId || ''} onChange={e => setFormData({ ...formData, technicianId: e.target.value || undefined })}>
+                                <option value="">Sin asignar</option>
+                                {activeTechnicians.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha y hora programada</label>
+                            <Input type="datetime-local" name="scheduledStart" value={formData.scheduledStart} onChange={handleInputChange} required />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Duración estimada (horas)</label>
+                            <Input type="number" name="estimatedHours" value={formData.estimatedHours} onChange={handleInputChange} min="0" step="0.5" />
+                        </div>
+                    </div>
+                    <div className="mb-6">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Trabajo a realizar</label>
+                        <Textarea name="description" value={formData.description} onChange={handleInputChange} rows={3} />
+                    </div>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Materiales utilizados</h3>
+                    <div className="space-y-2 mb-2">
+                        {formData.materials.map((material, index) => (
+                            <div key={material.id} className="grid grid-cols-12 gap-2 items-center p-2 border rounded-md bg-gray-50">
+                                <div className="col-span-12 md:col-span-3">
+                                    <Select value={material.inventoryItemId || ''} onChange={e => handleMaterialItemChange(index, e.target.value)}>
+                                        <option value="">Otro material</option>
+                                        {inventory.map(item => <option key={item.id} value={item.id}>{item.name}</option>)}
+                                    </Select>
+                                </div>
+                                <div className="col-span-12 md:col-span-4">
+                                    <Input placeholder="Descripción" value={material.description} onChange={e => updateMaterial(index, { description: e.target.value })} required />
+                                </div>
+                                <div className="col-span-4 md:col-span-1">
+                                    <Input type="number" placeholder="Cant." min="0" step="any" value={material.quantity} onChange={e => updateMaterial(index, { quantity: parseFloat(e.target.value) || 0 })} required />
+                                </div>
+                                <div className="col-span-4 md:col-span-2">
+                                    <Input type="number" placeholder="Precio" min="0" step="0.01" value={material.unitPrice} onChange={e => updateMaterial(index, { unitPrice: parseFloat(e.target.value) || 0 })} required />
+                                </div>
+                                <div className="col-span-3 md:col-span-1 text-right font-medium">{formatCurrency(material.quantity * material.unitPrice)}</div>
+                                <div className="col-span-1 flex justify-end">
+                                    <button type="button" onClick={() => setFormData({ ...formData, materials: formData.materials.filter((_, i) => i !== index) })} className="text-red-500 hover:text-red-700 p-2">{ICONS.trash}</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button type="button" onClick={() => setFormData({ ...formData, materials: [...formData.materials, { id: generateId(), description: '', quantity: 1, unitPrice: 0 }] })} className="mb-6 text-blue-600 hover:underline text-sm font-semibold">+ Añadir material</button>
+
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Mano de obra</h3>
+                    <div className="space-y-2 mb-2">
+                        {formData.labor.map((labor, index) => (
+                            <div key={labor.id} className="grid grid-cols-12 gap-2 items-center p-2 border rounded-md bg-gray-50">
+                                <div className="col-span-12 md:col-span-7">
+                                    <Input placeholder="Descripción" value={labor.description} onChange={e => updateLabor(index, { description: e.target.value })} required />
+                                </div>
+                                <div className="col-span-4 md:col-span-1">
+                                    <Input type="number" placeholder="Horas" min="0" step="0.25" value={labor.hours} onChange={e => updateLabor(index, { hours: parseFloat(e.target.value) || 0 })} required />
+                                </div>
+                                <div className="col-span-4 md:col-span-2">
+                                    <Input type="number" placeholder="Tarifa" min="0" step="0.01" value={labor.rate} onChange={e => updateLabor(index, { rate: parseFloat(e.target.value) || 0 })} required />
+                                </div>
+                                <div className="col-span-3 md:col-span-1 text-right font-medium">{formatCurrency(labor.hours * labor.rate)}</div>
+                                <div className="col-span-1 flex justify-end">
+                                    <button type="button" onClick={() => setFormData({ ...formData, labor: formData.labor.filter((_, i) => i !== index) })} className="text-red-500 hover:text-red-700 p-2">{ICONS.trash}</button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <button type="button" onClick={() => setFormData({ ...formData, labor: [...formData.labor, { id: generateId(), description: '', hours: 1, rate: defaultRate }] })} className="mb-6 text-blue-600 hover:underline text-sm font-semibold">+ Añadir mano de obra</button>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                            <Textarea name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={3} />
+                        </div>
+                        <div className="flex flex-col justify-end items-end">
+                            <div className="w-full max-w-xs space-y-2">
+                                <div className="flex justify-between"><span className="text-gray-600">Materiales:</span><span className="font-semibold">{formatCurrency(totals.materials)}</span></div>
+                                <div className="flex justify-between"><span className="text-gray-600">Mano de obra:</span><span className="font-semibold">{formatCurrency(totals.labor)}</span></div>
+                                <div className="flex justify-between text-lg font-bold border-t pt-2"><span>Total (antes de ITBIS):</span><span>{formatCurrency(totals.total)}</span></div>
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end space-x-4 pt-8">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">Guardar Orden</Button>
+                    </div>
+                </form>
+            </Card>
+        );
+    };
+
+    const WorkOrderDetail = ({ order, onBack }: { order: WorkOrder, onBack: () => void }) => {
+        const client = clients.find(c => c.id === order.clientId);
+        const unit = equipment.find(u => u.id === order.equipmentId);
+        const technician = technicians.find(t => t.id === order.technicianId);
+        const service = services.find(s => s.id === order.serviceId);
+        const invoice = invoices.find(inv => inv.id === order.invoiceId);
+        const totals = getWorkOrderTotals(order);
+
+        return (
+            <Card>
+                <div className="flex flex-wrap justify-between items-center gap-2 mb-6">
+                    <button onClick={onBack} className="text-blue-600 hover:underline">
+                        &larr; Volver a la lista
+                    </button>
+                    <div className="flex flex-wrap gap-2">
+                        <AuditHistoryButton entityType="workOrder" entityId={order.id} title={order.workOrderNumber} label="Historial" />
+                        {order.status !== 'Facturada' && <Button onClick={() => setWorkOrdersView({ view: 'form', documentId: order.id })} className="bg-gray-700 hover:bg-gray-800">{ICONS.edit} Editar</Button>}
+                        {order.status === 'Pendiente' && <Button onClick={() => updateWorkOrderStatus(order, 'En progreso')}>Iniciar trabajo</Button>}
+                        {order.status === 'En progreso' && <Button onClick={() => updateWorkOrderStatus(order, 'Completada')} className="bg-green-600 hover:bg-green-700">Completar</Button>}
+                        {order.status === 'Completada' && <Button onClick={() => convertWorkOrderToInvoice(order)} className="bg-green-600 hover:bg-green-700">Convertir en factura</Button>}
+                        {invoice && <Button onClick={() => openInvoice(invoice.id, invoice.status === 'Borrador' ? 'form' : 'preview')} className="bg-gray-700 hover:bg-gray-800">Ver factura {invoice.invoiceNumber}</Button>}
+                    </div>
+                </div>
+                <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                    <div>
+                        <h2 className="text-2xl font-bold text-gray-800">Orden {order.workOrderNumber}</h2>
+                        <p className="text-gray-600">{client?.name || 'N/A'} · {order.site || client?.address}</p>
+                    </div>
+                    <span className={`px-3 py-1 text-sm font-semibold rounded-full ${WORK_ORDER_STATUS_COLORS[order.status]}`}>{order.status}</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-6">
+                    <div><p className="text-gray-500">Tipo de trabajo</p><p className="font-semibold">{order.jobType}</p></div>
+                    <div><p className="text-gray-500">Programada</p><p className="font-semibold">{formatDateTime(order.scheduledStart)}</p></div>
+                    <div><p className="text-gray-500">Duración estimada</p><p className="font-semibold">{order.estimatedHours} h</p></div>
+                    <div><p className="text-gray-500">Técnico</p><p className="font-semibold">{technician?.name || 'Sin asignar'}</p></div>
+                    <div><p className="text-gray-500">Equipo</p><p className="font-semibold">{unit ? formatEquipmentName(unit) : '—'}</p></div>
+                    <div><p className="text-gray-500">Servicio</p><p className="font-semibold">{service?.name || '—'}</p></div>
+                    {order.startedAt && <div><p className="text-gray-500">Iniciada</p><p className="font-semibold">{new Date(order.startedAt).toLocaleString('es-ES')}</p></div>}
+                    {order.completedAt && <div><p className="text-gray-500">Completada</p><p className="font-semibold">{new Date(order.completedAt).toLocaleString('es-ES')}</p></div>}
+                </div>
+                {order.description && <p className="mb-6 text-gray-700 whitespace-pre-wrap">{order.description}</p>}
+
+                <table className="w-full text-left mb-6">
+                    <thead>
+                        <tr className="bg-gray-50 border-b">
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Concepto</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cantidad</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Precio</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Importe</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {order.materials.map(material => (
+                            <tr key={material.id} className="border-b">
+                                <td className="p-3">{material.description}</td>
+                                <td className="p-3">{material.quantity}</td>
+                                <td className="p-3">{formatCurrency(material.unitPrice)}</td>
+                                <td className="p-3">{formatCurrency(material.quantity * material.unitPrice)}</td>
+                            </tr>
+                        ))}
+                        {order.labor.map(labor => (
+                            <tr key={labor.id} className="border-b">
+                                <td className="p-3">Mano de obra: {labor.description}</td>
+                                <td className="p-3">{labor.hours} h</td>
+                                <td className="p-3">{formatCurrency(labor.rate)}</td>
+                                <td className="p-3">{formatCurrency(labor.hours * labor.rate)}</td>
+                            </tr>
+                        ))}
+                        {order.materials.length === 0 && order.labor.length === 0 && (
+                            <tr><td colSpan={4} className="p-6 text-center text-gray-500">No se han registrado materiales ni mano de obra.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+                <div className="flex justify-end">
+                    <div className="w-full max-w-xs space-y-2">
+                        <div className="flex justify-between"><span className="text-gray-600">Materiales:</span><span className="font-semibold">{formatCurrency(totals.materials)}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-600">Mano de obra:</span><span className="font-semibold">{formatCurrency(totals.labor)}</span></div>
+                        <div className="flex justify-between text-lg font-bold border-t pt-2"><span>Total (antes de ITBIS):</span><span>{formatCurrency(totals.total)}</span></div>
+                    </div>
+                </div>
+                {order.notes && <p className="mt-6 text-sm text-gray-600 whitespace-pre-wrap">{order.notes}</p>}
+            </Card>
+        );
+    };
+
+    const DispatchBoard = () => {
+        const dayOrders = workOrders
+            .filter(wo => wo.scheduledStart.slice(0, 10) === dispatchDate)
+            .sort((a, b) => a.scheduledStart.localeCompare(b.scheduledStart));
+        const columns = [
+            ...technicians.filter(t => t.active || dayOrders.some(wo => wo.technicianId === t.id)).map(t => ({ id: t.id, name: t.name })),
+            { id: '', name: 'Sin asignar' },
+        ];
+
+        return (
+            <div>
+                <div className="flex flex-wrap items-center gap-2 mb-4">
+                    <button onClick={() => setDispatchDate(addDays(dispatchDate, -1))} className="px-3 py-1 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">&larr;</button>
+                    <Input type="date" value={dispatchDate} onChange={e => setDispatchDate(e.target.value || todayIso())} className="w-auto" />
+                    <button onClick={() => setDispatchDate(addDays(dispatchDate, 1))} className="px-3 py-1 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">&rarr;</button>
+                    <button onClick={() => setDispatchDate(todayIso())} className="text-sm text-blue-600 hover:underline">Hoy</button>
+                    <span className="ml-auto text-sm text-gray-500">{dayOrders.length} orden(es) para el {formatDate(dispatchDate)}</span>
+                </div>
+                <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(14rem, 1fr))` }}>
+                    {columns.map(column => {
+                        const columnOrders = dayOrders.filter(wo => (wo.technicianId || '') === column.id);
+                        const scheduledHours = columnOrders.reduce((sum, wo) => sum + wo.estimatedHours, 0);
+                        return (
+                            <div key={column.id || 'unassigned'} className="bg-gray-50 rounded-lg p-3 space-y-3">
+                                <div className="flex justify-between items-baseline">
+                                    <h4 className="font-semibold text-gray-800">{column.name}</h4>
+                                    <span className="text-xs text-gray-500">{scheduledHours} h</span>
+                                </div>
+                                {columnOrders.map(order => {
+                                    const client = clients.find(c => c.id === order.clientId);
+                                    const unit = equipment.find(u => u.id === order.equipmentId);
+                                    return (
+                                        <div key={order.id} className="bg-white border rounded-lg p-3 shadow-sm space-y-1 text-sm">
+                                            <div className="flex justify-between items-center">
+                                                <span className="font-bold">{formatTime(order.scheduledStart)}</span>
+                                                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${WORK_ORDER_STATUS_COLORS[order.status]}`}>{order.status}</span>
+                                            </div>
+                                            <button onClick={() => setWorkOrdersView({ view: 'preview', documentId: order.id })} className="font-semibold text-blue-600 hover:underline text-left">{order.workOrderNumber} · {client?.name || 'N/A'}</button>
+                                            <p className="text-gray-600">{order.site || client?.address}</p>
+                                            <p className="text-gray-600">{order.jobType}{unit ? ` · ${formatEquipmentName(unit)}` : ''}</p>
+                                            <div className="flex gap-2 pt-1">
+                                                {order.status === 'Pendiente' && <button onClick={() => updateWorkOrderStatus(order, 'En progreso')} className="text-xs font-semibold text-blue-600 hover:underline">Iniciar</button>}
+                                                {order.status === 'En progreso' && <button onClick={() => updateWorkOrderStatus(order, 'Completada')} className="text-xs font-semibold text-green-600 hover:underline">Completar</button>}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                                {columnOrders.length === 0 && <p className="text-xs text-gray-400">Sin órdenes</p>}
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        );
+    };
+
+    const TechniciansManager = () => {
+        const [editingTechnician, setEditingTechnician] = useState<Technician | null>(null);
+        const [isModalOpen, setIsModalOpen] = useState(false);
+
+        const openForm = (technician: Technician | null) => {
+            setEditingTechnician(technician);
+            setIsModalOpen(true);
+        };
+
+        const handleSave = (technician: Technician) => {
+            if (editingTechnician) {
+                setTechnicians(prev => prev.map(t => t.id === technician.id ? technician : t));
+            } else {
+                setTechnicians(prev => [...prev, { ...technician, id: generateId() }]);
+            }
             setIsModalOpen(false);
         };
 
-        const ItemForm = ({ item, onSave, onCancel }: { item: InventoryItem | null; onSave: (item: InventoryItem) => void; onCancel: () => void; }) => {
-            const [formData, setFormData] = useState(item || { name: '', description: '', quantity: 0, unitPrice: 0 });
-            const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-                const { name, value, type } = e.target;
-                setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) : value });
+        const handleDelete = (technician: Technician) => {
+            if (workOrders.some(wo => wo.technicianId === technician.id)) {
+                alert('Este técnico tiene órdenes asignadas. Desactívelo en lugar de eliminarlo.');
+                return;
+            }
+            if (window.confirm('¿Está seguro que desea eliminar este técnico?')) {
+                setTechnicians(prev => prev.filter(t => t.id !== technician.id));
+            }
+        };
+
+        const TechnicianForm = ({ technician, onCancel }: { technician: Technician | null, onCancel: () => void }) => {
+            const [formData, setFormData] = useState<Technician>(technician || { id: '', name: '', phone: '', hourlyRate: 0, active: true });
+            return (
+                <form onSubmit={e => { e.preventDefault(); handleSave(formData); }} className="space-y-4">
+                    <Input placeholder="Nombre" value={formData.name} onChange={e => setFormData({ ...formData, name: e.target.value })} required />
+                    <Input type="tel" placeholder="Teléfono" value={formData.phone} onChange={e => setFormData({ ...formData, phone: e.target.value })} />
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Tarifa por hora</label>
+                        <Input type="number" min="0" step="0.01" value={formData.hourlyRate} onChange={e => setFormData({ ...formData, hourlyRate: parseFloat(e.target.value) || 0 })} />
+                    </div>
+                    <label className="flex items-center text-sm cursor-pointer">
+                        <input type="checkbox" checked={formData.active} onChange={e => setFormData({ ...formData, active: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2" />
+                        Activo
+                    </label>
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">{technician ? 'Guardar Cambios' : 'Crear Técnico'}</Button>
+                    </div>
+                </form>
+            );
+        };
+
+        return (
+            <div>
+                <div className="flex justify-end mb-4">
+                    <Button onClick={() => openForm(null)}>{ICONS.plus} Nuevo Técnico</Button>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Nombre</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Teléfono</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tarifa por hora</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Órdenes abiertas</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {technicians.map(technician => (
+                                <tr key={technician.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-medium">{technician.name}</td>
+                                    <td className="p-3">{technician.phone || '—'}</td>
+                                    <td className="p-3">{formatCurrency(technician.hourlyRate)}</td>
+                                    <td className="p-3">{workOrders.filter(wo => wo.technicianId === technician.id && (wo.status === 'Pendiente' || wo.status === 'En progreso')).length}</td>
+                                    <td className="p-3">{technician.active ? 'Activo' : 'Inactivo'}</td>
+                                    <td className="p-3 flex space-x-2">
+                                        <AuditHistoryButton entityType="technician" entityId={technician.id} title={technician.name} />
+                                        <button onClick={() => openForm(technician)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                        <button onClick={() => handleDelete(technician)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                    </td>
+                                </tr>
+                            ))}
+                            {technicians.length === 0 && (
+                                <tr><td colSpan={6} className="p-6 text-center text-gray-500">No hay técnicos registrados.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingTechnician ? 'Editar Técnico' : 'Nuevo Técnico'}>
+                    <TechnicianForm technician={editingTechnician} onCancel={() => setIsModalOpen(false)} />
+                </Modal>
+            </div>
+        );
+    };
+
+    const MaintenancePage = () => {
+        const { mode, anchor } = maintenanceCalendar;
+        const today = todayIso();
+        const [activeVisitId, setActiveVisitId] = useState<string | null>(null);
+        const [isNewVisitOpen, setIsNewVisitOpen] = useState(false);
+        const activeVisit = maintenanceVisits.find(v => v.id === activeVisitId) || null;
+        const days = getCalendarDays(anchor, mode);
+        const overdueVisits = maintenanceVisits.filter(v => isVisitOverdue(v, today)).sort((a, b) => getVisitDate(a).localeCompare(getVisitDate(b)));
+
+        const describeVisit = (visit: MaintenanceVisit) => {
+            const client = clients.find(c => c.id === visit.clientId);
+            const unit = equipment.find(u => u.id === visit.equipmentId);
+            return unit ? `${client?.name || 'N/A'} · ${formatEquipmentName(unit)}` : client?.name || 'N/A';
+        };
+
+        const moveCalendar = (direction: number) => {
+            setMaintenanceCalendar({ mode, anchor: mode === 'month' ? addMonths(anchor, direction) : addDays(anchor, direction * 7) });
+        };
+
+        const title = mode === 'month'
+            ? new Date(anchor).toLocaleDateString('es-ES', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+            : `${formatDate(days[0])} - ${formatDate(days[6])}`;
+
+        const renderVisitChip = (visit: MaintenanceVisit) => (
+            <button
+                key={visit.id}
+                type="button"
+                onClick={() => setActiveVisitId(visit.id)}
+                className={`block w-full text-left text-xs px-1 py-0.5 rounded truncate ${isVisitOverdue(visit, today) ? 'bg-red-200 text-red-800' : MAINTENANCE_STATUS_COLORS[visit.status]}`}
+                title={`${describeVisit(visit)} · ${visit.status}`}
+            >
+                {describeVisit(visit)}
+            </button>
+        );
+
+        return (
+            <div className="space-y-6">
+                <Card>
+                    <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+                        <h2 className="text-2xl font-bold text-gray-800">Mantenimiento</h2>
+                        <div className="flex flex-wrap items-center gap-2">
+                            <TabButton isActive={mode === 'month'} onClick={() => setMaintenanceCalendar({ mode: 'month', anchor })}>Mes</TabButton>
+                            <TabButton isActive={mode === 'week'} onClick={() => setMaintenanceCalendar({ mode: 'week', anchor })}>Semana</TabButton>
+                            <Button onClick={() => setIsNewVisitOpen(true)}>{ICONS.plus} Nueva Visita</Button>
+                        </div>
+                    </div>
+                    <div className="flex justify-between items-center mb-4">
+                        <button onClick={() => moveCalendar(-1)} className="px-3 py-1 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">&larr;</button>
+                        <div className="flex items-center gap-3">
+                            <h3 className="text-lg font-semibold text-gray-700 capitalize">{title}</h3>
+                            <button onClick={() => setMaintenanceCalendar({ mode, anchor: today })} className="text-sm text-blue-600 hover:underline">Hoy</button>
+                        </div>
+                        <button onClick={() => moveCalendar(1)} className="px-3 py-1 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">&rarr;</button>
+                    </div>
+                    <div className="grid grid-cols-7 gap-px bg-gray-200 border rounded-lg overflow-hidden">
+                        {WEEKDAY_LABELS.map(label => (
+                            <div key={label} className="bg-gray-50 p-2 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">{label}</div>
+                        ))}
+                        {days.map(day => {
+                            const dayVisits = maintenanceVisits.filter(v => getVisitDate(v) === day);
+                            const outsideMonth = mode === 'month' && day.slice(0, 7) !== anchor.slice(0, 7);
+                            const visibleVisits = mode === 'month' ? dayVisits.slice(0, 3) : dayVisits;
+                            return (
+                                <div key={day} className={`p-1 space-y-1 ${mode === 'month' ? 'min-h-[6rem]' : 'min-h-[16rem]'} ${outsideMonth ? 'bg-gray-50 text-gray-400' : 'bg-white'}`}>
+                                    <p className={`text-xs font-semibold text-right ${day === today ? 'text-blue-600' : ''}`}>{Number(day.slice(8))}</p>
+                                    {visibleVisits.map(renderVisitChip)}
+                                    {dayVisits.length > visibleVisits.length && (
+                                        <button type="button" onClick={() => setMaintenanceCalendar({ mode: 'week', anchor: day })} className="text-xs text-blue-600 hover:underline">+{dayVisits.length - visibleVisits.length} más</button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                    <div className="flex flex-wrap gap-3 mt-4 text-xs">
+                        {(Object.keys(MAINTENANCE_STATUS_COLORS) as MaintenanceVisitStatus[]).map(status => (
+                            <span key={status} className={`px-2 py-1 rounded-full font-semibold ${MAINTENANCE_STATUS_COLORS[status]}`}>{status}</span>
+                        ))}
+                        <span className="px-2 py-1 rounded-full font-semibold bg-red-200 text-red-800">Vencida</span>
+                    </div>
+                </Card>
+
+                <Card>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-4">Visitas vencidas</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente / Equipo</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Días de atraso</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {overdueVisits.map(visit => (
+                                    <tr key={visit.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium">{describeVisit(visit)}</td>
+                                        <td className="p-3">{formatDate(getVisitDate(visit))}</td>
+                                        <td className="p-3 text-red-600 font-semibold">{daysBetween(getVisitDate(visit), today)}</td>
+                                        <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${MAINTENANCE_STATUS_COLORS[visit.status]}`}>{visit.status}</span></td>
+                                        <td className="p-3 flex items-center space-x-3">
+                                            <button onClick={() => setActiveVisitId(visit.id)} className="text-blue-600 hover:underline text-sm">Gestionar</button>
+                                            <AuditHistoryButton entityType="maintenanceVisit" entityId={visit.id} title={describeVisit(visit)} />
+                                        </td>
+                                    </tr>
+                                ))}
+                                {overdueVisits.length === 0 && (
+                                    <tr><td colSpan={5} className="p-6 text-center text-gray-500">No hay visitas vencidas.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+
+                <Modal isOpen={!!activeVisit} onClose={() => setActiveVisitId(null)} title="Visita de Mantenimiento">
+                    {activeVisit && <MaintenanceVisitForm visit={activeVisit} description={describeVisit(activeVisit)} onClose={() => setActiveVisitId(null)} />}
+                </Modal>
+                <Modal isOpen={isNewVisitOpen} onClose={() => setIsNewVisitOpen(false)} title="Nueva Visita de Mantenimiento">
+                    <NewMaintenanceVisitForm onClose={() => setIsNewVisitOpen(false)} />
+                </Modal>
+            </div>
+        );
+    };
+
+    const MaintenanceVisitForm = ({ visit, description, onClose }: { visit: MaintenanceVisit, description: string, onClose: () => void }) => {
+        const [date, setDate] = useState(visit.scheduledDate || todayIso());
+        const [notes, setNotes] = useState(visit.notes || '');
+        const service = services.find(s => s.id === visit.serviceId);
+        const sourceInvoice = invoices.find(inv => inv.id === visit.sourceInvoiceId);
+        const completedInvoice = invoices.find(inv => inv.id === visit.invoiceId);
+        const intervalMonths = getVisitInterval(visit);
+
+        const handleSchedule = () => {
+            setMaintenanceVisits(prev => prev.map(v => v.id === visit.id ? { ...v, status: 'Programada', scheduledDate: date, notes } : v));
+            onClose();
+        };
+
+        const handleClose = (status: 'Realizada' | 'Rechazada') => {
+            if (status === 'Realizada' && date > todayIso()) {
+                alert('La fecha de realización no puede ser posterior a hoy.');
+                return;
+            }
+            setMaintenanceVisits(closeMaintenanceVisit(maintenanceVisits, visit, status, date, notes, intervalMonths));
+            onClose();
+        };
+
+        const openSourceInvoice = (invoice: Invoice) => {
+            onClose();
+            openInvoice(invoice.id, 'preview');
+        };
+
+        return (
+            <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div className="col-span-2"><p className="text-gray-500">Cliente / Equipo</p><p className="font-semibold">{description}</p></div>
+                    <div><p className="text-gray-500">Vence</p><p className="font-semibold">{formatDate(visit.dueDate)}</p></div>
+                    <div><p className="text-gray-500">Estado</p><span className={`px-2 py-1 text-xs font-semibold rounded-full ${MAINTENANCE_STATUS_COLORS[visit.status]}`}>{visit.status}</span></div>
+                    {visit.scheduledDate && <div><p className="text-gray-500">Programada para</p><p className="font-semibold">{formatDate(visit.scheduledDate)}</p></div>}
+                    {visit.completedDate && <div><p className="text-gray-500">Realizada el</p><p className="font-semibold">{formatDate(visit.completedDate)}</p></div>}
+                    {service && <div><p className="text-gray-500">Servicio</p><p className="font-semibold">{service.name}</p></div>}
+                    <div><p className="text-gray-500">Intervalo</p><p className="font-semibold">{intervalMonths} meses</p></div>
+                    {sourceInvoice && (
+                        <div><p className="text-gray-500">Programada por</p><button type="button" onClick={() => openSourceInvoice(sourceInvoice)} className="font-semibold text-blue-600 hover:underline">{sourceInvoice.invoiceNumber}</button></div>
+                    )}
+                    {completedInvoice && (
+                        <div><p className="text-gray-500">Facturada en</p><button type="button" onClick={() => openSourceInvoice(completedInvoice)} className="font-semibold text-blue-600 hover:underline">{completedInvoice.invoiceNumber}</button></div>
+                    )}
+                </div>
+                {isOpenVisit(visit) ? (
+                    <>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                            <Input type="date" value={date} onChange={e => setDate(e.target.value)} required />
+                            <p className="text-xs text-gray-500 mt-1">Fecha de la cita al programar, o del día de la visita al marcarla realizada o rechazada. El próximo mantenimiento se calcula a partir de ella.</p>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                            <Textarea value={notes} onChange={e => setNotes(e.target.value)} rows={3} />
+                        </div>
+                        <div className="flex flex-wrap justify-end gap-2 pt-2">
+                            <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                            <Button onClick={() => handleClose('Rechazada')} className="bg-gray-600 hover:bg-gray-700">Rechazada por el cliente</Button>
+                            <Button onClick={handleSchedule}>Programar</Button>
+                            <Button onClick={() => handleClose('Realizada')} className="bg-green-600 hover:bg-green-700">Marcar realizada</Button>
+                        </div>
+                    </>
+                ) : (
+                    visit.notes && <p className="text-sm text-gray-600 whitespace-pre-wrap">{visit.notes}</p>
+                )}
+            </div>
+        );
+    };
+
+    const NewMaintenanceVisitForm = ({ onClose }: { onClose: () => void }) => {
+        const [target, setTarget] = useState<MaintenanceTarget>({ clientId: '' });
+        const [dueDate, setDueDate] = useState(todayIso());
+        const clientEquipment = equipment.filter(u => u.clientId === target.clientId);
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!target.clientId) {
+                alert('Por favor, seleccione un cliente.');
+                return;
+            }
+            if (maintenanceVisits.some(v => isOpenVisit(v) && isSameMaintenanceTarget(v, target))) {
+                alert('Ya existe una visita pendiente para este cliente y equipo. Gestiónela desde el calendario.');
+                return;
+            }
+            setMaintenanceVisits(prev => [...prev, createMaintenanceVisit(target, dueDate)]);
+            onClose();
+        };
+
+        return (
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                    <Select value={target.clientId} onChange={e => setTarget({ clientId: e.target.value })} required>
+                        <option value="" disabled>Seleccione un cliente</option>
+                        {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                    </Select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Equipo</label>
+                    <Select value={target.equipmentId || ''} onChange={e => setTarget({ ...target, equipmentId: e.target.value || undefined })}>
+                        <option value="">Sin equipo específico</option>
+                        {clientEquipment.map(unit => <option key={unit.id} value={unit.id}>{formatEquipmentName(unit)}{unit.serialNumber ? ` · S/N ${unit.serialNumber}` : ''}</option>)}
+                    </Select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de vencimiento</label>
+                    <Input type="date" value={dueDate} onChange={e => setDueDate(e.target.value)} required />
+                </div>
+                <div className="flex justify-end space-x-4 pt-4">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    <Button type="submit">Crear Visita</Button>
+                </div>
+            </form>
+        );
+    };
+
+    const ContractsPage = () => {
+        const { view, documentId } = contractsView;
+        const selectedContract = contracts.find(c => c.id === documentId) || null;
+        const showList = () => setContractsView({ view: 'list', documentId: null });
+        const pendingDrafts = invoices.filter(inv => inv.contractId && inv.status === 'Borrador').sort((a, b) => a.issueDate.localeCompare(b.issueDate));
+        const [selectedDraftIds, setSelectedDraftIds] = useState<string[]>(pendingDrafts.map(inv => inv.id));
+
+        const handleSaveContract = (formContract: ServiceContract) => {
+            let counters = documentCounters;
+            let nextContracts = contracts.map(c => c.id === formContract.id ? formContract : c);
+            if (!selectedContract) {
+                const numbered = assignDocumentNumbers('contract', contracts.map(c => c.contractNumber), [todayIso()]);
+                counters = numbered.counters;
+                nextContracts = [...contracts, { ...formContract, id: generateId(), contractNumber: numbered.numbers[0], createdAt: new Date().toISOString() }];
+            }
+            const billed = billDueContracts(nextContracts, counters);
+            if (billed > 0) {
+                alert(`Se generaron ${billed} factura(s) en borrador para los períodos del contrato que ya están por facturar.`);
+            }
+            showList();
+        };
+
+        const handleDeleteContract = (contract: ServiceContract) => {
+            if (invoices.some(inv => inv.contractId === contract.id)) {
+                alert('Este contrato ya tiene facturas generadas y no puede eliminarse. Puede marcarlo como finalizado.');
+                return;
+            }
+            if (window.confirm('¿Está seguro que desea eliminar este contrato?')) {
+                setContracts(prev => prev.filter(c => c.id !== contract.id));
+            }
+        };
+
+        const handleGenerate = () => {
+            const billed = billDueContracts(contracts);
+            alert(billed > 0 ? `Se generaron ${billed} factura(s) en borrador.` : 'No hay períodos pendientes de facturar.');
+        };
+
+        const toggleDraft = (invoiceId: string) => {
+            setSelectedDraftIds(prev => prev.includes(invoiceId) ? prev.filter(id => id !== invoiceId) : [...prev, invoiceId]);
+        };
+
+        const handleIssueSelected = () => {
+            const ids = selectedDraftIds.filter(id => pendingDrafts.some(inv => inv.id === id));
+            if (ids.length === 0) {
+                alert('Seleccione al menos una factura.');
+                return;
+            }
+            if (!window.confirm(`Se emitirán ${ids.length} factura(s) y se les asignará NCF. ¿Desea continuar?`)) return;
+            const result = issueDraftInvoices(ids);
+            alert([`Se emitieron ${result.issued} de ${ids.length} factura(s).`, ...result.errors].join('\n'));
+        };
+
+        if (view === 'form') {
+            return <ContractForm contract={selectedContract} onSave={handleSaveContract} onCancel={showList} />;
+        }
+
+        if (view === 'preview' && selectedContract) {
+            return <ContractDetail contract={selectedContract} onBack={showList} />;
+        }
+
+        return (
+            <div className="space-y-6">
+                <Card>
+                    <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800">Facturas de contratos por emitir</h2>
+                            <p className="text-sm text-gray-500">Borradores generados automáticamente al llegar la fecha de facturación de cada período.</p>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            <Button onClick={handleGenerate} className="bg-gray-700 hover:bg-gray-800">Generar facturas pendientes</Button>
+                            <Button onClick={handleIssueSelected} disabled={pendingDrafts.length === 0} className="bg-green-600 hover:bg-green-700">Emitir seleccionadas</Button>
+                        </div>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                                        <input
+                                            type="checkbox"
+                                            checked={pendingDrafts.length > 0 && pendingDrafts.every(inv => selectedDraftIds.includes(inv.id))}
+                                            onChange={e => setSelectedDraftIds(e.target.checked ? pendingDrafts.map(inv => inv.id) : [])}
+                                            className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                                        />
+                                    </th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Factura</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Contrato</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {pendingDrafts.map(invoice => {
+                                    const client = clients.find(c => c.id === invoice.clientId);
+                                    const contract = contracts.find(c => c.id === invoice.contractId);
+                                    return (
+                                        <tr key={invoice.id} className="border-b hover:bg-gray-50">
+                                            <td className="p-3">
+                                                <input type="checkbox" checked={selectedDraftIds.includes(invoice.id)} onChange={() => toggleDraft(invoice.id)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                            </td>
+                                            <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => openInvoice(invoice.id, 'form')}>{invoice.invoiceNumber}</td>
+                                            <td className="p-3">{client?.name || 'N/A'}</td>
+                                            <td className="p-3">{contract?.contractNumber || '—'}</td>
+                                            <td className="p-3">{formatDate(invoice.issueDate)}</td>
+                                            <td className="p-3">{formatCurrency(calculateInvoiceTotals(invoice).total)}</td>
+                                        </tr>
+                                    );
+                                })}
+                                {pendingDrafts.length === 0 && (
+                                    <tr><td colSpan={6} className="p-6 text-center text-gray-500">No hay facturas de contratos pendientes de emitir.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+
+                <Card>
+                    <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-gray-800">Contratos de Mantenimiento</h2>
+                        <Button onClick={() => setContractsView({ view: 'form', documentId: null })}>{ICONS.plus} Nuevo Contrato</Button>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Contrato</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Frecuencia</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Precio por período</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Próxima facturación</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {contracts.map(contract => {
+                                    const client = clients.find(c => c.id === contract.clientId);
+                                    const nextPeriod = contract.status === 'Finalizado' ? undefined : getUpcomingContractPeriods(contract, 1)[0];
+                                    return (
+                                        <tr key={contract.id} className="border-b hover:bg-gray-50">
+                                            <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setContractsView({ view: 'preview', documentId: contract.id })}>{contract.contractNumber}</td>
+                                            <td className="p-3">{client?.name || 'N/A'}</td>
+                                            <td className="p-3">{contract.frequency}</td>
+                                            <td className="p-3">{formatCurrency(contract.price)}</td>
+                                            <td className="p-3">{nextPeriod !== undefined ? formatDate(getContractPeriodStart(contract, nextPeriod)) : '—'}</td>
+                                            <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${CONTRACT_STATUS_COLORS[contract.status]}`}>{contract.status}</span></td>
+                                            <td className="p-3 flex space-x-2">
+                                                <button onClick={() => setContractsView({ view: 'form', documentId: contract.id })} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                                <button onClick={() => handleDeleteContract(contract)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                                {contracts.length === 0 && (
+                                    <tr><td colSpan={7} className="p-6 text-center text-gray-500">No hay contratos registrados.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            </div>
+        );
+    };
+
+    const ContractForm = ({ contract, onSave, onCancel }: { contract: ServiceContract | null, onSave: (contract: ServiceContract) => void, onCancel: () => void }) => {
+        const [formData, setFormData] = useState<Omit<ServiceContract, 'id' | 'contractNumber' | 'createdAt'>>(
+            contract || {
+                clientId: '',
+                serviceIds: [],
+                frequency: 'Trimestral',
+                startDate: todayIso(),
+                endDate: '',
+                price: 0,
+                status: 'Activo',
+                billedPeriods: 0,
+                notes: '',
+            }
+        );
+        // Once a period has been billed the schedule is fixed; changing it would shift periods already invoiced.
+        const scheduleLocked = formData.billedPeriods > 0;
+        const servicesPrice = services.filter(s => formData.serviceIds.includes(s.id)).reduce((sum, s) => sum + s.totalPrice, 0);
+
+        const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+            const { name, value, type } = e.target;
+            setFormData({ ...formData, [name]: type === 'number' ? parseFloat(value) || 0 : value });
+        };
+
+        const toggleService = (serviceId: string) => {
+            const serviceIds = formData.serviceIds.includes(serviceId) ? formData.serviceIds.filter(id => id !== serviceId) : [...formData.serviceIds, serviceId];
+            setFormData({ ...formData, serviceIds });
+        };
+
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (!clients.some(c => c.id === formData.clientId)) {
+                alert('Por favor, seleccione un cliente.');
+                return;
+            }
+            if (formData.serviceIds.length === 0) {
+                alert('Seleccione al menos un servicio incluido en el contrato.');
+                return;
+            }
+            if (formData.price <= 0) {
+                alert('El precio por período debe ser mayor que cero.');
+                return;
+            }
+            if (formData.endDate && formData.endDate < formData.startDate) {
+                alert('La fecha de fin no puede ser anterior a la fecha de inicio.');
+                return;
+            }
+            onSave({ ...formData, endDate: formData.endDate || undefined, id: contract?.id || '', contractNumber: contract?.contractNumber || '', createdAt: contract?.createdAt || '' });
+        };
+
+        return (
+            <Card>
+                <form onSubmit={handleSubmit}>
+                    <h2 className="text-2xl font-bold text-gray-800 mb-6">{contract ? 'Editar Contrato' : 'Nuevo Contrato'} {contract?.contractNumber}</h2>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                            <Select name="clientId" value={formData.clientId} onChange={handleInputChange} required disabled={scheduleLocked}>
+                                <option value="" disabled>Seleccione un cliente</option>
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Frecuencia de facturación</label>
+                            <Select name="frequency" value={formData.frequency} onChange={handleInputChange} disabled={scheduleLocked}>
+                                {(Object.keys(BILLING_FREQUENCY_MONTHS) as BillingFrequency[]).map(f => <option key={f} value={f}>{f}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Estado</label>
+                            <Select name="status" value={formData.status} onChange={handleInputChange}>
+                                <option value="Activo">Activo</option>
+                                <option value="Pausado">Pausado</option>
+                                <option value="Finalizado">Finalizado</option>
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de inicio</label>
+                            <Input type="date" name="startDate" value={formData.startDate} onChange={handleInputChange} required disabled={scheduleLocked} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de fin (opcional)</label>
+                            <Input type="date" name="endDate" value={formData.endDate || ''} onChange={handleInputChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Precio por período (antes de ITBIS)</label>
+                            <Input type="number" name="price" value={formData.price} onChange={handleInputChange} min="0" step="0.01" required />
+                            {servicesPrice > 0 && servicesPrice !== formData.price && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                    Servicios seleccionados: {formatCurrency(servicesPrice)}
+                                    <button type="button" onClick={() => setFormData({ ...formData, price: servicesPrice })} className="ml-1 font-semibold underline">Usar este precio</button>
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    {scheduleLocked && (
+                        <p className="mb-6 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                            Este contrato ya tiene {formData.billedPeriods} período(s) facturado(s); el cliente, la frecuencia y la fecha de inicio no pueden cambiarse.
+                        </p>
+                    )}
+
+                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Servicios incluidos</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mb-6">
+                        {services.map(service => (
+                            <label key={service.id} className="flex items-center p-3 border rounded-lg hover:bg-gray-50 cursor-pointer">
+                                <input type="checkbox" checked={formData.serviceIds.includes(service.id)} onChange={() => toggleService(service.id)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-3" />
+                                <span className="flex-1">{service.name}</span>
+                                <span className="text-sm text-gray-500">{formatCurrency(service.totalPrice)}</span>
+                            </label>
+                        ))}
+                        {services.length === 0 && <p className="text-gray-500">No hay servicios registrados. Créelos en la sección de Inventario.</p>}
+                    </div>
+
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Notas (se copian a cada factura)</label>
+                        <Textarea name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={3} />
+                    </div>
+
+                    <div className="flex justify-end space-x-4 pt-8">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button type="submit">Guardar Contrato</Button>
+                    </div>
+                </form>
+            </Card>
+        );
+    };
+
+    const ContractDetail = ({ contract, onBack }: { contract: ServiceContract, onBack: () => void }) => {
+        const client = clients.find(c => c.id === contract.clientId);
+        const includedServices = services.filter(s => contract.serviceIds.includes(s.id));
+        const contractInvoices = invoices.filter(inv => inv.contractId === contract.id).sort((a, b) => a.issueDate.localeCompare(b.issueDate));
+        const issuedInvoices = contractInvoices.filter(inv => inv.status !== 'Borrador' && inv.status !== 'Anulada');
+        const totalBilled = issuedInvoices.reduce((sum, inv) => sum + calculateInvoiceTotals(inv).total, 0);
+        const totalDue = issuedInvoices.reduce((sum, inv) => sum + getBalanceDue(inv, payments, creditNotes), 0);
+        const upcoming = contract.status === 'Finalizado' ? [] : getUpcomingContractPeriods(contract, 6);
+
+        return (
+            <div className="space-y-6">
+                <Card>
+                    <div className="flex justify-between items-center mb-6">
+                        <button onClick={onBack} className="text-blue-600 hover:underline">
+                            &larr; Volver a la lista
+                        </button>
+                        <div className="flex gap-2">
+                            <AuditHistoryButton entityType="contract" entityId={contract.id} title={contract.contractNumber} label="Historial" />
+                            <Button onClick={() => setContractsView({ view: 'form', documentId: contract.id })}>{ICONS.edit} Editar</Button>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800">Contrato {contract.contractNumber}</h2>
+                            <p className="text-gray-600">{client?.name || 'N/A'}</p>
+                        </div>
+                        <span className={`px-3 py-1 text-sm font-semibold rounded-full ${CONTRACT_STATUS_COLORS[contract.status]}`}>{contract.status}</span>
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                        <div><p className="text-gray-500">Frecuencia</p><p className="font-semibold">{contract.frequency}</p></div>
+                        <div><p className="text-gray-500">Precio por período</p><p className="font-semibold">{formatCurrency(contract.price)}</p></div>
+                        <div><p className="text-gray-500">Inicio</p><p className="font-semibold">{formatDate(contract.startDate)}</p></div>
+                        <div><p className="text-gray-500">Fin</p><p className="font-semibold">{contract.endDate ? formatDate(contract.endDate) : 'Sin fecha de fin'}</p></div>
+                        <div><p className="text-gray-500">Períodos facturados</p><p className="font-semibold">{contract.billedPeriods}</p></div>
+                        <div><p className="text-gray-500">Total facturado</p><p className="font-semibold">{formatCurrency(totalBilled)}</p></div>
+                        <div><p className="text-gray-500">Pendiente de cobro</p><p className="font-semibold">{formatCurrency(totalDue)}</p></div>
+                    </div>
+                    <div className="mt-4 text-sm">
+                        <p className="text-gray-500">Servicios incluidos</p>
+                        <p className="font-semibold">{includedServices.map(s => s.name).join(', ') || '—'}</p>
+                        {contract.notes && <p className="mt-2 text-gray-600 whitespace-pre-wrap">{contract.notes}</p>}
+                    </div>
+                </Card>
+
+                <Card>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-4">Facturado</h3>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Factura</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Balance</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {contractInvoices.map(invoice => (
+                                    <tr key={invoice.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => openInvoice(invoice.id, invoice.status === 'Borrador' ? 'form' : 'preview')}>{invoice.invoiceNumber}</td>
+                                        <td className="p-3 font-mono text-sm">{invoice.ncf || '—'}</td>
+                                        <td className="p-3">{formatDate(invoice.issueDate)}</td>
+                                        <td className="p-3">{formatCurrency(calculateInvoiceTotals(invoice).total)}</td>
+                                        <td className="p-3">{invoice.status === 'Borrador' ? '—' : formatCurrency(getBalanceDue(invoice, payments, creditNotes))}</td>
+                                        <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${INVOICE_STATUS_COLORS[invoice.status]}`}>{invoice.status}</span></td>
+                                    </tr>
+                                ))}
+                                {contractInvoices.length === 0 && (
+                                    <tr><td colSpan={6} className="p-6 text-center text-gray-500">Aún no se ha facturado ningún período.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+
+                <Card>
+                    <h3 className="text-lg font-semibold text-gray-700 mb-4">Próximos períodos</h3>
+                    {contract.status === 'Pausado' && <p className="mb-4 text-sm text-yellow-800">El contrato está pausado; estos períodos no se facturarán hasta que se reactive.</p>}
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha de facturación</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Período</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total estimado</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {upcoming.map(period => (
+                                    <tr key={period} className="border-b">
+                                        <td className="p-3">{formatDate(getContractPeriodStart(contract, period))}</td>
+                                        <td className="p-3">{formatDate(getContractPeriodStart(contract, period))} - {formatDate(getContractPeriodEnd(contract, period))}</td>
+                                        <td className="p-3">{formatCurrency(calculateInvoiceTotals(buildContractInvoice(contract, period, services, settings.taxSettings)).total)}</td>
+                                    </tr>
+                                ))}
+                                {upcoming.length === 0 && (
+                                    <tr><td colSpan={3} className="p-6 text-center text-gray-500">No quedan períodos por facturar.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            </div>
+        );
+    };
+
+    const CollectionsPage = () => {
+        const [activeItem, setActiveItem] = useState<DunningQueueItem | null>(null);
+        const [historyClientId, setHistoryClientId] = useState('');
+        const queue = useMemo(() => buildDunningQueue(invoices, clients, payments, creditNotes, reminders, settings.dunningSettings.stages), [invoices, clients, payments, creditNotes, reminders, settings.dunningSettings.stages]);
+        const history = useMemo(() => reminders
+            .filter(r => !historyClientId || r.clientId === historyClientId)
+            .sort((a, b) => b.sentAt.localeCompare(a.sentAt)), [reminders, historyClientId]);
+
+        const ReminderForm = ({ item, onCancel }: { item: DunningQueueItem; onCancel: () => void; }) => {
+            const [message, setMessage] = useState(fillReminderTemplate(item.stage.message, item, settings.businessInfo.name));
+            const [channel, setChannel] = useState<ReminderChannel>(item.client.email ? 'Correo' : 'WhatsApp');
+            const subject = `Factura vencida ${item.invoice.ncf || item.invoice.invoiceNumber} - ${settings.businessInfo.name}`;
+
+            const handleLogReminder = () => {
+                setReminders(prev => [...prev, {
+                    id: generateId(),
+                    invoiceId: item.invoice.id,
+                    clientId: item.client.id,
+                    stageId: item.stage.id,
+                    stageName: item.stage.name,
+                    channel,
+                    message,
+                    sentAt: new Date().toISOString(),
+                }]);
+                setActiveItem(null);
             };
-            const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onSave({ ...formData, id: item?.id || '' }); };
 
-            return (
-                 <form onSubmit={handleSubmit} className="space-y-4">
-                    <Input name="name" placeholder="Nombre del artículo" value={formData.name} onChange={handleChange} required />
-                    <Textarea name="description" placeholder="Descripción" value={formData.description} onChange={handleChange} />
-                    <div className="grid grid-cols-2 gap-4">
-                        <Input name="quantity" type="number" placeholder="Cantidad" value={formData.quantity} onChange={handleChange} required />
-                        <Input name="unitPrice" type="number" step="0.01" placeholder="Precio unitario" value={formData.unitPrice} onChange={handleChange} required />
+            return (
+                <div className="space-y-4">
+                    <p className="text-sm text-gray-600">{item.client.name} · {item.invoice.ncf || item.invoice.invoiceNumber} · {item.daysOverdue} días de vencida · Etapa: <strong>{item.stage.name}</strong></p>
+                    <Textarea rows={6} value={message} onChange={e => setMessage(e.target.value)} />
+                    <div className="flex flex-wrap gap-2">
+                        {item.client.email && (
+                            <a href={`mailto:${item.client.email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(message)}`} onClick={() => setChannel('Correo')} className="px-3 py-2 text-sm bg-gray-100 rounded-lg hover:bg-gray-200">Abrir correo</a>
+                        )}
+                        {item.client.phone && (
+                            <a href={`https://wa.me/${toWhatsAppNumber(item.client.phone)}?text=${encodeURIComponent(message)}`} target="_blank" rel="noreferrer" onClick={() => setChannel('WhatsApp')} className="px-3 py-2 text-sm bg-gray-100 rounded-lg hover:bg-gray-200">Abrir WhatsApp</a>
+                        )}
+                        <button type="button" onClick={() => navigator.clipboard.writeText(message)} className="px-3 py-2 text-sm bg-gray-100 rounded-lg hover:bg-gray-200">Copiar mensaje</button>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Enviado por</label>
+                        <Select value={channel} onChange={e => setChannel(e.target.value as ReminderChannel)}>
+                            {REMINDER_CHANNELS.map(c => <option key={c} value={c}>{c}</option>)}
+                        </Select>
+                    </div>
+                    <div className="flex justify-end space-x-4 pt-4">
+                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                        <Button onClick={handleLogReminder}>Marcar como enviado</Button>
+                    </div>
+                </div>
+            );
+        };
+
+        return (
+            <div className="space-y-8">
+                <Card>
+                    <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-gray-800">Cola de Cobros</h2>
+                        <p className="text-sm text-gray-500">{queue.length} recordatorio(s) pendiente(s)</p>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Factura</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Vencimiento</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Días</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Balance</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Etapa</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {queue.map(item => (
+                                    <tr key={item.invoice.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium">{item.client.name}</td>
+                                        <td className="p-3">{item.invoice.ncf || item.invoice.invoiceNumber}</td>
+                                        <td className="p-3">{formatDate(item.invoice.dueDate)}</td>
+                                        <td className="p-3 text-red-600 font-semibold">{item.daysOverdue}</td>
+                                        <td className="p-3 text-right">{formatCurrency(item.balance)}</td>
+                                        <td className="p-3">{item.stage.name}</td>
+                                        <td className="p-3">
+                                            <button onClick={() => setActiveItem(item)} className="text-blue-600 hover:underline text-sm font-semibold">Preparar recordatorio</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {queue.length === 0 && (
+                                    <tr><td colSpan={7} className="p-6 text-center text-gray-500">No hay recordatorios pendientes.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+                <Card>
+                    <div className="flex justify-between items-center mb-6">
+                        <h2 className="text-2xl font-bold text-gray-800">Historial de Recordatorios</h2>
+                        <div className="w-64">
+                            <Select value={historyClientId} onChange={e => setHistoryClientId(e.target.value)}>
+                                <option value="">Todos los clientes</option>
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Factura</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Etapa</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Canal</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Mensaje</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {history.map(reminder => {
+                                    const invoice = invoices.find(inv => inv.id === reminder.invoiceId);
+                                    return (
+                                        <tr key={reminder.id} className="border-b align-top">
+                                            <td className="p-3 whitespace-nowrap">{formatDate(reminder.sentAt)}</td>
+                                            <td className="p-3">{clients.find(c => c.id === reminder.clientId)?.name || 'N/A'}</td>
+                                            <td className="p-3">{invoice ? invoice.ncf || invoice.invoiceNumber : 'N/A'}</td>
+                                            <td className="p-3">{reminder.stageName}</td>
+                                            <td className="p-3">{reminder.channel}</td>
+                                            <td className="p-3 text-gray-600 whitespace-pre-wrap">{reminder.message}</td>
+                                        </tr>
+                                    );
+                                })}
+                                {history.length === 0 && (
+                                    <tr><td colSpan={6} className="p-6 text-center text-gray-500">No se han enviado recordatorios.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+                <Modal isOpen={!!activeItem} onClose={() => setActiveItem(null)} title="Recordatorio de Pago">
+                    {activeItem && <ReminderForm item={activeItem} onCancel={() => setActiveItem(null)} />}
+                </Modal>
+            </div>
+        );
+    };
+
+    const ReportsPage = () => {
+        const [activeTab, setActiveTab] = useState<'profitLoss' | 'margins' | 'aging' | 'statement' | 'dgii607' | 'dgii606' | 'dgii608' | 'audit'>('profitLoss');
+
+        return (
+            <Card>
+                <div className="flex justify-between items-center mb-6">
+                    <h2 className="text-2xl font-bold text-gray-800">Reportes</h2>
+                </div>
+                <div className="border-b mb-6">
+                    <TabButton isActive={activeTab === 'profitLoss'} onClick={() => setActiveTab('profitLoss')}>Estado de Resultados</TabButton>
+                    <TabButton isActive={activeTab === 'margins'} onClick={() => setActiveTab('margins')}>Márgenes</TabButton>
+                    <TabButton isActive={activeTab === 'aging'} onClick={() => setActiveTab('aging')}>Antigüedad de Saldos</TabButton>
+                    <TabButton isActive={activeTab === 'statement'} onClick={() => setActiveTab('statement')}>Estado de Cuenta</TabButton>
+                    <TabButton isActive={activeTab === 'dgii607'} onClick={() => setActiveTab('dgii607')}>DGII 607 (Ventas)</TabButton>
+                    <TabButton isActive={activeTab === 'dgii606'} onClick={() => setActiveTab('dgii606')}>DGII 606 (Compras)</TabButton>
+                    <TabButton isActive={activeTab === 'dgii608'} onClick={() => setActiveTab('dgii608')}>DGII 608 (Anulados)</TabButton>
+                    <TabButton isActive={activeTab === 'audit'} onClick={() => setActiveTab('audit')}>Auditoría</TabButton>
+                </div>
+                <div>
+                    {activeTab === 'profitLoss' && <ProfitLossReport />}
+                    {activeTab === 'margins' && <MarginReport />}
+                    {activeTab === 'aging' && <AgingReport />}
+                    {activeTab === 'statement' && <ClientStatementReport />}
+                    {activeTab === 'dgii607' && <Dgii607Report />}
+                    {activeTab === 'dgii606' && <Dgii606Report />}
+                    {activeTab === 'dgii608' && <Dgii608Report />}
+                    {activeTab === 'audit' && <AuditLogReport />}
+                </div>
+            </Card>
+        );
+    };
+
+    const ProfitLossReport = () => {
+        const today = todayIso();
+        const [range, setRange] = useState({ from: `${today.slice(0, 4)}-01-01`, to: today });
+        const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('previous');
+        const comparisonRange = getComparisonRange(range.from, range.to, comparisonMode);
+        const current = useMemo(() => buildProfitAndLoss(invoices, clients, payments, creditNotes, expenses, range.from, range.to), [invoices, clients, payments, creditNotes, expenses, range]);
+        const previous = useMemo(() => buildProfitAndLoss(invoices, clients, payments, creditNotes, expenses, comparisonRange.from, comparisonRange.to), [invoices, clients, payments, creditNotes, expenses, comparisonRange.from, comparisonRange.to]);
+        const trend = useMemo(() => buildMonthlyTrend(invoices, clients, payments, creditNotes, expenses, range.from, range.to), [invoices, clients, payments, creditNotes, expenses, range]);
+
+        const handleRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+            const { name, value } = e.target;
+            if (value) setRange(prev => ({ ...prev, [name]: value }));
+        };
+
+        const expensesByCategory = EXPENSE_CATEGORIES
+            .map(category => ({ name: category, value: current.expensesByCategory[category] }))
+            .filter(entry => entry.value > 0);
+        const incomeByClientType = CLIENT_TYPES
+            .map(type => ({ name: type, value: current.incomeByClientType[type] }))
+            .filter(entry => entry.value > 0);
+
+        const renderPlRow = (label: string, value: number, previousValue: number, style: 'detail' | 'total') => {
+            const change = value - previousValue;
+            const changePercent = previousValue !== 0 ? (change / Math.abs(previousValue)) * 100 : null;
+            const indent = style === 'detail';
+            return (
+                <tr key={label} className={`border-b ${style === 'total' ? 'font-bold bg-gray-50' : ''}`}>
+                    <td className={`p-3 ${indent ? 'pl-8 text-gray-600' : ''}`}>{label}</td>
+                    <td className="p-3 text-right">{formatCurrency(value)}</td>
+                    <td className="p-3 text-right text-gray-500">{formatCurrency(previousValue)}</td>
+                    <td className={`p-3 text-right ${change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                        {formatCurrency(change)}{changePercent !== null && ` (${changePercent.toFixed(1)}%)`}
+                    </td>
+                </tr>
+            );
+        };
+
+        return (
+            <div>
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+                    <div className="flex flex-wrap gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+                            <Input type="date" name="from" value={range.from} max={range.to} onChange={handleRangeChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+                            <Input type="date" name="to" value={range.to} min={range.from} onChange={handleRangeChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Comparar con</label>
+                            <Select value={comparisonMode} onChange={e => setComparisonMode(e.target.value as ComparisonMode)}>
+                                <option value="previous">Período anterior</option>
+                                <option value="lastYear">Mismo período del año anterior</option>
+                            </Select>
+                        </div>
+                    </div>
+                    <Button onClick={() => generatePdf('profit-loss-report', `Estado-Resultados-${range.from}-${range.to}`)}>{ICONS.print} PDF</Button>
+                </div>
+                <div id="profit-loss-report" className="bg-white p-4 space-y-8">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900">{settings.businessInfo.name}</h3>
+                        <p className="text-sm text-gray-600">Estado de resultados del {formatDate(range.from)} al {formatDate(range.to)}</p>
+                        <p className="text-xs text-gray-400">Ingresos según cobros recibidos menos reembolsos, sin ITBIS.</p>
+                    </div>
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Concepto</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Período actual</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">{formatDate(comparisonRange.from)} - {formatDate(comparisonRange.to)}</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Variación</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {CLIENT_TYPES.map(type => renderPlRow(`Ventas ${type === 'Comercial' ? 'comerciales' : 'residenciales'}`, current.incomeByClientType[type], previous.incomeByClientType[type], 'detail'))}
+                            {(current.refunds > 0 || previous.refunds > 0) && renderPlRow('Reembolsos por notas de crédito', -current.refunds, -previous.refunds, 'detail')}
+                            {renderPlRow('Total ingresos', current.income, previous.income, 'total')}
+                            {EXPENSE_CATEGORIES.map(category => renderPlRow(category, current.expensesByCategory[category], previous.expensesByCategory[category], 'detail'))}
+                            {renderPlRow('Total gastos', current.totalExpenses, previous.totalExpenses, 'total')}
+                            {renderPlRow('Ganancia neta', current.netProfit, previous.netProfit, 'total')}
+                        </tbody>
+                    </table>
+                    <div>
+                        <h4 className="text-lg font-semibold text-gray-800 mb-2">Ingresos vs. Gastos por mes</h4>
+                        <div style={{ width: '100%', height: 300 }}>
+                            <ResponsiveContainer>
+                                <BarChart data={trend}>
+                                    <CartesianGrid strokeDasharray="3 3" />
+                                    <XAxis dataKey="label" />
+                                    <YAxis />
+                                    <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                                    <Legend />
+                                    <Bar dataKey="income" name="Ingresos" fill="#16a34a" isAnimationActive={false} />
+                                    <Bar dataKey="expenses" name="Gastos" fill="#dc2626" isAnimationActive={false} />
+                                </BarChart>
+                            </ResponsiveContainer>
+                        </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        {[{ title: 'Gastos por categoría', data: expensesByCategory }, { title: 'Ingresos por tipo de cliente', data: incomeByClientType }].map(({ title, data }) => (
+                            <div key={title}>
+                                <h4 className="text-lg font-semibold text-gray-800 mb-2">{title}</h4>
+                                {data.length === 0 ? (
+                                    <p className="text-sm text-gray-500">Sin datos en este período.</p>
+                                ) : (
+                                    <div style={{ width: '100%', height: 260 }}>
+                                        <ResponsiveContainer>
+                                            <PieChart>
+                                                <Pie data={data} dataKey="value" nameKey="name" outerRadius={90} label={({ name, percent }: { name: string; percent: number }) => `${name} ${(percent * 100).toFixed(0)}%`} isAnimationActive={false}>
+                                                    {data.map((entry, index) => <Cell key={entry.name} fill={CHART_COLORS[index % CHART_COLORS.length]} />)}
+                                                </Pie>
+                                                <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                                            </PieChart>
+                                        </ResponsiveContainer>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    // The full audit log, filtered by record type and by record number or name; each record opens its own history.
+    const AuditLogReport = () => {
+        const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+        const [search, setSearch] = useState('');
+        const [selected, setSelected] = useState<AuditEntry | null>(null);
+        const term = search.trim().toLowerCase();
+        const entries = getAuditLog()
+            .filter(entry => (!entityType || entry.entityType === entityType) && (!term || entry.entityLabel.toLowerCase().includes(term)))
+            .slice(-500)
+            .reverse();
+
+        return (
+            <div>
+                <div className="flex flex-wrap gap-4 mb-6">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de registro</label>
+                        <Select value={entityType} onChange={e => setEntityType(e.target.value as AuditEntityType | '')}>
+                            <option value="">Todos</option>
+                            {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(type => <option key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</option>)}
+                        </Select>
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Número o nombre</label>
+                        <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Buscar..." />
+                    </div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha y hora</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tipo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Registro</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acción</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Campos</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map(entry => (
+                                <tr key={entry.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString('es-ES')}</td>
+                                    <td className="p-3">{AUDIT_ENTITY_LABELS[entry.entityType]}</td>
+                                    <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setSelected(entry)}>{entry.entityLabel}</td>
+                                    <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${AUDIT_ACTION_COLORS[entry.action]}`}>{AUDIT_ACTION_LABELS[entry.action]}</span></td>
+                                    <td className="p-3 text-gray-600">{entry.action === 'create' || entry.action === 'delete' ? '—' : entry.changes.map(change => getAuditFieldLabel(change.field)).join(', ')}</td>
+                                </tr>
+                            ))}
+                            {entries.length === 0 && (
+                                <tr><td colSpan={5} className="p-6 text-center text-gray-500">No hay cambios registrados.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                <p className="text-sm text-gray-500 mt-2">Se muestran los 500 cambios más recientes que coinciden con el filtro. El registro no se puede editar ni borrar.</p>
+                <Modal isOpen={!!selected} onClose={() => setSelected(null)} title={selected ? `Historial · ${AUDIT_ENTITY_LABELS[selected.entityType]} ${selected.entityLabel}` : ''} size="max-w-4xl">
+                    {selected && <AuditTrail entries={getRecordAuditTrail(selected.entityType, selected.entityId)} />}
+                </Modal>
+            </div>
+        );
+    };
+
+    const MarginReport = () => {
+        const today = todayIso();
+        const [range, setRange] = useState({ from: `${today.slice(0, 4)}-01-01`, to: today });
+        const report = useMemo(() => buildMarginReport(invoices, range.from, range.to), [invoices, range]);
+        const kitRows = services
+            .map(service => {
+                const sold = report.byService.get(service.id);
+                const catalogCost = getServiceKitCost(service, inventory);
+                return {
+                    service,
+                    sold,
+                    catalogMarginPercent: service.totalPrice ? ((service.totalPrice - catalogCost) / service.totalPrice) * 100 : 0,
+                    soldMarginPercent: sold && sold.revenue ? ((sold.revenue - sold.cost) / sold.revenue) * 100 : null,
+                };
+            })
+            .sort((a, b) => (a.soldMarginPercent ?? a.catalogMarginPercent) - (b.soldMarginPercent ?? b.catalogMarginPercent));
+
+        const handleRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+            const { name, value } = e.target;
+            if (value) setRange(prev => ({ ...prev, [name]: value }));
+        };
+
+        return (
+            <div>
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+                    <div className="flex flex-wrap gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+                            <Input type="date" name="from" value={range.from} max={range.to} onChange={handleRangeChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+                            <Input type="date" name="to" value={range.to} min={range.from} onChange={handleRangeChange} />
+                        </div>
+                    </div>
+                    <Button onClick={() => generatePdf('margin-report', `Margenes-${range.from}-${range.to}`)}>{ICONS.print} PDF</Button>
+                </div>
+                <div id="margin-report" className="bg-white p-4 space-y-8">
+                    <div>
+                        <h3 className="text-xl font-bold text-gray-900">{settings.businessInfo.name}</h3>
+                        <p className="text-sm text-gray-600">Margen bruto del {formatDate(range.from)} al {formatDate(range.to)}</p>
+                        <p className="text-xs text-gray-400">Facturas emitidas sin ITBIS. Costo según {COSTING_METHOD_LABELS[settings.inventorySettings.costingMethod].toLowerCase()}, registrado al emitir cada factura.</p>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                        <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Ventas</p><p className="text-2xl font-bold">{formatCurrency(report.totals.revenue)}</p></div>
+                        <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Costo de ventas</p><p className="text-2xl font-bold">{formatCurrency(report.totals.cost)}</p></div>
+                        <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Margen bruto</p><p className={`text-2xl font-bold ${report.totals.margin < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatCurrency(report.totals.margin)}</p></div>
+                        <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Margen %</p><p className="text-2xl font-bold">{report.totals.marginPercent.toFixed(1)}%</p></div>
+                    </div>
+
+                    <div>
+                        <h4 className="text-lg font-semibold text-gray-800 mb-2">Por servicio / kit</h4>
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Servicio</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Vendidos</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Ventas</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Costo</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Margen realizado</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Margen al costo actual</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {kitRows.map(({ service, sold, catalogMarginPercent, soldMarginPercent }) => (
+                                    <tr key={service.id} className="border-b">
+                                        <td className="p-3 font-medium">{service.name}</td>
+                                        <td className="p-3 text-right">{sold?.quantity || 0}</td>
+                                        <td className="p-3 text-right">{formatCurrency(sold?.revenue || 0)}</td>
+                                        <td className="p-3 text-right">{formatCurrency(sold?.cost || 0)}</td>
+                                        <td className={`p-3 text-right ${soldMarginPercent !== null && soldMarginPercent < 0 ? 'text-red-600 font-semibold' : ''}`}>{soldMarginPercent === null ? '—' : `${soldMarginPercent.toFixed(1)}%`}</td>
+                                        <td className={`p-3 text-right ${catalogMarginPercent < 0 ? 'text-red-600 font-semibold' : ''}`}>{catalogMarginPercent.toFixed(1)}%</td>
+                                    </tr>
+                                ))}
+                                {services.length === 0 && (
+                                    <tr><td colSpan={6} className="p-6 text-center text-gray-500">No hay servicios registrados.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div>
+                        <h4 className="text-lg font-semibold text-gray-800 mb-2">Por factura</h4>
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Factura</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Ventas</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Costo</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Margen</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">%</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.perInvoice.map(({ invoice, revenue, cost, margin, marginPercent }) => (
+                                    <tr key={invoice.id} className="border-b">
+                                        <td className="p-3">{invoice.invoiceNumber}</td>
+                                        <td className="p-3">{formatDate(invoice.issueDate)}</td>
+                                        <td className="p-3">{clients.find(c => c.id === invoice.clientId)?.name || 'N/A'}</td>
+                                        <td className="p-3 text-right">{formatCurrency(revenue)}</td>
+                                        <td className="p-3 text-right">{formatCurrency(cost)}</td>
+                                        <td className={`p-3 text-right ${margin < 0 ? 'text-red-600 font-semibold' : ''}`}>{formatCurrency(margin)}</td>
+                                        <td className="p-3 text-right">{marginPercent.toFixed(1)}%</td>
+                                    </tr>
+                                ))}
+                                {report.perInvoice.length === 0 && (
+                                    <tr><td colSpan={7} className="p-6 text-center text-gray-500">No hay facturas emitidas en este período.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            </div>
+        );
+    };
+
+    const ClientStatementReport = () => {
+        const today = todayIso();
+        const [clientId, setClientId] = useState(() => (clients.find(c => c.type === 'Comercial') || clients[0])?.id || '');
+        const [range, setRange] = useState({ from: `${today.slice(0, 7)}-01`, to: today });
+        const client = clients.find(c => c.id === clientId);
+        const statement = useMemo(() => buildClientStatement(clientId, invoices, payments, creditNotes, range.from, range.to), [clientId, invoices, payments, creditNotes, range]);
+        const accentColor = settings.invoiceSettings.accentColor;
+
+        const handleRangeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+            const { name, value } = e.target;
+            if (value) setRange(prev => ({ ...prev, [name]: value }));
+        };
+
+        if (clients.length === 0) {
+            return <p className="text-gray-500">Agregue un cliente para generar su estado de cuenta.</p>;
+        }
+
+        return (
+            <div>
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+                    <div className="flex flex-wrap gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                            <Select value={clientId} onChange={e => setClientId(e.target.value)}>
+                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </Select>
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+                            <Input type="date" name="from" value={range.from} max={range.to} onChange={handleRangeChange} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+                            <Input type="date" name="to" value={range.to} min={range.from} onChange={handleRangeChange} />
+                        </div>
                     </div>
-                    <div className="flex justify-end space-x-4 pt-4">
-                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
-                        <Button type="submit">{item ? 'Guardar Cambios' : 'Añadir Artículo'}</Button>
+                    <Button onClick={() => generatePdf('client-statement', `Estado-Cuenta-${client?.name || ''}-${range.to}`)} disabled={!client}>{ICONS.print} PDF</Button>
+                </div>
+                {client && (
+                    <div id="client-statement" className="bg-white p-8 text-gray-800 text-[10pt] leading-normal font-sans border rounded-lg">
+                        <header className="flex justify-between items-start pb-6 border-b-2" style={{ borderColor: accentColor }}>
+                            <div className="w-2/3">
+                                {settings.businessInfo.logo && <img src={settings.businessInfo.logo} alt="Logo" className="max-w-[150px] max-h-[80px] mb-4 object-contain" />}
+                                <h1 className="text-xl font-bold text-gray-900">{settings.businessInfo.name}</h1>
+                                <p>{settings.businessInfo.address}</p>
+                                <p>{settings.businessInfo.phone}</p>
+                                <p>{settings.businessInfo.email}</p>
+                                <p>RNC: {settings.businessInfo.taxId}</p>
+                            </div>
+                            <div className="w-1/3 text-right">
+                                <h2 className="text-2xl font-bold" style={{ color: accentColor }}>ESTADO DE CUENTA</h2>
+                                <p><strong>Desde:</strong> {formatDate(range.from)}</p>
+                                <p><strong>Hasta:</strong> {formatDate(range.to)}</p>
+                            </div>
+                        </header>
+                        <section className="py-6">
+                            <h3 className="font-semibold mb-2">Cliente:</h3>
+                            <p className="font-bold text-gray-900">{client.name}</p>
+                            {client.taxId && <p>RNC/Cédula: {client.taxId}</p>}
+                            <p>{client.address}</p>
+                            <p>{client.phone}</p>
+                        </section>
+                        <table className="w-full text-left mb-6">
+                            <thead>
+                                <tr className="text-white" style={{ backgroundColor: accentColor }}>
+                                    <th className="p-2 font-semibold rounded-tl-lg">Fecha</th>
+                                    <th className="p-2 font-semibold">Documento</th>
+                                    <th className="p-2 font-semibold">Descripción</th>
+                                    <th className="p-2 font-semibold text-right">Cargos</th>
+                                    <th className="p-2 font-semibold text-right">Abonos</th>
+                                    <th className="p-2 font-semibold text-right rounded-tr-lg">Balance</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <tr className="border-b font-semibold">
+                                    <td className="p-2">{formatDate(range.from)}</td>
+                                    <td className="p-2" colSpan={4}>Balance anterior</td>
+                                    <td className="p-2 text-right">{formatCurrency(statement.openingBalance)}</td>
+                                </tr>
+                                {statement.entries.map(entry => (
+                                    <tr key={entry.id} className="border-b">
+                                        <td className="p-2">{formatDate(entry.date)}</td>
+                                        <td className="p-2">{entry.reference}</td>
+                                        <td className="p-2">{entry.description}</td>
+                                        <td className="p-2 text-right">{entry.charge ? formatCurrency(entry.charge) : ''}</td>
+                                        <td className="p-2 text-right">{entry.credit ? formatCurrency(entry.credit) : ''}</td>
+                                        <td className="p-2 text-right">{formatCurrency(entry.balance)}</td>
+                                    </tr>
+                                ))}
+                                {statement.entries.length === 0 && (
+                                    <tr><td colSpan={6} className="p-4 text-center text-gray-500">Sin movimientos en este período.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                        <div className="flex justify-end">
+                            <div className="w-full max-w-xs space-y-1">
+                                <div className="flex justify-between"><span>Balance anterior:</span><span>{formatCurrency(statement.openingBalance)}</span></div>
+                                <div className="flex justify-between"><span>Cargos:</span><span>{formatCurrency(statement.totalCharges)}</span></div>
+                                <div className="flex justify-between"><span>Abonos:</span><span>-{formatCurrency(statement.totalCredits)}</span></div>
+                                <div className="flex justify-between text-lg font-bold border-t-2 pt-2" style={{ borderColor: accentColor }}>
+                                    <span style={{ color: accentColor }}>Balance al {formatDate(range.to)}:</span>
+                                    <span style={{ color: accentColor }}>{formatCurrency(statement.closingBalance)}</span>
+                                </div>
+                            </div>
+                        </div>
                     </div>
-                </form>
-            );
-        };
+                )}
+            </div>
+        );
+    };
+
+    const AgingReport = () => {
+        const [asOf, setAsOf] = useState(todayIso());
+        const [clientType, setClientType] = useState<'' | Client['type']>('');
+        const [selectedCell, setSelectedCell] = useState<{ row: AgingRow; bucket: AgingBucket | null } | null>(null);
+        const rows = useMemo(() => buildAgingReport(invoices, clients, payments, creditNotes, asOf)
+            .filter(row => !clientType || row.client.type === clientType), [invoices, clients, payments, creditNotes, asOf, clientType]);
+        const totals = rows.reduce((acc, row) => {
+            AGING_BUCKETS.forEach(({ key }) => { acc[key] = roundCurrency(acc[key] + row.totals[key]); });
+            return acc;
+        }, emptyAgingTotals());
+        const grandTotal = rows.reduce((sum, row) => sum + row.total, 0);
+
+        const handleExportCsv = () => downloadCsv([
+            ['Cliente', 'Tipo', 'RNC/Cédula', ...AGING_BUCKETS.map(b => b.label), 'Total'],
+            ...rows.map(row => [row.client.name, row.client.type, row.client.taxId || '', ...AGING_BUCKETS.map(b => row.totals[b.key].toFixed(2)), row.total.toFixed(2)]),
+            ['Total', '', '', ...AGING_BUCKETS.map(b => totals[b.key].toFixed(2)), grandTotal.toFixed(2)],
+        ], `Antiguedad-Saldos-${asOf}`);
+
+        const selectedEntries = selectedCell
+            ? selectedCell.bucket ? selectedCell.row.entries[selectedCell.bucket] : AGING_BUCKETS.flatMap(b => selectedCell.row.entries[b.key])
+            : [];
 
         return (
             <div>
-                <div className="flex justify-end mb-4">
-                    <Button onClick={handleAddItem}>{ICONS.plus} Nuevo Artículo</Button>
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+                    <div className="flex gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Saldos al</label>
+                            <Input type="date" value={asOf} onChange={e => setAsOf(e.target.value)} />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de cliente</label>
+                            <Select value={clientType} onChange={e => setClientType(e.target.value as '' | Client['type'])}>
+                                <option value="">Todos</option>
+                                <option value="Comercial">Comercial</option>
+                                <option value="Residencial">Residencial</option>
+                            </Select>
+                        </div>
+                    </div>
+                    <div className="flex space-x-2">
+                        <Button onClick={() => generatePdf('aging-report', `Antiguedad-Saldos-${asOf}`)} disabled={rows.length === 0}>{ICONS.print} PDF</Button>
+                        <Button onClick={handleExportCsv} disabled={rows.length === 0} className="bg-green-600 hover:bg-green-700">Exportar CSV</Button>
+                    </div>
                 </div>
-                 <div className="overflow-x-auto">
-                    <table className="w-full text-left">
+                <div id="aging-report" className="bg-white p-4">
+                    <div className="mb-4">
+                        <h3 className="text-xl font-bold text-gray-900">{settings.businessInfo.name}</h3>
+                        <p className="text-sm text-gray-600">Antigüedad de cuentas por cobrar al {formatDate(asOf)}{clientType && ` · Clientes ${clientType === 'Comercial' ? 'comerciales' : 'residenciales'}`}</p>
+                    </div>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                    {AGING_BUCKETS.map(b => <th key={b.key} className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">{b.label}</th>)}
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.client.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium">
+                                            {row.client.name}
+                                            {row.client.type === 'Comercial' && <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 text-purple-800">Comercial</span>}
+                                        </td>
+                                        {AGING_BUCKETS.map(b => (
+                                            <td key={b.key} className={`p-3 text-right ${row.totals[b.key] > 0 ? 'cursor-pointer text-blue-600 hover:underline' : 'text-gray-400'} ${b.key === 'over90' && row.totals[b.key] > 0 ? 'font-bold text-red-600' : ''}`}
+                                                onClick={() => row.totals[b.key] > 0 && setSelectedCell({ row, bucket: b.key })}>
+                                                {formatCurrency(row.totals[b.key])}
+                                            </td>
+                                        ))}
+                                        <td className="p-3 text-right font-semibold cursor-pointer hover:underline" onClick={() => setSelectedCell({ row, bucket: null })}>{formatCurrency(row.total)}</td>
+                                    </tr>
+                                ))}
+                                {rows.length === 0 && (
+                                    <tr><td colSpan={AGING_BUCKETS.length + 2} className="p-6 text-center text-gray-500">No hay saldos pendientes a esta fecha.</td></tr>
+                                )}
+                            </tbody>
+                            {rows.length > 0 && (
+                                <tfoot>
+                                    <tr className="bg-gray-100 font-bold">
+                                        <td className="p-3">Total</td>
+                                        {AGING_BUCKETS.map(b => <td key={b.key} className="p-3 text-right">{formatCurrency(totals[b.key])}</td>)}
+                                        <td className="p-3 text-right">{formatCurrency(grandTotal)}</td>
+                                    </tr>
+                                </tfoot>
+                            )}
+                        </table>
+                    </div>
+                </div>
+                <Modal isOpen={!!selectedCell} onClose={() => setSelectedCell(null)} title={selectedCell ? `${selectedCell.row.client.name} · ${selectedCell.bucket ? AGING_BUCKETS.find(b => b.key === selectedCell.bucket)!.label : 'Todas las facturas'}` : ''}>
+                    <table className="w-full text-left text-sm">
                         <thead>
                             <tr className="bg-gray-50 border-b">
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Artículo</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Descripción</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cantidad</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Precio</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Factura</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Emisión</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Vencimiento</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Días</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Balance</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {inventory.map(item => (
-                                <tr key={item.id} className="border-b hover:bg-gray-50">
-                                    <td className="p-3 font-medium">{item.name}</td>
-                                    <td className="p-3 text-sm text-gray-600">{item.description}</td>
-                                    <td className="p-3">{item.quantity}</td>
-                                    <td className="p-3">{formatCurrency(item.unitPrice)}</td>
-                                    <td className="p-3 flex space-x-2">
-                                        <button onClick={() => handleEditItem(item)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
-                                        <button onClick={() => handleDeleteItem(item.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
-                                    </td>
+                            {selectedEntries.map(entry => (
+                                <tr key={entry.invoice.id} className="border-b">
+                                    <td className="p-3 font-medium">{entry.invoice.ncf || entry.invoice.invoiceNumber}</td>
+                                    <td className="p-3">{formatDate(entry.invoice.issueDate)}</td>
+                                    <td className="p-3">{formatDate(entry.invoice.dueDate)}</td>
+                                    <td className="p-3 text-right">{Math.max(0, entry.daysOverdue)}</td>
+                                    <td className="p-3 text-right">{formatCurrency(entry.balance)}</td>
                                 </tr>
                             ))}
                         </tbody>
                     </table>
-                </div>
-                 <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingItem ? 'Editar Artículo' : 'Nuevo Artículo de Inventario'}>
-                    <ItemForm item={editingItem} onSave={handleSaveItem} onCancel={() => setIsModalOpen(false)} />
                 </Modal>
             </div>
         );
     };
 
-    const ServicesManager = () => {
-        const [isModalOpen, setIsModalOpen] = useState(false);
-        const [editingService, setEditingService] = useState<Service | null>(null);
-
-        const handleAddService = () => { setEditingService(null); setIsModalOpen(true); };
-        const handleEditService = (service: Service) => { setEditingService(service); setIsModalOpen(true); };
-
-        const handleDeleteService = (serviceId: string) => {
-            if (window.confirm('¿Está seguro de que desea eliminar este servicio?')) {
-                setServices(prev => prev.filter(s => s.id !== serviceId));
-            }
-        };
-
-        const handleSaveService = (service: Service) => {
-            if (editingService) {
-                setServices(prev => prev.map(s => s.id === service.id ? service : s));
-            } else {
-                setServices(prev => [...prev, { ...service, id: generateId() }]);
-            }
-            setIsModalOpen(false);
-        };
-
-        const ServiceForm = ({ service, onSave, onCancel }: { service: Service | null, onSave: (service: Service) => void, onCancel: () => void }) => {
-            const [formData, setFormData] = useState(service || { name: '', description: '', items: [], laborCost: 0, totalPrice: 0 });
+    const DgiiRejectedTable = ({ rejected }: { rejected: DgiiRowError[] }) => (
+        <div className="mt-6">
+            <h3 className="text-lg font-semibold text-red-700 mb-2">Documentos que no se pueden reportar ({rejected.length})</h3>
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead>
+                        <tr className="bg-red-50 border-b">
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Documento</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Nombre</th>
+                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Problemas</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rejected.map(item => (
+                            <tr key={item.id} className="border-b">
+                                <td className="p-3 font-medium">{item.document}</td>
+                                <td className="p-3">{item.party}</td>
+                                <td className="p-3">
+                                    <ul className="list-disc list-inside">
+                                        {item.errors.map(error => <li key={error}>{error}</li>)}
+                                    </ul>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
 
-            const handleItemQuantityChange = (itemId: string, quantity: number) => {
-                const existingItem = formData.items.find(i => i.inventoryItemId === itemId);
-                let newItems;
-                if (existingItem) {
-                    if (quantity > 0) {
-                        newItems = formData.items.map(i => i.inventoryItemId === itemId ? { ...i, quantity } : i);
-                    } else {
-                        newItems = formData.items.filter(i => i.inventoryItemId !== itemId);
-                    }
-                } else if (quantity > 0) {
-                    newItems = [...formData.items, { inventoryItemId: itemId, quantity }];
-                } else {
-                    newItems = formData.items;
-                }
-                setFormData({ ...formData, items: newItems });
-            };
-            
-            const handleSubmit = (e: React.FormEvent) => {
-                e.preventDefault();
-                const materialsCost = formData.items.reduce<number>((total, serviceItem) => {
-                    const inventoryItem = inventory.find(i => i.id === serviceItem.inventoryItemId);
-                    return total + (inventoryItem ? inventoryItem.unitPrice * serviceItem.quantity : 0);
-                }, 0);
-                const totalPrice = materialsCost + formData.laborCost;
-                onSave({ ...formData, id: service?.id || '', totalPrice });
-            };
-            
-            const materialsCost = useMemo(() => formData.items.reduce<number>((total, serviceItem) => {
-                const inventoryItem = inventory.find(i => i.id === serviceItem.inventoryItemId);
-                return total + (inventoryItem ? inventoryItem.unitPrice * serviceItem.quantity : 0);
-            }, 0), [formData.items, inventory]);
+    const Dgii607Report = () => {
+        const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+        const { rows, rejected } = useMemo(() => build607(invoices, clients, payments, creditNotes, period), [invoices, clients, payments, creditNotes, period]);
+        const businessTaxIdValid = isValidTaxId(settings.businessInfo.taxId);
+        const totalAmount = rows.reduce((sum, row) => sum + row.invoicedAmount, 0);
+        const totalItbis = rows.reduce((sum, row) => sum + row.itbis, 0);
+        const fileName = `DGII_F_607_${cleanTaxId(settings.businessInfo.taxId)}_${toDgiiPeriod(period)}`;
 
+        const handleExportTxt = () => downloadFile(to607Txt(rows, settings.businessInfo.taxId, period), `${fileName}.txt`, 'text/plain;charset=utf-8');
+        const handleExportCsv = () => downloadCsv([DGII_607_COLUMNS, ...rows.map(get607Cells)], fileName);
 
-            return (
-                <form onSubmit={handleSubmit} className="space-y-6">
-                    <Input name="name" placeholder="Nombre del Servicio (ej. Mantenimiento Preventivo)" value={formData.name} onChange={e => setFormData({...formData, name: e.target.value})} required />
-                    <Textarea name="description" placeholder="Descripción del servicio" value={formData.description} onChange={e => setFormData({...formData, description: e.target.value})} />
-                    
+        return (
+            <div>
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
                     <div>
-                        <h3 className="font-semibold text-gray-700 mb-2">Materiales a utilizar</h3>
-                        <div className="max-h-60 overflow-y-auto border rounded-lg p-2 space-y-2">
-                            {inventory.map(item => (
-                                <div key={item.id} className="grid grid-cols-3 gap-4 items-center">
-                                    <label htmlFor={`item-${item.id}`} className="col-span-2">{item.name} ({formatCurrency(item.unitPrice)})</label>
-                                    <Input 
-                                        type="number" 
-                                        id={`item-${item.id}`} 
-                                        min="0"
-                                        placeholder="Cant."
-                                        value={formData.items.find(i => i.inventoryItemId === item.id)?.quantity || ''}
-                                        onChange={e => handleItemQuantityChange(item.id, parseInt(e.target.value, 10) || 0)}
-                                    />
-                                </div>
-                            ))}
-                        </div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Período</label>
+                        <Input type="month" value={period} onChange={e => setPeriod(e.target.value)} />
                     </div>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                       <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Costo de Mano de Obra</label>
-                            <Input type="number" step="0.01" name="laborCost" placeholder="Mano de Obra" value={formData.laborCost} onChange={e => setFormData({...formData, laborCost: parseFloat(e.target.value) || 0})} required />
-                       </div>
-                       <div className="text-right pt-6">
-                            <p className="text-sm text-gray-600">Costo Materiales: {formatCurrency(materialsCost)}</p>
-                            <p className="text-lg font-bold">Precio Total Servicio: {formatCurrency(materialsCost + formData.laborCost)}</p>
-                       </div>
+                    <div className="flex space-x-2">
+                        <Button onClick={handleExportTxt} disabled={!businessTaxIdValid || rows.length === 0}>Exportar TXT</Button>
+                        <Button onClick={handleExportCsv} disabled={rows.length === 0} className="bg-green-600 hover:bg-green-700">Exportar Excel (CSV)</Button>
                     </div>
+                </div>
+                {!businessTaxIdValid && (
+                    <p className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">Configure un RNC válido del negocio en Configuración para exportar el TXT.</p>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Registros</p><p className="text-2xl font-bold">{rows.length}</p></div>
+                    <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Monto Facturado</p><p className="text-2xl font-bold">{formatCurrency(totalAmount)}</p></div>
+                    <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">ITBIS Facturado</p><p className="text-2xl font-bold">{formatCurrency(totalItbis)}</p></div>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">RNC/Cédula</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF Modificado</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha Pago</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Monto</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">ITBIS</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map(row => (
+                                <tr key={row.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-mono">{row.taxId || '—'}</td>
+                                    <td className="p-3">{row.clientName}</td>
+                                    <td className="p-3 font-mono">{row.ncf}</td>
+                                    <td className="p-3 font-mono">{row.modifiedNcf || '—'}</td>
+                                    <td className="p-3">{formatDate(row.issueDate)}</td>
+                                    <td className="p-3">{row.paymentDate ? formatDate(row.paymentDate) : '—'}</td>
+                                    <td className="p-3 text-right">{formatCurrency(row.invoicedAmount)}</td>
+                                    <td className="p-3 text-right">{formatCurrency(row.itbis)}</td>
+                                    <td className="p-3 text-right">{formatCurrency(row.invoicedAmount + row.itbis)}</td>
+                                </tr>
+                            ))}
+                            {rows.length === 0 && (
+                                <tr><td colSpan={9} className="p-6 text-center text-gray-500">No hay comprobantes reportables en este período.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {rejected.length > 0 && <DgiiRejectedTable rejected={rejected} />}
+            </div>
+        );
+    };
+    
+    const Dgii608Report = () => {
+        const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+        const rows = useMemo(() => build608(invoices, period), [invoices, period]);
+        const businessTaxIdValid = isValidTaxId(settings.businessInfo.taxId);
+        const fileName = `DGII_F_608_${cleanTaxId(settings.businessInfo.taxId)}_${toDgiiPeriod(period)}`;
 
-                    <div className="flex justify-end space-x-4 pt-4">
-                        <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
-                        <Button type="submit">{service ? 'Guardar Cambios' : 'Crear Servicio'}</Button>
-                    </div>
-                </form>
-            );
-        };
+        const handleExportTxt = () => downloadFile(to608Txt(rows, settings.businessInfo.taxId, period), `${fileName}.txt`, 'text/plain;charset=utf-8');
+        const handleExportCsv = () => downloadCsv([DGII_608_COLUMNS, ...rows.map(get608Cells)], fileName);
 
         return (
             <div>
-                <div className="flex justify-end mb-4">
-                    <Button onClick={handleAddService}>{ICONS.plus} Nuevo Servicio</Button>
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Período de anulación</label>
+                        <Input type="month" value={period} onChange={e => setPeriod(e.target.value)} />
+                    </div>
+                    <div className="flex space-x-2">
+                        <Button onClick={handleExportTxt} disabled={!businessTaxIdValid || rows.length === 0}>Exportar TXT</Button>
+                        <Button onClick={handleExportCsv} disabled={rows.length === 0} className="bg-green-600 hover:bg-green-700">Exportar Excel (CSV)</Button>
+                    </div>
                 </div>
-                 <div className="overflow-x-auto">
-                    <table className="w-full text-left">
+                {!businessTaxIdValid && (
+                    <p className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">Configure un RNC válido del negocio en Configuración para exportar el TXT.</p>
+                )}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left text-sm">
                         <thead>
                             <tr className="bg-gray-50 border-b">
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Servicio</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Precio Total</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha Comprobante</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha Anulación</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tipo de Anulación</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Motivo</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {services.map(s => (
-                                <tr key={s.id} className="border-b hover:bg-gray-50">
-                                    <td className="p-3 font-medium">{s.name}</td>
-                                    <td className="p-3">{formatCurrency(s.totalPrice)}</td>
-                                    <td className="p-3 flex space-x-2">
-                                        <button onClick={() => handleEditService(s)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
-                                        <button onClick={() => handleDeleteService(s.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
-                                    </td>
+                            {rows.map(row => (
+                                <tr key={row.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-mono">{row.ncf}</td>
+                                    <td className="p-3">{formatDate(row.issueDate)}</td>
+                                    <td className="p-3">{formatDate(row.voidedAt)}</td>
+                                    <td className="p-3">{row.reasonCode} - {VOID_REASONS[row.reasonCode]}</td>
+                                    <td className="p-3">{row.reason || '—'}</td>
                                 </tr>
                             ))}
+                            {rows.length === 0 && (
+                                <tr><td colSpan={5} className="p-6 text-center text-gray-500">No hay comprobantes anulados en este período.</td></tr>
+                            )}
                         </tbody>
                     </table>
                 </div>
-                <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingService ? 'Editar Servicio' : 'Nuevo Servicio / Kit'} size="max-w-4xl">
-                    <ServiceForm service={editingService} onSave={handleSaveService} onCancel={() => setIsModalOpen(false)} />
-                </Modal>
             </div>
         );
     };
-
-    const ExpensesPage = () => {
-        const [isModalOpen, setIsModalOpen] = useState(false);
-        const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
-
-        const handleAddExpense = () => {
-            setEditingExpense(null);
-            setIsModalOpen(true);
-        };
-
-        const handleEditExpense = (expense: Expense) => {
-            setEditingExpense(expense);
-            setIsModalOpen(true);
-        };
-        
-        const handleDeleteExpense = (expenseId: string) => {
-            if(window.confirm('¿Está seguro que desea eliminar este gasto?')){
-                setExpenses(prev => prev.filter(e => e.id !== expenseId));
-            }
-        };
-
-        const handleSaveExpense = (expense: Expense) => {
-            if (editingExpense) {
-                setExpenses(prev => prev.map(e => e.id === expense.id ? expense : e));
-            } else {
-                setExpenses(prev => [...prev, { ...expense, id: generateId() }]);
-            }
-            setIsModalOpen(false);
-        };
-        
+
+    const Dgii606Report = () => {
+        const [period, setPeriod] = useState(new Date().toISOString().slice(0, 7));
+        const { rows, rejected } = useMemo(() => build606(expenses, period), [expenses, period]);
+        const businessTaxIdValid = isValidTaxId(settings.businessInfo.taxId);
+        const totalAmount = rows.reduce((sum, row) => sum + row.servicesAmount + row.goodsAmount, 0);
+        const totalItbis = rows.reduce((sum, row) => sum + row.itbis, 0);
+        const fileName = `DGII_F_606_${cleanTaxId(settings.businessInfo.taxId)}_${toDgiiPeriod(period)}`;
+
+        const handleExportTxt = () => downloadFile(to606Txt(rows, settings.businessInfo.taxId, period), `${fileName}.txt`, 'text/plain;charset=utf-8');
+        const handleExportCsv = () => downloadCsv([DGII_606_COLUMNS, ...rows.map(get606Cells)], fileName);
+
         return (
-            <Card>
-                <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-2xl font-bold text-gray-800">Registro de Gastos</h2>
-                    <Button onClick={handleAddExpense}>{ICONS.plus} Nuevo Gasto</Button>
+            <div>
+                <div className="flex flex-wrap justify-between items-end gap-4 mb-6">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Período</label>
+                        <Input type="month" value={period} onChange={e => setPeriod(e.target.value)} />
+                    </div>
+                    <div className="flex space-x-2">
+                        <Button onClick={handleExportTxt} disabled={!businessTaxIdValid || rows.length === 0}>Exportar TXT</Button>
+                        <Button onClick={handleExportCsv} disabled={rows.length === 0} className="bg-green-600 hover:bg-green-700">Exportar Excel (CSV)</Button>
+                    </div>
+                </div>
+                {!businessTaxIdValid && (
+                    <p className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">Configure un RNC válido del negocio en Configuración para exportar el TXT.</p>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Registros</p><p className="text-2xl font-bold">{rows.length}</p></div>
+                    <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">Monto Facturado</p><p className="text-2xl font-bold">{formatCurrency(totalAmount)}</p></div>
+                    <div className="p-4 bg-gray-50 rounded-lg"><p className="text-sm text-gray-500">ITBIS por Adelantar</p><p className="text-2xl font-bold">{formatCurrency(totalItbis)}</p></div>
                 </div>
                 <div className="overflow-x-auto">
-                    <table className="w-full text-left">
+                    <table className="w-full text-left text-sm">
                         <thead>
                             <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">RNC/Cédula</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Proveedor</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tipo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
                                 <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Descripción</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Categoría</th>
                                 <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Monto</th>
-                                <th className="p-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">ITBIS</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Retenciones</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {expenses.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()).map(expense => (
-                                <tr key={expense.id} className="border-b hover:bg-gray-50">
-                                    <td className="p-3">{formatDate(expense.date)}</td>
-                                    <td className="p-3 font-medium">{expense.description}</td>
-                                    <td className="p-3">{expense.category}</td>
-                                    <td className="p-3 text-right">{formatCurrency(expense.amount)}</td>
-                                    <td className="p-3 flex justify-center space-x-2">
-                                        <button onClick={() => handleEditExpense(expense)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
-                                        <button onClick={() => handleDeleteExpense(expense.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
-                                    </td>
+                            {rows.map(row => (
+                                <tr key={row.expense.id} className="border-b hover:bg-gray-50">
+                                    <td className="p-3 font-mono">{row.taxId}</td>
+                                    <td className="p-3">{row.expense.supplierName || '—'}</td>
+                                    <td className="p-3">{row.expenseType}</td>
+                                    <td className="p-3 font-mono">{row.ncf}</td>
+                                    <td className="p-3">{formatDate(row.issueDate)}</td>
+                                    <td className="p-3 text-right">{formatCurrency(row.servicesAmount + row.goodsAmount)}</td>
+                                    <td className="p-3 text-right">{formatCurrency(row.itbis)}</td>
+                                    <td className="p-3 text-right">{formatCurrency(row.itbisWithheld + row.isrWithheld)}</td>
                                 </tr>
                             ))}
+                            {rows.length === 0 && (
+                                <tr><td colSpan={8} className="p-6 text-center text-gray-500">No hay compras reportables en este período.</td></tr>
+                            )}
                         </tbody>
                     </table>
                 </div>
-                 <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingExpense ? 'Editar Gasto' : 'Nuevo Gasto'}>
-                    <ExpenseForm expense={editingExpense} onSave={handleSaveExpense} onCancel={() => setIsModalOpen(false)} />
-                </Modal>
-            </Card>
+                {rejected.length > 0 && <DgiiRejectedTable rejected={rejected} />}
+            </div>
         );
     };
 
-    const InvoicesPage = () => {
-        const [view, setView] = useState<'list' | 'form' | 'preview'>('list');
-        const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
+    const EcfPanel = ({ invoice, client }: { invoice: Invoice, client: Client }) => {
+        const [p12File, setP12File] = useState<File | null>(null);
+        const [password, setPassword] = useState('');
+        const [isSigning, setIsSigning] = useState(false);
+        // Until it is signed the invoice only previews the next e-NCF; the sequence advances when the signature is saved.
+        const numbering = getInvoiceEcfNumber(invoice, ecfSequences, new Set(invoices.map(inv => inv.ecf?.eNcf).filter((eNcf): eNcf is string => !!eNcf)));
+        const errors = [...validateEcfInvoice(invoice, client, settings), ...('error' in numbering ? [numbering.error] : [])];
+        const eNcf = 'error' in numbering ? '' : numbering.eNcf;
+        const fileName = `${cleanTaxId(settings.businessInfo.taxId)}${eNcf}`;
 
-        const handleNewInvoice = () => {
-            setSelectedInvoice(null);
-            setView('form');
+        const handleDownloadUnsigned = async () => {
+            if ('error' in numbering) return;
+            const xml = buildEcfXml(invoice, client, settings, numbering, new Date());
+            const schemaErrors = await validateEcfXml(xml);
+            if (schemaErrors.length > 0) {
+                alert(`El XML no cumple el esquema e-CF de la DGII:\n${schemaErrors.join('\n')}`);
+                return;
+            }
+            downloadFile(`<?xml version="1.0" encoding="utf-8"?>${xml}`, `${fileName}-sin-firmar.xml`, 'application/xml');
         };
 
-        const handleEditInvoice = (invoice: Invoice) => {
-            setSelectedInvoice(invoice);
-            setView('form');
-        };
-        
-        const handleDeleteInvoice = (invoiceId: string) => {
-            if(window.confirm('¿Está seguro que desea eliminar esta factura?')) {
-                setInvoices(prev => prev.filter(inv => inv.id !== invoiceId));
+        const handleSign = async () => {
+            if ('error' in numbering) return;
+            if (!p12File) {
+                alert('Seleccione el certificado digital (.p12).');
+                return;
+            }
+            if (invoice.ecf && !window.confirm('Este e-CF ya fue firmado. Firmarlo de nuevo generará un nuevo código de seguridad. ¿Desea continuar?')) {
+                return;
+            }
+            setIsSigning(true);
+            try {
+                const buffer = await p12File.arrayBuffer();
+                const credentials = loadP12Credentials(forge.util.binary.raw.encode(new Uint8Array(buffer)), password);
+                const ecf = await createEcfSignature(invoice, client, settings, numbering, credentials);
+                downloadFile(ecf.signedXml, `${fileName}.xml`, 'application/xml');
+                if (numbering.sequences !== ecfSequences) setEcfSequences(numbering.sequences);
+                setInvoices(prev => prev.map(inv => inv.id === invoice.id ? { ...inv, ecf } : inv));
+            } catch (err) {
+                console.error('Error al firmar e-CF:', err);
+                alert(`No se pudo firmar el e-CF. Verifique el certificado y la contraseña.\n${err instanceof Error ? err.message : ''}`);
+                setIsSigning(false);
             }
         };
 
-        const handleSaveInvoice = (invoice: Invoice) => {
-            if (selectedInvoice) {
-                setInvoices(prev => prev.map(i => i.id === invoice.id ? invoice : i));
-            } else {
-                const newInvoiceNumber = `INV-${(invoices.length + 1).toString().padStart(4, '0')}`;
-                setInvoices(prev => [...prev, { ...invoice, id: generateId(), invoiceNumber: newInvoiceNumber }]);
+        return (
+            <div className="space-y-4">
+                <p className="text-sm text-gray-600">Ambiente: <strong>{ECF_ENVIRONMENT_LABELS[settings.ecfSettings.environment]}</strong> · e-NCF: <span className="font-mono">{eNcf || '—'}</span>{eNcf && !invoice.ecf && ' (se asigna al firmar)'}</p>
+                {errors.length > 0 ? (
+                    <ul className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 list-disc list-inside">
+                        {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                ) : (
+                    <>
+                        {invoice.ecf && (
+                            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+                                Firmado el {invoice.ecf.signedAt} · Código de seguridad: <strong className="font-mono">{invoice.ecf.securityCode}</strong>
+                                <button type="button" onClick={() => downloadFile(invoice.ecf!.signedXml, `${fileName}.xml`, 'application/xml')} className="ml-2 font-semibold underline">Descargar XML firmado</button>
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Certificado digital (.p12)</label>
+                            <Input type="file" accept=".p12,.pfx" onChange={e => setP12File(e.target.files?.[0] || null)} />
+                        </div>
+                        <Input type="password" placeholder="Contraseña del certificado" value={password} onChange={e => setPassword(e.target.value)} />
+                        <p className="text-xs text-gray-500">El certificado solo se usa en este equipo para firmar y no se guarda.</p>
+                        <div className="flex justify-end space-x-4 pt-2">
+                            <button type="button" onClick={handleDownloadUnsigned} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">XML sin firmar</button>
+                            <Button onClick={handleSign} disabled={isSigning}>{isSigning ? 'Firmando...' : 'Firmar y descargar'}</Button>
+                        </div>
+                    </>
+                )}
+            </div>
+        );
+    };
+
+    // Printable layout shared by invoices and credit notes.
+    const FiscalDocumentPrint = ({ elementId, title, number, details, client, items, taxRates, totals, summary, notes, footerTitle, footerMessage, ecf }: {
+        elementId: string;
+        title: string;
+        number: string;
+        details: { label: string; value: string }[];
+        client: Client;
+        items: InvoiceItem[];
+        taxRates: TaxSettings;
+        totals: InvoiceTotals;
+        summary?: React.ReactNode;
+        notes?: string;
+        footerTitle: string;
+        footerMessage: string;
+        ecf?: EcfSignature;
+    }) => (
+        <div id={elementId} className="bg-white p-8 md:p-12 text-gray-800 text-[10pt] leading-normal font-sans">
+            <style>{`
+                .invoice-table th, .invoice-table td { padding: 8px; }
+                body.pdf-export-active #${elementId} { border: none !important; }
+            `}</style>
+            <header className="flex justify-between items-start pb-8 border-b-2" style={{ borderColor: settings.invoiceSettings.accentColor }}>
+                <div className="w-2/3">
+                    {settings.businessInfo.logo && <img src={settings.businessInfo.logo} alt="Logo" className="max-w-[150px] max-h-[80px] mb-4 object-contain" />}
+                    <h1 className="text-xl font-bold text-gray-900">{settings.businessInfo.name}</h1>
+                    <p>{settings.businessInfo.address}</p>
+                    <p>{settings.businessInfo.phone}</p>
+                    <p>{settings.businessInfo.email}</p>
+                    <p>RNC: {settings.businessInfo.taxId}</p>
+                </div>
+                <div className="w-1/3 text-right">
+                    <h2 className="text-3xl font-bold" style={{ color: settings.invoiceSettings.accentColor }}>{title}</h2>
+                    <p className="font-semibold">{number}</p>
+                    {details.map(detail => <p key={detail.label}><strong>{detail.label}:</strong> {detail.value}</p>)}
+                </div>
+            </header>
+            <section className="py-8">
+                <h3 className="font-semibold mb-2">Facturar a:</h3>
+                <p className="font-bold text-gray-900">{client.name}</p>
+                {client.taxId && <p>RNC/Cédula: {client.taxId}</p>}
+                <p>{client.address}</p>
+                <p>{client.phone}</p>
+                <p>{client.email}</p>
+            </section>
+            <section>
+                <table className="w-full invoice-table text-left mb-8">
+                    <thead>
+                        <tr className="text-white" style={{ backgroundColor: settings.invoiceSettings.accentColor }}>
+                            <th className="font-semibold rounded-tl-lg">Descripción</th>
+                            <th className="font-semibold text-center">Cantidad</th>
+                            <th className="font-semibold text-right">Precio Unitario</th>
+                            <th className="font-semibold text-right">ITBIS</th>
+                            <th className="font-semibold text-right rounded-tr-lg">Total</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.map((item) => (
+                            <tr key={item.id} className="border-b">
+                                <td>{item.description}</td>
+                                <td className="text-center">{item.quantity}</td>
+                                <td className="text-right">{formatCurrency(item.unitPrice)}</td>
+                                <td className="text-right">{item.taxType === 'Exento' ? 'E' : formatCurrency(getItemTax(item, taxRates))}</td>
+                                <td className="text-right">{formatCurrency(item.quantity * item.unitPrice)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </section>
+            <section className="flex justify-end mb-8">
+                <div className="w-full max-w-xs space-y-2">
+                    <div className="flex justify-between">
+                        <span className="font-semibold">Subtotal:</span>
+                        <span>{formatCurrency(totals.subtotal)}</span>
+                    </div>
+                    {totals.exemptAmount > 0 && (
+                        <div className="flex justify-between">
+                            <span className="font-semibold">Exento:</span>
+                            <span>{formatCurrency(totals.exemptAmount)}</span>
+                        </div>
+                    )}
+                    <div className="flex justify-between">
+                        <span className="font-semibold">ITBIS ({taxRates.itbisRate}%):</span>
+                        <span>{formatCurrency(totals.itbis)}</span>
+                    </div>
+                    {totals.reducedTaxedAmount > 0 && (
+                        <div className="flex justify-between">
+                            <span className="font-semibold">ITBIS ({taxRates.reducedItbisRate}%):</span>
+                            <span>{formatCurrency(totals.reducedItbis)}</span>
+                        </div>
+                    )}
+                    <div className="flex justify-between text-xl font-bold border-t-2 pt-2" style={{ borderColor: settings.invoiceSettings.accentColor }}>
+                        <span style={{ color: settings.invoiceSettings.accentColor }}>Total:</span>
+                        <span style={{ color: settings.invoiceSettings.accentColor }}>{formatCurrency(totals.total)}</span>
+                    </div>
+                    {summary}
+                </div>
+            </section>
+            <footer className="pt-8 border-t">
+                {notes && (
+                     <div className="mb-8">
+                        <h4 className="font-semibold mb-2">Notas:</h4>
+                        <p className="whitespace-pre-wrap text-xs">{notes}</p>
+                    </div>
+                )}
+                <div className="flex justify-between items-end">
+                    <div>
+                        <h4 className="font-semibold mb-2">{footerTitle}</h4>
+                        <p className="text-xs">{footerMessage}</p>
+                    </div>
+                    {ecf && (
+                        <div className="text-center text-xs">
+                            <QrCodeImage value={ecf.qrUrl} />
+                            <p className="mt-1">Código de seguridad: <strong>{ecf.securityCode}</strong></p>
+                            <p>Fecha de firma: {ecf.signedAt}</p>
+                        </div>
+                    )}
+                     {settings.businessInfo.signature && (
+                        <div className="text-center">
+                            <img src={settings.businessInfo.signature} alt="Firma" className="max-w-[150px] h-auto mx-auto" />
+                            <p className="border-t pt-1 mt-1 text-xs">Firma Autorizada</p>
+                        </div>
+                     )}
+                </div>
+            </footer>
+        </div>
+    );
+
+    const InvoicePreview = ({ invoice, client, settings, onBack, isPreview=false }: { invoice: Invoice, client: Client, settings: AppSettings, onBack?: () => void, isPreview?: boolean }) => {
+        const [isEcfModalOpen, setIsEcfModalOpen] = useState(false);
+        const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+        const [isCreditNoteModalOpen, setIsCreditNoteModalOpen] = useState(false);
+        const totals = calculateInvoiceTotals(invoice);
+        const taxRates = invoice.taxRates || NO_TAX_RATES;
+        const invoicePayments = getInvoicePayments(invoice.id, payments);
+        const amountPaid = getAmountPaid(invoice.id, payments);
+        const invoiceCreditNotes = getInvoiceCreditNotes(invoice.id, creditNotes);
+        const amountCredited = getAmountCredited(invoice.id, creditNotes);
+        const balance = getBalanceDue(invoice, payments, creditNotes);
+        const quote = quotes.find(q => q.id === invoice.quoteId);
+        const details = [
+            ...(quote ? [{ label: 'Cotización', value: quote.quoteNumber }] : []),
+            ...(invoice.ecf ? [{ label: 'e-NCF', value: invoice.ecf.eNcf }] : invoice.ncf ? [{ label: 'NCF', value: invoice.ncf }] : []),
+            ...(invoice.ncfExpirationDate ? [{ label: 'Válido hasta', value: formatDate(invoice.ncfExpirationDate) }] : []),
+            { label: 'Fecha Emisión', value: formatDate(invoice.issueDate) },
+            { label: 'Fecha Vencimiento', value: formatDate(invoice.dueDate) },
+        ];
+
+        const handleDeletePayment = (payment: Payment) => {
+            if (window.confirm('¿Está seguro que desea eliminar este pago?')) {
+                deletePayment(payment);
             }
-            setView('list');
         };
-        
-        const handlePreviewInvoice = (invoice: Invoice) => {
-            setSelectedInvoice(invoice);
-            setView('preview');
+
+        return (
+            <Card>
+                {!isPreview && (
+                    <div className="flex justify-between items-center mb-6 print:hidden">
+                        <button onClick={onBack} className="text-blue-600 hover:underline">
+                            &larr; Volver a la lista
+                        </button>
+                        <div className="flex space-x-2">
+                            <AuditHistoryButton entityType="invoice" entityId={invoice.id} title={invoice.invoiceNumber} label="Historial" />
+                            {invoice.status !== 'Borrador' && invoice.status !== 'Anulada' && amountCredited < totals.total && (
+                                <Button onClick={() => setIsCreditNoteModalOpen(true)} className="bg-orange-500 hover:bg-orange-600">
+                                    Nota de Crédito
+                                </Button>
+                            )}
+                            {invoice.status !== 'Borrador' && invoice.status !== 'Anulada' && (
+                                <Button onClick={() => setIsEcfModalOpen(true)} className="bg-gray-700 hover:bg-gray-800">
+                                    Factura Electrónica (e-CF)
+                                </Button>
+                            )}
+                            <Button onClick={() => generatePdf('invoice-preview', `Factura-${invoice.invoiceNumber}`)}>
+                                {ICONS.print} Imprimir / Guardar PDF
+                            </Button>
+                        </div>
+                    </div>
+                )}
+                <Modal isOpen={isEcfModalOpen} onClose={() => setIsEcfModalOpen(false)} title="Factura Electrónica (e-CF)">
+                    <EcfPanel invoice={invoice} client={client} />
+                </Modal>
+                {!isPreview && isInvoiceLocked(invoice) && invoice.status !== 'Anulada' && (
+                    <p className="mb-6 p-3 bg-gray-50 border rounded-lg text-sm text-gray-600 print:hidden">
+                        Esta factura ya fue emitida y no se puede modificar. Para corregirla emita una nota de crédito o anúlela.
+                    </p>
+                )}
+                {invoice.status === 'Anulada' && (
+                    <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-800 print:hidden">
+                        <p className="font-semibold">Factura anulada el {formatDate(invoice.voidedAt || invoice.issueDate)}</p>
+                        <p className="text-sm">{invoice.voidReasonCode && `${invoice.voidReasonCode} - ${VOID_REASONS[invoice.voidReasonCode]}. `}{invoice.voidReason}</p>
+                    </div>
+                )}
+                <FiscalDocumentPrint
+                    elementId="invoice-preview"
+                    title={invoice.ncfType ? NCF_DOCUMENT_TITLES[invoice.ncfType] : 'FACTURA'}
+                    number={invoice.invoiceNumber}
+                    details={details}
+                    client={client}
+                    items={invoice.items}
+                    taxRates={taxRates}
+                    totals={totals}
+                    summary={(amountPaid > 0 || amountCredited > 0) && (
+                        <>
+                            {amountPaid > 0 && (
+                                <div className="flex justify-between">
+                                    <span className="font-semibold">Pagado:</span>
+                                    <span>{formatCurrency(amountPaid)}</span>
+                                </div>
+                            )}
+                            {amountCredited > 0 && (
+                                <div className="flex justify-between">
+                                    <span className="font-semibold">Notas de crédito:</span>
+                                    <span>-{formatCurrency(amountCredited)}</span>
+                                </div>
+                            )}
+                            <div className="flex justify-between font-bold">
+                                <span>Balance pendiente:</span>
+                                <span>{formatCurrency(balance)}</span>
+                            </div>
+                        </>
+                    )}
+                    notes={invoice.notes}
+                    footerTitle="¡Gracias por su negocio!"
+                    footerMessage="Por favor, pague su factura antes de la fecha de vencimiento."
+                    ecf={invoice.ecf}
+                />
+                {!isPreview && invoice.status !== 'Borrador' && invoice.status !== 'Anulada' && (
+                    <div className="mt-8 pt-6 border-t print:hidden">
+                        <div className="flex justify-between items-center mb-4">
+                            <h3 className="text-lg font-semibold text-gray-700">Pagos · Balance pendiente: <span className={balance > 0 ? 'text-red-600' : 'text-green-600'}>{formatCurrency(balance)}</span></h3>
+                            {balance > 0 && <Button onClick={() => setIsPaymentModalOpen(true)} className="bg-green-600 hover:bg-green-700">{ICONS.plus} Registrar Pago</Button>}
+                        </div>
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Método</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Referencia</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Monto</th>
+                                    <th className="p-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {invoicePayments.map(payment => (
+                                    <tr key={payment.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3">{formatDate(payment.date)}</td>
+                                        <td className="p-3">{payment.method}</td>
+                                        <td className="p-3">{payment.reference || '—'}</td>
+                                        <td className="p-3 text-right">{formatCurrency(payment.amount)}</td>
+                                        <td className="p-3 flex justify-center space-x-2">
+                                            <AuditHistoryButton entityType="payment" entityId={payment.id} title={`Pago del ${formatDate(payment.date)}`} />
+                                            <button onClick={() => handleDeletePayment(payment)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                        </td>
+                                    </tr>
+                                ))}
+                                {invoicePayments.length === 0 && (
+                                    <tr><td colSpan={5} className="p-4 text-center text-gray-500">No hay pagos registrados.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                {!isPreview && invoiceCreditNotes.length > 0 && (
+                    <div className="mt-8 pt-6 border-t print:hidden">
+                        <h3 className="text-lg font-semibold text-gray-700 mb-4">Notas de crédito</h3>
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="bg-gray-50 border-b">
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Nota</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">NCF</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
+                                    <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Motivo</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Reembolso</th>
+                                    <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Monto</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {invoiceCreditNotes.map(creditNote => (
+                                    <tr key={creditNote.id} className="border-b hover:bg-gray-50">
+                                        <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => setInvoicesView({ view: 'creditNote', documentId: creditNote.id })}>{creditNote.creditNoteNumber}</td>
+                                        <td className="p-3 font-mono">{creditNote.ncf}</td>
+                                        <td className="p-3">{formatDate(creditNote.issueDate)}</td>
+                                        <td className="p-3">{creditNote.reason}</td>
+                                        <td className="p-3 text-right">{creditNote.refundAmount ? formatCurrency(creditNote.refundAmount) : '—'}</td>
+                                        <td className="p-3 text-right">{formatCurrency(calculateInvoiceTotals(creditNote).total)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+                <Modal isOpen={isPaymentModalOpen} onClose={() => setIsPaymentModalOpen(false)} title={`Registrar Pago · ${invoice.invoiceNumber}`}>
+                    <PaymentForm invoice={invoice} onSave={payment => { recordPayment(payment); setIsPaymentModalOpen(false); }} onCancel={() => setIsPaymentModalOpen(false)} />
+                </Modal>
+                <Modal isOpen={isCreditNoteModalOpen} onClose={() => setIsCreditNoteModalOpen(false)} title={`Nota de Crédito · ${invoice.ncf || invoice.invoiceNumber}`} size="max-w-4xl">
+                    <CreditNoteForm invoice={invoice} onSave={creditNote => { setIsCreditNoteModalOpen(false); setInvoicesView({ view: 'creditNote', documentId: creditNote.id }); }} onCancel={() => setIsCreditNoteModalOpen(false)} />
+                </Modal>
+            </Card>
+        );
+    };
+
+    const CreditNoteForm = ({ invoice, onSave, onCancel }: { invoice: Invoice; onSave: (creditNote: CreditNote) => void; onCancel: () => void; }) => {
+        const taxRates = invoice.taxRates || NO_TAX_RATES;
+        const invoiceTotal = calculateInvoiceTotals(invoice).total;
+        const alreadyCredited = getAmountCredited(invoice.id, creditNotes);
+        const creditable = roundCurrency(invoiceTotal - alreadyCredited);
+        const balance = getBalanceDue(invoice, payments, creditNotes);
+        const copyInvoiceItems = () => invoice.items.map(item => ({ ...item, id: generateId(), isMaintenance: false, isNewEquipment: false }));
+
+        const [mode, setMode] = useState<'total' | 'partial'>(alreadyCredited > 0 ? 'partial' : 'total');
+        const [issueDate, setIssueDate] = useState(todayIso());
+        const [reason, setReason] = useState('');
+        const [items, setItems] = useState<InvoiceItem[]>(copyInvoiceItems);
+        const [refundExcess, setRefundExcess] = useState(true);
+        const [refundMethod, setRefundMethod] = useState<PaymentMethod>('Transferencia');
+        const totals = calculateInvoiceTotals({ items, taxRates: invoice.taxRates });
+        // Whatever exceeds the open balance was already paid, so it is either returned or left in the client's favour.
+        const excess = Math.max(0, roundCurrency(totals.total - balance));
+
+        const handleModeChange = (nextMode: 'total' | 'partial') => {
+            setMode(nextMode);
+            if (nextMode === 'total') setItems(copyInvoiceItems());
         };
 
-        if (view === 'form') {
-            return <InvoiceForm invoice={selectedInvoice} onSave={handleSaveInvoice} onCancel={() => setView('list')} clients={clients} services={services}/>
-        }
-        
-        if (view === 'preview' && selectedInvoice) {
-            const client = clients.find(c => c.id === selectedInvoice.clientId);
-            if (!client) return <div>Cliente no encontrado</div>;
-            return <InvoicePreview invoice={selectedInvoice} client={client} settings={settings} onBack={() => setView('list')} />
-        }
+        const handleSubmit = (e: React.FormEvent) => {
+            e.preventDefault();
+            if (totals.total <= 0) {
+                alert('El monto de la nota de crédito debe ser mayor que cero.');
+                return;
+            }
+            if (totals.total > creditable + 0.005) {
+                alert(`La nota de crédito no puede superar ${formatCurrency(creditable)}, el monto de la factura que aún no ha sido acreditado.`);
+                return;
+            }
+            if (issueDate < invoice.issueDate) {
+                alert('La nota de crédito no puede tener una fecha anterior a la factura.');
+                return;
+            }
+            const issued = issueCreditNote({
+                invoiceId: invoice.id,
+                clientId: invoice.clientId,
+                issueDate,
+                reason: reason.trim(),
+                items,
+                taxRates: invoice.taxRates,
+                ...(excess > 0 && refundExcess ? { refundAmount: excess, refundMethod } : {}),
+            });
+            if (issued) onSave(issued);
+        };
+
+        return (
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                    <Button type="button" onClick={() => handleModeChange('total')} disabled={alreadyCredited > 0} className={mode === 'total' ? '' : 'bg-gray-400 hover:bg-gray-500'}>Total</Button>
+                    <Button type="button" onClick={() => handleModeChange('partial')} className={mode === 'partial' ? '' : 'bg-gray-400 hover:bg-gray-500'}>Parcial</Button>
+                    <p className="text-sm text-gray-500 self-center ml-2">Disponible para acreditar: {formatCurrency(creditable)}</p>
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+                        <Input type="date" value={issueDate} min={invoice.issueDate} onChange={e => setIssueDate(e.target.value)} required />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                        <Input value={reason} onChange={e => setReason(e.target.value)} placeholder="Devolución, descuento, error en precio..." required />
+                    </div>
+                </div>
+                {mode === 'partial' ? (
+                    <LineItemsEditor items={items} taxRates={taxRates} services={services} onChange={setItems} showItemFlags={false} />
+                ) : (
+                    <ul className="text-sm border rounded-lg divide-y">
+                        {items.map(item => <li key={item.id} className="p-2 flex justify-between"><span>{item.quantity} × {item.description}</span><span>{formatCurrency(item.quantity * item.unitPrice)}</span></li>)}
+                    </ul>
+                )}
+                <div className="flex justify-end">
+                    <div className="w-full max-w-xs space-y-2">
+                        <DocumentTotals totals={totals} taxRates={taxRates} accentColor={settings.invoiceSettings.accentColor} />
+                    </div>
+                </div>
+                {excess > 0 && (
+                    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800 space-y-2">
+                        <label className="flex items-center">
+                            <input type="checkbox" checked={refundExcess} onChange={e => setRefundExcess(e.target.checked)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2" />
+                            Reembolsar {formatCurrency(excess)} ya cobrados al cliente
+                        </label>
+                        {refundExcess ? (
+                            <Select value={refundMethod} onChange={e => setRefundMethod(e.target.value as PaymentMethod)} className="w-auto">
+                                {PAYMENT_METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+                            </Select>
+                        ) : (
+                            <p>El excedente quedará como saldo a favor del cliente.</p>
+                        )}
+                    </div>
+                )}
+                <div className="flex justify-end space-x-4 pt-4">
+                    <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                    <Button type="submit">Emitir Nota de Crédito</Button>
+                </div>
+            </form>
+        );
+    };
+
+    const CreditNotePreview = ({ creditNote, invoice, client, onBack }: { creditNote: CreditNote; invoice: Invoice; client: Client; onBack: () => void; }) => {
+        const details = [
+            { label: 'NCF', value: creditNote.ncf },
+            ...(creditNote.ncfExpirationDate ? [{ label: 'Válido hasta', value: formatDate(creditNote.ncfExpirationDate) }] : []),
+            { label: 'NCF Modificado', value: invoice.ncf || '—' },
+            { label: 'Factura', value: invoice.invoiceNumber },
+            { label: 'Fecha Emisión', value: formatDate(creditNote.issueDate) },
+        ];
 
         return (
             <Card>
-                <div className="flex justify-between items-center mb-6">
-                    <h2 className="text-2xl font-bold text-gray-800">Facturas</h2>
-                    <Button onClick={handleNewInvoice}>{ICONS.plus} Nueva Factura</Button>
+                <div className="flex justify-between items-center mb-6 print:hidden">
+                    <button onClick={onBack} className="text-blue-600 hover:underline">
+                        &larr; Volver a la factura
+                    </button>
+                    <div className="flex space-x-2">
+                        <AuditHistoryButton entityType="creditNote" entityId={creditNote.id} title={creditNote.creditNoteNumber} label="Historial" />
+                        <Button onClick={() => generatePdf('credit-note-preview', `Nota-Credito-${creditNote.creditNoteNumber}`)}>
+                            {ICONS.print} Imprimir / Guardar PDF
+                        </Button>
+                    </div>
                 </div>
+                <FiscalDocumentPrint
+                    elementId="credit-note-preview"
+                    title={NCF_DOCUMENT_TITLES['B04']}
+                    number={creditNote.creditNoteNumber}
+                    details={details}
+                    client={client}
+                    items={creditNote.items}
+                    taxRates={creditNote.taxRates || NO_TAX_RATES}
+                    totals={calculateInvoiceTotals(creditNote)}
+                    summary={creditNote.refundAmount ? (
+                        <div className="flex justify-between">
+                            <span className="font-semibold">Reembolsado ({creditNote.refundMethod}):</span>
+                            <span>{formatCurrency(creditNote.refundAmount)}</span>
+                        </div>
+                    ) : undefined}
+                    notes={`Motivo: ${creditNote.reason}`}
+                    footerTitle="Nota de crédito"
+                    footerMessage={`Aplica a la factura ${invoice.ncf || invoice.invoiceNumber} del ${formatDate(invoice.issueDate)}.`}
+                />
+            </Card>
+        );
+    };
+
+    // Reports repeated and missing numbers in the stored documents of every series.
+    const DocumentNumberingCheck = () => {
+        const seriesNumbers: Record<DocumentSeries, string[]> = {
+            invoice: invoices.map(inv => inv.invoiceNumber),
+            creditNote: creditNotes.map(cn => cn.creditNoteNumber),
+            quote: quotes.map(q => q.quoteNumber),
+            workOrder: workOrders.map(wo => wo.workOrderNumber),
+            purchaseOrder: purchaseOrders.map(po => po.purchaseOrderNumber),
+            contract: contracts.map(c => c.contractNumber),
+        };
+        const results = (Object.keys(DOCUMENT_SERIES_LABELS) as DocumentSeries[]).map(series => ({ series, count: seriesNumbers[series].length, ...auditDocumentNumbers(seriesNumbers[series]) }));
+
+        return (
+            <Card>
+                <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Revisión de Numeración</h2>
                 <div className="overflow-x-auto">
-                    <table className="w-full text-left">
-                         <thead>
+                    <table className="w-full text-left text-sm">
+                        <thead>
                             <tr className="bg-gray-50 border-b">
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">N° Factura</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Cliente</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Fecha</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Total</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Estado</th>
-                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Documento</th>
+                                <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Registrados</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Duplicados</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Números faltantes</th>
                             </tr>
                         </thead>
                         <tbody>
-                            {invoices.map(invoice => {
-                                const client = clients.find(c => c.id === invoice.clientId);
-                                const total = invoice.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
-                                const statusColor = {
-                                    'Borrador': 'bg-gray-200 text-gray-800',
-                                    'Enviada': 'bg-yellow-200 text-yellow-800',
-                                    'Pagada': 'bg-green-200 text-green-800',
-                                    'Vencida': 'bg-red-200 text-red-800'
-                                }[invoice.status];
-                                return (
-                                <tr key={invoice.id} className="border-b hover:bg-gray-50">
-                                    <td className="p-3 font-medium text-blue-600 cursor-pointer" onClick={() => handlePreviewInvoice(invoice)}>{invoice.invoiceNumber}</td>
-                                    <td className="p-3">{client?.name || 'N/A'}</td>
-                                    <td className="p-3">{formatDate(invoice.issueDate)}</td>
-                                    <td className="p-3">{formatCurrency(total)}</td>
-                                    <td className="p-3"><span className={`px-2 py-1 text-xs font-semibold rounded-full ${statusColor}`}>{invoice.status}</span></td>
-                                    <td className="p-3 flex space-x-2">
-                                        <button onClick={() => handleEditInvoice(invoice)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
-                                        <button onClick={() => handleDeleteInvoice(invoice.id)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
-                                    </td>
+                            {results.map(result => (
+                                <tr key={result.series} className="border-b align-top">
+                                    <td className="p-3 font-medium">{DOCUMENT_SERIES_LABELS[result.series]}</td>
+                                    <td className="p-3 text-right">{result.count}</td>
+                                    <td className={`p-3 font-mono ${result.duplicates.length > 0 ? 'text-red-600' : 'text-green-600'}`}>{result.duplicates.length > 0 ? result.duplicates.join(', ') : 'Ninguno'}</td>
+                                    <td className={`p-3 font-mono ${result.gaps.length > 0 ? 'text-yellow-700' : 'text-green-600'}`}>{result.gaps.length > 0 ? result.gaps.join('; ') : 'Ninguno'}</td>
                                 </tr>
-                                );
-                            })}
+                            ))}
                         </tbody>
                     </table>
                 </div>
+                <p className="text-sm text-gray-500 mt-2">Los números faltantes suelen corresponder a borradores eliminados. Los duplicados provienen de datos anteriores a los contadores de numeración y deben corregirse.</p>
             </Card>
         );
     };
-    
-    const InvoiceForm = ({ invoice, onSave, onCancel, clients, services }: { invoice: Invoice | null, onSave: (invoice: Invoice) => void, onCancel: () => void, clients: Client[], services: Service[] }) => {
-        const [formData, setFormData] = useState<Omit<Invoice, 'id' | 'invoiceNumber'>>(
-            invoice || {
-                clientId: '',
-                issueDate: new Date().toISOString().split('T')[0],
-                dueDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-                items: [{ id: generateId(), description: '', quantity: 1, unitPrice: 0, isMaintenance: false, isNewEquipment: false }],
-                status: 'Borrador',
-                notes: '',
-            }
-        );
-        const [isServiceModalOpen, setIsServiceModalOpen] = useState(false);
 
-        const handleClientChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-            setFormData({...formData, clientId: e.target.value});
-        };
+    const BackupManager = () => {
+        const [pendingRestore, setPendingRestore] = useState<{ fileName: string; backup: BackupFile } | null>(null);
+        const [restoreMode, setRestoreMode] = useState<RestoreMode>('replace');
+        const [isRestoring, setIsRestoring] = useState(false);
 
-        const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
-            const { name, value } = e.target;
-            setFormData({ ...formData, [name]: value });
+        const handleDownload = async () => {
+            const backup = await createBackup(getAllData());
+            downloadFile(JSON.stringify(backup), `respaldo-facturahvac-${todayIso()}.json`, 'application/json');
+            setLastBackupAt(backup.createdAt);
         };
 
-        const handleItemChange = (index: number, field: keyof InvoiceItem, value: any) => {
-            const newItems = [...formData.items];
-            if (field === 'isMaintenance' || field === 'isNewEquipment') {
-                (newItems[index] as any)[field] = (value as HTMLInputElement).checked;
-            } else {
-                 (newItems[index] as any)[field] = value;
+        const handleFileSelected = async (file: File | null) => {
+            if (!file) return;
+            try {
+                setPendingRestore({ fileName: file.name, backup: await parseBackup(await file.text()) });
+                setRestoreMode('replace');
+            } catch (error) {
+                alert(error instanceof Error ? error.message : 'No se pudo leer el respaldo.');
             }
-            setFormData({ ...formData, items: newItems });
         };
 
-        const handleAddItem = () => {
-            setFormData({ ...formData, items: [...formData.items, { id: generateId(), description: '', quantity: 1, unitPrice: 0, isMaintenance: false, isNewEquipment: false }] });
+        const handleRestore = async () => {
+            if (!pendingRestore) return;
+            const message = restoreMode === 'replace'
+                ? 'Todos los datos actuales serán reemplazados por los del respaldo. ¿Desea continuar?'
+                : 'Se añadirán los registros del respaldo que no existen; los que ya existen conservarán su versión actual. ¿Desea continuar?';
+            if (!window.confirm(message)) return;
+            setIsRestoring(true);
+            try {
+                await restoreData(buildRestoreData(getAllData(), pendingRestore.backup, restoreMode, pendingRestore.fileName));
+                alert('Respaldo restaurado. La aplicación se recargará.');
+                window.location.reload();
+            } catch (error) {
+                console.error(error);
+                alert('No se pudo restaurar el respaldo. Los datos actuales no se modificaron.');
+                setIsRestoring(false);
+            }
         };
 
-        const handleAddService = (service: Service) => {
-            const newItem: InvoiceItem = {
-                id: generateId(),
-                description: service.name,
-                quantity: 1,
-                unitPrice: service.totalPrice,
-                isMaintenance: service.name.toLowerCase().includes('mantenimiento'),
-                isNewEquipment: false,
-            };
-            setFormData({ ...formData, items: [...formData.items, newItem]});
-            setIsServiceModalOpen(false);
-        };
+        const preview = pendingRestore ? previewRestore(getAllData(), pendingRestore.backup.data, restoreMode) : [];
 
-        const handleRemoveItem = (index: number) => {
-            const newItems = formData.items.filter((_, i) => i !== index);
-            setFormData({ ...formData, items: newItems });
-        };
-        
-        const handleSubmit = (e: React.FormEvent) => {
-            e.preventDefault();
-            const client = clients.find(c => c.id === formData.clientId);
-            if(!client) {
-                alert('Por favor, seleccione un cliente.');
-                return;
-            }
-            
-            let finalData = { ...formData };
-            let notes = finalData.notes || '';
+        return (
+            <Card>
+                <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Respaldo y Restauración</h2>
+                <p className="text-sm text-gray-600 mb-4">
+                    El respaldo incluye clientes, facturas, inventario, servicios, gastos, configuración y el resto de los datos en un solo archivo.
+                    {' '}{lastBackupAt ? `Último respaldo: ${new Date(lastBackupAt).toLocaleString('es-ES')}.` : 'Aún no se ha descargado ningún respaldo en este equipo.'}
+                </p>
+                <div className="flex flex-wrap items-center gap-4">
+                    <Button onClick={handleDownload}>Descargar respaldo</Button>
+                    <label className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 cursor-pointer">
+                        Restaurar desde archivo
+                        <input type="file" accept="application/json,.json" className="hidden" onChange={e => { handleFileSelected(e.target.files?.[0] || null); e.target.value = ''; }} />
+                    </label>
+                </div>
+                <Modal isOpen={!!pendingRestore} onClose={() => setPendingRestore(null)} title="Restaurar respaldo" size="max-w-4xl">
+                    {pendingRestore && (
+                        <div className="space-y-4">
+                            <p className="text-sm text-gray-600">
+                                Archivo <span className="font-semibold">{pendingRestore.fileName}</span>, creado el {new Date(pendingRestore.backup.createdAt).toLocaleString('es-ES')}. Suma de verificación correcta.
+                            </p>
+                            <div className="flex gap-6 text-sm">
+                                <label className="flex items-center cursor-pointer">
+                                    <input type="radio" checked={restoreMode === 'replace'} onChange={() => setRestoreMode('replace')} className="mr-2" />
+                                    Reemplazar todos los datos
+                                </label>
+                                <label className="flex items-center cursor-pointer">
+                                    <input type="radio" checked={restoreMode === 'merge'} onChange={() => setRestoreMode('merge')} className="mr-2" />
+                                    Combinar con los datos actuales
+                                </label>
+                            </div>
+                            <table className="w-full text-left text-sm">
+                                <thead>
+                                    <tr className="bg-gray-50 border-b">
+                                        <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Datos</th>
+                                        <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Actuales</th>
+                                        <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">En respaldo</th>
+                                        <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Nuevos</th>
+                                        <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Modificados</th>
+                                        <th className="p-3 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">{restoreMode === 'replace' ? 'Eliminados' : 'En conflicto'}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {preview.map(row => (
+                                        <tr key={row.key} className="border-b">
+                                            <td className="p-3">{BACKUP_COLLECTION_LABELS[row.key] || row.key}</td>
+                                            <td className="p-3 text-right">{row.current}</td>
+                                            <td className="p-3 text-right">{row.incoming}</td>
+                                            <td className="p-3 text-right text-green-600">{row.added}</td>
+                                            <td className="p-3 text-right text-blue-600">{row.updated}</td>
+                                            {restoreMode === 'replace'
+                                                ? <td className={`p-3 text-right ${row.removed > 0 ? 'text-red-600 font-semibold' : ''}`}>{row.removed}</td>
+                                                : <td className={`p-3 text-right ${row.conflicts.length > 0 ? 'text-yellow-700 font-semibold' : ''}`}>{row.conflicts.length}</td>}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="text-sm text-gray-500">
+                                {restoreMode === 'replace'
+                                    ? 'La configuración también se reemplazará por la del respaldo.'
+                                    : 'Solo se añaden los registros que no existen. Los registros que están en ambos lados conservan la versión actual; las secuencias NCF y los contadores de numeración nunca retroceden. Se conservará la configuración actual.'}
+                                {' '}El registro de auditoría actual se conserva y la restauración quedará anotada en él.
+                            </p>
+                            {restoreMode === 'merge' && preview.some(row => row.conflicts.length > 0) && (
+                                <div className="p-3 bg-yellow-50 border border-yellow-300 rounded-lg text-sm text-yellow-800">
+                                    <p className="font-semibold mb-1">Registros distintos en el respaldo (se conserva la versión actual):</p>
+                                    {preview.filter(row => row.conflicts.length > 0).map(row => (
+                                        <p key={row.key}>{BACKUP_COLLECTION_LABELS[row.key] || row.key}: {row.conflicts.slice(0, 20).join(', ')}{row.conflicts.length > 20 ? ` y ${row.conflicts.length - 20} más` : ''}</p>
+                                    ))}
+                                </div>
+                            )}
+                            <div className="flex justify-end space-x-4 pt-2">
+                                <button type="button" onClick={() => setPendingRestore(null)} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
+                                <Button onClick={handleRestore} disabled={isRestoring} className="bg-red-600 hover:bg-red-700">Restaurar</Button>
+                            </div>
+                        </div>
+                    )}
+                </Modal>
+            </Card>
+        );
+    };
+
+    // B-series NCF ranges and e-NCF ranges are registered the same way; each kind keeps its own list and number format.
+    const SequencesManager = <T extends NcfSequence | EcfSequence,>({ title, label, sequences, setSequences, typeLabels, defaultType, formatNumber, entityType }: {
+        title: string;
+        label: string;
+        sequences: T[];
+        setSequences: (update: (prev: T[]) => T[]) => void;
+        typeLabels: Record<T['type'], string>;
+        defaultType: T['type'];
+        formatNumber: (type: T['type'], sequenceNumber: number) => string;
+        entityType: AuditEntityType;
+    }) => {
+        const [isModalOpen, setIsModalOpen] = useState(false);
+        const [editingSequence, setEditingSequence] = useState<T | null>(null);
+
+        const handleAddSequence = () => { setEditingSequence(null); setIsModalOpen(true); };
+        const handleEditSequence = (sequence: T) => { setEditingSequence(sequence); setIsModalOpen(true); };
 
-            const hasMaintenance = finalData.items.some(item => item.isMaintenance);
-            if(hasMaintenance) {
-                const issue = new Date(finalData.issueDate);
-                issue.setMonth(issue.getMonth() + 6);
-                finalData.nextMaintenanceDate = issue.toISOString().split('T')[0];
-            } else {
-                finalData.nextMaintenanceDate = undefined;
+        const handleDeleteSequence = (sequence: T) => {
+            if (sequence.nextNumber !== sequence.startNumber) {
+                alert('No se puede eliminar una secuencia de la que ya se han emitido comprobantes.');
+                return;
             }
-            
-            const hasNewEquipment = finalData.items.some(item => item.isNewEquipment);
-            const warrantyText = "Garantía de un año. La garantía solo cubre daños por naturaleza del equipo, no provocados por cortocircuitos.";
-            if (hasNewEquipment && !notes.includes(warrantyText)) {
-                notes = notes ? `${notes}\n\n${warrantyText}` : warrantyText;
+            if (window.confirm('¿Está seguro de que desea eliminar esta secuencia?')) {
+                setSequences(prev => prev.filter(seq => seq.id !== sequence.id));
             }
+        };
 
-            if (hasNewEquipment) {
-                const maintenanceMonths = client.type === 'Comercial' ? 3 : 6;
-                const maintenanceText = `Recomendación: Realizar el primer mantenimiento preventivo en ${maintenanceMonths} meses para asegurar el óptimo funcionamiento y la validez de la garantía.`;
-                if (!notes.includes(maintenanceText)) {
-                    notes = notes ? `${notes}\n\n${maintenanceText}` : maintenanceText;
-                }
+        const handleSaveSequence = (sequence: T) => {
+            if (editingSequence) {
+                setSequences(prev => prev.map(seq => seq.id === sequence.id ? sequence : seq));
+            } else {
+                setSequences(prev => [...prev, { ...sequence, id: generateId(), createdAt: new Date().toISOString() }]);
             }
-
-            finalData.notes = notes;
-            onSave({ ...finalData, id: invoice?.id || '', invoiceNumber: invoice?.invoiceNumber || ''});
+            setIsModalOpen(false);
         };
-        
-        const subtotal = useMemo(() => formData.items.reduce((sum, item) => sum + (item.quantity * item.unitPrice), 0), [formData.items]);
 
-        return (
-            <Card>
-                <form onSubmit={handleSubmit}>
-                    <h2 className="text-2xl font-bold text-gray-800 mb-6">{invoice ? 'Editar Factura' : 'Nueva Factura'} {invoice?.invoiceNumber}</h2>
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
-                        <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
-                            <Select name="clientId" value={formData.clientId} onChange={handleClientChange} required>
-                                <option value="" disabled>Seleccione un cliente</option>
-                                {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
-                            </Select>
-                        </div>
+        const SequenceForm = ({ sequence, onSave, onCancel }: { sequence: T | null; onSave: (sequence: T) => void; onCancel: () => void; }) => {
+            const [formData, setFormData] = useState<Omit<T, 'id' | 'createdAt'> & { id?: string; createdAt?: string }>(
+                sequence || { type: defaultType, startNumber: 1, endNumber: 100, nextNumber: 1, expirationDate: '' } as Omit<T, 'id' | 'createdAt'>
+            );
+
+            const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+                const { name, value, type } = e.target;
+                setFormData({ ...formData, [name]: type === 'number' ? parseInt(value, 10) || 0 : value });
+            };
+
+            const handleSubmit = (e: React.FormEvent) => {
+                e.preventDefault();
+                const nextNumber = sequence ? sequence.nextNumber : formData.nextNumber;
+                if (formData.startNumber < 1 || formData.endNumber < formData.startNumber) {
+                    alert('El rango de la secuencia no es válido.');
+                    return;
+                }
+                if (nextNumber < formData.startNumber || nextNumber > formData.endNumber + 1) {
+                    alert('El próximo número debe estar dentro del rango autorizado.');
+                    return;
+                }
+                const overlaps = sequences.some(seq => seq.id !== sequence?.id && seq.type === formData.type
+                    && formData.startNumber <= seq.endNumber && seq.startNumber <= formData.endNumber);
+                if (overlaps) {
+                    alert(`El rango se superpone con otra secuencia ${formData.type} registrada.`);
+                    return;
+                }
+                onSave({ ...formData, nextNumber, expirationDate: formData.expirationDate || undefined, id: sequence?.id || '', createdAt: sequence?.createdAt || '' } as T);
+            };
+
+            return (
+                <form onSubmit={handleSubmit} className="space-y-4">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de Comprobante</label>
+                        <Select name="type" value={formData.type} onChange={handleChange} disabled={!!sequence}>
+                            {(Object.keys(typeLabels) as T['type'][]).map(type => <option key={type} value={type}>{type} - {typeLabels[type]}</option>)}
+                        </Select>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
                         <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de Emisión</label>
-                            <Input type="date" name="issueDate" value={formData.issueDate} onChange={handleInputChange} required />
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+                            <Input name="startNumber" type="number" min="1" value={formData.startNumber} onChange={handleChange} disabled={!!sequence} required />
                         </div>
                         <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de Vencimiento</label>
-                            <Input type="date" name="dueDate" value={formData.dueDate} onChange={handleInputChange} required />
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+                            <Input name="endNumber" type="number" min="1" value={formData.endNumber} onChange={handleChange} required />
                         </div>
                     </div>
-
-                    <h3 className="text-lg font-semibold text-gray-700 mb-2">Artículos de la factura</h3>
-                    <div className="space-y-2 mb-4">
-                        {formData.items.map((item, index) => (
-                            <div key={item.id} className="grid grid-cols-12 gap-2 items-center p-2 border rounded-md bg-gray-50">
-                                <div className="col-span-12 md:col-span-5">
-                                    <Input placeholder="Descripción" value={item.description} onChange={e => handleItemChange(index, 'description', e.target.value)} required />
-                                </div>
-                                <div className="col-span-6 md:col-span-1">
-                                    <Input type="number" placeholder="Cant." value={item.quantity} onChange={e => handleItemChange(index, 'quantity', parseFloat(e.target.value) || 0)} required />
-                                </div>
-                                <div className="col-span-6 md:col-span-2">
-                                    <Input type="number" step="0.01" placeholder="Precio" value={item.unitPrice} onChange={e => handleItemChange(index, 'unitPrice', parseFloat(e.target.value) || 0)} required />
-                                </div>
-                                <div className="col-span-12 md:col-span-2 text-right font-medium">
-                                    {formatCurrency(item.quantity * item.unitPrice)}
-                                </div>
-                                <div className="col-span-12 md:col-span-2 flex justify-end">
-                                    <button type="button" onClick={() => handleRemoveItem(index)} className="text-red-500 hover:text-red-700 p-2">{ICONS.trash}</button>
-                                </div>
-                                <div className="col-span-12 flex items-center gap-4 mt-2">
-                                    <label htmlFor={`maint-${item.id}`} className="flex items-center text-sm cursor-pointer">
-                                        <input type="checkbox" id={`maint-${item.id}`} checked={!!item.isMaintenance} onChange={e => handleItemChange(index, 'isMaintenance', e.target)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"/>
-                                        Mantenimiento
-                                    </label>
-                                    <label htmlFor={`neweq-${item.id}`} className="flex items-center text-sm cursor-pointer">
-                                        <input type="checkbox" id={`neweq-${item.id}`} checked={!!item.isNewEquipment} onChange={e => handleItemChange(index, 'isNewEquipment', e.target)} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-2"/>
-                                        Nuevo Equipo (Garantía)
-                                    </label>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-                    <div className="flex space-x-2">
-                        <Button type="button" onClick={handleAddItem}>{ICONS.plus} Añadir Artículo</Button>
-                        <Button type="button" onClick={() => setIsServiceModalOpen(true)} className="bg-green-600 hover:bg-green-700">{ICONS.plus} Añadir Servicio</Button>
-                    </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                    <div className="grid grid-cols-2 gap-4">
                         <div>
-                            <label className="block text-sm font-medium text-gray-700 mb-1">Notas Adicionales</label>
-                            <Textarea name="notes" value={formData.notes || ''} onChange={handleInputChange} rows={4} />
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Próximo número a emitir</label>
+                            <Input name="nextNumber" type="number" min="1" value={formData.nextNumber} onChange={handleChange} disabled={!!sequence} required />
                         </div>
-                        <div className="flex flex-col justify-end items-end">
-                             <div className="w-full max-w-xs space-y-2">
-                                <div className="flex justify-between">
-                                    <span className="font-semibold text-gray-700">Subtotal:</span>
-                                    <span>{formatCurrency(subtotal)}</span>
-                                </div>
-                                <div className="flex justify-between text-xl font-bold">
-                                    <span style={{color: settings.invoiceSettings.accentColor}}>Total:</span>
-                                    <span style={{color: settings.invoiceSettings.accentColor}}>{formatCurrency(subtotal)}</span>
-                                </div>
-                            </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de Vencimiento</label>
+                            <Input name="expirationDate" type="date" value={formData.expirationDate || ''} onChange={handleChange} />
                         </div>
                     </div>
-
-                    <div className="flex justify-end space-x-4 pt-8">
+                    <p className="text-sm text-gray-500">Primer {label}: <span className="font-mono">{formatNumber(formData.type, formData.startNumber || 1)}</span> · Último {label}: <span className="font-mono">{formatNumber(formData.type, formData.endNumber || 1)}</span></p>
+                    <div className="flex justify-end space-x-4 pt-4">
                         <button type="button" onClick={onCancel} className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300">Cancelar</button>
-                        <Button type="submit">Guardar Factura</Button>
+                        <Button type="submit">{sequence ? 'Guardar Cambios' : 'Registrar Secuencia'}</Button>
                     </div>
                 </form>
-                <Modal isOpen={isServiceModalOpen} onClose={() => setIsServiceModalOpen(false)} title="Seleccionar Servicio">
-                    <div className="space-y-2">
-                        {services.map(service => (
-                            <div key={service.id} onClick={() => handleAddService(service)} className="p-3 border rounded-lg hover:bg-gray-100 cursor-pointer flex justify-between">
-                                <div>
-                                    <p className="font-semibold">{service.name}</p>
-                                    <p className="text-sm text-gray-500">{service.description}</p>
-                                </div>
-                                <p className="font-semibold">{formatCurrency(service.totalPrice)}</p>
-                            </div>
-                        ))}
-                    </div>
-                </Modal>
-            </Card>
-        );
-    };
+            );
+        };
+
+        const today = new Date().toISOString().split('T')[0];
 
-    const ReportsPage = () => {
-        // Placeholder for future implementation
-        return <Card><h2 className="text-2xl font-bold text-gray-800">Reportes</h2><p>Esta sección está en desarrollo.</p></Card>;
-    };
-    
-    const InvoicePreview = ({ invoice, client, settings, onBack, isPreview=false }: { invoice: Invoice, client: Client, settings: AppSettings, onBack?: () => void, isPreview?: boolean }) => {
-        const total = invoice.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
         return (
             <Card>
-                {!isPreview && (
-                    <div className="flex justify-between items-center mb-6 print:hidden">
-                        <button onClick={onBack} className="text-blue-600 hover:underline">
-                            &larr; Volver a la lista
-                        </button>
-                        <Button onClick={() => generatePdf('invoice-preview', `Factura-${invoice.invoiceNumber}`)}>
-                            {ICONS.print} Imprimir / Guardar PDF
-                        </Button>
-                    </div>
-                )}
-                <div id="invoice-preview" className="bg-white p-8 md:p-12 text-gray-800 text-[10pt] leading-normal font-sans">
-                    <style>{`
-                        .invoice-table th, .invoice-table td { padding: 8px; }
-                        body.pdf-export-active #invoice-preview { border: none !important; }
-                    `}</style>
-                    <header className="flex justify-between items-start pb-8 border-b-2" style={{ borderColor: settings.invoiceSettings.accentColor }}>
-                        <div className="w-2/3">
-                            {settings.businessInfo.logo && <img src={settings.businessInfo.logo} alt="Logo" className="max-w-[150px] max-h-[80px] mb-4 object-contain" />}
-                            <h1 className="text-xl font-bold text-gray-900">{settings.businessInfo.name}</h1>
-                            <p>{settings.businessInfo.address}</p>
-                            <p>{settings.businessInfo.phone}</p>
-                            <p>{settings.businessInfo.email}</p>
-                            <p>RNC: {settings.businessInfo.taxId}</p>
-                        </div>
-                        <div className="w-1/3 text-right">
-                            <h2 className="text-3xl font-bold" style={{ color: settings.invoiceSettings.accentColor }}>FACTURA</h2>
-                            <p className="font-semibold">{invoice.invoiceNumber}</p>
-                            <p><strong>Fecha Emisión:</strong> {formatDate(invoice.issueDate)}</p>
-                            <p><strong>Fecha Vencimiento:</strong> {formatDate(invoice.dueDate)}</p>
-                        </div>
-                    </header>
-                    <section className="py-8">
-                        <h3 className="font-semibold mb-2">Facturar a:</h3>
-                        <p className="font-bold text-gray-900">{client.name}</p>
-                        <p>{client.address}</p>
-                        <p>{client.phone}</p>
-                        <p>{client.email}</p>
-                    </section>
-                    <section>
-                        <table className="w-full invoice-table text-left mb-8">
-                            <thead>
-                                <tr className="text-white" style={{ backgroundColor: settings.invoiceSettings.accentColor }}>
-                                    <th className="font-semibold rounded-tl-lg">Descripción</th>
-                                    <th className="font-semibold text-center">Cantidad</th>
-                                    <th className="font-semibold text-right">Precio Unitario</th>
-                                    <th className="font-semibold text-right rounded-tr-lg">Total</th>
+                <div className="flex justify-between items-center mb-6 border-b pb-2">
+                    <h2 className="text-2xl font-bold text-gray-800">{title}</h2>
+                    <Button onClick={handleAddSequence}>{ICONS.plus} Nueva Secuencia</Button>
+                </div>
+                <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                        <thead>
+                            <tr className="bg-gray-50 border-b">
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Tipo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Rango</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Próximo</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Disponibles</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Vence</th>
+                                <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {[...sequences].sort((a, b) => a.type.localeCompare(b.type) || a.startNumber - b.startNumber).map(seq => (
+                                <tr key={seq.id} className={`border-b hover:bg-gray-50 ${isNcfSequenceUsable(seq, today) ? '' : 'text-gray-400'}`}>
+                                    <td className="p-3 font-medium">{seq.type} - {typeLabels[seq.type as T['type']]}</td>
+                                    <td className="p-3 font-mono text-sm">{formatNumber(seq.type, seq.startNumber)} - {formatNumber(seq.type, seq.endNumber)}</td>
+                                    <td className="p-3 font-mono text-sm">{getNcfRemaining(seq) > 0 ? formatNumber(seq.type, seq.nextNumber) : 'Agotada'}</td>
+                                    <td className="p-3">{getNcfRemaining(seq)}</td>
+                                    <td className="p-3">{seq.expirationDate ? formatDate(seq.expirationDate) : '—'}</td>
+                                    <td className="p-3 flex space-x-2">
+                                        <AuditHistoryButton entityType={entityType} entityId={seq.id} title={`${seq.type} ${seq.startNumber}–${seq.endNumber}`} />
+                                        <button onClick={() => handleEditSequence(seq)} className="text-blue-600 hover:text-blue-800">{ICONS.edit}</button>
+                                        <button onClick={() => handleDeleteSequence(seq)} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                    </td>
                                 </tr>
-                            </thead>
-                            <tbody>
-                                {invoice.items.map((item) => (
-                                    <tr key={item.id} className="border-b">
-                                        <td>{item.description}</td>
-                                        <td className="text-center">{item.quantity}</td>
-                                        <td className="text-right">{formatCurrency(item.unitPrice)}</td>
-                                        <td className="text-right">{formatCurrency(item.quantity * item.unitPrice)}</td>
-                                    </tr>
-                                ))}
-                            </tbody>
-                        </table>
-                    </section>
-                    <section className="flex justify-end mb-8">
-                        <div className="w-full max-w-xs space-y-2">
-                            <div className="flex justify-between">
-                                <span className="font-semibold">Subtotal:</span>
-                                <span>{formatCurrency(total)}</span>
-                            </div>
-                            <div className="flex justify-between text-xl font-bold border-t-2 pt-2" style={{ borderColor: settings.invoiceSettings.accentColor }}>
-                                <span style={{ color: settings.invoiceSettings.accentColor }}>Total:</span>
-                                <span style={{ color: settings.invoiceSettings.accentColor }}>{formatCurrency(total)}</span>
-                            </div>
-                        </div>
-                    </section>
-                    <footer className="pt-8 border-t">
-                        {invoice.notes && (
-                             <div className="mb-8">
-                                <h4 className="font-semibold mb-2">Notas:</h4>
-                                <p className="whitespace-pre-wrap text-xs">{invoice.notes}</p>
-                            </div>
-                        )}
-                        <div className="flex justify-between items-end">
-                            <div>
-                                <h4 className="font-semibold mb-2">¡Gracias por su negocio!</h4>
-                                <p className="text-xs">Por favor, pague su factura antes de la fecha de vencimiento.</p>
-                            </div>
-                             {settings.businessInfo.signature && (
-                                <div className="text-center">
-                                    <img src={settings.businessInfo.signature} alt="Firma" className="max-w-[150px] h-auto mx-auto" />
-                                    <p className="border-t pt-1 mt-1 text-xs">Firma Autorizada</p>
-                                </div>
-                             )}
-                        </div>
-                    </footer>
+                            ))}
+                        </tbody>
+                    </table>
                 </div>
+                <Modal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} title={editingSequence ? `Editar Secuencia ${label}` : `Nueva Secuencia ${label}`}>
+                    <SequenceForm sequence={editingSequence} onSave={handleSaveSequence} onCancel={() => setIsModalOpen(false)} />
+                </Modal>
             </Card>
         );
     };
@@ -1097,15 +7195,15 @@ export default function App() {
     const SettingsPage = () => {
         const [currentSettings, setCurrentSettings] = useState(settings);
 
-        const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-            const { name, value, dataset } = e.target;
+        const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+            const { name, value, type, dataset } = e.target;
             const category = dataset.category as keyof AppSettings;
             if (category) {
                 setCurrentSettings(prev => ({
                     ...prev,
                     [category]: {
                         ...(prev[category] as any),
-                        [name]: value
+                        [name]: type === 'number' ? parseFloat(value) || 0 : value
                     }
                 }));
             }
@@ -1136,62 +7234,246 @@ export default function App() {
         };
 
 
+        const updateDunningStages = (update: (stages: DunningStage[]) => DunningStage[]) => {
+            setCurrentSettings(prev => ({ ...prev, dunningSettings: { stages: update(prev.dunningSettings.stages) } }));
+        };
+
+        const handleStageChange = (index: number, field: keyof DunningStage, value: string | number) => {
+            updateDunningStages(stages => stages.map((stage, i) => i === index ? { ...stage, [field]: value } : stage));
+        };
+
+        const updateNumberFormat = (series: DocumentSeries, changes: Partial<DocumentNumberFormat>) => {
+            setCurrentSettings(prev => ({
+                ...prev,
+                numberingSettings: { ...prev.numberingSettings, [series]: { ...prev.numberingSettings[series], ...changes } },
+            }));
+        };
+
         const handleSubmit = (e: React.FormEvent) => {
             e.preventDefault();
+            const prefixes = (Object.keys(DOCUMENT_SERIES_LABELS) as DocumentSeries[]).map(series => currentSettings.numberingSettings[series].prefix.trim());
+            if (prefixes.some(prefix => !prefix) || new Set(prefixes).size !== prefixes.length) {
+                alert('Cada tipo de documento necesita un prefijo propio, distinto de los demás.');
+                return;
+            }
             setSettings(currentSettings);
             alert('Configuración guardada!');
         };
         
         return (
-            <Card>
-                <form onSubmit={handleSubmit} className="space-y-8">
-                    <div>
-                        <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Información del Negocio</h2>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            <Input name="name" data-category="businessInfo" placeholder="Nombre del Negocio" value={currentSettings.businessInfo.name} onChange={handleChange} />
-                            <Input name="taxId" data-category="businessInfo" placeholder="RNC / ID Fiscal" value={currentSettings.businessInfo.taxId} onChange={handleChange} />
-                            <Input name="address" data-category="businessInfo" placeholder="Dirección" value={currentSettings.businessInfo.address} onChange={handleChange} />
-                            <Input name="phone" data-category="businessInfo" placeholder="Teléfono" value={currentSettings.businessInfo.phone} onChange={handleChange} />
-                            <Input name="email" type="email" data-category="businessInfo" placeholder="Email" value={currentSettings.businessInfo.email} onChange={handleChange} />
-                        </div>
-                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
-                             <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Logo</label>
-                                <Input type="file" accept="image/*" onChange={e => handleFileChange(e.target.files?.[0] || null, 'businessInfo', 'logo')} />
-                                {currentSettings.businessInfo.logo && <img src={currentSettings.businessInfo.logo} alt="Logo Preview" className="mt-2 max-h-20 border p-1 rounded" />}
-                             </div>
-                              <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Firma Digital (Imagen)</label>
-                                <Input type="file" accept="image/*" onChange={e => handleFileChange(e.target.files?.[0] || null, 'businessInfo', 'signature')} />
-                                {currentSettings.businessInfo.signature && <img src={currentSettings.businessInfo.signature} alt="Signature Preview" className="mt-2 max-h-20 border p-1 rounded bg-gray-50" />}
-                             </div>
+            <div className="space-y-8">
+                <Card>
+                    <form onSubmit={handleSubmit} className="space-y-8">
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Información del Negocio</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <Input name="name" data-category="businessInfo" placeholder="Nombre del Negocio" value={currentSettings.businessInfo.name} onChange={handleChange} />
+                                <Input name="taxId" data-category="businessInfo" placeholder="RNC / ID Fiscal" value={currentSettings.businessInfo.taxId} onChange={handleChange} />
+                                <Input name="address" data-category="businessInfo" placeholder="Dirección" value={currentSettings.businessInfo.address} onChange={handleChange} />
+                                <Input name="phone" data-category="businessInfo" placeholder="Teléfono" value={currentSettings.businessInfo.phone} onChange={handleChange} />
+                                <Input name="email" type="email" data-category="businessInfo" placeholder="Email" value={currentSettings.businessInfo.email} onChange={handleChange} />
+                            </div>
+                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+                                 <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Logo</label>
+                                    <Input type="file" accept="image/*" onChange={e => handleFileChange(e.target.files?.[0] || null, 'businessInfo', 'logo')} />
+                                    {currentSettings.businessInfo.logo && <img src={currentSettings.businessInfo.logo} alt="Logo Preview" className="mt-2 max-h-20 border p-1 rounded" />}
+                                 </div>
+                                  <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Firma Digital (Imagen)</label>
+                                    <Input type="file" accept="image/*" onChange={e => handleFileChange(e.target.files?.[0] || null, 'businessInfo', 'signature')} />
+                                    {currentSettings.businessInfo.signature && <img src={currentSettings.businessInfo.signature} alt="Signature Preview" className="mt-2 max-h-20 border p-1 rounded bg-gray-50" />}
+                                 </div>
+                            </div>
                         </div>
-                    </div>
                     
-                     <div>
-                        <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Personalización de Facturas</h2>
-                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                            <div>
-                                <label className="block text-sm font-medium text-gray-700 mb-1">Color de Acento</label>
-                                <Input type="color" name="accentColor" data-category="invoiceSettings" value={currentSettings.invoiceSettings.accentColor} onChange={handleChange} className="p-1 h-10 w-full block" />
+                         <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Personalización de Facturas</h2>
+                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Color de Acento</label>
+                                    <Input type="color" name="accentColor" data-category="invoiceSettings" value={currentSettings.invoiceSettings.accentColor} onChange={handleChange} className="p-1 h-10 w-full block" />
+                                </div>
                             </div>
                         </div>
-                    </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Impuestos (ITBIS)</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Tasa general (%)</label>
+                                    <Input type="number" step="0.01" min="0" name="itbisRate" data-category="taxSettings" value={currentSettings.taxSettings.itbisRate} onChange={handleChange} />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Tasa reducida (%)</label>
+                                    <Input type="number" step="0.01" min="0" name="reducedItbisRate" data-category="taxSettings" value={currentSettings.taxSettings.reducedItbisRate} onChange={handleChange} />
+                                </div>
+                            </div>
+                            <p className="text-sm text-gray-500 mt-2">Las tasas se guardan en cada factura al crearla; cambiarlas no modifica las facturas existentes.</p>
+                        </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Facturación Electrónica (e-CF)</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Ambiente DGII</label>
+                                    <Select name="environment" data-category="ecfSettings" value={currentSettings.ecfSettings.environment} onChange={handleChange}>
+                                        {(Object.keys(ECF_ENVIRONMENT_LABELS) as AppSettings['ecfSettings']['environment'][]).map(env => <option key={env} value={env}>{ECF_ENVIRONMENT_LABELS[env]}</option>)}
+                                    </Select>
+                                </div>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Alertas de Comprobantes Fiscales</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Avisar cuando queden (comprobantes)</label>
+                                    <Input type="number" min="0" name="remainingWarningThreshold" data-category="ncfSettings" value={currentSettings.ncfSettings.remainingWarningThreshold} onChange={handleChange} />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Avisar días antes del vencimiento</label>
+                                    <Input type="number" min="0" name="expirationWarningDays" data-category="ncfSettings" value={currentSettings.ncfSettings.expirationWarningDays} onChange={handleChange} />
+                                </div>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Mantenimiento Preventivo</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Intervalo residencial (meses)</label>
+                                    <Input type="number" min="1" name="residentialIntervalMonths" data-category="maintenanceSettings" value={currentSettings.maintenanceSettings.residentialIntervalMonths} onChange={handleChange} />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Intervalo comercial (meses)</label>
+                                    <Input type="number" min="1" name="commercialIntervalMonths" data-category="maintenanceSettings" value={currentSettings.maintenanceSettings.commercialIntervalMonths} onChange={handleChange} />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Avisar con días de anticipación</label>
+                                    <Input type="number" min="1" name="upcomingDays" data-category="maintenanceSettings" value={currentSettings.maintenanceSettings.upcomingDays} onChange={handleChange} />
+                                </div>
+                            </div>
+                            <p className="text-sm text-gray-500 mt-2">Un intervalo definido en el servicio o en el equipo tiene prioridad sobre el del tipo de cliente.</p>
+                        </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Inventario</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Método de costeo</label>
+                                    <Select name="costingMethod" data-category="inventorySettings" value={currentSettings.inventorySettings.costingMethod} onChange={handleChange}>
+                                        {(Object.keys(COSTING_METHOD_LABELS) as CostingMethod[]).map(method => <option key={method} value={method}>{COSTING_METHOD_LABELS[method]}</option>)}
+                                    </Select>
+                                </div>
+                            </div>
+                            <p className="text-sm text-gray-500 mt-2">El costo de cada línea se registra al emitir la factura; cambiar el método solo afecta las salidas futuras.</p>
+                        </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Numeración de Documentos</h2>
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-left text-sm">
+                                    <thead>
+                                        <tr className="bg-gray-50 border-b">
+                                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Documento</th>
+                                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Prefijo</th>
+                                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Dígitos</th>
+                                            <th className="p-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">Incluir año</th>
+                                            <th className="p-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">Reiniciar cada año</th>
+                                            <th className="p-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Ejemplo</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {(Object.keys(DOCUMENT_SERIES_LABELS) as DocumentSeries[]).map(series => {
+                                            const format = currentSettings.numberingSettings[series];
+                                            return (
+                                                <tr key={series} className="border-b">
+                                                    <td className="p-3 font-medium">{DOCUMENT_SERIES_LABELS[series]}</td>
+                                                    <td className="p-3"><Input value={format.prefix} onChange={e => updateNumberFormat(series, { prefix: e.target.value.toUpperCase() })} className="w-24" /></td>
+                                                    <td className="p-3"><Input type="number" min="1" max="10" value={format.padding} onChange={e => updateNumberFormat(series, { padding: parseInt(e.target.value, 10) || 1 })} className="w-20" /></td>
+                                                    <td className="p-3 text-center">
+                                                        <input type="checkbox" checked={format.includeYear || format.yearlyReset} disabled={format.yearlyReset} onChange={e => updateNumberFormat(series, { includeYear: e.target.checked })} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                                    </td>
+                                                    <td className="p-3 text-center">
+                                                        <input type="checkbox" checked={format.yearlyReset} onChange={e => updateNumberFormat(series, { yearlyReset: e.target.checked, includeYear: e.target.checked || format.includeYear })} className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                                                    </td>
+                                                    <td className="p-3 font-mono">{formatDocumentNumber(format, new Date().getFullYear(), 1)}</td>
+                                                </tr>
+                                            );
+                                        })}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <p className="text-sm text-gray-500 mt-2">Los números no se reutilizan aunque se elimine un documento. Los cambios de formato solo afectan los documentos nuevos.</p>
+                        </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Respaldos</h2>
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                <div>
+                                    <label className="block text-sm font-medium text-gray-700 mb-1">Recordar respaldo cada (días)</label>
+                                    <Input type="number" min="0" name="reminderDays" data-category="backupSettings" value={currentSettings.backupSettings.reminderDays} onChange={handleChange} />
+                                </div>
+                            </div>
+                            <p className="text-sm text-gray-500 mt-2">Con 0 no se muestran recordatorios. El aviso aparece en el panel cuando pasa ese tiempo sin descargar un respaldo.</p>
+                        </div>
+
+                        <div>
+                            <h2 className="text-2xl font-bold text-gray-800 mb-4 border-b pb-2">Etapas de Cobro</h2>
+                            <p className="text-sm text-gray-500 mb-4">Variables disponibles: {'{cliente}'}, {'{factura}'}, {'{monto}'}, {'{vencimiento}'}, {'{dias}'}, {'{negocio}'}.</p>
+                            <div className="space-y-4">
+                                {currentSettings.dunningSettings.stages.map((stage, index) => (
+                                    <div key={stage.id} className="p-4 border rounded-lg bg-gray-50 space-y-2">
+                                        <div className="grid grid-cols-12 gap-4 items-center">
+                                            <div className="col-span-3">
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Días de atraso</label>
+                                                <Input type="number" min="1" value={stage.daysOverdue} onChange={e => handleStageChange(index, 'daysOverdue', parseInt(e.target.value, 10) || 1)} />
+                                            </div>
+                                            <div className="col-span-8">
+                                                <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+                                                <Input value={stage.name} onChange={e => handleStageChange(index, 'name', e.target.value)} required />
+                                            </div>
+                                            <div className="col-span-1 flex justify-end pt-6">
+                                                <button type="button" onClick={() => updateDunningStages(stages => stages.filter((_, i) => i !== index))} className="text-red-600 hover:text-red-800">{ICONS.trash}</button>
+                                            </div>
+                                        </div>
+                                        <Textarea rows={3} value={stage.message} onChange={e => handleStageChange(index, 'message', e.target.value)} />
+                                    </div>
+                                ))}
+                            </div>
+                            <button type="button" onClick={() => updateDunningStages(stages => [...stages, { id: generateId(), daysOverdue: 60, name: '', message: '' }])} className="mt-4 text-blue-600 hover:underline text-sm font-semibold">+ Añadir etapa</button>
+                        </div>
                     
-                    <div className="flex justify-end pt-4">
-                        <Button type="submit">Guardar Configuración</Button>
-                    </div>
-                </form>
-            </Card>
+                        <div className="flex justify-end gap-2 pt-4">
+                            <AuditHistoryButton entityType="settings" entityId="settings" title="Configuración" label="Historial" />
+                            <Button type="submit">Guardar Configuración</Button>
+                        </div>
+                    </form>
+                </Card>
+                <SequencesManager title="Secuencias de Comprobantes Fiscales (NCF)" label="NCF" sequences={ncfSequences} setSequences={setNcfSequences}
+                    typeLabels={NCF_TYPE_LABELS} defaultType="B02" formatNumber={formatNcf} entityType="ncfSequence" />
+                <SequencesManager title="Secuencias de Comprobantes Electrónicos (e-NCF)" label="e-NCF" sequences={ecfSequences} setSequences={setEcfSequences}
+                    typeLabels={ECF_TYPE_LABELS} defaultType="32" formatNumber={formatEcfNumber} entityType="ecfSequence" />
+                <DocumentNumberingCheck />
+                <BackupManager />
+            </div>
         );
     };
     
     const navItems = [
         { id: 'dashboard', label: 'Dashboard', icon: ICONS.dashboard },
         { id: 'clients', label: 'Clientes', icon: ICONS.clients },
+        { id: 'equipment', label: 'Equipos', icon: ICONS.equipment },
+        { id: 'quotes', label: 'Cotizaciones', icon: ICONS.quotes },
         { id: 'invoices', label: 'Facturas', icon: ICONS.invoices },
+        { id: 'contracts', label: 'Contratos', icon: ICONS.contracts },
+        { id: 'maintenance', label: 'Mantenimiento', icon: ICONS.calendar },
+        { id: 'workOrders', label: 'Órdenes de Trabajo', icon: ICONS.workOrders },
         { id: 'inventory', label: 'Inventario', icon: ICONS.inventory },
+        { id: 'purchases', label: 'Compras', icon: ICONS.purchases },
         { id: 'expenses', label: 'Gastos', icon: ICONS.money },
+        { id: 'collections', label: 'Cobros', icon: ICONS.bell },
         { id: 'reports', label: 'Reportes', icon: ICONS.reports },
         { id: 'settings', label: 'Configuración', icon: ICONS.settings },
     ];
@@ -1202,6 +7484,15 @@ export default function App() {
             onClick={(e) => {
                 e.preventDefault();
                 setCurrentPage(item.id);
+                setInvoicesView({ view: 'list', documentId: null });
+                setQuotesView({ view: 'list', documentId: null });
+                setContractsView({ view: 'list', documentId: null });
+                setEquipmentView({ view: 'list', documentId: null });
+                setEquipmentClientId('');
+                setWorkOrdersView({ view: 'list', documentId: null });
+                setPurchasesView({ view: 'list', documentId: null });
+                setInventoryTab('items');
+                setLowStockOnly(false);
             }}
             className={`flex items-center px-4 py-3 text-gray-200 hover:bg-gray-700 rounded-lg transition-colors duration-200 ${currentPage === item.id ? 'bg-gray-900' : ''}`}
         >
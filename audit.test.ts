@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { auditSingleRecord, getAuditLog, getRecordAuditTrail } from './audit';
+
+describe('auditSingleRecord', () => {
+    it('logs only the settings that changed, one level down', () => {
+        const before = { businessInfo: { name: 'Frío Total', logo: 'data:image/png;base64,AAAA' }, taxSettings: { itbisRate: 18 } };
+        const after = { ...before, businessInfo: { ...before.businessInfo, name: 'Frío Total SRL' } };
+        auditSingleRecord('settings', 'settings', 'Configuración general')(before, after);
+
+        const [entry] = getRecordAuditTrail('settings', 'settings');
+        expect(entry).toMatchObject({ action: 'update', entityLabel: 'Configuración general' });
+        expect(entry.changes).toEqual([{ field: 'businessInfo.name', before: 'Frío Total', after: 'Frío Total SRL' }]);
+    });
+
+    it('logs nothing when the value is unchanged', () => {
+        const settings = { taxSettings: { itbisRate: 18 } };
+        const count = getAuditLog().length;
+        auditSingleRecord('settings', 'settings', 'Configuración general')(settings, { taxSettings: { itbisRate: 18 } });
+        expect(getAuditLog()).toHaveLength(count);
+    });
+});
@@ -0,0 +1,92 @@
+import { appendToStoredList, getStoredValue } from './storage';
+import { AuditAction, AuditChange, AuditEntityType, AuditEntry } from './types';
+import { generateId } from './utils';
+
+// Audit trail: every save of an audited collection is compared with what was stored before, and each created, changed
+// or deleted record gets an entry with the old and new values of the fields involved. The log is append-only; nothing
+// in the app edits or removes entries.
+
+export const AUDIT_LOG_KEY = 'auditLog';
+
+type AuditedRecord = { id: string } & object;
+
+// First field present on the record that identifies it to a person.
+const LABEL_FIELDS = ['invoiceNumber', 'creditNoteNumber', 'quoteNumber', 'workOrderNumber', 'purchaseOrderNumber', 'contractNumber', 'name', 'description', 'reference', 'stageName', 'series'];
+
+const getRecordLabel = (record: AuditedRecord) => {
+    const values = record as Record<string, unknown>;
+    const field = LABEL_FIELDS.find(key => typeof values[key] === 'string' && values[key] !== '');
+    return field ? String(values[field]) : record.id;
+};
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const getChanges = (before: AuditedRecord | undefined, after: AuditedRecord | undefined): AuditChange[] => {
+    const previous = (before || {}) as Record<string, unknown>;
+    const next = (after || {}) as Record<string, unknown>;
+    return Array.from(new Set([...Object.keys(previous), ...Object.keys(next)]))
+        .filter(field => field !== 'id' && !isSameValue(previous[field], next[field]))
+        .map(field => ({ field, before: previous[field], after: next[field] }));
+};
+
+// Compares two versions of a collection by id.
+export const diffCollection = (entityType: AuditEntityType, before: AuditedRecord[], after: AuditedRecord[], timestamp = new Date().toISOString()): AuditEntry[] => {
+    const previousById = new Map(before.map(record => [record.id, record]));
+    const nextIds = new Set(after.map(record => record.id));
+    const entry = (record: AuditedRecord, action: AuditAction, changes: AuditChange[]): AuditEntry => ({
+        id: generateId(),
+        entityType,
+        entityId: record.id,
+        entityLabel: getRecordLabel(record),
+        action,
+        timestamp,
+        changes,
+    });
+
+    const saved = after.flatMap(record => {
+        const previous = previousById.get(record.id);
+        if (!previous) return [entry(record, 'create', getChanges(undefined, record))];
+        if (previous === record) return [];
+        const changes = getChanges(previous, record);
+        if (changes.length === 0) return [];
+        return [entry(record, changes.some(change => change.field === 'status') ? 'status' : 'update', changes)];
+    });
+    const deleted = before.filter(record => !nextIds.has(record.id)).map(record => entry(record, 'delete', getChanges(record, undefined)));
+    return [...saved, ...deleted];
+};
+
+// `onChange` callback for usePersistentState that records the differences in the audit log.
+export const auditCollection = <T extends AuditedRecord>(entityType: AuditEntityType) => (before: T[], after: T[]) => {
+    const entries = diffCollection(entityType, before, after);
+    if (entries.length > 0) appendToStoredList(AUDIT_LOG_KEY, entries);
+};
+
+// A restore writes every collection at once, bypassing `auditCollection`, so it is logged as a single entry instead.
+export const backupEntry = (action: 'restore' | 'merge', entityId: string, entityLabel: string, changes: AuditChange[]): AuditEntry => ({
+    id: generateId(),
+    entityType: 'backup',
+    entityId,
+    entityLabel,
+    action,
+    timestamp: new Date().toISOString(),
+    changes,
+});
+
+// Nested sections become `section.field`, so changing one setting doesn't copy the whole section (or the logo) into the log.
+const flattenRecord = (value: object) => Object.fromEntries(Object.entries(value).flatMap(([key, field]) => (
+    field && typeof field === 'object' && !Array.isArray(field)
+        ? Object.entries(field).map(([subKey, subField]) => [`${key}.${subKey}`, subField])
+        : [[key, field]]
+)));
+
+// `onChange` callback for a value stored as a single object, such as the settings.
+export const auditSingleRecord = <T extends object>(entityType: AuditEntityType, entityId: string, entityLabel: string) => (before: T, after: T) => {
+    const entries = diffCollection(entityType, [{ ...flattenRecord(before), id: entityId }], [{ ...flattenRecord(after), id: entityId }])
+        .map(entry => ({ ...entry, entityLabel }));
+    if (entries.length > 0) appendToStoredList(AUDIT_LOG_KEY, entries);
+};
+
+export const getAuditLog = () => getStoredValue<AuditEntry[]>(AUDIT_LOG_KEY, []);
+
+export const getRecordAuditTrail = (entityType: AuditEntityType, entityId: string) =>
+    getAuditLog().filter(entry => entry.entityType === entityType && entry.entityId === entityId);
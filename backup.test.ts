@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { buildRestoreData, mergeData, previewRestore } from './backup';
+
+const current = {
+    invoices: [
+        { id: 'a', invoiceNumber: 'INV-0001', status: 'Anulada' },
+        { id: 'b', invoiceNumber: 'INV-0002', status: 'Pagada' },
+    ],
+    ncfSequences: [{ id: 's1', type: 'B02', nextNumber: 40 }],
+    documentCounters: [{ id: 'invoice', series: 'invoice', lastNumber: 2 }],
+};
+
+// An older backup: the void and the payment hadn't happened yet and the sequences were further back.
+const incoming = {
+    invoices: [
+        { id: 'a', invoiceNumber: 'INV-0001', status: 'Enviada' },
+        { id: 'c', invoiceNumber: 'INV-0003', status: 'Enviada' },
+    ],
+    ncfSequences: [{ id: 's1', type: 'B02', nextNumber: 12 }, { id: 's2', type: 'B01', nextNumber: 5 }],
+    documentCounters: [{ id: 'invoice', series: 'invoice', lastNumber: 7 }],
+};
+
+describe('mergeData', () => {
+    it('keeps the current version of records present on both sides', () => {
+        const merged = mergeData(current, incoming);
+        expect(merged.invoices).toEqual([current.invoices[0], current.invoices[1], incoming.invoices[1]]);
+    });
+
+    it('never moves sequence positions backwards', () => {
+        const merged = mergeData(current, incoming);
+        expect(merged.ncfSequences).toEqual([{ id: 's1', type: 'B02', nextNumber: 40 }, { id: 's2', type: 'B01', nextNumber: 5 }]);
+        expect(merged.documentCounters).toEqual([{ id: 'invoice', series: 'invoice', lastNumber: 7 }]);
+    });
+});
+
+describe('previewRestore', () => {
+    it('reports merge conflicts and raised positions', () => {
+        const rows = previewRestore(current, incoming, 'merge');
+        expect(rows.find(row => row.key === 'invoices')).toMatchObject({ added: 1, updated: 0, removed: 0, conflicts: ['INV-0001'] });
+        expect(rows.find(row => row.key === 'ncfSequences')).toMatchObject({ added: 1, updated: 0, conflicts: ['B02'] });
+        expect(rows.find(row => row.key === 'documentCounters')).toMatchObject({ updated: 1, conflicts: [] });
+    });
+
+    it('counts overwritten and removed records when replacing', () => {
+        const rows = previewRestore(current, incoming, 'replace');
+        expect(rows.find(row => row.key === 'invoices')).toMatchObject({ added: 1, updated: 1, removed: 1, conflicts: [] });
+    });
+});
+
+describe('buildRestoreData', () => {
+    const backup = {
+        format: 'facturahvac-backup' as const,
+        formatVersion: 1,
+        schemaVersion: 1,
+        createdAt: '2026-01-15T12:00:00.000Z',
+        checksum: 'abc',
+        data: { ...incoming, auditLog: [{ id: 'e1', action: 'create' }, { id: 'e0', action: 'create' }] },
+    };
+    const withLog = { ...current, auditLog: [{ id: 'e1', action: 'create' }, { id: 'e2', action: 'delete' }] };
+
+    it('keeps the audit log on replace and records the restore', () => {
+        const restored = buildRestoreData(withLog, backup, 'replace', 'respaldo.json');
+        expect(restored.invoices).toEqual(incoming.invoices);
+        const log = restored.auditLog as { id: string; action: string; entityType?: string; changes?: unknown[] }[];
+        expect(log.slice(0, 3).map(entry => entry.id)).toEqual(['e1', 'e2', 'e0']);
+        expect(log[3]).toMatchObject({ entityType: 'backup', entityId: 'abc', action: 'restore' });
+        expect(log[3].changes).toContainEqual({ field: 'invoices', before: 2, after: 2 });
+    });
+
+    it('never moves sequence positions backwards on replace', () => {
+        const ahead = {
+            ...withLog,
+            ncfSequences: [{ id: 's1', type: 'B02', nextNumber: 40, endNumber: 100 }, { id: 's3', type: 'B14', nextNumber: 3 }],
+            documentCounters: [{ id: 'invoice', series: 'invoice', lastNumber: 2 }, { id: 'quote', series: 'quote', lastNumber: 9 }],
+        };
+        const restored = buildRestoreData(ahead, backup, 'replace', 'respaldo.json');
+        expect(restored.ncfSequences).toEqual([
+            { id: 's1', type: 'B02', nextNumber: 40 },
+            { id: 's2', type: 'B01', nextNumber: 5 },
+            { id: 's3', type: 'B14', nextNumber: 3 },
+        ]);
+        expect(restored.documentCounters).toEqual([
+            { id: 'invoice', series: 'invoice', lastNumber: 7 },
+            { id: 'quote', series: 'quote', lastNumber: 9 },
+        ]);
+        expect(previewRestore(ahead, backup.data, 'replace').find(row => row.key === 'ncfSequences')).toMatchObject({ removed: 0 });
+    });
+
+    it('records a merge', () => {
+        const restored = buildRestoreData(withLog, backup, 'merge', 'respaldo.json');
+        const log = restored.auditLog as { action: string; changes?: unknown[] }[];
+        expect(log[log.length - 1]).toMatchObject({ action: 'merge' });
+        expect(log[log.length - 1].changes).toContainEqual({ field: 'invoices', before: 2, after: 3 });
+    });
+});
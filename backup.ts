@@ -0,0 +1,167 @@
+import { SCHEMA_VERSION, StoredData, runMigrations } from './storage';
+import { AUDIT_LOG_KEY, backupEntry } from './audit';
+
+// Backup files: every stored collection in one JSON document, with the schema version it was written with and a
+// SHA-256 checksum of the data so a truncated or hand-edited file is rejected before anything is overwritten.
+
+const BACKUP_FORMAT = 'facturahvac-backup';
+const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    formatVersion: number;
+    schemaVersion: number;
+    createdAt: string;
+    checksum: string;
+    data: StoredData;
+}
+
+export type RestoreMode = 'replace' | 'merge';
+
+export interface RestorePreviewRow {
+    key: string;
+    current: number;
+    incoming: number;
+    added: number;
+    updated: number;
+    removed: number;
+    // Merge only: records in both with different content; the current version is kept. Listed by number or name.
+    conflicts: string[];
+}
+
+// Collections that are a single object rather than a list of records.
+const SINGLE_RECORD_KEYS = ['settings'];
+
+// Append-only lists: not even a replace removes entries from them; the backup's entries that aren't here yet are added.
+const APPEND_ONLY_KEYS = [AUDIT_LOG_KEY];
+
+const sha256 = async (text: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const createBackup = async (data: StoredData): Promise<BackupFile> => ({
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+});
+
+// Validates a backup file and brings its data up to the current schema. Throws with a message meant for the user.
+export const parseBackup = async (text: string): Promise<BackupFile> => {
+    let backup: BackupFile;
+    try {
+        backup = JSON.parse(text);
+    } catch {
+        throw new Error('El archivo no es un respaldo válido (JSON ilegible).');
+    }
+    if (!backup || backup.format !== BACKUP_FORMAT || typeof backup.data !== 'object' || backup.data === null) {
+        throw new Error('El archivo no es un respaldo de esta aplicación.');
+    }
+    if (backup.formatVersion > BACKUP_FORMAT_VERSION || backup.schemaVersion > SCHEMA_VERSION) {
+        throw new Error('El respaldo fue creado por una versión más reciente de la aplicación.');
+    }
+    if (await sha256(JSON.stringify(backup.data)) !== backup.checksum) {
+        throw new Error('La suma de verificación no coincide: el archivo está dañado o fue modificado.');
+    }
+    Object.entries(backup.data).forEach(([key, value]) => {
+        const valid = SINGLE_RECORD_KEYS.includes(key) ? typeof value === 'object' && value !== null && !Array.isArray(value) : Array.isArray(value);
+        if (!valid) throw new Error(`El respaldo contiene datos con formato inválido en "${key}".`);
+    });
+    return { ...backup, data: runMigrations(backup.data, backup.schemaVersion) };
+};
+
+type StoredRecord = { id?: string } & Record<string, unknown>;
+
+// Sequence positions that must never move backwards, whether merging or replacing: an older backup would otherwise hand
+// out NCFs or document numbers that were already used.
+const POSITION_FIELDS: Record<string, string> = {
+    ncfSequences: 'nextNumber',
+    ecfSequences: 'nextNumber',
+    documentCounters: 'lastNumber',
+};
+
+const LABEL_FIELDS = ['invoiceNumber', 'creditNoteNumber', 'quoteNumber', 'workOrderNumber', 'purchaseOrderNumber', 'contractNumber', 'name', 'description', 'type', 'series'];
+
+const getRecords = (data: StoredData, key: string) => (Array.isArray(data[key]) ? data[key] as StoredRecord[] : []);
+
+const getRecordLabel = (record: StoredRecord) => String(record[LABEL_FIELDS.find(field => record[field]) || 'id']);
+
+const isSameRecord = (a: StoredRecord, b: StoredRecord) => JSON.stringify(a) === JSON.stringify(b);
+
+// A record present in both: the current version wins, except that its sequence position takes the higher of the two.
+const mergeRecord = (key: string, current: StoredRecord, incoming: StoredRecord): StoredRecord => {
+    const field = POSITION_FIELDS[key];
+    if (!field || !(Number(incoming[field]) > Number(current[field]))) return current;
+    return { ...current, [field]: incoming[field] };
+};
+
+const mergeRecords = (key: string, current: StoredRecord[], incoming: StoredRecord[]) => {
+    const incomingById = new Map(incoming.map(record => [record.id, record]));
+    const currentIds = new Set(current.map(record => record.id));
+    return [
+        ...current.map(record => (incomingById.has(record.id) ? mergeRecord(key, record, incomingById.get(record.id)!) : record)),
+        ...incoming.filter(record => !currentIds.has(record.id)),
+    ];
+};
+
+// Merging only adds what the app doesn't have: records from the backup with a new id. Records in both keep their current
+// version, so an older backup can't undo a payment or a void, and sequence positions never go back. Settings are kept too.
+export const mergeData = (current: StoredData, incoming: StoredData): StoredData => {
+    const merged: StoredData = { ...current };
+    Object.keys(incoming).forEach(key => {
+        if (SINGLE_RECORD_KEYS.includes(key)) {
+            if (!(key in current)) merged[key] = incoming[key];
+            return;
+        }
+        merged[key] = mergeRecords(key, getRecords(current, key), getRecords(incoming, key));
+    });
+    return merged;
+};
+
+export const previewRestore = (current: StoredData, incoming: StoredData, mode: RestoreMode): RestorePreviewRow[] => Array
+    .from(new Set([...Object.keys(current), ...Object.keys(incoming)]))
+    .filter(key => !SINGLE_RECORD_KEYS.includes(key))
+    .map(key => {
+        const currentRecords = getRecords(current, key);
+        const incomingRecords = getRecords(incoming, key);
+        const keyMode = APPEND_ONLY_KEYS.includes(key) ? 'merge' : mode;
+        const currentById = new Map(currentRecords.map(record => [record.id, record]));
+        const incomingIds = new Set(incomingRecords.map(record => record.id));
+        const shared = incomingRecords
+            .filter(record => currentById.has(record.id))
+            .map(record => ({ current: currentById.get(record.id)!, incoming: record }))
+            .filter(pair => !isSameRecord(pair.current, pair.incoming));
+        const merged = shared.map(pair => ({ ...pair, merged: mergeRecord(key, pair.current, pair.incoming) }));
+        return {
+            key,
+            current: currentRecords.length,
+            incoming: incomingRecords.length,
+            added: incomingRecords.filter(record => !currentById.has(record.id)).length,
+            updated: keyMode === 'replace' ? shared.length : merged.filter(pair => pair.merged !== pair.current).length,
+            removed: keyMode === 'replace' && !POSITION_FIELDS[key] ? currentRecords.filter(record => !incomingIds.has(record.id)).length : 0,
+            conflicts: keyMode === 'replace' ? [] : merged.filter(pair => !isSameRecord(pair.merged, pair.incoming)).map(pair => getRecordLabel(pair.current)),
+        };
+    })
+    .filter(row => row.current > 0 || row.incoming > 0);
+
+// Everything a restore writes: the backup's data or its merge with the current data, the current audit log plus any
+// entries only the backup has, and one more entry recording the restore with the record counts it changed. A replace
+// still keeps the higher sequence positions, and the current ones the backup doesn't have.
+export const buildRestoreData = (current: StoredData, backup: BackupFile, mode: RestoreMode, fileName: string): StoredData => {
+    const restored = mode === 'replace' ? { ...backup.data } : mergeData(current, backup.data);
+    if (mode === 'replace') {
+        Object.keys(POSITION_FIELDS)
+            .filter(key => key in current)
+            .forEach(key => { restored[key] = mergeRecords(key, getRecords(backup.data, key), getRecords(current, key)); });
+    }
+    APPEND_ONLY_KEYS.forEach(key => { restored[key] = mergeRecords(key, getRecords(current, key), getRecords(backup.data, key)); });
+    const changes = previewRestore(current, backup.data, mode)
+        .filter(row => !APPEND_ONLY_KEYS.includes(row.key) && row.added + row.updated + row.removed > 0)
+        .map(row => ({ field: row.key, before: row.current, after: getRecords(restored, row.key).length }));
+    const label = `${fileName} (${new Date(backup.createdAt).toLocaleString('es-ES')})`;
+    restored[AUDIT_LOG_KEY] = [...getRecords(restored, AUDIT_LOG_KEY), backupEntry(mode === 'replace' ? 'restore' : 'merge', backup.checksum, label, changes)];
+    return restored;
+};
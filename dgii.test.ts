@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import { DGII_606_COLUMNS, DGII_607_COLUMNS, DGII_608_COLUMNS, build606, build607, build608, get606Cells, get607Cells, to606Txt, to607Txt, to608Txt } from './dgii';
+import { Client, CreditNote, Expense, Invoice, Payment } from './types';
+
+const TAX_RATES = { itbisRate: 18, reducedItbisRate: 16 };
+
+const client = (id: string, taxId?: string): Client =>
+    ({ id, name: `Cliente ${id}`, address: '', phone: '', email: '', createdAt: '2026-01-01', type: 'Comercial', taxId });
+
+const clients = [client('rnc', '101-12345-6'), client('consumer'), client('bad', '12345')];
+
+// 10,000 + 18% ITBIS = 11,800 unless the price says otherwise.
+const invoice = (id: string, overrides: Partial<Invoice> = {}): Invoice => ({
+    id,
+    clientId: 'rnc',
+    invoiceNumber: `FAC-${id}`,
+    issueDate: '2026-03-05',
+    dueDate: '2026-04-04',
+    items: [{ id: 'l1', description: 'Mantenimiento', quantity: 1, unitPrice: 10000, taxType: 'Gravado' }],
+    status: 'Enviada',
+    ncf: 'B0100000001',
+    ncfType: 'B01',
+    taxRates: TAX_RATES,
+    ...overrides,
+});
+
+const payment = (id: string, amount: number, date: string, method: Payment['method']): Payment =>
+    ({ id, invoiceId: 'inv', date, amount, method, createdAt: `${date}T12:00:00.000Z` });
+
+describe('build607', () => {
+    it('splits payments received in the period by method and reports the rest as credit', () => {
+        const payments = [
+            payment('p1', 5000, '2026-03-10', 'Efectivo'),
+            payment('p2', 1800, '2026-03-20', 'Transferencia'),
+            payment('p3', 2000, '2026-04-02', 'Tarjeta'),
+        ];
+        const { rows, rejected } = build607([invoice('inv')], clients, payments, [], '2026-03');
+        expect(rejected).toEqual([]);
+        expect(rows).toHaveLength(1);
+        expect(rows[0]).toMatchObject({
+            taxId: '101123456',
+            taxIdType: '1',
+            ncf: 'B0100000001',
+            incomeType: '01',
+            paymentDate: '2026-03-20',
+            invoicedAmount: 10000,
+            itbis: 1800,
+            cash: 5000,
+            bankTransfer: 1800,
+            card: 0,
+            credit: 5000,
+        });
+    });
+
+    it('leaves out drafts and invoices issued in other months', () => {
+        const invoices = [invoice('draft', { status: 'Borrador' }), invoice('april', { issueDate: '2026-04-01' })];
+        expect(build607(invoices, clients, [], [], '2026-03')).toEqual({ rows: [], rejected: [] });
+    });
+
+    it('leaves voided invoices to the 608 only for the month they were voided in', () => {
+        const invoices = [
+            invoice('march', { status: 'Anulada', voidedAt: '2026-03-25T10:00:00.000Z' }),
+            invoice('april', { ncf: 'B0100000002', status: 'Anulada', voidedAt: '2026-04-03T10:00:00.000Z' }),
+        ];
+        expect(build607(invoices, clients, [], [], '2026-03').rows.map(row => row.id)).toEqual(['april']);
+    });
+
+    it('takes the latest payment in the period as the payment date, whatever order they were stored in', () => {
+        const payments = [payment('p2', 1000, '2026-03-28', 'Efectivo'), payment('p1', 1000, '2026-03-12', 'Efectivo')];
+        expect(build607([invoice('inv')], clients, payments, [], '2026-03').rows[0].paymentDate).toBe('2026-03-28');
+    });
+
+    it('rejects invoices without a valid NCF or buyer identification', () => {
+        const invoices = [
+            invoice('no-ncf', { ncf: undefined }),
+            invoice('bad-ncf', { ncf: 'B01-0001' }),
+            invoice('no-id', { clientId: 'consumer' }),
+            invoice('bad-id', { clientId: 'bad' }),
+            invoice('no-client', { clientId: 'missing' }),
+        ];
+        const { rows, rejected } = build607(invoices, clients, [], [], '2026-03');
+        expect(rows).toEqual([]);
+        expect(rejected.map(row => [row.id, row.errors])).toEqual([
+            ['no-ncf', ['La factura no tiene NCF.']],
+            ['bad-ncf', ['El NCF B01-0001 no tiene un formato válido.']],
+            ['no-id', ['El cliente no tiene RNC/cédula.']],
+            ['bad-id', ['El RNC/cédula del cliente no es válido.']],
+            ['no-client', ['El cliente no existe.', 'El cliente no tiene RNC/cédula.']],
+        ]);
+    });
+
+    it('accepts anonymous consumer invoices only below the identification threshold', () => {
+        const consumer = { clientId: 'consumer', ncfType: 'B02' as const, ncf: 'B0200000001' };
+        const large = { ...consumer, ncf: 'B0200000002', items: [{ id: 'l1', description: 'Equipo', quantity: 1, unitPrice: 250000 }] };
+        const { rows, rejected } = build607([invoice('small', consumer), invoice('large', large)], clients, [], [], '2026-03');
+        expect(rows.map(row => [row.id, row.taxId, row.taxIdType])).toEqual([['small', '', '']]);
+        expect(rejected.map(row => row.id)).toEqual(['large']);
+    });
+
+    it('reports credit notes issued in the period against the NCF they modify', () => {
+        const creditNote: CreditNote = {
+            id: 'cn',
+            creditNoteNumber: 'NC-0001',
+            invoiceId: 'inv',
+            clientId: 'rnc',
+            issueDate: '2026-03-15',
+            reason: 'Descuento',
+            items: [{ id: 'l1', description: 'Descuento', quantity: 1, unitPrice: 1000, taxType: 'Gravado' }],
+            taxRates: TAX_RATES,
+            ncf: 'B0400000001',
+            ncfType: 'B04',
+            createdAt: '2026-03-15T12:00:00.000Z',
+        };
+        const { rows } = build607([invoice('inv', { issueDate: '2026-02-20' })], clients, [], [creditNote], '2026-03');
+        expect(rows).toEqual([expect.objectContaining({ id: 'cn', ncf: 'B0400000001', modifiedNcf: 'B0100000001', invoicedAmount: 1000, itbis: 180, credit: 1180 })]);
+    });
+});
+
+describe('build608', () => {
+    it('lists NCFs voided in the period, ordered by NCF, defaulting the reason code to 04', () => {
+        const invoices = [
+            invoice('b', { ncf: 'B0100000009', status: 'Anulada', voidedAt: '2026-03-20', voidReasonCode: '05' }),
+            invoice('a', { ncf: 'B0100000003', status: 'Anulada', voidedAt: '2026-03-02' }),
+            invoice('april', { ncf: 'B0100000010', status: 'Anulada', voidedAt: '2026-04-01' }),
+            invoice('live', { ncf: 'B0100000011' }),
+        ];
+        expect(build608(invoices, '2026-03').map(row => [row.ncf, row.reasonCode])).toEqual([['B0100000003', '04'], ['B0100000009', '05']]);
+    });
+});
+
+// 10,000 plus 1,800 ITBIS, paid by transfer.
+const expense = (id: string, overrides: Partial<Expense> = {}): Expense => ({
+    id,
+    description: 'Compresores',
+    amount: 11800,
+    date: '2026-03-08',
+    category: 'Materiales',
+    supplierName: 'Suplidora Frío',
+    supplierTaxId: '1-31-98765-4',
+    supplierNcf: 'B0100000321',
+    itbisPaid: 1800,
+    paymentMethod: 'Cheque/Transferencia',
+    ...overrides,
+});
+
+describe('build606', () => {
+    it('reports the amount before ITBIS as goods or services', () => {
+        const { rows, rejected } = build606([expense('goods'), expense('services', { category: 'Marketing', date: '2026-03-09' })], '2026-03');
+        expect(rejected).toEqual([]);
+        expect(rows.map(row => [row.expense.id, row.expenseType, row.goodsAmount, row.servicesAmount, row.itbis, row.paymentCode])).toEqual([
+            ['goods', '09', 10000, 0, 1800, '02'],
+            ['services', '02', 0, 10000, 1800, '02'],
+        ]);
+    });
+
+    it('accepts electronic supplier NCFs and ignores other months', () => {
+        const { rows } = build606([expense('ecf', { supplierNcf: 'E310000000001' }), expense('april', { date: '2026-04-01' })], '2026-03');
+        expect(rows.map(row => row.ncf)).toEqual(['E310000000001']);
+    });
+
+    it('rejects expenses the DGII would not accept', () => {
+        const expenses = [
+            expense('no-rnc', { supplierTaxId: undefined }),
+            expense('bad-rnc', { supplierTaxId: '1234' }),
+            expense('no-ncf', { supplierNcf: undefined }),
+            expense('bad-ncf', { supplierNcf: 'B01321' }),
+            expense('itbis', { itbisPaid: 11800 }),
+            expense('withheld', { itbisWithheld: 2000, paymentDate: '2026-03-10' }),
+            expense('no-payment-date', { itbisWithheld: 540 }),
+            expense('no-isr-type', { isrWithheld: 1000, paymentDate: '2026-03-10' }),
+            expense('no-method', { paymentMethod: undefined }),
+        ];
+        const { rows, rejected } = build606(expenses, '2026-03');
+        expect(rows).toEqual([]);
+        expect(rejected.map(row => [row.id, row.errors])).toEqual([
+            ['no-rnc', ['El proveedor no tiene RNC/cédula.']],
+            ['bad-rnc', ['El RNC/cédula del proveedor no es válido.']],
+            ['no-ncf', ['El gasto no tiene NCF del proveedor.']],
+            ['bad-ncf', ['El NCF B01321 no tiene un formato válido.']],
+            ['itbis', ['El ITBIS pagado debe ser menor que el monto del gasto.']],
+            ['withheld', ['El ITBIS retenido no puede superar el ITBIS facturado.']],
+            ['no-payment-date', ['Las retenciones requieren la fecha de pago.']],
+            ['no-isr-type', ['Indique el tipo de retención de ISR.']],
+            ['no-method', ['Indique la forma de pago.']],
+        ]);
+    });
+});
+
+describe('TXT layout', () => {
+    it('writes the 607 header, one pipe-separated line per row and CRLF line breaks', () => {
+        const { rows } = build607([invoice('inv')], clients, [payment('p1', 11800, '2026-03-10', 'Efectivo')], [], '2026-03');
+        const lines = to607Txt(rows, '1-30-12345-6', '2026-03').split('\r\n');
+        expect(lines[0]).toBe('607|130123456|202603|1');
+        expect(lines).toHaveLength(2);
+        expect(get607Cells(rows[0])).toHaveLength(DGII_607_COLUMNS.length);
+        expect(lines[1]).toBe('101123456|1|B0100000001||01|20260305||10000.00|1800.00||||||||11800.00|0.00|0.00|0.00|||0.00');
+    });
+
+    it('writes an empty 608 as a header with a zero count', () => {
+        expect(to608Txt([], '130123456', '2026-03')).toBe('608|130123456|202603|0');
+    });
+
+    it('writes the 608 columns in order', () => {
+        const rows = build608([invoice('a', { status: 'Anulada', voidedAt: '2026-03-02', voidReasonCode: '02' })], '2026-03');
+        const lines = to608Txt(rows, '130123456', '2026-03').split('\r\n');
+        expect(lines).toEqual(['608|130123456|202603|1', 'B0100000001|20260305|02']);
+        expect(lines[1].split('|')).toHaveLength(DGII_608_COLUMNS.length);
+    });
+
+    it('writes the 606 header and columns, with withholdings and the payment date', () => {
+        const withheld = expense('e1', { itbisWithheld: 540, isrWithheld: 1000, isrWithholdingType: '02', paymentDate: '2026-03-20' });
+        const { rows } = build606([withheld], '2026-03');
+        const lines = to606Txt(rows, '130123456', '2026-03').split('\r\n');
+        expect(lines[0]).toBe('606|130123456|202603|1');
+        expect(get606Cells(rows[0])).toHaveLength(DGII_606_COLUMNS.length);
+        expect(lines[1]).toBe('131987654|1|09|B0100000321||20260308|20260320|0.00|10000.00|10000.00|1800.00|540.00|0.00|0.00|1800.00||02|1000.00|||||02');
+    });
+});
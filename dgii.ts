@@ -0,0 +1,352 @@
+import { Client, CreditNote, DgiiExpenseType, Expense, ExpensePaymentMethod, Invoice, Payment, PaymentMethod, VoidReasonCode } from './types';
+import { cleanTaxId } from './ncf';
+import { getInvoicePayments } from './payments';
+import { calculateInvoiceTotals } from './tax';
+import { roundCurrency } from './utils';
+
+// DGII monthly filings: 607 (sales), 608 (voided NCFs) and 606 (purchases), as rows for review and as the pipe-separated
+// TXT files the DGII Office Virtual accepts.
+
+export const toDgiiDate = (date: string) => date.replace(/-/g, '');
+export const toDgiiPeriod = (month: string) => month.replace('-', '');
+export const toDgiiAmount = (amount: number) => amount.toFixed(2);
+
+// DGII identification type: 1 = RNC, 2 = cédula.
+export const getTaxIdType = (taxId?: string) => {
+    const digits = cleanTaxId(taxId).length;
+    return digits === 9 ? '1' : digits === 11 ? '2' : '';
+};
+
+// Consumer invoices below this amount may be reported without the buyer's identification.
+export const CONSUMER_ID_THRESHOLD = 250000;
+
+export interface Dgii607Row {
+    id: string;
+    clientName: string;
+    taxId: string;
+    taxIdType: string;
+    ncf: string;
+    modifiedNcf: string;
+    incomeType: string;
+    issueDate: string;
+    retentionDate: string;
+    paymentDate: string;
+    invoicedAmount: number;
+    itbis: number;
+    cash: number;
+    bankTransfer: number;
+    card: number;
+    credit: number;
+    other: number;
+}
+
+export interface DgiiRowError {
+    id: string;
+    document: string;
+    party: string;
+    errors: string[];
+}
+
+export const DGII_607_COLUMNS = [
+    'RNC/Cédula', 'Tipo Id.', 'NCF', 'NCF Modificado', 'Tipo de Ingreso', 'Fecha Comprobante', 'Fecha Retención',
+    'Monto Facturado', 'ITBIS Facturado', 'ITBIS Retenido por Terceros', 'ITBIS Percibido', 'Retención Renta por Terceros',
+    'ISR Percibido', 'Impuesto Selectivo al Consumo', 'Otros Impuestos/Tasas', 'Monto Propina Legal', 'Efectivo',
+    'Cheque/Transferencia/Depósito', 'Tarjeta Débito/Crédito', 'Venta a Crédito', 'Bonos o Certificados de Regalo', 'Permuta',
+    'Otras Formas de Venta',
+];
+
+// Invoices voided within the period go to the 608 instead; one voided in a later month was valid when this period was
+// filed and is still reported.
+export const build607 = (invoices: Invoice[], clients: Client[], payments: Payment[], creditNotes: CreditNote[], period: string) => {
+    const rows: Dgii607Row[] = [];
+    const rejected: DgiiRowError[] = [];
+
+    invoices
+        .filter(inv => inv.status !== 'Borrador' && inv.issueDate.startsWith(period))
+        .filter(inv => inv.status !== 'Anulada' || (inv.voidedAt !== undefined && !inv.voidedAt.startsWith(period)))
+        .sort((a, b) => a.issueDate.localeCompare(b.issueDate))
+        .forEach(invoice => {
+            const client = clients.find(c => c.id === invoice.clientId);
+            const totals = calculateInvoiceTotals(invoice);
+            const errors: string[] = [];
+            const taxId = cleanTaxId(client?.taxId);
+
+            if (!client) errors.push('El cliente no existe.');
+            if (!invoice.ncf) {
+                errors.push('La factura no tiene NCF.');
+            } else if (!/^B\d{10}$/.test(invoice.ncf)) {
+                errors.push(`El NCF ${invoice.ncf} no tiene un formato válido.`);
+            }
+            if (taxId && !getTaxIdType(taxId)) {
+                errors.push('El RNC/cédula del cliente no es válido.');
+            } else if (!taxId && (invoice.ncfType !== 'B02' || totals.total >= CONSUMER_ID_THRESHOLD)) {
+                errors.push('El cliente no tiene RNC/cédula.');
+            }
+            if (totals.subtotal <= 0) errors.push('El monto facturado debe ser mayor que cero.');
+
+            if (errors.length > 0) {
+                rejected.push({ id: invoice.id, document: invoice.ncf || invoice.invoiceNumber, party: client?.name || 'N/A', errors });
+                return;
+            }
+
+            // Only payments received in the period: later ones must not change a month that may already have been filed.
+            const invoicePayments = getInvoicePayments(invoice.id, payments).filter(p => p.date.startsWith(period));
+            const paidBy = (...methods: PaymentMethod[]) => roundCurrency(invoicePayments.filter(p => methods.includes(p.method)).reduce((sum, p) => sum + p.amount, 0));
+            rows.push({
+                id: invoice.id,
+                clientName: client!.name,
+                taxId,
+                taxIdType: getTaxIdType(taxId),
+                ncf: invoice.ncf!,
+                modifiedNcf: '',
+                incomeType: '01',
+                issueDate: invoice.issueDate,
+                retentionDate: '',
+                paymentDate: [...invoicePayments].sort((a, b) => a.date.localeCompare(b.date)).pop()?.date || '',
+                invoicedAmount: totals.subtotal,
+                itbis: totals.totalItbis,
+                cash: paidBy('Efectivo'),
+                bankTransfer: paidBy('Transferencia', 'Cheque'),
+                card: paidBy('Tarjeta'),
+                // Whatever was not paid within the period counts as a credit sale, including amounts later cancelled by credit notes.
+                credit: Math.max(0, roundCurrency(totals.total - invoicePayments.reduce((sum, p) => sum + p.amount, 0))),
+                other: 0,
+            });
+        });
+
+    creditNotes
+        .filter(cn => cn.issueDate.startsWith(period))
+        .forEach(creditNote => {
+            const client = clients.find(c => c.id === creditNote.clientId);
+            const invoice = invoices.find(inv => inv.id === creditNote.invoiceId);
+            const totals = calculateInvoiceTotals(creditNote);
+            const taxId = cleanTaxId(client?.taxId);
+            const errors: string[] = [];
+
+            if (!client) errors.push('El cliente no existe.');
+            if (!invoice?.ncf) errors.push('La factura afectada no tiene NCF.');
+            if (taxId && !getTaxIdType(taxId)) errors.push('El RNC/cédula del cliente no es válido.');
+            else if (!taxId && (invoice?.ncfType !== 'B02' || totals.total >= CONSUMER_ID_THRESHOLD)) errors.push('El cliente no tiene RNC/cédula.');
+
+            if (errors.length > 0) {
+                rejected.push({ id: creditNote.id, document: creditNote.ncf, party: client?.name || 'N/A', errors });
+                return;
+            }
+
+            rows.push({
+                id: creditNote.id,
+                clientName: client!.name,
+                taxId,
+                taxIdType: getTaxIdType(taxId),
+                ncf: creditNote.ncf,
+                modifiedNcf: invoice!.ncf!,
+                incomeType: '01',
+                issueDate: creditNote.issueDate,
+                retentionDate: '',
+                paymentDate: '',
+                invoicedAmount: totals.subtotal,
+                itbis: totals.totalItbis,
+                cash: 0,
+                bankTransfer: 0,
+                card: 0,
+                credit: totals.total,
+                other: 0,
+            });
+        });
+
+    rows.sort((a, b) => a.issueDate.localeCompare(b.issueDate));
+    return { rows, rejected };
+};
+
+// 608: NCFs voided during the period.
+export interface Dgii608Row {
+    id: string;
+    ncf: string;
+    issueDate: string;
+    voidedAt: string;
+    reasonCode: VoidReasonCode;
+    reason: string;
+}
+
+export const DGII_608_COLUMNS = ['NCF', 'Fecha Comprobante', 'Tipo de Anulación'];
+
+export const build608 = (invoices: Invoice[], period: string): Dgii608Row[] =>
+    invoices
+        .filter(inv => inv.status === 'Anulada' && inv.ncf && (inv.voidedAt || '').startsWith(period))
+        .sort((a, b) => a.ncf!.localeCompare(b.ncf!))
+        .map(inv => ({
+            id: inv.id,
+            ncf: inv.ncf!,
+            issueDate: inv.issueDate,
+            voidedAt: inv.voidedAt!,
+            reasonCode: inv.voidReasonCode || '04',
+            reason: inv.voidReason || '',
+        }));
+
+export const get608Cells = (row: Dgii608Row) => [row.ncf, toDgiiDate(row.issueDate), row.reasonCode];
+
+export const to608Txt = (rows: Dgii608Row[], businessTaxId: string, period: string) => [
+    ['608', cleanTaxId(businessTaxId), toDgiiPeriod(period), rows.length].join('|'),
+    ...rows.map(row => get608Cells(row).join('|')),
+].join('\r\n');
+
+export const get607Cells = (row: Dgii607Row) => [
+    row.taxId, row.taxIdType, row.ncf, row.modifiedNcf, row.incomeType, toDgiiDate(row.issueDate),
+    row.retentionDate ? toDgiiDate(row.retentionDate) : '', toDgiiAmount(row.invoicedAmount), toDgiiAmount(row.itbis),
+    '', '', '', '', '', '', '', toDgiiAmount(row.cash), toDgiiAmount(row.bankTransfer), toDgiiAmount(row.card),
+    toDgiiAmount(row.credit), '', '', toDgiiAmount(row.other),
+];
+
+export const to607Txt = (rows: Dgii607Row[], businessTaxId: string, period: string) => [
+    ['607', cleanTaxId(businessTaxId), toDgiiPeriod(period), rows.length].join('|'),
+    ...rows.map(row => get607Cells(row).join('|')),
+].join('\r\n');
+
+export const DGII_EXPENSE_TYPE_LABELS: Record<DgiiExpenseType, string> = {
+    '01': 'Gastos de personal',
+    '02': 'Gastos por trabajos, suministros y servicios',
+    '03': 'Arrendamientos',
+    '04': 'Gastos de activos fijos',
+    '05': 'Gastos de representación',
+    '06': 'Otras deducciones admitidas',
+    '07': 'Gastos financieros',
+    '08': 'Gastos extraordinarios',
+    '09': 'Compras y gastos que forman parte del costo de venta',
+    '10': 'Adquisiciones de activos',
+    '11': 'Gastos de seguros',
+};
+
+export const DEFAULT_DGII_EXPENSE_TYPES: Record<Expense['category'], DgiiExpenseType> = {
+    'Materiales': '09',
+    'Combustible': '02',
+    'Herramientas': '02',
+    'Marketing': '02',
+    'Otro': '02',
+};
+
+export const DEFAULT_SUPPLY_TYPES: Record<Expense['category'], 'Bienes' | 'Servicios'> = {
+    'Materiales': 'Bienes',
+    'Combustible': 'Bienes',
+    'Herramientas': 'Bienes',
+    'Marketing': 'Servicios',
+    'Otro': 'Servicios',
+};
+
+export const DGII_606_PAYMENT_CODES: Record<ExpensePaymentMethod, string> = {
+    'Efectivo': '01',
+    'Cheque/Transferencia': '02',
+    'Tarjeta': '03',
+    'Crédito': '04',
+    'Permuta': '05',
+    'Nota de Crédito': '06',
+    'Mixto': '07',
+};
+
+export const ISR_WITHHOLDING_TYPES: Record<string, string> = {
+    '01': 'Alquileres',
+    '02': 'Honorarios por servicios',
+    '03': 'Otras rentas',
+    '04': 'Otras rentas (presuntas)',
+    '05': 'Intereses pagados a personas jurídicas',
+    '06': 'Intereses pagados a personas físicas',
+    '07': 'Retención por proveedores del Estado',
+    '08': 'Juegos telefónicos',
+};
+
+export interface Dgii606Row {
+    expense: Expense;
+    taxId: string;
+    taxIdType: string;
+    expenseType: DgiiExpenseType;
+    ncf: string;
+    issueDate: string;
+    paymentDate: string;
+    servicesAmount: number;
+    goodsAmount: number;
+    itbis: number;
+    itbisWithheld: number;
+    isrWithholdingType: string;
+    isrWithheld: number;
+    paymentCode: string;
+}
+
+export const DGII_606_COLUMNS = [
+    'RNC/Cédula', 'Tipo Id.', 'Tipo Bienes y Servicios', 'NCF', 'NCF Modificado', 'Fecha Comprobante', 'Fecha Pago',
+    'Monto Facturado en Servicios', 'Monto Facturado en Bienes', 'Total Monto Facturado', 'ITBIS Facturado', 'ITBIS Retenido',
+    'ITBIS sujeto a Proporcionalidad', 'ITBIS llevado al Costo', 'ITBIS por Adelantar', 'ITBIS percibido en compras',
+    'Tipo de Retención en ISR', 'Monto Retención Renta', 'ISR Percibido en compras', 'Impuesto Selectivo al Consumo',
+    'Otros Impuestos/Tasas', 'Monto Propina Legal', 'Forma de Pago',
+];
+
+export const build606 = (expenses: Expense[], period: string) => {
+    const rows: Dgii606Row[] = [];
+    const rejected: DgiiRowError[] = [];
+
+    expenses
+        .filter(exp => exp.date.startsWith(period))
+        .sort((a, b) => a.date.localeCompare(b.date))
+        .forEach(expense => {
+            const errors: string[] = [];
+            const taxId = cleanTaxId(expense.supplierTaxId);
+            const itbis = expense.itbisPaid || 0;
+            const itbisWithheld = expense.itbisWithheld || 0;
+            const isrWithheld = expense.isrWithheld || 0;
+
+            if (!taxId) {
+                errors.push('El proveedor no tiene RNC/cédula.');
+            } else if (!getTaxIdType(taxId)) {
+                errors.push('El RNC/cédula del proveedor no es válido.');
+            }
+            if (!expense.supplierNcf) {
+                errors.push('El gasto no tiene NCF del proveedor.');
+            } else if (!/^(B\d{10}|E\d{12})$/.test(expense.supplierNcf)) {
+                errors.push(`El NCF ${expense.supplierNcf} no tiene un formato válido.`);
+            }
+            if (expense.amount <= 0) errors.push('El monto debe ser mayor que cero.');
+            if (itbis < 0 || itbis >= expense.amount) errors.push('El ITBIS pagado debe ser menor que el monto del gasto.');
+            if (itbisWithheld > itbis) errors.push('El ITBIS retenido no puede superar el ITBIS facturado.');
+            if ((itbisWithheld > 0 || isrWithheld > 0) && !expense.paymentDate) errors.push('Las retenciones requieren la fecha de pago.');
+            if (isrWithheld > 0 && !expense.isrWithholdingType) errors.push('Indique el tipo de retención de ISR.');
+            if (!expense.paymentMethod) errors.push('Indique la forma de pago.');
+
+            if (errors.length > 0) {
+                rejected.push({ id: expense.id, document: expense.supplierNcf || expense.description, party: expense.supplierName || 'N/A', errors });
+                return;
+            }
+
+            // The expense amount includes ITBIS; the 606 reports the amount before tax.
+            const invoicedAmount = roundCurrency(expense.amount - itbis);
+            const supplyType = expense.supplyType || DEFAULT_SUPPLY_TYPES[expense.category];
+            rows.push({
+                expense,
+                taxId,
+                taxIdType: getTaxIdType(taxId),
+                expenseType: expense.dgiiExpenseType || DEFAULT_DGII_EXPENSE_TYPES[expense.category],
+                ncf: expense.supplierNcf!,
+                issueDate: expense.date,
+                paymentDate: expense.paymentDate || '',
+                servicesAmount: supplyType === 'Servicios' ? invoicedAmount : 0,
+                goodsAmount: supplyType === 'Bienes' ? invoicedAmount : 0,
+                itbis,
+                itbisWithheld,
+                isrWithholdingType: isrWithheld > 0 ? expense.isrWithholdingType! : '',
+                isrWithheld,
+                paymentCode: DGII_606_PAYMENT_CODES[expense.paymentMethod!],
+            });
+        });
+
+    return { rows, rejected };
+};
+
+export const get606Cells = (row: Dgii606Row) => [
+    row.taxId, row.taxIdType, row.expenseType, row.ncf, '', toDgiiDate(row.issueDate),
+    row.paymentDate ? toDgiiDate(row.paymentDate) : '', toDgiiAmount(row.servicesAmount), toDgiiAmount(row.goodsAmount),
+    toDgiiAmount(row.servicesAmount + row.goodsAmount), toDgiiAmount(row.itbis), toDgiiAmount(row.itbisWithheld),
+    toDgiiAmount(0), toDgiiAmount(0), toDgiiAmount(row.itbis), '', row.isrWithholdingType,
+    row.isrWithheld > 0 ? toDgiiAmount(row.isrWithheld) : '', '', '', '', '', row.paymentCode,
+];
+
+export const to606Txt = (rows: Dgii606Row[], businessTaxId: string, period: string) => [
+    ['606', cleanTaxId(businessTaxId), toDgiiPeriod(period), rows.length].join('|'),
+    ...rows.map(row => get606Cells(row).join('|')),
+].join('\r\n');
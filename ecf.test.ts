@@ -0,0 +1,184 @@
+import { readFileSync } from 'fs';
+import forge from 'node-forge';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildEcfXml, createEcfSignature, getInvoiceEcfNumber, loadP12Credentials, signEcfXml, validateEcfInvoice, validateEcfXml } from './ecf';
+import { DEFAULT_SETTINGS } from './settings';
+import { AppSettings, Client, EcfSequence, Invoice } from './types';
+
+// The fixtures were signed with fixtures/ecf-test.p12 (password "prueba"), a self-signed test certificate. Dates in the
+// XML are written in local time, as DGII expects them in the Dominican Republic (UTC-4).
+const originalTz = process.env.TZ;
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8').trim();
+const loadTestCredentials = () => loadP12Credentials(readFileSync(new URL('./fixtures/ecf-test.p12', import.meta.url)).toString('binary'), 'prueba');
+
+beforeAll(() => {
+    process.env.TZ = 'America/Santo_Domingo';
+    (globalThis as { forge?: unknown }).forge = forge;
+});
+
+afterAll(() => {
+    process.env.TZ = originalTz;
+    delete (globalThis as { forge?: unknown }).forge;
+});
+
+const settings: AppSettings = {
+    ...DEFAULT_SETTINGS,
+    businessInfo: { ...DEFAULT_SETTINGS.businessInfo, name: 'Climatización del Este SRL', address: 'Av. España 12, Santo Domingo Este', phone: '809-555-0101', email: 'facturas@climaeste.do', taxId: '1-30-12345-6' },
+};
+
+const client: Client = {
+    id: 'c1',
+    name: 'Hotel Costa & Mar',
+    address: 'Calle del Sol 4, Bávaro',
+    phone: '809-555-0199',
+    email: 'compras@costamar.do',
+    createdAt: '2026-01-01',
+    type: 'Comercial',
+    taxId: '101-12345-6',
+};
+
+const invoice: Invoice = {
+    id: 'inv',
+    clientId: 'c1',
+    invoiceNumber: 'INV-0042',
+    issueDate: '2026-03-05',
+    dueDate: '2026-04-04',
+    items: [
+        { id: 'l1', description: 'Mantenimiento preventivo <split>', quantity: 2, unitPrice: 1500, taxType: 'Gravado' },
+        { id: 'l2', description: 'Condensadora 24,000 BTU', quantity: 1, unitPrice: 45000, taxType: 'Gravado', isNewEquipment: true },
+        { id: 'l3', description: 'Filtro lavable', quantity: 1, unitPrice: 750, taxType: 'Exento' },
+    ],
+    status: 'Enviada',
+    ncf: 'B0100000042',
+    ncfType: 'B01',
+    ncfExpirationDate: '2027-12-31',
+    taxRates: { itbisRate: 18, reducedItbisRate: 16 },
+};
+
+const ecfNumber = { eNcf: 'E310000000042', expirationDate: '2027-12-31' };
+
+// 5 March 2026, 10:15:30 in Santo Domingo.
+const signedAt = new Date('2026-03-05T14:15:30.000Z');
+
+const sha256Base64 = (content: string) => {
+    const md = forge.md.sha256.create();
+    md.update(content, 'utf8');
+    return forge.util.encode64(md.digest().getBytes());
+};
+
+describe('buildEcfXml', () => {
+    it('writes the e-CF in the DGII element order, escaping text', () => {
+        expect(buildEcfXml(invoice, client, settings, ecfNumber, signedAt)).toBe(fixture('ecf-31.xml'));
+    });
+
+    it('reports a cash sale without a payment deadline', () => {
+        const xml = buildEcfXml({ ...invoice, status: 'Pagada' }, client, settings, ecfNumber, signedAt);
+        expect(xml).toContain('<TipoPago>1</TipoPago>');
+        expect(xml).not.toContain('FechaLimitePago');
+    });
+});
+
+describe('signEcfXml', () => {
+    it('signs the document digest with RSA-SHA256 and embeds the certificate', () => {
+        const unsigned = fixture('ecf-31.xml');
+        const { xml, signatureValue } = signEcfXml(unsigned, loadTestCredentials());
+        expect(xml).toBe(fixture('ecf-31-signed.xml'));
+
+        // Enveloped signature: the digest covers the document without the Signature element.
+        const signature = xml.match(/<Signature xmlns="[^"]+">.*<\/Signature>/)![0];
+        expect(xml.replace('<?xml version="1.0" encoding="utf-8"?>', '').replace(signature, '')).toBe(unsigned);
+        expect(xml).toContain(`<DigestValue>${sha256Base64(unsigned)}</DigestValue>`);
+
+        // SignedInfo is canonicalized with the namespace it inherits from Signature.
+        const signedInfo = signature.match(/<SignedInfo>.*<\/SignedInfo>/)![0].replace('<SignedInfo>', '<SignedInfo xmlns="http://www.w3.org/2000/09/xmldsig#">');
+        const certificate = forge.pki.certificateFromAsn1(forge.asn1.fromDer(forge.util.decode64(xml.match(/<X509Certificate>(.*)<\/X509Certificate>/)![1])));
+        const md = forge.md.sha256.create();
+        md.update(signedInfo, 'utf8');
+        expect(certificate.publicKey.verify(md.digest().bytes(), forge.util.decode64(signatureValue))).toBe(true);
+    });
+});
+
+describe('createEcfSignature', () => {
+    it('takes the security code from the signature value and links it in the QR', async () => {
+        const ecf = await createEcfSignature(invoice, client, settings, ecfNumber, loadTestCredentials(), signedAt);
+        const signatureValue = ecf.signedXml.match(/<SignatureValue>(.*)<\/SignatureValue>/)![1];
+        expect(ecf.signedXml).toBe(fixture('ecf-31-signed.xml'));
+        expect(ecf).toMatchObject({ eNcf: 'E310000000042', signedAt: '05-03-2026 10:15:30', securityCode: signatureValue.slice(0, 6) });
+        expect(ecf.securityCode).toBe('Fvz2Bq');
+        expect(ecf.qrUrl).toBe('https://ecf.dgii.gov.do/testecf/ConsultaTimbre?RncEmisor=130123456&RncComprador=101123456&ENCF=E310000000042'
+            + `&FechaEmision=05-03-2026&MontoTotal=57390.00&FechaFirma=05-03-2026%2010%3A15%3A30&CodigoSeguridad=${ecf.securityCode}`);
+    });
+
+    it('refuses to sign a document that does not pass the schema', async () => {
+        const withoutAddress = { ...settings, businessInfo: { ...settings.businessInfo, address: '' } };
+        await expect(createEcfSignature(invoice, client, withoutAddress, ecfNumber, loadTestCredentials(), signedAt))
+            .rejects.toThrow("El XML no cumple el esquema e-CF de la DGII:\nElement 'TablaTelefonoEmisor': This element is not expected. Expected is ( DireccionEmisor ).");
+    });
+});
+
+describe('validateEcfXml', () => {
+    it('accepts the fixtures, before and after signing', async () => {
+        expect(await validateEcfXml(fixture('ecf-31.xml'))).toEqual([]);
+        expect(await validateEcfXml(fixture('ecf-31-signed.xml'))).toEqual([]);
+        expect(await validateEcfXml(buildEcfXml({ ...invoice, ncfType: 'B02', ncf: 'B0200000042' }, { ...client, taxId: '' }, settings, { eNcf: 'E320000000007' }, signedAt))).toEqual([]);
+    });
+
+    it('reports every value DGII would reject', async () => {
+        const xml = fixture('ecf-31.xml')
+            .replace('<eNCF>E310000000042</eNCF>', '<eNCF>B0100000042</eNCF>')
+            .replace('<ITBIS1>18</ITBIS1>', '<ITBIS1>15</ITBIS1>')
+            .replace('<TelefonoEmisor>809-555-0101</TelefonoEmisor>', '<TelefonoEmisor>8095550101</TelefonoEmisor>');
+        expect(await validateEcfXml(xml)).toEqual([
+            "Element 'eNCF': [facet 'pattern'] The value 'B0100000042' is not accepted by the pattern 'E[0-9]{12}'.",
+            "Element 'TelefonoEmisor': [facet 'pattern'] The value '8095550101' is not accepted by the pattern '[0-9]{3}-[0-9]{3}-[0-9]{4}'.",
+            "Element 'ITBIS1': [facet 'enumeration'] The value '15' is not an element of the set {'18'}.",
+        ]);
+    });
+});
+
+describe('getInvoiceEcfNumber', () => {
+    const sequence = (id: string, overrides: Partial<EcfSequence> = {}): EcfSequence =>
+        ({ id, type: '31', startNumber: 1, endNumber: 100, nextNumber: 42, expirationDate: '2027-12-31', createdAt: '2026-01-01', ...overrides });
+
+    it('takes the next number from the oldest usable range of the matching E type and advances it', () => {
+        const sequences = [sequence('later', { startNumber: 101, endNumber: 200, nextNumber: 101 }), sequence('s31'), sequence('s32', { type: '32' })];
+        expect(getInvoiceEcfNumber(invoice, sequences, new Set())).toEqual({
+            eNcf: 'E310000000042',
+            expirationDate: '2027-12-31',
+            sequences: [sequences[0], { ...sequences[1], nextNumber: 43 }, sequences[2]],
+        });
+    });
+
+    it('blocks signing without an authorised, unexpired range with numbers left', () => {
+        const error = 'No hay una secuencia e-NCF 31 (Crédito Fiscal Electrónica) autorizada y vigente con números disponibles. Regístrela en Configuración.';
+        expect(getInvoiceEcfNumber(invoice, [], new Set())).toEqual({ error });
+        expect(getInvoiceEcfNumber(invoice, [sequence('expired', { expirationDate: '2026-03-04' })], new Set())).toEqual({ error });
+        expect(getInvoiceEcfNumber(invoice, [sequence('used-up', { nextNumber: 101 })], new Set())).toEqual({ error });
+        expect(getInvoiceEcfNumber(invoice, [sequence('s32', { type: '32' })], new Set())).toEqual({ error });
+    });
+
+    it('refuses a number another invoice was already signed with', () => {
+        expect(getInvoiceEcfNumber(invoice, [sequence('s31')], new Set(['E310000000042']))).toEqual({
+            error: 'El e-NCF E310000000042 ya fue utilizado. Revise la secuencia 31 en Configuración.',
+        });
+    });
+
+    it('keeps the number of an invoice that was signed before', () => {
+        const signed = { ...invoice, ecf: { eNcf: 'E310000000007', eNcfExpirationDate: '2026-12-31', securityCode: 'abc123', signedAt: '', qrUrl: '', signedXml: '' } };
+        const sequences = [sequence('s31')];
+        expect(getInvoiceEcfNumber(signed, sequences, new Set(['E310000000007']))).toEqual({ eNcf: 'E310000000007', expirationDate: '2026-12-31', sequences });
+    });
+});
+
+describe('validateEcfInvoice', () => {
+    it('requires the business RNC, an issued invoice and, except for consumers, the buyer RNC', () => {
+        expect(validateEcfInvoice(invoice, client, settings)).toEqual([]);
+        expect(validateEcfInvoice({ ...invoice, ncf: undefined, items: [] }, { ...client, taxId: '' }, DEFAULT_SETTINGS)).toEqual([
+            'El RNC del negocio no es válido.',
+            'La factura debe estar emitida y tener NCF.',
+            'El cliente debe tener RNC o cédula válido.',
+            'La factura no tiene artículos.',
+        ]);
+        expect(validateEcfInvoice({ ...invoice, ncfType: 'B02', ncf: 'B0200000042' }, { ...client, taxId: '' }, settings)).toEqual([]);
+    });
+});
@@ -0,0 +1,276 @@
+import { AppSettings, Client, EcfSequence, EcfSignature, EcfType, Invoice, NcfType } from './types';
+import { CONSUMER_ID_THRESHOLD } from './dgii';
+import { cleanTaxId, isNcfSequenceUsable, isValidTaxId } from './ncf';
+import { NO_TAX_RATES, calculateInvoiceTotals } from './tax';
+import { validateXML } from 'xmllint-wasm';
+import ECF_XSD from './schemas/ecf.xsd?raw';
+
+// Electronic invoices (e-CF): the XML DGII receives, its enveloped XMLDSig signature made with the business's .p12
+// certificate, and the security code and QR link printed on the document.
+
+// node-forge is loaded from a CDN script in index.html.
+declare var forge: any;
+
+export const ECF_TYPES: Record<NcfType, EcfType> = {
+    'B01': '31',
+    'B02': '32',
+    'B04': '34',
+    'B14': '44',
+    'B15': '45',
+};
+
+export const ECF_TYPE_LABELS: Record<EcfType, string> = {
+    '31': 'Crédito Fiscal Electrónica',
+    '32': 'Consumo Electrónica',
+    '34': 'Nota de Crédito Electrónica',
+    '44': 'Regímenes Especiales Electrónica',
+    '45': 'Gubernamental Electrónica',
+};
+
+export const ECF_ENVIRONMENT_LABELS: Record<AppSettings['ecfSettings']['environment'], string> = {
+    'testecf': 'Pruebas (TesteCF)',
+    'certecf': 'Certificación (CerteCF)',
+    'ecf': 'Producción (eCF)',
+};
+
+const XMLDSIG_NAMESPACE = 'http://www.w3.org/2000/09/xmldsig#';
+
+// Only escapes what canonical XML (C14N) escapes in text nodes, so the string we build is already canonical.
+const escapeXml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;');
+
+// Canonical XML never uses self-closing tags, and optional elements without a value are left out.
+const xmlElement = (name: string, content?: string | number) =>
+    content === undefined || content === '' ? '' : `<${name}>${content}</${name}>`;
+
+export const toEcfDate = (date: string) => date.split('-').reverse().join('-');
+
+export const toEcfDateTime = (date: Date) => {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${pad(date.getDate())}-${pad(date.getMonth() + 1)}-${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+export const formatEcfNumber = (type: EcfType, sequenceNumber: number) => `E${type}${sequenceNumber.toString().padStart(10, '0')}`;
+
+export interface EcfNumber {
+    eNcf: string;
+    expirationDate?: string;
+}
+
+// The e-NCF an invoice is signed with and the sequences after taking it, or an error. An invoice signed before keeps its
+// number; otherwise the next one comes from the oldest usable e-NCF range DGII authorized for its type.
+export const getInvoiceEcfNumber = (invoice: Invoice, sequences: EcfSequence[], usedNumbers: Set<string>): EcfNumber & { sequences: EcfSequence[] } | { error: string } => {
+    if (invoice.ecf) return { eNcf: invoice.ecf.eNcf, expirationDate: invoice.ecf.eNcfExpirationDate, sequences };
+    if (!invoice.ncfType) return { error: 'La factura debe estar emitida y tener NCF.' };
+    const type = ECF_TYPES[invoice.ncfType];
+    const sequence = sequences
+        .filter(seq => seq.type === type && isNcfSequenceUsable(seq, invoice.issueDate))
+        .sort((a, b) => a.startNumber - b.startNumber)[0];
+    if (!sequence) {
+        return { error: `No hay una secuencia e-NCF ${type} (${ECF_TYPE_LABELS[type]}) autorizada y vigente con números disponibles. Regístrela en Configuración.` };
+    }
+    const eNcf = formatEcfNumber(type, sequence.nextNumber);
+    if (usedNumbers.has(eNcf)) {
+        return { error: `El e-NCF ${eNcf} ya fue utilizado. Revise la secuencia ${type} en Configuración.` };
+    }
+    return {
+        eNcf,
+        expirationDate: sequence.expirationDate,
+        sequences: sequences.map(seq => seq.id === sequence.id ? { ...seq, nextNumber: seq.nextNumber + 1 } : seq),
+    };
+};
+
+export const validateEcfInvoice = (invoice: Invoice, client: Client, settings: AppSettings) => {
+    const errors: string[] = [];
+    if (!isValidTaxId(settings.businessInfo.taxId)) errors.push('El RNC del negocio no es válido.');
+    if (!invoice.ncf || !invoice.ncfType) errors.push('La factura debe estar emitida y tener NCF.');
+    if (invoice.ncfType && invoice.ncfType !== 'B02' && !isValidTaxId(client.taxId)) errors.push('El cliente debe tener RNC o cédula válido.');
+    if (invoice.items.length === 0) errors.push('La factura no tiene artículos.');
+    return errors;
+};
+
+// Builds the e-CF following the element order of the DGII e-CF XSD for the fields the app has. Check the result with
+// validateEcfXml before signing: DGII rejects documents that don't conform to the schema.
+export const buildEcfXml = (invoice: Invoice, client: Client, settings: AppSettings, ecfNumber: EcfNumber, signedAt: Date) => {
+    const ecfType = ECF_TYPES[invoice.ncfType!];
+    const rates = invoice.taxRates || NO_TAX_RATES;
+    const totals = calculateInvoiceTotals(invoice);
+    const isCredit = invoice.status !== 'Pagada';
+    const amount = (value: number) => value.toFixed(2);
+
+    const idDoc = [
+        xmlElement('TipoeCF', ecfType),
+        xmlElement('eNCF', ecfNumber.eNcf),
+        ecfType !== '32' && ecfNumber.expirationDate ? xmlElement('FechaVencimientoSecuencia', toEcfDate(ecfNumber.expirationDate)) : '',
+        xmlElement('IndicadorMontoGravado', '0'),
+        xmlElement('TipoIngresos', '01'),
+        xmlElement('TipoPago', isCredit ? '2' : '1'),
+        isCredit ? xmlElement('FechaLimitePago', toEcfDate(invoice.dueDate)) : '',
+    ].join('');
+
+    const emisor = [
+        xmlElement('RNCEmisor', cleanTaxId(settings.businessInfo.taxId)),
+        xmlElement('RazonSocialEmisor', escapeXml(settings.businessInfo.name)),
+        xmlElement('DireccionEmisor', escapeXml(settings.businessInfo.address)),
+        settings.businessInfo.phone ? xmlElement('TablaTelefonoEmisor', xmlElement('TelefonoEmisor', escapeXml(settings.businessInfo.phone))) : '',
+        xmlElement('CorreoEmisor', escapeXml(settings.businessInfo.email)),
+        xmlElement('NumeroFacturaInterna', escapeXml(invoice.invoiceNumber)),
+        xmlElement('FechaEmision', toEcfDate(invoice.issueDate)),
+    ].join('');
+
+    const comprador = [
+        xmlElement('RNCComprador', cleanTaxId(client.taxId)),
+        xmlElement('RazonSocialComprador', escapeXml(client.name)),
+        xmlElement('CorreoComprador', escapeXml(client.email)),
+        xmlElement('DireccionComprador', escapeXml(client.address)),
+    ].join('');
+
+    const totales = [
+        totals.taxedAmount + totals.reducedTaxedAmount > 0 ? xmlElement('MontoGravadoTotal', amount(totals.taxedAmount + totals.reducedTaxedAmount)) : '',
+        totals.taxedAmount > 0 ? xmlElement('MontoGravadoI1', amount(totals.taxedAmount)) : '',
+        totals.reducedTaxedAmount > 0 ? xmlElement('MontoGravadoI2', amount(totals.reducedTaxedAmount)) : '',
+        totals.exemptAmount > 0 ? xmlElement('MontoExento', amount(totals.exemptAmount)) : '',
+        totals.taxedAmount > 0 ? xmlElement('ITBIS1', rates.itbisRate) : '',
+        totals.reducedTaxedAmount > 0 ? xmlElement('ITBIS2', rates.reducedItbisRate) : '',
+        totals.taxedAmount + totals.reducedTaxedAmount > 0 ? xmlElement('TotalITBIS', amount(totals.totalItbis)) : '',
+        totals.taxedAmount > 0 ? xmlElement('TotalITBIS1', amount(totals.itbis)) : '',
+        totals.reducedTaxedAmount > 0 ? xmlElement('TotalITBIS2', amount(totals.reducedItbis)) : '',
+        xmlElement('MontoTotal', amount(totals.total)),
+    ].join('');
+
+    // IndicadorFacturacion: 1 = general rate, 2 = reduced rate, 4 = exempt.
+    const items = invoice.items.map((item, index) => xmlElement('Item', [
+        xmlElement('NumeroLinea', index + 1),
+        xmlElement('IndicadorFacturacion', item.taxType === 'Exento' ? '4' : item.taxType === 'Reducido' ? '2' : '1'),
+        xmlElement('NombreItem', escapeXml(item.description)),
+        xmlElement('IndicadorBienoServicio', item.isNewEquipment ? '1' : '2'),
+        xmlElement('CantidadItem', item.quantity.toString()),
+        xmlElement('PrecioUnitarioItem', amount(item.unitPrice)),
+        xmlElement('MontoItem', amount(item.quantity * item.unitPrice)),
+    ].join(''))).join('');
+
+    return xmlElement('ECF', [
+        xmlElement('Encabezado', [
+            xmlElement('Version', '1.0'),
+            xmlElement('IdDoc', idDoc),
+            xmlElement('Emisor', emisor),
+            xmlElement('Comprador', comprador),
+            xmlElement('Totales', totales),
+        ].join('')),
+        xmlElement('DetallesItems', items),
+        xmlElement('FechaHoraFirma', toEcfDateTime(signedAt)),
+    ].join(''));
+};
+
+// Validates the e-CF against schemas/ecf.xsd with libxml2 (compiled to WebAssembly) and returns the schema errors.
+export const validateEcfXml = async (xml: string) => {
+    const result = await validateXML({ xml: [{ fileName: 'ecf.xml', contents: xml }], schema: [{ fileName: 'ecf.xsd', contents: ECF_XSD }] });
+    return result.errors.map(error => error.message.replace(/^Schemas validity error : /, ''));
+};
+
+// node-forge comes from a CDN script without types; these are the parts of its key and certificate objects used here.
+interface ForgeMessageDigest {
+    update: (message: string, encoding?: 'raw' | 'utf8') => ForgeMessageDigest;
+    digest: () => { getBytes: () => string };
+}
+
+interface ForgePrivateKey {
+    sign: (md: ForgeMessageDigest) => string;
+}
+
+interface ForgeCertificate {
+    serialNumber: string;
+    validity: { notBefore: Date; notAfter: Date };
+}
+
+export interface EcfCredentials {
+    privateKey: ForgePrivateKey;
+    certificate: ForgeCertificate;
+}
+
+export const loadP12Credentials = (p12Binary: string, password: string): EcfCredentials => {
+    const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(p12Binary), password);
+    const keyBags = p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || [];
+    const plainKeyBags = p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [];
+    const certBags = p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [];
+    const privateKey: ForgePrivateKey | undefined = (keyBags[0] || plainKeyBags[0])?.key;
+    const certificate: ForgeCertificate | undefined = certBags[0]?.cert;
+    if (!privateKey || !certificate) {
+        throw new Error('El archivo .p12 no contiene una llave privada y un certificado.');
+    }
+    return { privateKey, certificate };
+};
+
+// Enveloped XMLDSig (RSA-SHA256). The document is built in canonical form, so its digest can be taken directly.
+export const signEcfXml = (unsignedXml: string, credentials: EcfCredentials) => {
+    const sha256Base64 = (content: string) => {
+        const md: ForgeMessageDigest = forge.md.sha256.create();
+        md.update(content, 'utf8');
+        return forge.util.encode64(md.digest().getBytes());
+    };
+    const signedInfo = `<SignedInfo xmlns="${XMLDSIG_NAMESPACE}">`
+        + '<CanonicalizationMethod Algorithm="http://www.w3.org/TR/2001/REC-xml-c14n-20010315"></CanonicalizationMethod>'
+        + '<SignatureMethod Algorithm="http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"></SignatureMethod>'
+        + '<Reference URI=""><Transforms><Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"></Transform></Transforms>'
+        + '<DigestMethod Algorithm="http://www.w3.org/2001/04/xmlenc#sha256"></DigestMethod>'
+        + `<DigestValue>${sha256Base64(unsignedXml)}</DigestValue></Reference></SignedInfo>`;
+
+    const md: ForgeMessageDigest = forge.md.sha256.create();
+    md.update(signedInfo, 'utf8');
+    const signatureValue = forge.util.encode64(credentials.privateKey.sign(md));
+    const certificate = forge.util.encode64(forge.asn1.toDer(forge.pki.certificateToAsn1(credentials.certificate)).getBytes());
+
+    const signature = `<Signature xmlns="${XMLDSIG_NAMESPACE}">${signedInfo.replace(` xmlns="${XMLDSIG_NAMESPACE}"`, '')}`
+        + `<SignatureValue>${signatureValue}</SignatureValue>`
+        + `<KeyInfo><X509Data><X509Certificate>${certificate}</X509Certificate></X509Data></KeyInfo></Signature>`;
+
+    return {
+        xml: `<?xml version="1.0" encoding="utf-8"?>${unsignedXml.replace(/<\/ECF>$/, `${signature}</ECF>`)}`,
+        signatureValue,
+    };
+};
+
+export const buildEcfQrUrl = (invoice: Invoice, client: Client, settings: AppSettings, eNcf: string, securityCode: string, signedAt: string) => {
+    const environment = settings.ecfSettings.environment;
+    const { total } = calculateInvoiceTotals(invoice);
+    const query = (params: Record<string, string>) => Object.entries(params).map(([key, value]) => `${key}=${encodeURIComponent(value)}`).join('&');
+
+    // Consumer invoices below the threshold use the simplified consultation service.
+    if (invoice.ncfType === 'B02' && total < CONSUMER_ID_THRESHOLD) {
+        return `https://fc.dgii.gov.do/${environment}/ConsultaTimbreFC?${query({
+            RncEmisor: cleanTaxId(settings.businessInfo.taxId),
+            ENCF: eNcf,
+            MontoTotal: total.toFixed(2),
+            CodigoSeguridad: securityCode,
+        })}`;
+    }
+    return `https://ecf.dgii.gov.do/${environment}/ConsultaTimbre?${query({
+        RncEmisor: cleanTaxId(settings.businessInfo.taxId),
+        RncComprador: cleanTaxId(client.taxId),
+        ENCF: eNcf,
+        FechaEmision: toEcfDate(invoice.issueDate),
+        MontoTotal: total.toFixed(2),
+        FechaFirma: signedAt,
+        CodigoSeguridad: securityCode,
+    })}`;
+};
+
+// Nothing is signed unless the document passes the schema; the errors are thrown together so they can be shown at once.
+export const createEcfSignature = async (invoice: Invoice, client: Client, settings: AppSettings, ecfNumber: EcfNumber, credentials: EcfCredentials, now = new Date()): Promise<EcfSignature> => {
+    const unsignedXml = buildEcfXml(invoice, client, settings, ecfNumber, now);
+    const schemaErrors = await validateEcfXml(unsignedXml);
+    if (schemaErrors.length > 0) {
+        throw new Error(`El XML no cumple el esquema e-CF de la DGII:\n${schemaErrors.join('\n')}`);
+    }
+    const { xml, signatureValue } = signEcfXml(unsignedXml, credentials);
+    // DGII security code: the first six characters of the signature value.
+    const securityCode = signatureValue.slice(0, 6);
+    const signedAt = toEcfDateTime(now);
+    return {
+        eNcf: ecfNumber.eNcf,
+        eNcfExpirationDate: ecfNumber.expirationDate,
+        securityCode,
+        signedAt,
+        qrUrl: buildEcfQrUrl(invoice, client, settings, ecfNumber.eNcf, securityCode, signedAt),
+        signedXml: xml,
+    };
+};
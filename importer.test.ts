@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { guessMapping, readSpreadsheet, validateImport } from './importer';
+
+// Dates must not shift a day in the Dominican Republic (UTC-4).
+const originalTz = process.env.TZ;
+
+beforeAll(() => {
+    process.env.TZ = 'America/Santo_Domingo';
+    (globalThis as { XLSX?: unknown }).XLSX = XLSX;
+});
+
+afterAll(() => {
+    process.env.TZ = originalTz;
+    delete (globalThis as { XLSX?: unknown }).XLSX;
+});
+
+const importExpenses = async (file: File) => {
+    const sheet = await readSpreadsheet(file);
+    return validateImport('expenses', sheet, guessMapping('expenses', sheet.headers), []);
+};
+
+describe('readSpreadsheet + validateImport', () => {
+    it('reads ambiguous CSV dates day-first', async () => {
+        const csv = 'Fecha,Concepto,Monto\n05/03/2026,Gasolina,"1,250.50"\n31/12/2025,Filtros,300\n';
+        const rows = await importExpenses(new File([csv], 'gastos.csv', { type: 'text/csv' }));
+        expect(rows.map(row => row.errors)).toEqual([[], []]);
+        expect(rows.map(row => row.values.date)).toEqual(['2026-03-05', '2025-12-31']);
+        expect(rows[0].values.amount).toBe(1250.5);
+    });
+
+    it('rejects CSV dates that only exist month-first', async () => {
+        const csv = 'Fecha,Concepto,Monto\n03/31/2026,Gasolina,100\n';
+        const [row] = await importExpenses(new File([csv], 'gastos.csv', { type: 'text/csv' }));
+        expect(row.errors).toHaveLength(1);
+    });
+
+    it('reads XLSX date cells without moving them a day', async () => {
+        const sheet = XLSX.utils.aoa_to_sheet([['Fecha', 'Concepto', 'Monto'], ['', 'Gasolina', 100]]);
+        sheet.A2 = { t: 'n', v: (Date.UTC(2026, 2, 5) - Date.UTC(1899, 11, 30)) / 86400000, z: 'dd/mm/yyyy' };
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, sheet, 'Gastos');
+        const data = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+        const [row] = await importExpenses(new File([data], 'gastos.xlsx'));
+        expect(row.errors).toEqual([]);
+        expect(row.values.date).toBe('2026-03-05');
+    });
+});
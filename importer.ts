@@ -0,0 +1,239 @@
+import { Client, Expense, ExpensePaymentMethod, InventoryItem } from './types';
+
+// Spreadsheet import: reads the first sheet of a CSV or XLSX file, maps its columns to record fields, and validates
+// every row and checks it against existing records before anything is saved.
+
+declare var XLSX: any;
+
+export type ImportTarget = 'clients' | 'inventory' | 'expenses';
+
+type ImportFieldType = 'text' | 'number' | 'date' | 'enum' | 'taxId';
+
+export interface ImportField {
+    key: string;
+    label: string;
+    type: ImportFieldType;
+    required?: boolean;
+    options?: readonly string[];
+    // Used when the column is not mapped or the cell is empty.
+    defaultValue?: string | number;
+    // Other header names recognised when mapping columns automatically.
+    aliases?: string[];
+}
+
+export interface ImportSheet {
+    headers: string[];
+    rows: unknown[][];
+}
+
+// Field key -> index of the column it is read from, or null when it is not imported.
+export type ImportMapping = Record<string, number | null>;
+
+export type ImportValues = Record<string, string | number>;
+
+export interface ImportRow {
+    // Row number as shown in the spreadsheet, counting the header.
+    rowNumber: number;
+    values: ImportValues;
+    errors: string[];
+    duplicate?: string;
+}
+
+const CLIENT_TYPES: Client['type'][] = ['Residencial', 'Comercial'];
+const EXPENSE_CATEGORIES: Expense['category'][] = ['Materiales', 'Combustible', 'Herramientas', 'Marketing', 'Otro'];
+const EXPENSE_PAYMENT_METHODS: ExpensePaymentMethod[] = ['Efectivo', 'Cheque/Transferencia', 'Tarjeta', 'Crédito', 'Permuta', 'Nota de Crédito', 'Mixto'];
+
+export const IMPORT_TARGET_LABELS: Record<ImportTarget, string> = {
+    clients: 'clientes',
+    inventory: 'artículos de inventario',
+    expenses: 'gastos',
+};
+
+export const IMPORT_FIELDS: Record<ImportTarget, ImportField[]> = {
+    clients: [
+        { key: 'name', label: 'Nombre', type: 'text', required: true, aliases: ['cliente', 'razon social', 'nombre completo'] },
+        { key: 'type', label: 'Tipo', type: 'enum', options: CLIENT_TYPES, defaultValue: 'Residencial', aliases: ['tipo de cliente'] },
+        { key: 'taxId', label: 'RNC / Cédula', type: 'taxId', aliases: ['rnc', 'cedula', 'rnc cedula'] },
+        { key: 'phone', label: 'Teléfono', type: 'text', aliases: ['telefono', 'tel', 'celular'] },
+        { key: 'email', label: 'Correo', type: 'text', aliases: ['email', 'correo electronico', 'e-mail'] },
+        { key: 'address', label: 'Dirección', type: 'text', aliases: ['direccion'] },
+    ],
+    inventory: [
+        { key: 'name', label: 'Nombre', type: 'text', required: true, aliases: ['articulo', 'producto', 'pieza'] },
+        { key: 'description', label: 'Descripción', type: 'text', aliases: ['descripcion', 'detalle'] },
+        { key: 'quantity', label: 'Cantidad', type: 'number', defaultValue: 0, aliases: ['existencia', 'stock'] },
+        { key: 'unitPrice', label: 'Precio', type: 'number', required: true, aliases: ['precio unitario', 'precio de venta'] },
+        { key: 'unitCost', label: 'Costo', type: 'number', aliases: ['costo unitario'] },
+        { key: 'reorderPoint', label: 'Punto de reorden', type: 'number', aliases: ['minimo'] },
+        { key: 'reorderQuantity', label: 'Cantidad a pedir', type: 'number' },
+    ],
+    expenses: [
+        { key: 'date', label: 'Fecha', type: 'date', required: true },
+        { key: 'description', label: 'Descripción', type: 'text', required: true, aliases: ['descripcion', 'concepto'] },
+        { key: 'amount', label: 'Monto', type: 'number', required: true, aliases: ['total', 'importe'] },
+        { key: 'category', label: 'Categoría', type: 'enum', options: EXPENSE_CATEGORIES, defaultValue: 'Otro', aliases: ['categoria'] },
+        { key: 'supplierName', label: 'Proveedor', type: 'text', aliases: ['suplidor'] },
+        { key: 'supplierTaxId', label: 'RNC proveedor', type: 'taxId', aliases: ['rnc', 'rnc suplidor'] },
+        { key: 'supplierNcf', label: 'NCF', type: 'text', aliases: ['ncf proveedor', 'comprobante'] },
+        { key: 'itbisPaid', label: 'ITBIS', type: 'number', aliases: ['itbis facturado', 'itbis pagado'] },
+        { key: 'paymentMethod', label: 'Forma de pago', type: 'enum', options: EXPENSE_PAYMENT_METHODS, aliases: ['metodo de pago'] },
+    ],
+};
+
+interface DuplicateCheck {
+    label: string;
+    // Comparable value taken from an import row or an existing record; empty means the check does not apply.
+    value: (record: Record<string, unknown>) => string;
+}
+
+const normalizeText = (value: unknown) => String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const digitsOnly = (value: unknown) => String(value ?? '').replace(/\D/g, '');
+
+const DUPLICATE_CHECKS: Record<ImportTarget, DuplicateCheck[]> = {
+    clients: [
+        { label: 'mismo nombre', value: record => normalizeText(record.name) },
+        { label: 'mismo RNC / cédula', value: record => digitsOnly(record.taxId) },
+        // Short numbers are usually extensions or placeholders, not enough to call two clients the same.
+        { label: 'mismo teléfono', value: record => (digitsOnly(record.phone).length >= 7 ? digitsOnly(record.phone).slice(-10) : '') },
+    ],
+    inventory: [
+        { label: 'mismo nombre', value: record => normalizeText(record.name) },
+    ],
+    expenses: [
+        { label: 'mismo NCF', value: record => (record.supplierNcf ? `${digitsOnly(record.supplierTaxId)}|${normalizeText(record.supplierNcf)}` : '') },
+        { label: 'misma fecha, monto y descripción', value: record => (record.date ? `${record.date}|${Number(record.amount)}|${normalizeText(record.description)}` : '') },
+    ],
+};
+
+const getRecordName = (target: ImportTarget, record: Record<string, unknown>) => String(target === 'expenses' ? record.description : record.name);
+
+export const readSpreadsheet = async (file: File): Promise<ImportSheet> => {
+    if (typeof XLSX === 'undefined') throw new Error('No se pudo cargar el lector de hojas de cálculo. Verifique la conexión a internet.');
+    // CSV is read as text so accented characters survive files saved without a byte order mark, and kept raw so SheetJS
+    // doesn't read "05/03/2026" month-first; parseDate handles the day-first strings. Spreadsheet dates arrive as serial numbers.
+    const workbook = file.name.toLowerCase().endsWith('.csv')
+        ? XLSX.read(await file.text(), { type: 'string', raw: true })
+        : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const [headers = [], ...rows]: unknown[][] = sheet ? XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' }) : [];
+    if (headers.length === 0) throw new Error('El archivo no tiene encabezados en la primera fila.');
+    return {
+        headers: headers.map(header => String(header).trim()),
+        rows: rows.filter(row => row.some(cell => String(cell).trim() !== '')),
+    };
+};
+
+const normalizeHeader = (header: string) => normalizeText(header).replace(/[^a-z0-9]/g, '');
+
+// Matches each field to the first column whose header is its label, key or one of its aliases.
+export const guessMapping = (target: ImportTarget, headers: string[]): ImportMapping => {
+    const normalizedHeaders = headers.map(normalizeHeader);
+    return Object.fromEntries(IMPORT_FIELDS[target].map(field => {
+        const names = [field.label, field.key, ...(field.aliases || [])].map(normalizeHeader);
+        const index = normalizedHeaders.findIndex(header => names.includes(header));
+        return [field.key, index >= 0 ? index : null];
+    }));
+};
+
+// Dates are handled as UTC midnight throughout, so the local time zone never moves them to the previous day.
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Excel counts days from 1899-12-30 (the 1900 date system).
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Accepts spreadsheet dates (serial numbers), ISO dates and day-first dates as written in the Dominican Republic (dd/mm/aaaa).
+const parseDate = (cell: unknown) => {
+    if (cell instanceof Date) return isNaN(cell.getTime()) ? null : toIsoDate(cell);
+    if (typeof cell === 'number') return cell > 0 ? toIsoDate(new Date(EXCEL_EPOCH + Math.round(cell) * DAY_MS)) : null;
+    const text = String(cell).trim();
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    const dayFirst = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+    const [year, month, day] = iso
+        ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+        : dayFirst ? [Number(dayFirst[3].length === 2 ? `20${dayFirst[3]}` : dayFirst[3]), Number(dayFirst[2]), Number(dayFirst[1])] : [NaN, NaN, NaN];
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? toIsoDate(date) : null;
+};
+
+// Currency symbols and thousands separators are ignored: "RD$ 1,250.00" reads as 1250.
+const parseNumber = (cell: unknown) => {
+    if (typeof cell === 'number') return cell;
+    const text = String(cell).replace(/[^\d.,-]/g, '').replace(/,/g, '');
+    return text === '' || isNaN(Number(text)) ? null : Number(text);
+};
+
+const parseCell = (field: ImportField, cell: unknown): { value?: string | number; error?: string } => {
+    const text = cell instanceof Date ? toIsoDate(cell) : String(cell ?? '').trim();
+    if (text === '') {
+        if (field.defaultValue !== undefined) return { value: field.defaultValue };
+        return field.required ? { error: `Falta ${field.label.toLowerCase()}.` } : {};
+    }
+    switch (field.type) {
+        case 'number': {
+            const value = parseNumber(cell);
+            if (value === null) return { error: `${field.label}: «${text}» no es un número.` };
+            if (value < 0) return { error: `${field.label} no puede ser negativo.` };
+            return { value };
+        }
+        case 'date': {
+            const value = parseDate(cell);
+            return value ? { value } : { error: `${field.label}: «${text}» no es una fecha válida (use dd/mm/aaaa).` };
+        }
+        case 'enum': {
+            const value = field.options!.find(option => normalizeText(option) === normalizeText(text));
+            return value ? { value } : { error: `${field.label}: «${text}» no es válido; use ${field.options!.join(', ')}.` };
+        }
+        case 'taxId': {
+            const value = digitsOnly(text);
+            return [9, 11].includes(value.length) ? { value } : { error: `${field.label}: «${text}» debe tener 9 dígitos (RNC) o 11 (cédula).` };
+        }
+        default:
+            return { value: text };
+    }
+};
+
+// Dry run of the import: parses every row and flags errors and duplicates, both against `existing` and earlier rows
+// of the same file. Nothing is saved here.
+export const validateImport = (target: ImportTarget, sheet: ImportSheet, mapping: ImportMapping, existing: object[]): ImportRow[] => {
+    const checks = DUPLICATE_CHECKS[target];
+    const seen = checks.map(check => new Map<string, string>());
+    (existing as Record<string, unknown>[]).forEach(record => checks.forEach((check, i) => {
+        const value = check.value(record);
+        if (value && !seen[i].has(value)) seen[i].set(value, `Ya existe «${getRecordName(target, record)}»`);
+    }));
+
+    return sheet.rows.map((cells, index) => {
+        const rowNumber = index + 2;
+        const values: ImportValues = {};
+        const errors: string[] = [];
+        IMPORT_FIELDS[target].forEach(field => {
+            const column = mapping[field.key];
+            const { value, error } = parseCell(field, column === null || column === undefined ? '' : cells[column]);
+            if (error) errors.push(error);
+            else if (value !== undefined) values[field.key] = value;
+        });
+
+        let duplicate: string | undefined;
+        if (errors.length === 0) {
+            checks.forEach((check, i) => {
+                const value = check.value(values);
+                if (!value) return;
+                if (!duplicate && seen[i].has(value)) duplicate = `${seen[i].get(value)} (${check.label})`;
+                if (!seen[i].has(value)) seen[i].set(value, `Repetido en la fila ${rowNumber}`);
+            });
+        }
+        return { rowNumber, values, errors, duplicate };
+    });
+};
+
+// Row values typed as the record they become; the caller adds ids and any fields the spreadsheet doesn't carry.
+export const toClientFields = (values: ImportValues) => values as unknown as Pick<Client, 'name' | 'type'> & Partial<Client>;
+export const toInventoryFields = (values: ImportValues) => values as unknown as Pick<InventoryItem, 'name' | 'quantity' | 'unitPrice'> & Partial<InventoryItem>;
+export const toExpenseFields = (values: ImportValues) => values as unknown as Pick<Expense, 'date' | 'description' | 'amount' | 'category'> & Partial<Expense>;
@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { initStorage } from './storage';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +10,17 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+
+// The data has to be loaded from IndexedDB before the first render.
+initStorage()
+  .then(() => {
+    root.render(
+      <React.StrictMode>
+        <App />
+      </React.StrictMode>
+    );
+  })
+  .catch(error => {
+    console.error(error);
+    rootElement.textContent = `No se pudieron cargar los datos: ${error instanceof Error ? error.message : error}`;
+  });
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { getNcfAlerts, takeNextNcf } from './ncf';
+import { NcfSequence } from './types';
+
+const sequence = (id: string, overrides: Partial<NcfSequence> = {}): NcfSequence => ({
+    id,
+    type: 'B01',
+    startNumber: 1,
+    endNumber: 100,
+    nextNumber: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+});
+
+const SETTINGS = { remainingWarningThreshold: 10, expirationWarningDays: 30 };
+
+describe('takeNextNcf', () => {
+    it('hands out the next number and advances only that sequence', () => {
+        const sequences = [sequence('a', { nextNumber: 42, expirationDate: '2026-12-31' }), sequence('b', { type: 'B02' })];
+        const result = takeNextNcf(sequences, 'B01', '2026-03-05', new Set());
+        expect(result).toEqual({
+            ncf: 'B0100000042',
+            expirationDate: '2026-12-31',
+            sequences: [{ ...sequences[0], nextNumber: 43 }, sequences[1]],
+        });
+    });
+
+    it('moves to the next range once the oldest one is exhausted', () => {
+        const sequences = [sequence('new', { startNumber: 101, endNumber: 200, nextNumber: 101 }), sequence('old', { nextNumber: 101 })];
+        const result = takeNextNcf(sequences, 'B01', '2026-03-05', new Set());
+        expect('ncf' in result && result.ncf).toBe('B0100000101');
+    });
+
+    it('takes the last number of a range and then reports it exhausted', () => {
+        const first = takeNextNcf([sequence('a', { nextNumber: 100 })], 'B01', '2026-03-05', new Set());
+        if (!('ncf' in first)) throw new Error(first.error);
+        expect(first.ncf).toBe('B0100000100');
+        expect(takeNextNcf(first.sequences, 'B01', '2026-03-05', new Set())).toHaveProperty('error');
+    });
+
+    it('skips expired sequences, counting the expiration day as still valid', () => {
+        const sequences = [sequence('a', { expirationDate: '2026-03-05' })];
+        expect(takeNextNcf(sequences, 'B01', '2026-03-05', new Set())).toHaveProperty('ncf', 'B0100000001');
+        expect(takeNextNcf(sequences, 'B01', '2026-03-06', new Set())).toHaveProperty('error');
+    });
+
+    it('refuses an NCF that was already used', () => {
+        const result = takeNextNcf([sequence('a', { nextNumber: 7 })], 'B01', '2026-03-05', new Set(['B0100000007']));
+        expect(result).toHaveProperty('error');
+        expect('error' in result && result.error).toContain('B0100000007');
+    });
+});
+
+describe('getNcfAlerts', () => {
+    it('warns when a type is running low or has run out', () => {
+        const alerts = getNcfAlerts([sequence('a', { nextNumber: 95 }), sequence('b', { type: 'B02', nextNumber: 101 })], SETTINGS, '2026-03-05');
+        expect(alerts).toEqual([
+            'B01 (Crédito Fiscal): quedan 6 comprobantes.',
+            'B02 (Consumidor Final): no quedan comprobantes disponibles.',
+        ]);
+    });
+
+    it('warns about sequences expiring within the warning window only', () => {
+        const sequences = [
+            sequence('soon', { expirationDate: '2026-04-04' }),
+            sequence('later', { startNumber: 101, endNumber: 200, nextNumber: 101, expirationDate: '2026-04-05' }),
+        ];
+        const alerts = getNcfAlerts(sequences, SETTINGS, '2026-03-05');
+        expect(alerts).toHaveLength(1);
+        expect(alerts[0]).toContain('B0100000001 - B0100000100 vence');
+    });
+
+    it('counts an expired sequence as having no numbers left', () => {
+        expect(getNcfAlerts([sequence('a', { expirationDate: '2026-03-01' })], SETTINGS, '2026-03-05'))
+            .toEqual(['B01 (Crédito Fiscal): no quedan comprobantes disponibles.']);
+    });
+});
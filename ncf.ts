@@ -0,0 +1,80 @@
+import { AppSettings, Client, EcfSequence, NcfSequence, NcfType } from './types';
+import { addDays, formatDate, todayIso } from './utils';
+
+// NCF (comprobante fiscal) sequences authorized by DGII, how numbers are taken from them, and taxpayer ids.
+
+export const NCF_TYPE_LABELS: Record<NcfType, string> = {
+    'B01': 'Crédito Fiscal',
+    'B02': 'Consumidor Final',
+    'B04': 'Nota de Crédito',
+    'B14': 'Régimen Especial',
+    'B15': 'Gubernamental',
+};
+
+export const NCF_DOCUMENT_TITLES: Record<NcfType, string> = {
+    'B01': 'FACTURA DE CRÉDITO FISCAL',
+    'B02': 'FACTURA DE CONSUMO',
+    'B04': 'NOTA DE CRÉDITO',
+    'B14': 'FACTURA RÉGIMEN ESPECIAL',
+    'B15': 'FACTURA GUBERNAMENTAL',
+};
+
+export const formatNcf = (type: NcfType, sequenceNumber: number) => `${type}${sequenceNumber.toString().padStart(8, '0')}`;
+
+export const cleanTaxId = (taxId?: string) => (taxId || '').replace(/\D/g, '');
+
+// RNC has 9 digits, cédula 11.
+export const isValidTaxId = (taxId?: string) => [9, 11].includes(cleanTaxId(taxId).length);
+
+export const getClientNcfType = (client: Client): NcfType => {
+    if (client.ncfType) return client.ncfType;
+    return client.type === 'Comercial' && isValidTaxId(client.taxId) ? 'B01' : 'B02';
+};
+
+export const getNcfRemaining = (sequence: NcfSequence | EcfSequence) => Math.max(0, sequence.endNumber - sequence.nextNumber + 1);
+
+export const isNcfSequenceUsable = (sequence: NcfSequence | EcfSequence, date: string) =>
+    getNcfRemaining(sequence) > 0 && (!sequence.expirationDate || sequence.expirationDate >= date);
+
+// Ranges are consumed oldest first so numbers are handed out without gaps.
+export const findNcfSequence = (sequences: NcfSequence[], type: NcfType, date: string) =>
+    sequences
+        .filter(seq => seq.type === type && isNcfSequenceUsable(seq, date))
+        .sort((a, b) => a.startNumber - b.startNumber)[0];
+
+// Returns the next NCF for the type together with the updated sequences, or an error message.
+export const takeNextNcf = (sequences: NcfSequence[], type: NcfType, date: string, usedNcfs: Set<string>): { ncf: string; expirationDate?: string; sequences: NcfSequence[] } | { error: string } => {
+    const sequence = findNcfSequence(sequences, type, date);
+    if (!sequence) {
+        return { error: `No hay una secuencia NCF ${type} (${NCF_TYPE_LABELS[type]}) vigente con números disponibles. Registre una en Configuración.` };
+    }
+    const ncf = formatNcf(type, sequence.nextNumber);
+    if (usedNcfs.has(ncf)) {
+        return { error: `El NCF ${ncf} ya fue utilizado. Revise la secuencia ${type} en Configuración.` };
+    }
+    return {
+        ncf,
+        expirationDate: sequence.expirationDate,
+        sequences: sequences.map(seq => seq.id === sequence.id ? { ...seq, nextNumber: seq.nextNumber + 1 } : seq),
+    };
+};
+
+// Warnings for types running out of numbers and for usable sequences that expire within the warning window.
+export const getNcfAlerts = (sequences: NcfSequence[], ncfSettings: AppSettings['ncfSettings'], today = todayIso()) => {
+    const warningLimit = addDays(today, ncfSettings.expirationWarningDays);
+    const types = Array.from(new Set(sequences.map(seq => seq.type)));
+    return types.flatMap(type => {
+        const usable = sequences.filter(seq => seq.type === type && isNcfSequenceUsable(seq, today));
+        const remaining = usable.reduce((sum, seq) => sum + getNcfRemaining(seq), 0);
+        const alerts: string[] = [];
+        if (remaining === 0) {
+            alerts.push(`${type} (${NCF_TYPE_LABELS[type]}): no quedan comprobantes disponibles.`);
+        } else if (remaining <= ncfSettings.remainingWarningThreshold) {
+            alerts.push(`${type} (${NCF_TYPE_LABELS[type]}): quedan ${remaining} comprobantes.`);
+        }
+        usable
+            .filter(seq => seq.expirationDate && seq.expirationDate <= warningLimit)
+            .forEach(seq => alerts.push(`${type} (${NCF_TYPE_LABELS[type]}): la secuencia ${formatNcf(type, seq.startNumber)} - ${formatNcf(type, seq.endNumber)} vence el ${formatDate(seq.expirationDate!)}.`));
+        return alerts;
+    });
+};
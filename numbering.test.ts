@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { auditDocumentNumbers, takeDocumentNumber, takeDocumentNumbers } from './numbering';
+import { DocumentNumberFormat } from './types';
+
+const FORMAT: DocumentNumberFormat = { prefix: 'INV', includeYear: false, padding: 4, yearlyReset: false };
+
+describe('takeDocumentNumber', () => {
+    it('advances the counter and stores it', () => {
+        const result = takeDocumentNumber('invoice', FORMAT, [{ id: 'invoice', series: 'invoice', lastNumber: 7 }], [], '2026-03-05');
+        expect(result).toEqual({ number: 'INV-0008', counters: [{ id: 'invoice', series: 'invoice', year: undefined, lastNumber: 8 }] });
+    });
+
+    it('continues after the highest stored number when the counter is behind', () => {
+        const existing = ['INV-0003', 'INV-0012', 'INV-2026-0099', 'OTRO-0500'];
+        const result = takeDocumentNumber('invoice', FORMAT, [{ id: 'invoice', series: 'invoice', lastNumber: 5 }], existing, '2026-03-05');
+        expect(result.number).toBe('INV-0013');
+        expect(result.counters[0].lastNumber).toBe(13);
+    });
+
+    it('keeps the counter when it is ahead of the stored numbers, so deleted numbers are not reused', () => {
+        const result = takeDocumentNumber('invoice', FORMAT, [{ id: 'invoice', series: 'invoice', lastNumber: 20 }], ['INV-0012'], '2026-03-05');
+        expect(result.number).toBe('INV-0021');
+    });
+
+    it('keeps a separate counter per year when the series resets yearly', () => {
+        const yearly = { ...FORMAT, yearlyReset: true };
+        const counters = [{ id: 'invoice-2025', series: 'invoice' as const, year: 2025, lastNumber: 340 }];
+        const result = takeDocumentNumber('invoice', yearly, counters, ['INV-2025-0340'], '2026-01-02');
+        expect(result.number).toBe('INV-2026-0001');
+        expect(result.counters).toEqual([...counters, { id: 'invoice-2026', series: 'invoice', year: 2026, lastNumber: 1 }]);
+    });
+});
+
+describe('takeDocumentNumbers', () => {
+    it('numbers a batch in order without repeating', () => {
+        const result = takeDocumentNumbers('workOrder', { ...FORMAT, prefix: 'OT' }, [], ['OT-0002'], ['2026-03-01', '2026-03-02']);
+        expect(result.numbers).toEqual(['OT-0003', 'OT-0004']);
+        expect(result.counters).toEqual([{ id: 'workOrder', series: 'workOrder', year: undefined, lastNumber: 4 }]);
+    });
+});
+
+describe('auditDocumentNumbers', () => {
+    it('reports repeated numbers once', () => {
+        expect(auditDocumentNumbers(['INV-0001', 'INV-0002', 'INV-0002', 'INV-0002']).duplicates).toEqual(['INV-0002']);
+    });
+
+    it('lists short gaps and collapses long runs, per series', () => {
+        const numbers = ['INV-0001', 'INV-0003', 'INV-0006', 'INV-0011', 'INV-2026-0001', 'INV-2026-0002'];
+        expect(auditDocumentNumbers(numbers)).toEqual({ duplicates: [], gaps: ['INV-0002', 'INV-0004, INV-0005', 'INV-0007 a INV-0010'] });
+    });
+
+    it('ignores numbers without trailing digits', () => {
+        expect(auditDocumentNumbers(['BORRADOR', 'INV-0001'])).toEqual({ duplicates: [], gaps: [] });
+    });
+});
@@ -0,0 +1,83 @@
+import { DocumentCounter, DocumentNumberFormat, DocumentSeries } from './types';
+
+// Internal document numbers (invoices, quotes, orders, contracts): per-series counters that only move forward, and the
+// audit of stored numbers for duplicates and gaps.
+
+export const DOCUMENT_SERIES_LABELS: Record<DocumentSeries, string> = {
+    invoice: 'Facturas',
+    creditNote: 'Notas de crédito',
+    quote: 'Cotizaciones',
+    workOrder: 'Órdenes de trabajo',
+    purchaseOrder: 'Órdenes de compra',
+    contract: 'Contratos',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Everything before the sequence digits, e.g. "INV" or "INV-2025".
+const getNumberStem = (format: DocumentNumberFormat, year: number) =>
+    [format.prefix.trim(), format.includeYear || format.yearlyReset ? String(year) : ''].filter(Boolean).join('-');
+
+export const formatDocumentNumber = (format: DocumentNumberFormat, year: number, sequence: number) => {
+    const stem = getNumberStem(format, year);
+    const digits = sequence.toString().padStart(format.padding, '0');
+    return stem ? `${stem}-${digits}` : digits;
+};
+
+// The counter only moves forward, so deleting a document never frees its number. Numbers already stored in the same
+// format (data from before counters existed, or brought in from a backup) are counted too, so the result is always unused.
+export const takeDocumentNumber = (series: DocumentSeries, format: DocumentNumberFormat, counters: DocumentCounter[], existingNumbers: string[], date: string) => {
+    const year = Number(date.slice(0, 4));
+    const counterId = format.yearlyReset ? `${series}-${year}` : series;
+    const stem = getNumberStem(format, year);
+    const pattern = new RegExp(`^${stem ? `${escapeRegExp(stem)}-` : ''}(\\d+)$`);
+    const lastUsed = existingNumbers.reduce((max, n) => Math.max(max, parseInt(n.match(pattern)?.[1] || '0', 10)), 0);
+    const lastNumber = Math.max(lastUsed, counters.find(c => c.id === counterId)?.lastNumber || 0) + 1;
+    const counter: DocumentCounter = { id: counterId, series, year: format.yearlyReset ? year : undefined, lastNumber };
+    return {
+        number: formatDocumentNumber(format, year, lastNumber),
+        counters: [...counters.filter(c => c.id !== counterId), counter],
+    };
+};
+
+// Numbers a batch of documents, one per date, in order.
+export const takeDocumentNumbers = (series: DocumentSeries, format: DocumentNumberFormat, counters: DocumentCounter[], existingNumbers: string[], dates: string[]) =>
+    dates.reduce((result, date) => {
+        const next = takeDocumentNumber(series, format, result.counters, [...existingNumbers, ...result.numbers], date);
+        return { numbers: [...result.numbers, next.number], counters: next.counters };
+    }, { numbers: [] as string[], counters });
+
+export interface NumberingIssues {
+    duplicates: string[];
+    // Missing numbers, or "first a last" for longer runs.
+    gaps: string[];
+}
+
+// Groups numbers by everything before their final digits and reports repeated numbers and holes between the lowest
+// and the highest number of each group. Gaps are expected where drafts were deleted; they are reported so they can be explained.
+export const auditDocumentNumbers = (numbers: string[]): NumberingIssues => {
+    const counts = new Map<string, number>();
+    numbers.forEach(n => counts.set(n, (counts.get(n) || 0) + 1));
+    const duplicates = Array.from(counts.entries()).filter(([, count]) => count > 1).map(([n]) => n);
+
+    const groups = new Map<string, { width: number; sequences: Set<number> }>();
+    numbers.forEach(n => {
+        const match = n.match(/^(.*?)(\d+)$/);
+        if (!match) return;
+        const group = groups.get(match[1]) || { width: match[2].length, sequences: new Set<number>() };
+        group.sequences.add(parseInt(match[2], 10));
+        groups.set(match[1], group);
+    });
+    const gaps: string[] = [];
+    groups.forEach(({ width, sequences }, stem) => {
+        const sorted = Array.from(sequences).sort((a, b) => a - b);
+        const format = (sequence: number) => `${stem}${sequence.toString().padStart(width, '0')}`;
+        sorted.slice(1).forEach((sequence, i) => {
+            const from = sorted[i] + 1;
+            const to = sequence - 1;
+            if (from === to) gaps.push(format(from));
+            else if (from < to) gaps.push(to - from < 3 ? Array.from({ length: to - from + 1 }, (_, k) => format(from + k)).join(', ') : `${format(from)} a ${format(to)}`);
+        });
+    });
+    return { duplicates, gaps };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { deriveInvoiceStatus, getAmountPaid, getBalanceDue } from './payments';
+import { CreditNote, Invoice, Payment } from './types';
+
+const TAX_RATES = { itbisRate: 18, reducedItbisRate: 16 };
+
+// 10,000 + 18% ITBIS = 11,800.
+const invoice: Invoice = {
+    id: 'inv',
+    clientId: 'c1',
+    invoiceNumber: 'FAC-0001',
+    issueDate: '2026-03-01',
+    dueDate: '2026-03-31',
+    items: [{ id: 'l1', description: 'Instalación', quantity: 1, unitPrice: 10000, taxType: 'Gravado' }],
+    status: 'Enviada',
+    ncf: 'B0100000001',
+    ncfType: 'B01',
+    taxRates: TAX_RATES,
+};
+
+const payment = (id: string, amount: number, date = '2026-03-10'): Payment =>
+    ({ id, invoiceId: 'inv', date, amount, method: 'Transferencia', createdAt: `${date}T12:00:00.000Z` });
+
+// Credits 1,000 + ITBIS = 1,180.
+const creditNote = (refundAmount?: number): CreditNote => ({
+    id: 'cn',
+    creditNoteNumber: 'NC-0001',
+    invoiceId: 'inv',
+    clientId: 'c1',
+    issueDate: '2026-03-15',
+    reason: 'Descuento',
+    items: [{ id: 'l1', description: 'Descuento', quantity: 1, unitPrice: 1000, taxType: 'Gravado' }],
+    taxRates: TAX_RATES,
+    ncf: 'B0400000001',
+    ncfType: 'B04',
+    refundAmount,
+    createdAt: '2026-03-15T12:00:00.000Z',
+});
+
+describe('getBalanceDue', () => {
+    it('subtracts partial payments, ignoring other invoices', () => {
+        const payments = [payment('p1', 5000), payment('p2', 1800), { ...payment('p3', 999), invoiceId: 'other' }];
+        expect(getAmountPaid('inv', payments)).toBe(6800);
+        expect(getBalanceDue(invoice, payments, [])).toBe(5000);
+    });
+
+    it('subtracts credit notes, but not the part refunded as money', () => {
+        expect(getBalanceDue(invoice, [], [creditNote()])).toBe(10620);
+        expect(getBalanceDue(invoice, [payment('p1', 11800)], [creditNote(1180)])).toBe(0);
+    });
+
+    it('never goes below zero and is zero for voided invoices', () => {
+        expect(getBalanceDue(invoice, [payment('p1', 12000)], [])).toBe(0);
+        expect(getBalanceDue({ ...invoice, status: 'Anulada' }, [], [])).toBe(0);
+    });
+});
+
+describe('deriveInvoiceStatus', () => {
+    it('is sent before any payment and partial after one', () => {
+        expect(deriveInvoiceStatus(invoice, [], [], '2026-03-20')).toBe('Enviada');
+        expect(deriveInvoiceStatus(invoice, [payment('p1', 5000)], [], '2026-03-20')).toBe('Parcial');
+    });
+
+    it('is paid once payments and credit notes settle the total', () => {
+        expect(deriveInvoiceStatus(invoice, [payment('p1', 10620)], [creditNote()], '2026-04-20')).toBe('Pagada');
+    });
+
+    it('is paid when a credit note alone settles the total', () => {
+        const fullCredit = { ...creditNote(), items: invoice.items };
+        expect(deriveInvoiceStatus(invoice, [], [fullCredit], '2026-03-20')).toBe('Pagada');
+    });
+
+    it('is overdue after the due date while a balance remains, paid or not', () => {
+        expect(deriveInvoiceStatus(invoice, [], [], '2026-03-31')).toBe('Enviada');
+        expect(deriveInvoiceStatus(invoice, [], [], '2026-04-01')).toBe('Vencida');
+        expect(deriveInvoiceStatus(invoice, [payment('p1', 5000)], [], '2026-04-01')).toBe('Vencida');
+    });
+
+    it('leaves drafts and voided invoices alone', () => {
+        expect(deriveInvoiceStatus({ ...invoice, status: 'Borrador' }, [payment('p1', 11800)], [], '2026-03-20')).toBe('Borrador');
+        expect(deriveInvoiceStatus({ ...invoice, status: 'Anulada' }, [], [], '2026-04-20')).toBe('Anulada');
+    });
+});
@@ -0,0 +1,37 @@
+import { CreditNote, Invoice, Payment } from './types';
+import { calculateInvoiceTotals } from './tax';
+import { roundCurrency, todayIso } from './utils';
+
+// Payment ledger: what each invoice has received and been credited, its balance, and the status derived from both.
+
+export const getInvoicePayments = (invoiceId: string, payments: Payment[]) =>
+    payments.filter(p => p.invoiceId === invoiceId).sort((a, b) => a.date.localeCompare(b.date));
+
+export const getAmountPaid = (invoiceId: string, payments: Payment[]) =>
+    roundCurrency(payments.filter(p => p.invoiceId === invoiceId).reduce((sum, p) => sum + p.amount, 0));
+
+export const getInvoiceCreditNotes = (invoiceId: string, creditNotes: CreditNote[]) =>
+    creditNotes.filter(cn => cn.invoiceId === invoiceId).sort((a, b) => a.issueDate.localeCompare(b.issueDate));
+
+export const getAmountCredited = (invoiceId: string, creditNotes: CreditNote[]) =>
+    roundCurrency(getInvoiceCreditNotes(invoiceId, creditNotes).reduce((sum, cn) => sum + calculateInvoiceTotals(cn).total, 0));
+
+export const getAmountRefunded = (invoiceId: string, creditNotes: CreditNote[]) =>
+    roundCurrency(getInvoiceCreditNotes(invoiceId, creditNotes).reduce((sum, cn) => sum + (cn.refundAmount || 0), 0));
+
+// Credit notes reduce what is owed; any part of a credit returned to the client as money does not.
+export const getBalanceDue = (invoice: Invoice, payments: Payment[], creditNotes: CreditNote[]) => {
+    if (invoice.status === 'Anulada') return 0;
+    const settled = getAmountPaid(invoice.id, payments) + getAmountCredited(invoice.id, creditNotes) - getAmountRefunded(invoice.id, creditNotes);
+    return Math.max(0, roundCurrency(calculateInvoiceTotals(invoice).total - settled));
+};
+
+// Status is derived from the payment ledger and the due date; drafts and voided invoices are never touched.
+export const deriveInvoiceStatus = (invoice: Invoice, payments: Payment[], creditNotes: CreditNote[], today = todayIso()): Invoice['status'] => {
+    if (invoice.status === 'Borrador' || invoice.status === 'Anulada') return invoice.status;
+    const paid = getAmountPaid(invoice.id, payments);
+    const settled = paid > 0 || getAmountCredited(invoice.id, creditNotes) > 0;
+    if (settled && getBalanceDue(invoice, payments, creditNotes) === 0) return 'Pagada';
+    if (invoice.dueDate < today) return 'Vencida';
+    return paid > 0 ? 'Parcial' : 'Enviada';
+};
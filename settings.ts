@@ -0,0 +1,44 @@
+import { AppSettings, DocumentSeries } from './types';
+
+// Application settings as first stored, before the user changes anything.
+export const DEFAULT_SETTINGS: AppSettings = {
+    businessInfo: { name: 'Tu Negocio HVAC', address: 'Tu Dirección', phone: 'Tu Teléfono', email: 'tu@email.com', taxId: 'Tu RNC', logo: null, signature: null },
+    invoiceSettings: { template: 'default', accentColor: '#3B82F6' },
+    taxSettings: { itbisRate: 18, reducedItbisRate: 16 },
+    ncfSettings: { remainingWarningThreshold: 25, expirationWarningDays: 30 },
+    ecfSettings: { environment: 'testecf' },
+    dunningSettings: {
+        stages: [
+            { id: 'stage-1', daysOverdue: 1, name: 'Recordatorio', message: 'Estimado(a) {cliente}, le recordamos que la factura {factura} por {monto} venció el {vencimiento}. Si ya realizó el pago, por favor ignore este mensaje. Gracias, {negocio}.' },
+            { id: 'stage-2', daysOverdue: 15, name: 'Segundo aviso', message: 'Estimado(a) {cliente}, la factura {factura} por {monto} tiene {dias} días de vencida. Le agradecemos realizar el pago a la mayor brevedad o contactarnos para coordinarlo. {negocio}.' },
+            { id: 'stage-3', daysOverdue: 30, name: 'Aviso final', message: 'Estimado(a) {cliente}, la factura {factura} por {monto} tiene {dias} días de vencida. De no recibir el pago, nos veremos obligados a suspender los servicios. Por favor contáctenos. {negocio}.' },
+        ],
+    },
+    maintenanceSettings: { residentialIntervalMonths: 6, commercialIntervalMonths: 3, upcomingDays: 15 },
+    inventorySettings: { costingMethod: 'average' },
+    numberingSettings: {
+        invoice: { prefix: 'INV', includeYear: false, padding: 4, yearlyReset: false },
+        creditNote: { prefix: 'NC', includeYear: false, padding: 4, yearlyReset: false },
+        quote: { prefix: 'COT', includeYear: false, padding: 4, yearlyReset: false },
+        workOrder: { prefix: 'OT', includeYear: false, padding: 4, yearlyReset: false },
+        purchaseOrder: { prefix: 'OC', includeYear: false, padding: 4, yearlyReset: false },
+        contract: { prefix: 'CON', includeYear: false, padding: 4, yearlyReset: false },
+    },
+    backupSettings: { reminderDays: 0 },
+};
+
+// Settings saved by older versions lack the newer sections, so fill them in from the defaults. Applied once, by the
+// storage migrations; a section added later needs its own migration step.
+export const normalizeSettings = (stored: Partial<AppSettings>): AppSettings => ({
+    businessInfo: { ...DEFAULT_SETTINGS.businessInfo, ...stored.businessInfo },
+    invoiceSettings: { ...DEFAULT_SETTINGS.invoiceSettings, ...stored.invoiceSettings },
+    taxSettings: { ...DEFAULT_SETTINGS.taxSettings, ...stored.taxSettings },
+    ncfSettings: { ...DEFAULT_SETTINGS.ncfSettings, ...stored.ncfSettings },
+    ecfSettings: { ...DEFAULT_SETTINGS.ecfSettings, ...stored.ecfSettings },
+    dunningSettings: stored.dunningSettings || DEFAULT_SETTINGS.dunningSettings,
+    maintenanceSettings: { ...DEFAULT_SETTINGS.maintenanceSettings, ...stored.maintenanceSettings },
+    inventorySettings: { ...DEFAULT_SETTINGS.inventorySettings, ...stored.inventorySettings },
+    numberingSettings: Object.fromEntries((Object.keys(DEFAULT_SETTINGS.numberingSettings) as DocumentSeries[])
+        .map(series => [series, { ...DEFAULT_SETTINGS.numberingSettings[series], ...stored.numberingSettings?.[series] }])) as AppSettings['numberingSettings'],
+    backupSettings: { ...DEFAULT_SETTINGS.backupSettings, ...stored.backupSettings },
+});
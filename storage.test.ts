@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from './settings';
+import { SCHEMA_VERSION, runMigrations } from './storage';
+
+const invoice = (id: string, status: string) => ({
+    id,
+    clientId: 'c1',
+    invoiceNumber: `INV-${id}`,
+    issueDate: '2025-06-10',
+    dueDate: '2025-07-10',
+    items: [{ id: 'l1', description: 'Instalación', quantity: 2, unitPrice: 1500, taxType: 'Gravado' }],
+    status,
+    taxRates: { itbisRate: 18, reducedItbisRate: 16 },
+});
+
+describe('runMigrations', () => {
+    it('fills in the settings sections older versions did not have', () => {
+        const businessInfo = { ...DEFAULT_SETTINGS.businessInfo, name: 'Frío Total' };
+        const migrated = runMigrations({ settings: { businessInfo, numberingSettings: { invoice: { prefix: 'FT' } } } }, 1);
+        expect(migrated.settings).toEqual({
+            ...DEFAULT_SETTINGS,
+            businessInfo,
+            numberingSettings: { ...DEFAULT_SETTINGS.numberingSettings, invoice: { ...DEFAULT_SETTINGS.numberingSettings.invoice, prefix: 'FT' } },
+        });
+    });
+
+    it('records one full payment for paid invoices without payments', () => {
+        const existing = { id: 'p1', invoiceId: 'b', date: '2025-06-20', amount: 100, method: 'Tarjeta', createdAt: '2025-06-20T12:00:00.000Z' };
+        const migrated = runMigrations({ invoices: [invoice('a', 'Pagada'), invoice('b', 'Pagada'), invoice('c', 'Enviada')], payments: [existing] }, 1);
+        expect(migrated.payments).toEqual([
+            existing,
+            expect.objectContaining({ invoiceId: 'a', date: '2025-06-10', amount: 3540, method: 'Efectivo', reference: 'Registro anterior' }),
+        ]);
+    });
+
+    it('leaves data without settings or paid invoices as it was', () => {
+        const data = { invoices: [invoice('a', 'Enviada')] };
+        expect(runMigrations(data, 0)).toEqual(data);
+    });
+
+    it('skips steps that were already applied', () => {
+        const data = { settings: { businessInfo: DEFAULT_SETTINGS.businessInfo }, invoices: [invoice('a', 'Pagada')] };
+        expect(runMigrations(data, SCHEMA_VERSION)).toBe(data);
+    });
+});
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import { AppSettings, Invoice, Payment } from './types';
+import { normalizeSettings } from './settings';
+import { calculateInvoiceTotals } from './tax';
+import { generateId } from './utils';
+
+// Persistent storage on IndexedDB. Every collection is a single record in the `collections` store, keyed by the same
+// names the app used in localStorage. Records are loaded into memory once at startup so pages can read them synchronously.
+
+const DB_NAME = 'facturahvac';
+const DB_VERSION = 1;
+const COLLECTIONS_STORE = 'collections';
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// Keys written by earlier versions to localStorage; they are copied into IndexedDB the first time the app starts.
+export const STORAGE_KEYS = [
+    'clients', 'invoices', 'inventory', 'expenses', 'services', 'ncfSequences', 'payments', 'reminders', 'quotes',
+    'creditNotes', 'contracts', 'equipment', 'maintenanceVisits', 'technicians', 'workOrders', 'stockMovements',
+    'suppliers', 'purchaseOrders', 'settings',
+];
+
+// Kept on this device only: left out of backups and untouched by a restore.
+const DEVICE_KEYS = ['lastBackupAt'];
+
+export type StoredData = Record<string, unknown>;
+
+interface Migration {
+    version: number;
+    description: string;
+    migrate: (data: StoredData) => StoredData;
+}
+
+// Ordered data migrations. Add a step with the next version number whenever the shape of a stored collection changes;
+// each step receives every collection and returns them transformed. Steps already applied are never run again.
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Estructura inicial importada de localStorage',
+        migrate: data => data,
+    },
+    {
+        version: 2,
+        description: 'Configuración completada con los valores por defecto y pagos de las facturas pagadas sin registro de pagos',
+        migrate: data => {
+            const invoices = (data.invoices || []) as Invoice[];
+            const payments = (data.payments || []) as Payment[];
+            // Invoices marked as paid before the payment ledger existed get a single payment for their full total.
+            const unrecorded = invoices.filter(inv => inv.status === 'Pagada' && !payments.some(p => p.invoiceId === inv.id));
+            const migrated: StoredData = { ...data };
+            if (data.settings) migrated.settings = normalizeSettings(data.settings as Partial<AppSettings>);
+            if (unrecorded.length > 0) {
+                migrated.payments = [...payments, ...unrecorded.map((inv): Payment => ({
+                    id: generateId(),
+                    invoiceId: inv.id,
+                    date: inv.issueDate,
+                    amount: calculateInvoiceTotals(inv).total,
+                    method: 'Efectivo',
+                    reference: 'Registro anterior',
+                    createdAt: new Date().toISOString(),
+                }))];
+            }
+            return migrated;
+        },
+    },
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const cache = new Map<string, unknown>();
+let db: IDBDatabase | null = null;
+
+const requestToPromise = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (transaction: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const database = request.result;
+        if (!database.objectStoreNames.contains(COLLECTIONS_STORE)) database.createObjectStore(COLLECTIONS_STORE);
+        if (!database.objectStoreNames.contains(META_STORE)) database.createObjectStore(META_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const readLocalStorage = (): StoredData => {
+    const data: StoredData = {};
+    STORAGE_KEYS.forEach(key => {
+        const item = window.localStorage.getItem(key);
+        if (item === null) return;
+        try {
+            data[key] = JSON.parse(item);
+        } catch (error) {
+            console.error(`No se pudo importar "${key}" de localStorage`, error);
+        }
+    });
+    return data;
+};
+
+export const runMigrations = (data: StoredData, fromVersion: number) => MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((migrated, migration) => migration.migrate(migrated), data);
+
+// Writes all collections and the schema version in one transaction, so a failed upgrade leaves the old data intact.
+const writeAll = async (database: IDBDatabase, data: StoredData, version: number, replace: boolean) => {
+    const transaction = database.transaction([COLLECTIONS_STORE, META_STORE], 'readwrite');
+    const collections = transaction.objectStore(COLLECTIONS_STORE);
+    if (replace) collections.clear();
+    Object.entries(data).forEach(([key, value]) => collections.put(value, key));
+    transaction.objectStore(META_STORE).put(version, SCHEMA_VERSION_KEY);
+    await transactionDone(transaction);
+};
+
+// Opens the database, imports localStorage on first run, applies pending migrations and fills the in-memory cache.
+// Must finish before the app renders.
+export const initStorage = async () => {
+    const database = await openDatabase();
+    const storedVersion = await requestToPromise(database.transaction(META_STORE).objectStore(META_STORE).get(SCHEMA_VERSION_KEY)) as number | undefined;
+
+    let data: StoredData;
+    if (storedVersion === undefined) {
+        // localStorage is left as it was, so the previous version of the app still works if someone goes back to it.
+        data = runMigrations(readLocalStorage(), 0);
+        await writeAll(database, data, SCHEMA_VERSION, true);
+    } else {
+        const store = database.transaction(COLLECTIONS_STORE).objectStore(COLLECTIONS_STORE);
+        const [keys, values] = await Promise.all([requestToPromise(store.getAllKeys()), requestToPromise(store.getAll())]);
+        data = Object.fromEntries(keys.map((key, i) => [String(key), values[i]]));
+        if (storedVersion < SCHEMA_VERSION) {
+            data = runMigrations(data, storedVersion);
+            await writeAll(database, data, SCHEMA_VERSION, true);
+        } else if (storedVersion > SCHEMA_VERSION) {
+            throw new Error('Los datos fueron guardados por una versión más reciente de la aplicación.');
+        }
+    }
+
+    cache.clear();
+    Object.entries(data).forEach(([key, value]) => cache.set(key, value));
+    db = database;
+};
+
+export const getAllData = (): StoredData => Object.fromEntries(Array.from(cache.entries()).filter(([key]) => !DEVICE_KEYS.includes(key)));
+
+// Replaces every stored collection with `data`. The page has to be reloaded afterwards so the hooks pick up the new values.
+export const restoreData = async (data: StoredData) => {
+    if (!db) throw new Error('El almacenamiento no está disponible.');
+    const next: StoredData = { ...data };
+    DEVICE_KEYS.filter(key => cache.has(key)).forEach(key => { next[key] = cache.get(key); });
+    await writeAll(db, next, SCHEMA_VERSION, true);
+    cache.clear();
+    Object.entries(next).forEach(([key, value]) => cache.set(key, value));
+};
+
+const saveRecord = (key: string, value: unknown) => {
+    if (!db) return;
+    const transaction = db.transaction(COLLECTIONS_STORE, 'readwrite');
+    transaction.objectStore(COLLECTIONS_STORE).put(value, key);
+    transactionDone(transaction).catch(error => {
+        console.error(error);
+        alert(`No se pudieron guardar los datos (${key}). Verifique el espacio disponible en el navegador.`);
+    });
+};
+
+export const getStoredValue = <T,>(key: string, fallback: T) => (cache.has(key) ? cache.get(key) as T : fallback);
+
+// Adds items to a stored list without going through React state, so several updates in the same event all land.
+export const appendToStoredList = <T,>(key: string, items: T[]) => {
+    const next = [...getStoredValue<T[]>(key, []), ...items];
+    cache.set(key, next);
+    saveRecord(key, next);
+};
+
+// Same contract as the old localStorage hook: the value is available synchronously and every update is persisted.
+// Functional updates receive the value as last stored, not the one this render saw, so updates made one after another
+// (or by an effect that runs twice) build on each other. `onChange` receives the value as last stored and the new one,
+// before the new one is saved.
+export function usePersistentState<T,>(key: string, initialValue: T, onChange?: (previous: T, next: T) => void): [T, React.Dispatch<React.SetStateAction<T>>] {
+    const [storedValue, setStoredValue] = useState<T>(() => (cache.has(key) ? cache.get(key) as T : initialValue));
+
+    const setValue = (value: T | ((val: T) => T)) => {
+        const previous = getStoredValue(key, storedValue);
+        const valueToStore = value instanceof Function ? value(previous) : value;
+        if (onChange && previous !== valueToStore) onChange(previous, valueToStore);
+        setStoredValue(valueToStore);
+        cache.set(key, valueToStore);
+        saveRecord(key, valueToStore);
+    };
+
+    return [storedValue, setValue];
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { NO_TAX_RATES, calculateInvoiceTotals, getItemTax } from './tax';
+import { InvoiceItem, TaxSettings } from './types';
+
+const RATES: TaxSettings = { itbisRate: 18, reducedItbisRate: 16 };
+
+const line = (quantity: number, unitPrice: number, taxType?: InvoiceItem['taxType']): InvoiceItem =>
+    ({ id: `${quantity}-${unitPrice}-${taxType}`, description: 'Línea', quantity, unitPrice, taxType });
+
+describe('getItemTax', () => {
+    it('applies the general rate to taxed lines and to lines saved without a tax type', () => {
+        expect(getItemTax(line(2, 1500, 'Gravado'), RATES)).toBe(540);
+        expect(getItemTax(line(2, 1500), RATES)).toBe(540);
+    });
+
+    it('applies the reduced rate and exempts exempt lines', () => {
+        expect(getItemTax(line(1, 1000, 'Reducido'), RATES)).toBe(160);
+        expect(getItemTax(line(3, 1000, 'Exento'), RATES)).toBe(0);
+    });
+
+    it('rounds each line to cents', () => {
+        expect(getItemTax(line(1, 10.99), RATES)).toBe(1.98);
+    });
+});
+
+describe('calculateInvoiceTotals', () => {
+    it('splits the base and the ITBIS by rate', () => {
+        const totals = calculateInvoiceTotals({ items: [line(2, 1500, 'Gravado'), line(1, 1000, 'Reducido'), line(1, 750, 'Exento')], taxRates: RATES });
+        expect(totals).toEqual({
+            subtotal: 4750,
+            taxedAmount: 3000,
+            reducedTaxedAmount: 1000,
+            exemptAmount: 750,
+            itbis: 540,
+            reducedItbis: 160,
+            totalItbis: 700,
+            total: 5450,
+        });
+    });
+
+    it('adds up rounded line taxes, not the tax of the rounded base', () => {
+        // 18% of the 0.09 base would be 0.02, but each line's 0.0054 rounds up to 0.01.
+        const totals = calculateInvoiceTotals({ items: [line(1, 0.03), line(1, 0.03), line(1, 0.03)], taxRates: RATES });
+        expect(totals.itbis).toBe(0.03);
+        expect(totals.total).toBe(0.12);
+    });
+
+    it('keeps legacy invoices without rates tax-free', () => {
+        const items = [line(2, 1500, 'Gravado'), line(1, 1000, 'Reducido')];
+        const legacy = calculateInvoiceTotals({ items });
+        expect(legacy).toEqual(calculateInvoiceTotals({ items, taxRates: NO_TAX_RATES }));
+        expect(legacy).toMatchObject({ taxedAmount: 3000, reducedTaxedAmount: 1000, totalItbis: 0, total: 4000 });
+    });
+
+    it('returns zeros for a document without lines', () => {
+        expect(calculateInvoiceTotals({ items: [], taxRates: RATES }).total).toBe(0);
+    });
+});
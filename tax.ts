@@ -0,0 +1,66 @@
+import { InvoiceItem, TaxSettings } from './types';
+import { roundCurrency } from './utils';
+
+// ITBIS engine: line taxability, the general and reduced rates, and document totals. Every fiscal total (invoices,
+// quotes, credit notes, the 607 and the e-CF) is computed here.
+
+// Invoices saved before ITBIS was introduced carry no rates: they were issued without tax and must keep their totals.
+export const NO_TAX_RATES: TaxSettings = { itbisRate: 0, reducedItbisRate: 0 };
+
+export const getItemTaxRate = (item: InvoiceItem, rates: TaxSettings) => {
+    switch (item.taxType || 'Gravado') {
+        case 'Exento':
+            return 0;
+        case 'Reducido':
+            return rates.reducedItbisRate;
+        default:
+            return rates.itbisRate;
+    }
+};
+
+export const getItemTax = (item: InvoiceItem, rates: TaxSettings) => roundCurrency(item.quantity * item.unitPrice * getItemTaxRate(item, rates) / 100);
+
+export interface InvoiceTotals {
+    subtotal: number;
+    taxedAmount: number;
+    reducedTaxedAmount: number;
+    exemptAmount: number;
+    itbis: number;
+    reducedItbis: number;
+    totalItbis: number;
+    total: number;
+}
+
+export const calculateInvoiceTotals = (doc: { items: InvoiceItem[]; taxRates?: TaxSettings }): InvoiceTotals => {
+    const rates = doc.taxRates || NO_TAX_RATES;
+    const totals = doc.items.reduce((acc, item) => {
+        const lineAmount = item.quantity * item.unitPrice;
+        const lineTax = getItemTax(item, rates);
+        switch (item.taxType || 'Gravado') {
+            case 'Exento':
+                acc.exemptAmount += lineAmount;
+                break;
+            case 'Reducido':
+                acc.reducedTaxedAmount += lineAmount;
+                acc.reducedItbis += lineTax;
+                break;
+            default:
+                acc.taxedAmount += lineAmount;
+                acc.itbis += lineTax;
+        }
+        return acc;
+    }, { taxedAmount: 0, reducedTaxedAmount: 0, exemptAmount: 0, itbis: 0, reducedItbis: 0 });
+
+    const subtotal = roundCurrency(totals.taxedAmount + totals.reducedTaxedAmount + totals.exemptAmount);
+    const totalItbis = roundCurrency(totals.itbis + totals.reducedItbis);
+    return {
+        subtotal,
+        taxedAmount: roundCurrency(totals.taxedAmount),
+        reducedTaxedAmount: roundCurrency(totals.reducedTaxedAmount),
+        exemptAmount: roundCurrency(totals.exemptAmount),
+        itbis: roundCurrency(totals.itbis),
+        reducedItbis: roundCurrency(totals.reducedItbis),
+        totalItbis,
+        total: roundCurrency(subtotal + totalItbis),
+    };
+};
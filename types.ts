@@ -1,3 +1,5 @@
+export type NcfType = 'B01' | 'B02' | 'B04' | 'B14' | 'B15';
+
 export interface Client {
   id: string;
   name: string;
@@ -6,6 +8,15 @@ export interface Client {
   email: string;
   createdAt: string;
   type: 'Residencial' | 'Comercial';
+  taxId?: string;
+  ncfType?: NcfType;
+}
+
+export type TaxType = 'Gravado' | 'Reducido' | 'Exento';
+
+export interface TaxSettings {
+  itbisRate: number;
+  reducedItbisRate: number;
 }
 
 export interface InvoiceItem {
@@ -13,8 +24,23 @@ export interface InvoiceItem {
   description: string;
   quantity: number;
   unitPrice: number;
+  taxType?: TaxType;
   isMaintenance?: boolean;
   isNewEquipment?: boolean;
+  equipmentId?: string;
+  serviceId?: string;
+  inventoryItemId?: string;
+  // Cost of goods for one unit of the line, captured from inventory when the invoice is issued.
+  unitCost?: number;
+}
+
+export interface EcfSignature {
+  eNcf: string;
+  eNcfExpirationDate?: string;
+  securityCode: string;
+  signedAt: string;
+  qrUrl: string;
+  signedXml: string;
 }
 
 export interface Invoice {
@@ -25,25 +51,303 @@ export interface Invoice {
   dueDate: string;
   items: InvoiceItem[];
   notes?: string;
-  status: 'Borrador' | 'Enviada' | 'Pagada' | 'Vencida';
+  status: 'Borrador' | 'Enviada' | 'Parcial' | 'Pagada' | 'Vencida' | 'Anulada';
+  ncf?: string;
+  ncfType?: NcfType;
+  ncfExpirationDate?: string;
+  taxRates?: TaxSettings;
+  ecf?: EcfSignature;
+  quoteId?: string;
+  contractId?: string;
+  workOrderId?: string;
+  voidedAt?: string;
+  voidReasonCode?: VoidReasonCode;
+  voidReason?: string;
   lastMaintenanceDate?: string;
   nextMaintenanceDate?: string;
 }
 
+export interface CreditNote {
+  id: string;
+  creditNoteNumber: string;
+  invoiceId: string;
+  clientId: string;
+  issueDate: string;
+  reason: string;
+  items: InvoiceItem[];
+  taxRates?: TaxSettings;
+  ncf: string;
+  ncfType: NcfType;
+  ncfExpirationDate?: string;
+  refundAmount?: number;
+  refundMethod?: PaymentMethod;
+  createdAt: string;
+}
+
+export type CapacityUnit = 'BTU' | 'Toneladas';
+
+export interface Equipment {
+  id: string;
+  clientId: string;
+  brand: string;
+  model: string;
+  serialNumber: string;
+  capacity: number;
+  capacityUnit: CapacityUnit;
+  refrigerant: string;
+  location: string;
+  installDate?: string;
+  warrantyStart?: string;
+  warrantyEnd?: string;
+  warrantyInvoiceId?: string;
+  maintenanceIntervalMonths?: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export type MaintenanceVisitStatus = 'Pendiente' | 'Programada' | 'Realizada' | 'Rechazada';
+
+export interface MaintenanceVisit {
+  id: string;
+  clientId: string;
+  equipmentId?: string;
+  serviceId?: string;
+  dueDate: string;
+  scheduledDate?: string;
+  status: MaintenanceVisitStatus;
+  completedDate?: string;
+  sourceInvoiceId?: string;
+  invoiceId?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface Technician {
+  id: string;
+  name: string;
+  phone: string;
+  hourlyRate: number;
+  active: boolean;
+}
+
+export type WorkOrderStatus = 'Pendiente' | 'En progreso' | 'Completada' | 'Facturada';
+
+export type WorkOrderJobType = 'Mantenimiento' | 'Reparación' | 'Instalación' | 'Diagnóstico';
+
+export interface WorkOrderMaterial {
+  id: string;
+  inventoryItemId?: string;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface WorkOrderLabor {
+  id: string;
+  description: string;
+  hours: number;
+  rate: number;
+}
+
+export interface WorkOrder {
+  id: string;
+  workOrderNumber: string;
+  clientId: string;
+  site: string;
+  equipmentId?: string;
+  serviceId?: string;
+  technicianId?: string;
+  jobType: WorkOrderJobType;
+  scheduledStart: string;
+  estimatedHours: number;
+  description: string;
+  status: WorkOrderStatus;
+  materials: WorkOrderMaterial[];
+  labor: WorkOrderLabor[];
+  notes?: string;
+  startedAt?: string;
+  completedAt?: string;
+  invoiceId?: string;
+  createdAt: string;
+}
+
+export type BillingFrequency = 'Mensual' | 'Trimestral' | 'Semestral' | 'Anual';
+
+export interface ServiceContract {
+  id: string;
+  contractNumber: string;
+  clientId: string;
+  serviceIds: string[];
+  frequency: BillingFrequency;
+  startDate: string;
+  endDate?: string;
+  price: number;
+  status: 'Activo' | 'Pausado' | 'Finalizado';
+  billedPeriods: number;
+  notes?: string;
+  createdAt: string;
+}
+
+export type QuoteStatus = 'Borrador' | 'Enviada' | 'Aceptada' | 'Rechazada' | 'Vencida';
+
+export interface Quote {
+  id: string;
+  clientId: string;
+  quoteNumber: string;
+  issueDate: string;
+  validUntil: string;
+  items: InvoiceItem[];
+  notes?: string;
+  status: QuoteStatus;
+  taxRates?: TaxSettings;
+  invoiceId?: string;
+}
+
+// DGII 608 cancellation reasons.
+export type VoidReasonCode = '01' | '02' | '03' | '04' | '05' | '06' | '07' | '08' | '09' | '10';
+
+export type PaymentMethod = 'Efectivo' | 'Transferencia' | 'Tarjeta' | 'Cheque';
+
+export interface Payment {
+  id: string;
+  invoiceId: string;
+  date: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  createdAt: string;
+}
+
+export interface DunningStage {
+  id: string;
+  daysOverdue: number;
+  name: string;
+  message: string;
+}
+
+export type ReminderChannel = 'Correo' | 'WhatsApp' | 'Llamada' | 'Otro';
+
+export interface ReminderLog {
+  id: string;
+  invoiceId: string;
+  clientId: string;
+  stageId: string;
+  stageName: string;
+  channel: ReminderChannel;
+  message: string;
+  sentAt: string;
+}
+
+export interface NcfSequence {
+  id: string;
+  type: NcfType;
+  startNumber: number;
+  endNumber: number;
+  nextNumber: number;
+  expirationDate?: string;
+  createdAt: string;
+}
+
+// e-CF types by their DGII code: 31 crédito fiscal, 32 consumo, 34 nota de crédito, 44 regímenes especiales, 45 gubernamental.
+export type EcfType = '31' | '32' | '34' | '44' | '45';
+
+// e-NCF range authorized by DGII for electronic invoicing, numbered separately from the B-series NCFs.
+export interface EcfSequence extends Omit<NcfSequence, 'type'> {
+  type: EcfType;
+}
+
 export interface InventoryItem {
   id: string;
   name: string;
   description: string;
   quantity: number;
   unitPrice: number;
+  // Current cost per unit under the configured costing method; `unitPrice` is the sale price.
+  unitCost?: number;
+  reorderPoint?: number;
+  reorderQuantity?: number;
+}
+
+export type StockMovementReason = 'Inventario inicial' | 'Ajuste manual' | 'Factura emitida' | 'Factura modificada' | 'Factura anulada' | 'Compra recibida';
+
+export interface StockMovement {
+  id: string;
+  inventoryItemId: string;
+  date: string;
+  quantity: number;
+  reason: StockMovementReason;
+  sourceType?: 'invoice' | 'purchaseOrder';
+  sourceId?: string;
+  sourceNumber?: string;
+  unitCost?: number;
+  balanceAfter: number;
+  createdAt: string;
 }
 
+export interface Supplier {
+  id: string;
+  name: string;
+  taxId?: string;
+  contactName?: string;
+  phone: string;
+  email: string;
+  address?: string;
+}
+
+export type PurchaseOrderStatus = 'Borrador' | 'Enviada' | 'Parcial' | 'Recibida' | 'Cancelada';
+
+export interface PurchaseOrderLine {
+  id: string;
+  inventoryItemId: string;
+  quantity: number;
+  unitCost: number;
+  receivedQuantity: number;
+}
+
+export interface PurchaseReceipt {
+  id: string;
+  date: string;
+  lines: { lineId: string; quantity: number }[];
+  supplierNcf?: string;
+  expenseId?: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  purchaseOrderNumber: string;
+  supplierId: string;
+  orderDate: string;
+  expectedDate?: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  receipts: PurchaseReceipt[];
+  notes?: string;
+  createdAt: string;
+}
+
+export type ExpensePaymentMethod = 'Efectivo' | 'Cheque/Transferencia' | 'Tarjeta' | 'Crédito' | 'Permuta' | 'Nota de Crédito' | 'Mixto';
+
+// DGII 606 "tipo de bienes y servicios comprados" codes.
+export type DgiiExpenseType = '01' | '02' | '03' | '04' | '05' | '06' | '07' | '08' | '09' | '10' | '11';
+
 export interface Expense {
   id: string;
   description: string;
   amount: number;
   date: string;
   category: 'Materiales' | 'Combustible' | 'Herramientas' | 'Marketing' | 'Otro';
+  supplierName?: string;
+  supplierTaxId?: string;
+  supplierNcf?: string;
+  supplyType?: 'Bienes' | 'Servicios';
+  dgiiExpenseType?: DgiiExpenseType;
+  itbisPaid?: number;
+  itbisWithheld?: number;
+  isrWithheld?: number;
+  isrWithholdingType?: string;
+  paymentMethod?: ExpensePaymentMethod;
+  paymentDate?: string;
+  purchaseOrderId?: string;
 }
 
 export interface ServiceItem {
@@ -58,6 +362,27 @@ export interface Service {
   items: ServiceItem[];
   laborCost: number;
   totalPrice: number;
+  maintenanceIntervalMonths?: number;
+}
+
+export type CostingMethod = 'average' | 'fifo';
+
+export type DocumentSeries = 'invoice' | 'creditNote' | 'quote' | 'workOrder' | 'purchaseOrder' | 'contract';
+
+export interface DocumentNumberFormat {
+  prefix: string;
+  includeYear: boolean;
+  padding: number;
+  // Starts again at 1 every year; the year is then always part of the number.
+  yearlyReset: boolean;
+}
+
+// Last number handed out in a series. The id is the series, plus the year when the series resets yearly.
+export interface DocumentCounter {
+  id: string;
+  series: DocumentSeries;
+  year?: number;
+  lastNumber: number;
 }
 
 export interface AppSettings {
@@ -74,4 +399,53 @@ export interface AppSettings {
     template: 'default' | 'pos' | 'modern' | 'classic' | 'elegant';
     accentColor: string;
   };
+  taxSettings: TaxSettings;
+  ncfSettings: {
+    remainingWarningThreshold: number;
+    expirationWarningDays: number;
+  };
+  ecfSettings: {
+    environment: 'testecf' | 'certecf' | 'ecf';
+  };
+  dunningSettings: {
+    stages: DunningStage[];
+  };
+  maintenanceSettings: {
+    residentialIntervalMonths: number;
+    commercialIntervalMonths: number;
+    upcomingDays: number;
+  };
+  inventorySettings: {
+    costingMethod: CostingMethod;
+  };
+  numberingSettings: Record<DocumentSeries, DocumentNumberFormat>;
+  backupSettings: {
+    // 0 turns the reminder off.
+    reminderDays: number;
+  };
+}
+
+export type AuditEntityType = 'client' | 'invoice' | 'inventoryItem' | 'expense' | 'service' | 'ncfSequence' | 'ecfSequence' | 'payment' | 'quote' | 'creditNote'
+  | 'contract' | 'equipment' | 'maintenanceVisit' | 'technician' | 'workOrder' | 'supplier' | 'purchaseOrder' | 'reminder' | 'documentCounter'
+  | 'settings' | 'backup';
+
+// `restore` and `merge` record a backup being loaded; their changes hold the record count of each collection before and after.
+export type AuditAction = 'create' | 'update' | 'status' | 'delete' | 'restore' | 'merge';
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// One entry per record that was created, changed or deleted. Entries are only ever appended.
+export interface AuditEntry {
+  id: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  // Number or name of the record when the change was made, so deleted records can still be identified.
+  entityLabel: string;
+  action: AuditAction;
+  timestamp: string;
+  changes: AuditChange[];
 }
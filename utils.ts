@@ -0,0 +1,18 @@
+// Short random identifiers for stored records and audit entries.
+export const generateId = () => Math.random().toString(36).slice(2, 11);
+
+// Rounds to cents the way amounts are stored and reported.
+export const roundCurrency = (amount: number) => Math.round((amount + Number.EPSILON) * 100) / 100;
+
+// Dates are handled as ISO strings (YYYY-MM-DD).
+export const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString('es-ES', { year: 'numeric', month: 'long', day: 'numeric' });
+
+export const todayIso = () => new Date().toISOString().split('T')[0];
+
+export const daysBetween = (from: string, to: string) => Math.floor((new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000));
+
+export const addDays = (date: string, days: number) => {
+    const d = new Date(date);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+};